@@ -0,0 +1,307 @@
+// mock-server/FoxgloveServer.ts
+
+import { SchemaParser } from '@/core/codec/SchemaParser'
+import type { TopicSchema } from '@/core/types/common'
+import {
+  FOXGLOVE_SUBPROTOCOL,
+  FoxgloveCapability,
+  FoxglovePlaybackCommand,
+  FoxglovePlaybackStatus,
+  FoxgloveStatusLevel,
+  encodeMessageData,
+  encodePlaybackState,
+  encodeTime,
+  parsePlaybackControl,
+  secondsToTime,
+  type FoxgloveChannel,
+  type FoxgloveClientMessage,
+  type PlaybackControlFrame
+} from '@/drivers/foxglove/protocol'
+import type { MockFrame, PlaybackSource } from './PlaybackSource'
+import { WebSocketServer, type WebSocketConnection } from './WebSocketServer'
+
+export interface FoxgloveServerOptions {
+  port?: number
+  host?: string
+  playbackControl?: boolean  // 声明 playbackControl；关闭时模拟只能实时推送、循环播放的服务端
+}
+
+class FoxgloveSession {
+  subscriptions = new Map<number, number>() // subscriptionId -> channelId
+
+  constructor(public connection: WebSocketConnection, public id: number) {}
+}
+
+/**
+ * Foxglove WebSocket 协议的替身服务端 (foxglove.websocket.v1)
+ *
+ * 把回放数据源的 JSON Topic 作为 json 通道 advertise (附 JSON Schema)，按帧推送 time 与 messageData；
+ * 开启 playbackControl 时响应播放控制请求并回复 playbackState。
+ * 只用于联调与测试前端的 Foxglove 驱动，不覆盖协议的参数 / 服务 / 资源等部分
+ */
+export class FoxgloveServer {
+  private server = new WebSocketServer({ protocols: [FOXGLOVE_SUBPROTOCOL] })
+  private sessions = new Set<FoxgloveSession>()
+  private nextSessionId = 1
+  private channels: FoxgloveChannel[]
+  private schemasByChannel = new Map<number, { topicKey: string; schema: TopicSchema }>()
+
+  private options: Required<FoxgloveServerOptions>
+  private status = FoxglovePlaybackStatus.PAUSED
+  private currentIndex = 0
+  private speed = 1.0
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(private source: PlaybackSource, options: FoxgloveServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 8765,
+      host: options.host ?? '0.0.0.0',
+      playbackControl: options.playbackControl ?? true
+    }
+    this.channels = Object.entries(source.schemas).map(([topicKey, schema], i) => {
+      this.schemasByChannel.set(i + 1, { topicKey, schema })
+      return {
+        id: i + 1,
+        topic: topicKey,
+        encoding: 'json',
+        schemaName: schema.proto_type ?? topicKey,
+        schema: JSON.stringify(jsonSchemaOf(schema)),
+        schemaEncoding: 'jsonschema'
+      }
+    })
+    this.server.on('connection', (connection: WebSocketConnection) => this.handleConnection(connection))
+  }
+
+  async start() {
+    await this.server.listen(this.options.port, this.options.host)
+    console.log(`🦊 Foxglove stand-in server listening on ws://${this.options.host}:${this.options.port}`)
+    console.log(`   source: ${this.source.name}, ${this.channels.length} channels, playbackControl: ${this.options.playbackControl}`)
+    // 实时模式：没有客户端控制，始终循环播放
+    if (!this.options.playbackControl) {
+      this.status = FoxglovePlaybackStatus.PLAYING
+      this.scheduleNextFrame()
+    }
+  }
+
+  async stop() {
+    this.stopTimer()
+    for (const session of this.sessions) session.connection.close(1001, 'Server shutting down')
+    await this.server.close()
+  }
+
+  private handleConnection(connection: WebSocketConnection) {
+    const session = new FoxgloveSession(connection, this.nextSessionId++)
+    this.sessions.add(session)
+    console.log(`🔌 Foxglove client #${session.id} connected (${connection.remoteAddress})`)
+
+    connection.on('text', (text: string) => this.handleText(session, text))
+    connection.on('binary', (data: Buffer) => this.handleBinary(session, data))
+    connection.on('close', () => {
+      this.sessions.delete(session)
+      console.log(`👋 Foxglove client #${session.id} disconnected`)
+    })
+
+    const last = this.source.frameCount - 1
+    connection.sendJson({
+      op: 'serverInfo',
+      name: `mock-foxglove (${this.source.name})`,
+      capabilities: [
+        FoxgloveCapability.TIME,
+        ...(this.options.playbackControl ? [FoxgloveCapability.PLAYBACK_CONTROL] : [])
+      ],
+      supportedEncodings: ['json'],
+      metadata: {},
+      sessionId: String(session.id),
+      ...(this.options.playbackControl && {
+        dataStartTime: secondsToTime(this.source.timestampOf(0)),
+        dataEndTime: secondsToTime(this.source.timestampOf(last))
+      })
+    })
+    connection.sendJson({ op: 'advertise', channels: this.channels })
+    connection.sendBinary(encodeTime(this.source.timestampOf(this.currentIndex)))
+    if (this.options.playbackControl) connection.sendBinary(this.encodeState(false, null))
+  }
+
+  private handleText(session: FoxgloveSession, text: string) {
+    let message: FoxgloveClientMessage
+    try {
+      message = JSON.parse(text)
+    } catch {
+      this.sendStatus(session, FoxgloveStatusLevel.ERROR, 'Invalid JSON')
+      return
+    }
+
+    if (message.op === 'subscribe') {
+      for (const { id, channelId } of message.subscriptions) {
+        if (!this.schemasByChannel.has(channelId)) {
+          this.sendStatus(session, FoxgloveStatusLevel.WARNING, `Unknown channel ${channelId}`)
+          continue
+        }
+        session.subscriptions.set(id, channelId)
+      }
+      // 暂停时也给出当前帧，客户端订阅后立即有数据
+      if (this.status !== FoxglovePlaybackStatus.PLAYING) this.sendFrame(session, this.source.frame(this.currentIndex))
+    } else if (message.op === 'unsubscribe') {
+      message.subscriptionIds.forEach(id => session.subscriptions.delete(id))
+    } else {
+      this.sendStatus(session, FoxgloveStatusLevel.WARNING, `Unsupported operation: ${(message as any).op}`)
+    }
+  }
+
+  private handleBinary(session: FoxgloveSession, data: Buffer) {
+    if (!this.options.playbackControl) {
+      this.sendStatus(session, FoxgloveStatusLevel.ERROR, 'Playback control is not supported')
+      return
+    }
+    let request: PlaybackControlFrame
+    try {
+      request = parsePlaybackControl(new Uint8Array(data.buffer, data.byteOffset, data.byteLength))
+    } catch (error) {
+      this.sendStatus(session, FoxgloveStatusLevel.ERROR, error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    if (request.playbackSpeed > 0) this.speed = request.playbackSpeed
+    if (request.seekTime !== null) this.currentIndex = this.indexOfTime(request.seekTime)
+
+    const last = this.source.frameCount - 1
+    if (request.command === FoxglovePlaybackCommand.PLAY) {
+      if (this.currentIndex >= last) this.currentIndex = 0
+      this.status = FoxglovePlaybackStatus.PLAYING
+    } else {
+      this.status = this.currentIndex >= last ? FoxglovePlaybackStatus.ENDED : FoxglovePlaybackStatus.PAUSED
+    }
+
+    // 先告知跳转，再发送跳转时刻的消息 (客户端收到 didSeek 会丢弃旧时刻的缓存)
+    this.broadcastState(request.seekTime !== null, request.requestId)
+    if (request.seekTime !== null) this.broadcastFrame(this.source.frame(this.currentIndex))
+    this.scheduleNextFrame()
+  }
+
+  // ========== 播放节拍 ==========
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private scheduleNextFrame() {
+    this.stopTimer()
+    if (this.status !== FoxglovePlaybackStatus.PLAYING) return
+
+    let next = this.currentIndex + 1
+    if (next >= this.source.frameCount) {
+      if (this.options.playbackControl) {
+        this.status = FoxglovePlaybackStatus.ENDED
+        this.broadcastState(false, null)
+        return
+      }
+      next = 0
+    }
+
+    const gap = next > this.currentIndex
+      ? this.source.timestampOf(next) - this.source.timestampOf(this.currentIndex)
+      : this.source.frameInterval
+    const delay = Math.min(5000, Math.max(1, (gap * 1000) / this.speed))
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.currentIndex = next
+      this.broadcastFrame(this.source.frame(next))
+      this.scheduleNextFrame()
+    }, delay)
+  }
+
+  // ========== 推送 ==========
+
+  private broadcastFrame(frame: MockFrame) {
+    this.sessions.forEach(session => this.sendFrame(session, frame))
+  }
+
+  private sendFrame(session: FoxgloveSession, frame: MockFrame) {
+    session.connection.sendBinary(encodeTime(frame.timestamp))
+    for (const [subscriptionId, channelId] of session.subscriptions) {
+      const { topicKey, schema } = this.schemasByChannel.get(channelId)!
+      const data = frame.topics?.[topicKey]
+      if (!data) continue
+      // 数据源中的 Topic 以字段 ID 为键，Foxglove json 通道发送按字段名组织的对象
+      const payload = Buffer.from(JSON.stringify(SchemaParser.parse(data, schema)), 'utf8')
+      session.connection.sendBinary(encodeMessageData(subscriptionId, frame.timestamp, payload))
+    }
+  }
+
+  private broadcastState(didSeek: boolean, requestId: string | null) {
+    const state = this.encodeState(didSeek, requestId)
+    this.sessions.forEach(session => session.connection.sendBinary(state))
+  }
+
+  private encodeState(didSeek: boolean, requestId: string | null): Uint8Array {
+    return encodePlaybackState({
+      status: this.status,
+      currentTime: this.source.timestampOf(this.currentIndex),
+      playbackSpeed: this.speed,
+      didSeek,
+      requestId
+    })
+  }
+
+  private sendStatus(session: FoxgloveSession, level: FoxgloveStatusLevel, message: string) {
+    session.connection.sendJson({ op: 'status', level, message })
+  }
+
+  private indexOfTime(timestamp: number): number {
+    let lo = 0
+    let hi = this.source.frameCount - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (this.source.timestampOf(mid) <= timestamp) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+}
+
+// ========== TopicSchema -> JSON Schema ==========
+
+const JSON_TYPES: Record<string, string> = {
+  double: 'number',
+  float: 'number',
+  bool: 'boolean',
+  string: 'string',
+  bytes: 'string'
+}
+
+function jsonType(type: string): string {
+  return JSON_TYPES[type] ?? (/int|fixed|enum/.test(type) ? 'integer' : 'number')
+}
+
+/**
+ * 按字段路径还原嵌套结构："pose.x" -> properties.pose.properties.x，
+ * "objects[]" -> 元素为 object 的数组，元素字段 "objects.id" 挂在 items 下
+ */
+function jsonSchemaOf(schema: TopicSchema): Record<string, any> {
+  const root: Record<string, any> = { type: 'object', title: schema.proto_type, properties: {} }
+
+  for (const field of schema.fields) {
+    const segments = field.path.replace(/\[\]$/, '').split('.')
+    let node = root
+    for (const segment of segments.slice(0, -1)) {
+      node.properties[segment] ??= { type: 'object', properties: {} }
+      node = node.properties[segment]
+      if (node.type === 'array') node = node.items
+    }
+
+    const name = segments[segments.length - 1]
+    if (field.type === 'message') {
+      node.properties[name] = field.repeated
+        ? { type: 'array', items: { type: 'object', properties: node.properties[name]?.properties ?? {} } }
+        : node.properties[name] ?? { type: 'object', properties: {} }
+    } else {
+      const type = jsonType(field.type)
+      node.properties[name] = field.repeated ? { type: 'array', items: { type } } : { type }
+    }
+  }
+  return root
+}
@@ -0,0 +1,478 @@
+// mock-server/MockPlaybackServer.ts
+
+import {
+  PROTOCOL_VERSION,
+  Compression,
+  type ProtocolCapabilities
+} from '@/core/protocol/ProtocolCapabilities'
+import { FrameKind } from '@/core/protocol/VizDecoder'
+import { VizEncoder, type EncodableFrame } from '@/core/protocol/VizEncoder'
+import { MessageType, PlaybackCommand, SubscriptionCommand } from '@/core/types/message'
+import type { PlaybackStatus, InitInfo } from '@/types/playback'
+import type { MockFrame, PlaybackSource } from './PlaybackSource'
+import { WebSocketServer, type WebSocketConnection } from './WebSocketServer'
+import { diffScene } from './SceneDelta'
+
+export interface MockServerOptions {
+  port?: number
+  host?: string
+  protocolVersion?: number   // 服务端支持的最高协议版本，0 模拟不支持握手的旧服务端
+  compression?: Compression  // 点列压缩方式 (客户端不支持时回退 ZLIB)
+  keyframeInterval?: number  // 每隔多少帧强制发送关键帧，0 表示不发增量帧
+  loop?: boolean             // 播放到末尾后从头开始
+  serverVersion?: string
+}
+
+// 等待 HELLO 的时间，超时按不握手的旧客户端处理
+const HELLO_TIMEOUT_MS = 500
+
+// 本服务能生成的帧类型
+const SERVER_FRAME_KINDS = ['FULL', 'KEYFRAME', 'DELTA']
+
+interface SessionProtocol {
+  version: number
+  frameKinds: string[]
+  compression: Compression
+}
+
+/**
+ * 单个客户端连接的状态
+ * 增量帧的基准帧按连接维护：每个客户端收到的帧序列可能不同 (晚加入、协议不同)
+ */
+class ClientSession {
+  protocol: SessionProtocol | null = null // INIT_INFO 发出前为 null
+  subscriptions = new Set<string>()
+  helloTimer: NodeJS.Timeout | null = null
+
+  lastScene: EncodableFrame | null = null
+  lastIndex = -1
+  framesSinceKeyframe = 0
+
+  constructor(public connection: WebSocketConnection, public id: number) {}
+
+  // 跳转/恢复播放后客户端可能丢弃了中间帧，下一帧必须是关键帧
+  resetDeltaBase() {
+    this.lastScene = null
+    this.lastIndex = -1
+  }
+}
+
+/**
+ * Mock 回放服务
+ * 实现 playback store 使用的控制协议 (INIT_INFO / PLAYBACK_STATUS / COMMAND_ACK / 订阅 / _requestId 请求)，
+ * 并按节拍推送场景、图像二进制包和 JSON Topic 数据
+ */
+export class MockPlaybackServer {
+  private server = new WebSocketServer()
+  private sessions = new Set<ClientSession>()
+  private nextSessionId = 1
+
+  private options: Required<MockServerOptions>
+  private isPlaying = false
+  private currentIndex = 0
+  private speed = 1.0
+  private timer: NodeJS.Timeout | null = null
+  private frameCache: MockFrame | null = null
+
+  constructor(private source: PlaybackSource, options: MockServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 9002,
+      host: options.host ?? '0.0.0.0',
+      protocolVersion: options.protocolVersion ?? PROTOCOL_VERSION,
+      compression: options.compression ?? Compression.ZLIB,
+      keyframeInterval: options.keyframeInterval ?? 30,
+      loop: options.loop ?? false,
+      serverVersion: options.serverVersion ?? 'mock-1.0.0'
+    }
+    this.server.on('connection', (connection: WebSocketConnection) => this.handleConnection(connection))
+  }
+
+  async start() {
+    await this.server.listen(this.options.port, this.options.host)
+    console.log(`🚀 Mock playback server listening on ws://${this.options.host}:${this.options.port}`)
+    console.log(`   source: ${this.source.name}, ${this.source.frameCount} frames @ ${(1 / this.source.frameInterval).toFixed(1)} Hz`)
+  }
+
+  async stop() {
+    this.stopTimer()
+    for (const session of this.sessions) session.connection.close(1001, 'Server shutting down')
+    await this.server.close()
+  }
+
+  // ========== 连接与握手 ==========
+
+  private handleConnection(connection: WebSocketConnection) {
+    const session = new ClientSession(connection, this.nextSessionId++)
+    this.sessions.add(session)
+    console.log(`🔌 Client #${session.id} connected (${connection.remoteAddress})`)
+
+    connection.on('text', (text: string) => this.handleText(session, text))
+    connection.on('close', () => {
+      if (session.helloTimer) clearTimeout(session.helloTimer)
+      this.sessions.delete(session)
+      console.log(`👋 Client #${session.id} disconnected`)
+    })
+
+    // 新客户端连接即发送 HELLO；旧客户端不发，超时后按 v0 初始化
+    session.helloTimer = setTimeout(() => this.initializeSession(session), HELLO_TIMEOUT_MS)
+  }
+
+  private initializeSession(session: ClientSession, hello?: Partial<ProtocolCapabilities>) {
+    if (session.helloTimer) {
+      clearTimeout(session.helloTimer)
+      session.helloTimer = null
+    }
+    if (session.protocol) return
+
+    const capabilities = this.serverCapabilities(hello)
+    session.protocol = {
+      version: capabilities?.version ?? 0,
+      frameKinds: capabilities?.frame_kinds ?? ['FULL'],
+      compression: capabilities ? Compression[capabilities.compressions[0] as keyof typeof Compression] : Compression.ZLIB
+    }
+
+    const info: InitInfo = {
+      server_version: this.options.serverVersion,
+      available_keys: Object.keys(this.source.schemas),
+      initial_status: this.buildStatus()
+    }
+    if (capabilities) info.protocol = capabilities
+    session.connection.sendJson({ type: MessageType.INIT_INFO, data: info })
+    console.log(`🤝 Client #${session.id} initialized with protocol v${session.protocol.version}`)
+
+    // 暂停状态下也让新客户端立即看到当前帧
+    this.sendFrame(session, this.currentFrame())
+  }
+
+  /**
+   * 根据客户端 HELLO 决定本连接使用的协议；返回 undefined 表示按 v0 (INIT_INFO 不带 protocol)
+   * 服务端只负责声明，兼容性由客户端 negotiateProtocol 判定
+   */
+  private serverCapabilities(hello?: Partial<ProtocolCapabilities>): ProtocolCapabilities | undefined {
+    const fixed = this.source.fixedProtocolVersion
+    const maxVersion = fixed ?? this.options.protocolVersion
+    if (!hello || maxVersion === 0) return undefined
+
+    const version = fixed ?? Math.min(maxVersion, hello.version ?? 0)
+    if (version === 0) return undefined
+
+    const clientKinds = hello.frame_kinds ?? []
+    const frameKinds = SERVER_FRAME_KINDS.filter(kind => clientKinds.includes(kind))
+
+    const preferred = Compression[this.options.compression]
+    const compression = (hello.compressions ?? []).includes(preferred) ? preferred : Compression[Compression.ZLIB]
+
+    const capabilities: ProtocolCapabilities = {
+      version,
+      frame_kinds: frameKinds.length > 0 ? frameKinds : ['FULL'],
+      point_formats: this.source.pointFormats ?? hello.point_formats ?? [],
+      compressions: [compression]
+    }
+    return capabilities
+  }
+
+  // ========== 文本命令 ==========
+
+  private handleText(session: ClientSession, text: string) {
+    let message: any
+    try {
+      message = JSON.parse(text)
+    } catch {
+      this.sendError(session, 'Invalid JSON', 'INVALID_MESSAGE')
+      return
+    }
+
+    const type: string = message?.type
+    const params = message?.params ?? {}
+    const requestId: string | undefined = params._requestId
+
+    if (type === MessageType.HELLO) {
+      this.initializeSession(session, params)
+      return
+    }
+    if (type === 'HEARTBEAT') return
+
+    switch (type) {
+      case PlaybackCommand.PLAY: return this.commandPlay(session)
+      case PlaybackCommand.PAUSE: return this.commandPause(session)
+      case PlaybackCommand.STOP:
+        this.pausePlayback()
+        return this.commandSeek(session, type, 0)
+      case PlaybackCommand.RESET:
+        this.speed = 1.0
+        this.pausePlayback()
+        return this.commandSeek(session, type, 0)
+      case PlaybackCommand.NEXT_FRAME: return this.commandSeek(session, type, this.currentIndex + 1)
+      case PlaybackCommand.PREV_FRAME: return this.commandSeek(session, type, this.currentIndex - 1)
+      case PlaybackCommand.SEEK_FRAME: return this.commandSeek(session, type, Number(params.frame_id))
+      case PlaybackCommand.SEEK_TIME: return this.commandSeek(session, type, this.indexOfTime(Number(params.timestamp)))
+      case PlaybackCommand.SEEK_PROGRESS:
+        return this.commandSeek(session, type, Math.round(Number(params.progress) * (this.source.frameCount - 1)))
+      case PlaybackCommand.SET_SPEED: return this.commandSetSpeed(session, Number(params.multiplier))
+      case PlaybackCommand.GET_STATUS:
+        session.connection.sendJson({ type: MessageType.PLAYBACK_STATUS, data: this.buildStatus() })
+        return
+
+      case SubscriptionCommand.SUBSCRIBE_TOPIC: return this.commandSubscribe(session, params.topic_key)
+      case SubscriptionCommand.GET_AVAILABLE_TOPICS:
+        session.connection.sendJson({
+          type: MessageType.AVAILABLE_TOPICS,
+          available_keys: Object.keys(this.source.schemas),
+          ...(requestId && { _requestId: requestId })
+        })
+        return
+      case SubscriptionCommand.GET_TOPIC_SCHEMA: return this.respondTopicSchema(session, params.topic_key, requestId)
+      case SubscriptionCommand.GET_TOPIC_DATA: return this.respondTopicData(session, params.topic_key, requestId)
+    }
+
+    this.sendError(session, `Unknown command: ${type}`, 'UNKNOWN_COMMAND', requestId)
+  }
+
+  private commandPlay(session: ClientSession) {
+    if (!this.isPlaying) {
+      // 客户端暂停期间会丢弃所有二进制包，恢复播放后从关键帧开始
+      this.sessions.forEach(s => s.resetDeltaBase())
+      if (this.currentIndex >= this.source.frameCount - 1) this.currentIndex = 0
+      this.isPlaying = true
+      this.scheduleNextFrame()
+    }
+    this.sendAck(session, PlaybackCommand.PLAY, true)
+    this.broadcastStatus()
+  }
+
+  private commandPause(session: ClientSession) {
+    this.pausePlayback()
+    this.sendAck(session, PlaybackCommand.PAUSE, true)
+    this.broadcastStatus()
+  }
+
+  private commandSeek(session: ClientSession, command: string, index: number) {
+    if (!Number.isFinite(index)) {
+      this.sendAck(session, command, false, 'Invalid seek target')
+      return
+    }
+    this.currentIndex = clamp(Math.round(index), 0, this.source.frameCount - 1)
+    this.frameCache = null
+    this.sessions.forEach(s => s.resetDeltaBase())
+    this.broadcastFrame(this.currentFrame())
+    if (this.isPlaying) this.scheduleNextFrame()
+
+    this.sendAck(session, command, true)
+    this.broadcastStatus()
+  }
+
+  private commandSetSpeed(session: ClientSession, multiplier: number) {
+    if (!Number.isFinite(multiplier) || multiplier <= 0) {
+      this.sendAck(session, PlaybackCommand.SET_SPEED, false, `Invalid speed: ${multiplier}`)
+      return
+    }
+    this.speed = multiplier
+    if (this.isPlaying) this.scheduleNextFrame()
+    this.sendAck(session, PlaybackCommand.SET_SPEED, true)
+    this.broadcastStatus()
+  }
+
+  private commandSubscribe(session: ClientSession, topicKey: string) {
+    const known = topicKey in this.source.schemas
+    if (known) session.subscriptions.add(topicKey)
+    session.connection.sendJson({
+      type: MessageType.SUBSCRIPTION_ACK,
+      success: known,
+      topic_key: topicKey,
+      message: known ? 'Subscribed' : `Unknown topic: ${topicKey}`
+    })
+  }
+
+  // 请求-响应：响应消息带回 _requestId，字段与对应的推送消息一致
+  private respondTopicSchema(session: ClientSession, topicKey: string, requestId?: string) {
+    const schema = this.source.schemas[topicKey]
+    if (!schema) {
+      this.sendError(session, `Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    const payload = { topic_key: topicKey, schema }
+    session.connection.sendJson({
+      type: MessageType.TOPIC_SCHEMA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      ...payload
+    })
+  }
+
+  private respondTopicData(session: ClientSession, topicKey: string, requestId?: string) {
+    if (!(topicKey in this.source.schemas)) {
+      this.sendError(session, `Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    const frame = this.currentFrame()
+    const data = frame.topics?.[topicKey]
+    const payload = data !== undefined
+      ? { topic_key: topicKey, frame_id: frame.index, timestamp: frame.timestamp, data }
+      : { topic_key: topicKey, frame_id: null, timestamp: null, data: null }
+    session.connection.sendJson({
+      type: MessageType.TOPIC_DATA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      ...payload
+    })
+  }
+
+  private sendAck(session: ClientSession, command: string, success: boolean, message: string = 'OK') {
+    session.connection.sendJson({ type: MessageType.COMMAND_ACK, command, success, message })
+  }
+
+  private sendError(session: ClientSession, message: string, errorCode: string, requestId?: string) {
+    session.connection.sendJson({
+      type: MessageType.ERROR,
+      message,
+      error_code: errorCode,
+      ...(requestId && { _requestId: requestId, error: message })
+    })
+  }
+
+  // ========== 播放节拍 ==========
+
+  private pausePlayback() {
+    this.isPlaying = false
+    this.stopTimer()
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private scheduleNextFrame() {
+    this.stopTimer()
+    if (!this.isPlaying) return
+
+    const next = this.currentIndex + 1
+    if (next >= this.source.frameCount && !this.options.loop) {
+      this.pausePlayback()
+      this.broadcastStatus()
+      return
+    }
+
+    const nextIndex = next % this.source.frameCount
+    const gap = nextIndex > this.currentIndex
+      ? this.source.timestampOf(nextIndex) - this.source.timestampOf(this.currentIndex)
+      : this.source.frameInterval
+    const delay = clamp((gap * 1000) / this.speed, 1, 5000)
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      if (nextIndex < this.currentIndex) this.sessions.forEach(s => s.resetDeltaBase())
+      this.currentIndex = nextIndex
+      this.frameCache = null
+      this.broadcastFrame(this.currentFrame())
+      this.broadcastStatus()
+      this.scheduleNextFrame()
+    }, delay)
+  }
+
+  private currentFrame(): MockFrame {
+    if (!this.frameCache || this.frameCache.index !== this.currentIndex) {
+      this.frameCache = this.source.frame(this.currentIndex)
+    }
+    return this.frameCache
+  }
+
+  private indexOfTime(timestamp: number): number {
+    if (!Number.isFinite(timestamp)) return NaN
+    // 时间戳单调递增，二分查找最后一个 <= timestamp 的帧
+    let lo = 0
+    let hi = this.source.frameCount - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (this.source.timestampOf(mid) <= timestamp) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  private buildStatus(): PlaybackStatus {
+    const last = this.source.frameCount - 1
+    return {
+      is_playing: this.isPlaying,
+      play_mode: 'FRAME_BASED',
+      timestamp_type: 'RAW_TIMESTAMP',
+      current_frame_id: this.currentIndex,
+      current_timestamp: this.source.timestampOf(this.currentIndex),
+      frame_range: { min: 0, max: last },
+      time_range: { min: this.source.timestampOf(0), max: this.source.timestampOf(last) },
+      progress: last > 0 ? this.currentIndex / last : 0,
+      speed_multiplier: this.speed,
+      sleep_time_ms: Math.round((this.source.frameInterval * 1000) / this.speed),
+      time_step: this.source.frameInterval,
+      main_axis_key: 'frame_id'
+    }
+  }
+
+  private broadcastStatus() {
+    const message = { type: MessageType.PLAYBACK_STATUS, data: this.buildStatus() }
+    for (const session of this.sessions) {
+      if (session.protocol) session.connection.sendJson(message)
+    }
+  }
+
+  // ========== 数据推送 ==========
+
+  private broadcastFrame(frame: MockFrame) {
+    for (const session of this.sessions) {
+      if (session.protocol) this.sendFrame(session, frame)
+    }
+  }
+
+  private sendFrame(session: ClientSession, frame: MockFrame) {
+    const { connection } = session
+    if (frame.scene) connection.sendBinary(this.encodeScene(session, frame))
+    frame.packets?.forEach(packet => connection.sendBinary(packet))
+    frame.images?.forEach(image => connection.sendBinary(VizEncoder.encodeImageMessage(image)))
+
+    for (const topicKey of session.subscriptions) {
+      const data = frame.topics?.[topicKey]
+      if (data === undefined) continue
+      connection.sendJson({
+        type: MessageType.TOPIC_DATA,
+        topic_key: topicKey,
+        frame_id: frame.index,
+        timestamp: frame.timestamp,
+        data
+      })
+    }
+  }
+
+  /**
+   * 按连接协商结果编码场景：
+   * 连续播放且支持 DELTA 时发送增量帧，每 keyframeInterval 帧或失去基准时发送关键帧
+   */
+  private encodeScene(session: ClientSession, frame: MockFrame): ArrayBuffer {
+    const protocol = session.protocol!
+    const scene = frame.scene!
+    const options = { protocolVersion: protocol.version, compression: protocol.compression }
+
+    const canDelta = protocol.version >= 1
+      && protocol.frameKinds.includes('DELTA')
+      && this.options.keyframeInterval > 0
+    const consecutive = session.lastScene !== null && frame.index === session.lastIndex + 1
+    const useDelta = canDelta && consecutive && session.framesSinceKeyframe < this.options.keyframeInterval
+
+    let encoded: EncodableFrame
+    if (useDelta) {
+      encoded = diffScene(session.lastScene!, scene)
+      session.framesSinceKeyframe++
+    } else {
+      const keyframe = protocol.version >= 1 && protocol.frameKinds.includes('KEYFRAME')
+      encoded = { ...scene, kind: keyframe ? FrameKind.KEYFRAME : FrameKind.FULL }
+      session.framesSinceKeyframe = 0
+    }
+
+    session.lastScene = scene
+    session.lastIndex = frame.index
+    return VizEncoder.encodeSceneMessage(encoded, options)
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,36 @@
+// mock-server/PlaybackSource.ts
+
+import type { EncodableFrame, EncodableImage } from '@/core/protocol/VizEncoder'
+import type { TopicSchema } from '@/core/types/common'
+
+/**
+ * 一帧回放内容
+ * scene 由服务端按各客户端协商的协议编码 (可生成增量帧)；
+ * packets 是已编码好的二进制消息 (录制文件)，原样转发
+ */
+export interface MockFrame {
+  index: number
+  timestamp: number
+  scene?: EncodableFrame
+  packets?: Uint8Array[]
+  images?: EncodableImage[]
+  topics?: Record<string, Record<string, any>> // topic_key -> 以字段 ID 为键的数据
+}
+
+/**
+ * 回放数据源 (合成场景 / 录制文件)
+ * 帧号从 0 开始连续编号，frameCount 为总帧数
+ */
+export interface PlaybackSource {
+  readonly name: string
+  readonly frameCount: number
+  readonly frameInterval: number // 秒，1x 速度下相邻帧间隔
+  // 录制文件的二进制包已按固定协议版本编码，客户端必须使用该版本
+  readonly fixedProtocolVersion?: number
+  // 会用到的点格式 (枚举名)，写入 INIT_INFO.protocol；不声明则沿用客户端的能力
+  readonly pointFormats?: string[]
+  readonly schemas: Record<string, TopicSchema>
+
+  timestampOf(index: number): number
+  frame(index: number): MockFrame
+}
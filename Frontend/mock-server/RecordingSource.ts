@@ -0,0 +1,90 @@
+// mock-server/RecordingSource.ts
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { PROTOCOL_VERSION } from '@/core/protocol/ProtocolCapabilities'
+import { FrameKind } from '@/core/protocol/VizDecoder'
+import { VizEncoder } from '@/core/protocol/VizEncoder'
+import type { TopicSchema } from '@/core/types/common'
+import {
+  RECORDING_INDEX_FILE,
+  validateRecordingIndex,
+  withSceneEnvelope,
+  type RecordingFrameEntry,
+  type RecordingIndex
+} from '@/core/replay/RecordingIndex'
+import type { MockFrame, PlaybackSource } from './PlaybackSource'
+
+/**
+ * 从录制目录回放 (目录格式见 src/core/replay/RecordingIndex.ts)
+ * 二进制包原样转发，不做重新编码，因此客户端必须与录制时的协议版本一致
+ */
+export class RecordingSource implements PlaybackSource {
+  readonly name: string
+  readonly frameCount: number
+  readonly frameInterval: number
+  readonly fixedProtocolVersion: number
+  readonly schemas: Record<string, TopicSchema>
+
+  private index: RecordingIndex
+
+  constructor(private dir: string) {
+    this.index = JSON.parse(readFileSync(join(dir, RECORDING_INDEX_FILE), 'utf8'))
+    const problem = validateRecordingIndex(this.index)
+    if (problem) throw new Error(`Invalid recording ${dir}: ${problem}`)
+
+    const frames = this.index.frames
+    this.name = `recording:${dir}`
+    this.frameCount = frames.length
+    this.fixedProtocolVersion = this.index.protocol_version ?? 0
+    this.schemas = this.index.schemas ?? {}
+    // 取平均帧间隔，用于驱动播放节奏
+    this.frameInterval = frames.length > 1
+      ? Math.max(0.001, (frames[frames.length - 1].timestamp - frames[0].timestamp) / (frames.length - 1))
+      : 0.1
+  }
+
+  timestampOf(index: number): number {
+    return this.index.frames[index].timestamp
+  }
+
+  frame(index: number): MockFrame {
+    const entry = this.index.frames[index]
+    return {
+      index,
+      timestamp: entry.timestamp,
+      packets: entry.files.map(file => withSceneEnvelope(readFileSync(join(this.dir, file)))),
+      topics: entry.topics
+    }
+  }
+}
+
+/**
+ * 把任意数据源导出为录制目录 (全部编码为完整帧，可任意跳转)
+ */
+export function writeRecording(source: PlaybackSource, dir: string, protocolVersion: number = PROTOCOL_VERSION) {
+  mkdirSync(dir, { recursive: true })
+  const frames: RecordingFrameEntry[] = []
+
+  for (let i = 0; i < source.frameCount; i++) {
+    const frame = source.frame(i)
+    const prefix = String(i).padStart(6, '0')
+    const files: string[] = []
+    const save = (name: string, data: ArrayBuffer | Uint8Array) => {
+      writeFileSync(join(dir, name), data instanceof Uint8Array ? data : new Uint8Array(data))
+      files.push(name)
+    }
+
+    if (frame.scene) {
+      const kind = protocolVersion >= 1 ? FrameKind.KEYFRAME : FrameKind.FULL
+      save(`${prefix}.scene.bin`, VizEncoder.encodeSceneMessage({ ...frame.scene, kind }, { protocolVersion }))
+    }
+    frame.packets?.forEach((packet, k) => save(`${prefix}.packet${k}.bin`, packet))
+    frame.images?.forEach((image, k) => save(`${prefix}.image${k}.bin`, VizEncoder.encodeImageMessage(image)))
+
+    frames.push({ timestamp: frame.timestamp, files, topics: frame.topics })
+  }
+
+  const index: RecordingIndex = { protocol_version: protocolVersion, schemas: source.schemas, frames }
+  writeFileSync(join(dir, RECORDING_INDEX_FILE), JSON.stringify(index))
+}
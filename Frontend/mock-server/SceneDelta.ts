@@ -0,0 +1,112 @@
+// mock-server/SceneDelta.ts
+
+import {
+  FrameKind,
+  TopicUpdateKind,
+  PatchOp,
+  type DecodedLayer,
+  type DecodedTopic,
+  type DecodedGroup,
+  type DecodedObject,
+  type DecodedPatch
+} from '@/core/protocol/VizDecoder'
+import type { EncodableFrame } from '@/core/protocol/VizEncoder'
+
+/**
+ * 由相邻两帧完整场景计算增量帧 (DELTA)
+ *
+ * Topic 级规则：
+ *   - Topic frameId 未变              -> UNCHANGED
+ *   - 根节点是只含物体的组且组本身未变 -> PATCH (按子对象 ID 增/改/删)
+ *   - 其他情况                         -> REPLACE
+ *   - 上一帧有、本帧没有               -> REMOVE
+ */
+export function diffScene(prev: EncodableFrame, next: EncodableFrame): EncodableFrame {
+  const prevLayers = new Map(prev.layers.map(layer => [layer.id, layer]))
+  const layers: DecodedLayer[] = []
+
+  for (const layer of next.layers) {
+    const prevLayer = prevLayers.get(layer.id)
+    prevLayers.delete(layer.id)
+    const prevTopics = new Map((prevLayer?.topics ?? []).map(topic => [topic.id, topic]))
+
+    const topics: DecodedTopic[] = layer.topics.map(topic => {
+      const prevTopic = prevTopics.get(topic.id)
+      prevTopics.delete(topic.id)
+      return diffTopic(prevTopic, topic)
+    })
+    for (const removed of prevTopics.values()) {
+      topics.push(removedTopic(removed, next.frameId))
+    }
+    layers.push({ ...layer, topics })
+  }
+
+  // 整个图层消失：其下所有 Topic 标记为删除
+  for (const removedLayer of prevLayers.values()) {
+    layers.push({ ...removedLayer, topics: removedLayer.topics.map(topic => removedTopic(topic, next.frameId)) })
+  }
+
+  return {
+    ...next,
+    kind: FrameKind.DELTA,
+    baseFrameId: prev.frameId,
+    layers
+  }
+}
+
+function removedTopic(topic: DecodedTopic, frameId: bigint): DecodedTopic {
+  return { id: topic.id, frameId, update: TopicUpdateKind.REMOVE }
+}
+
+function diffTopic(prev: DecodedTopic | undefined, next: DecodedTopic): DecodedTopic {
+  if (!prev) return { ...next, update: TopicUpdateKind.REPLACE }
+  if (prev.frameId === next.frameId) {
+    return { id: next.id, frameId: next.frameId, update: TopicUpdateKind.UNCHANGED }
+  }
+
+  const patches = diffChildren(prev.rootNode, next.rootNode)
+  if (patches) {
+    return { id: next.id, frameId: next.frameId, update: TopicUpdateKind.PATCH, patches }
+  }
+  return { ...next, update: TopicUpdateKind.REPLACE }
+}
+
+/**
+ * 只处理扁平的物体组；无法用补丁表达时返回 null，由调用方整体替换
+ */
+function diffChildren(
+  prev: DecodedGroup | DecodedObject | undefined,
+  next: DecodedGroup | DecodedObject | undefined
+): DecodedPatch[] | null {
+  if (prev?.nodeType !== 'group' || next?.nodeType !== 'group') return null
+  if (prev.id !== next.id || baseSignature(prev) !== baseSignature(next)) return null
+  if (next.children.some(child => child.nodeType !== 'object')) return null
+
+  const prevChildren = new Map(prev.children.map(child => [child.id, child]))
+  const patches: DecodedPatch[] = []
+
+  for (const child of next.children as DecodedObject[]) {
+    const before = prevChildren.get(child.id)
+    prevChildren.delete(child.id)
+    if (!before || before.nodeType !== 'object') {
+      patches.push({ op: PatchOp.ADD, parentPath: next.id, id: child.id, node: child })
+    } else if (objectChanged(before, child)) {
+      patches.push({ op: PatchOp.UPDATE, parentPath: next.id, id: child.id, node: child })
+    }
+  }
+  for (const id of prevChildren.keys()) {
+    patches.push({ op: PatchOp.REMOVE, parentPath: next.id, id })
+  }
+  return patches
+}
+
+function baseSignature(node: DecodedGroup | DecodedObject): string {
+  return JSON.stringify([node.name, node.visible, node.viewMask, node.properties])
+}
+
+function objectChanged(a: DecodedObject, b: DecodedObject): boolean {
+  // 点列数据量大，只按引用比较 (合成数据中未变化的点列会复用同一对象)
+  if (a.points !== b.points && ((a.points?.count ?? 0) > 0 || (b.points?.count ?? 0) > 0)) return true
+  return JSON.stringify([baseSignature(a), a.type, a.subType, a.position, a.rotation, a.size, a.color])
+    !== JSON.stringify([baseSignature(b), b.type, b.subType, b.position, b.rotation, b.size, b.color])
+}
@@ -0,0 +1,453 @@
+// mock-server/SyntheticSource.ts
+
+import {
+  ObjectType,
+  SubType,
+  ViewMask,
+  TopicUpdateKind,
+  type DecodedLayer,
+  type DecodedGroup,
+  type DecodedObject,
+  type DecodedTopic
+} from '@/core/protocol/VizDecoder'
+import {
+  PointFormat,
+  ChannelType,
+  CHANNEL_POSITION,
+  CHANNEL_INTENSITY,
+  CHANNEL_RING,
+  CHANNEL_TIME,
+  CHANNEL_LABEL,
+  type DecodedPointList
+} from '@/core/protocol/PointListDecoder'
+import { PointListEncoder } from '@/core/protocol/PointListEncoder'
+import type { EncodableImage } from '@/core/protocol/VizEncoder'
+import type { TopicSchema } from '@/core/types/common'
+import type { MockFrame, PlaybackSource } from './PlaybackSource'
+import { encodePng } from './png'
+
+export interface SyntheticOptions {
+  frames?: number   // 总帧数
+  rate?: number     // 帧率 (Hz)
+  lidar?: boolean   // 是否生成激光点云
+  images?: boolean  // 是否生成相机图像
+}
+
+/**
+ * 合成场景：自车坐标系下的直道跟车场景
+ *   /map/lanes           静态车道线 (POLYLINE)，增量帧中始终 UNCHANGED
+ *   /ego                 自车 (CUBE)，静态
+ *   /perception/objects  障碍物 (CUBE)，逐帧移动，周期性出现/消失，增量帧中走对象级 PATCH
+ *   /lidar/points        16 线激光 (CHANNELS: position/intensity/ring/time/label)
+ *   /camera/front        前视 PNG 图像
+ * 以及两个 JSON Topic：vehicle_state、perception_objects
+ *
+ * 所有内容只由帧号决定，任意跳帧都能得到相同结果
+ */
+
+const START_TIMESTAMP = 1700000000
+const LIDAR_HEIGHT = 1.8
+const LIDAR_RANGE = 60
+const LIDAR_RINGS = 16
+const LIDAR_AZIMUTH_STEPS = 360
+const IMAGE_WIDTH = 192
+const IMAGE_HEIGHT = 108
+
+const LANE_LINES = [
+  { id: 'lane_left_curb', y: 7, subType: SubType.LINE_CURB },
+  { id: 'lane_left', y: 3.5, subType: SubType.LINE_DASHED },
+  { id: 'lane_center', y: 0, subType: SubType.LINE_DASHED },
+  { id: 'lane_right', y: -3.5, subType: SubType.LINE_DASHED },
+  { id: 'lane_right_curb', y: -7, subType: SubType.LINE_CURB }
+]
+
+interface Track {
+  id: number
+  subType: SubType
+  y: number              // 所在车道中心
+  speed: number          // 相对自车速度 (m/s)
+  offset: number         // 初始纵向位置
+  size: [number, number, number]
+  lifetime?: [number, number] // 在 200 帧周期内的存在区间
+}
+
+const TRACKS: Track[] = [
+  { id: 1, subType: SubType.OBJ_CAR, y: 1.75, speed: 2, offset: 15, size: [4.6, 1.9, 1.5] },
+  { id: 2, subType: SubType.OBJ_CAR, y: -1.75, speed: -3, offset: 40, size: [4.4, 1.8, 1.5] },
+  { id: 3, subType: SubType.OBJ_TRUCK, y: 5.25, speed: 1, offset: -10, size: [9.5, 2.5, 3.4] },
+  { id: 4, subType: SubType.OBJ_BUS, y: -5.25, speed: -1.5, offset: 25, size: [12, 2.6, 3.2] },
+  { id: 5, subType: SubType.OBJ_CAR, y: 1.75, speed: 2, offset: -25, size: [4.5, 1.8, 1.4] },
+  { id: 6, subType: SubType.OBJ_CYCLIST, y: 6.5, speed: -6, offset: 50, size: [1.8, 0.6, 1.7] },
+  { id: 7, subType: SubType.OBJ_CAR, y: -1.75, speed: 4, offset: -30, size: [4.7, 1.9, 1.6], lifetime: [0, 140] },
+  { id: 8, subType: SubType.OBJ_PEDESTRIAN, y: 9, speed: -10, offset: 35, size: [0.6, 0.6, 1.75], lifetime: [60, 180] }
+]
+
+const SUBTYPE_COLORS: Partial<Record<SubType, [number, number, number]>> = {
+  [SubType.OBJ_CAR]: [64, 158, 255],
+  [SubType.OBJ_TRUCK]: [230, 162, 60],
+  [SubType.OBJ_BUS]: [245, 108, 108],
+  [SubType.OBJ_CYCLIST]: [103, 194, 58],
+  [SubType.OBJ_PEDESTRIAN]: [255, 230, 80]
+}
+
+const SUBTYPE_LABELS: Partial<Record<SubType, number>> = {
+  [SubType.OBJ_CAR]: 1,
+  [SubType.OBJ_TRUCK]: 2,
+  [SubType.OBJ_BUS]: 2,
+  [SubType.OBJ_CYCLIST]: 3,
+  [SubType.OBJ_PEDESTRIAN]: 4
+}
+
+const TRACK_WINDOW = 140 // 纵向循环区间 [-40, 100)
+
+interface TrackState {
+  track: Track
+  x: number
+  y: number
+  heading: number
+}
+
+export class SyntheticSource implements PlaybackSource {
+  readonly name = 'synthetic'
+  readonly frameCount: number
+  readonly frameInterval: number
+  readonly schemas: Record<string, TopicSchema> = SYNTHETIC_SCHEMAS
+  readonly pointFormats = [PointFormat[PointFormat.XYZ_F32], PointFormat[PointFormat.CHANNELS]]
+
+  private lidar: boolean
+  private images: boolean
+  // 静态 Topic 只构造一次，frameId 固定为 0，增量帧据此判断为未变化
+  private staticTopics: { lanes: DecodedTopic, ego: DecodedTopic }
+
+  constructor(options: SyntheticOptions = {}) {
+    this.frameCount = Math.max(1, options.frames ?? 600)
+    this.frameInterval = 1 / Math.max(1, options.rate ?? 10)
+    this.lidar = options.lidar ?? true
+    this.images = options.images ?? true
+    this.staticTopics = { lanes: buildLaneTopic(), ego: buildEgoTopic() }
+  }
+
+  timestampOf(index: number): number {
+    return START_TIMESTAMP + index * this.frameInterval
+  }
+
+  frame(index: number): MockFrame {
+    const t = index * this.frameInterval
+    const timestamp = this.timestampOf(index)
+    const frameId = BigInt(index)
+    const tracks = trackStates(index, t)
+
+    const layers: DecodedLayer[] = [
+      layer('map', '地图', [this.staticTopics.lanes]),
+      layer('ego', '自车', [this.staticTopics.ego]),
+      layer('perception', '感知', [topic('/perception/objects', frameId, buildObjectGroup(tracks))])
+    ]
+    if (this.lidar) {
+      layers.push(layer('sensor', '传感器', [topic('/lidar/points', frameId, buildLidarObject(index, tracks))]))
+    }
+
+    const frame: MockFrame = {
+      index,
+      timestamp,
+      scene: { frameId, timestamp, layers },
+      topics: {
+        vehicle_state: vehicleStateData(t),
+        perception_objects: perceptionObjectsData(tracks)
+      }
+    }
+    if (this.images) frame.images = [buildCameraImage(timestamp, tracks)]
+    return frame
+  }
+}
+
+// ========== 场景构造 ==========
+
+function nodeBase(id: string, name: string) {
+  return { id, name, visible: true, viewMask: ViewMask.ALL, properties: {} as Record<string, string> }
+}
+
+function layer(id: string, name: string, topics: DecodedTopic[]): DecodedLayer {
+  return { ...nodeBase(id, name), nodeType: 'layer', topics }
+}
+
+function topic(id: string, frameId: bigint, rootNode: DecodedGroup | DecodedObject): DecodedTopic {
+  return { id, frameId, update: TopicUpdateKind.REPLACE, rootNode }
+}
+
+function object(id: string, name: string, fields: Omit<DecodedObject, keyof ReturnType<typeof nodeBase> | 'nodeType'>): DecodedObject {
+  return { ...nodeBase(id, name), nodeType: 'object', ...fields }
+}
+
+function buildLaneTopic(): DecodedTopic {
+  const children = LANE_LINES.map(line => {
+    const count = 41
+    const data = new Float32Array(count * 3)
+    for (let i = 0; i < count; i++) {
+      data[i * 3] = -40 + i * 3.5
+      data[i * 3 + 1] = line.y
+    }
+    const points: DecodedPointList = { format: PointFormat.XYZ_F32, count, data, stride: 3, channels: [] }
+    return object(line.id, line.id, {
+      type: ObjectType.POLYLINE,
+      subType: line.subType,
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      size: { x: 0.15, y: 0, z: 0 },
+      color: line.subType === SubType.LINE_CURB ? { r: 180, g: 180, b: 180, a: 255 } : { r: 240, g: 240, b: 240, a: 255 },
+      points
+    })
+  })
+  const root: DecodedGroup = { ...nodeBase('lanes', '车道线'), nodeType: 'group', children }
+  return topic('/map/lanes', 0n, root)
+}
+
+function buildEgoTopic(): DecodedTopic {
+  const ego = object('ego', '自车', {
+    type: ObjectType.CUBE,
+    subType: SubType.OBJ_CAR,
+    position: { x: 0, y: 0, z: 0.75 },
+    rotation: { x: 0, y: 0, z: 0 },
+    size: { x: 4.8, y: 1.9, z: 1.5 },
+    color: { r: 144, g: 147, b: 153, a: 255 }
+  })
+  return topic('/ego', 0n, ego)
+}
+
+function trackStates(index: number, t: number): TrackState[] {
+  const states: TrackState[] = []
+  for (const track of TRACKS) {
+    if (track.lifetime) {
+      const phase = index % 200
+      if (phase < track.lifetime[0] || phase >= track.lifetime[1]) continue
+    }
+    // 行人横穿：沿 y 方向移动
+    if (track.subType === SubType.OBJ_PEDESTRIAN) {
+      const phase = (index % 200 - (track.lifetime?.[0] ?? 0)) * 0.1
+      states.push({ track, x: track.offset, y: track.y - phase * 1.5, heading: -Math.PI / 2 })
+      continue
+    }
+    const x = positiveMod(track.offset + track.speed * t + 40, TRACK_WINDOW) - 40
+    states.push({ track, x, y: track.y + 0.2 * Math.sin(t * 0.5 + track.id), heading: 0.03 * Math.cos(t * 0.5 + track.id) })
+  }
+  return states
+}
+
+function buildObjectGroup(tracks: TrackState[]): DecodedGroup {
+  const children = tracks.map(({ track, x, y, heading }) => {
+    const [r, g, b] = SUBTYPE_COLORS[track.subType] ?? [200, 200, 200]
+    const obj = object(`track_${track.id}`, `${SubType[track.subType]} #${track.id}`, {
+      type: ObjectType.CUBE,
+      subType: track.subType,
+      position: { x, y, z: track.size[2] / 2 },
+      rotation: { x: 0, y: 0, z: heading },
+      size: { x: track.size[0], y: track.size[1], z: track.size[2] },
+      color: { r, g, b, a: 200 }
+    })
+    obj.properties = { track_id: String(track.id), rel_speed: track.speed.toFixed(1) }
+    return obj
+  })
+  return { ...nodeBase('objects', '障碍物'), nodeType: 'group', children }
+}
+
+function buildLidarObject(index: number, tracks: TrackState[]): DecodedObject {
+  const points = PointListEncoder.createChannelList([
+    { name: CHANNEL_POSITION, type: ChannelType.FLOAT32, components: 3 },
+    { name: CHANNEL_INTENSITY, type: ChannelType.FLOAT32, components: 1 },
+    { name: CHANNEL_RING, type: ChannelType.UINT16, components: 1 },
+    { name: CHANNEL_TIME, type: ChannelType.FLOAT32, components: 1 },
+    { name: CHANNEL_LABEL, type: ChannelType.UINT8, components: 1 }
+  ], LIDAR_RINGS * LIDAR_AZIMUTH_STEPS)
+
+  const { data, stride } = points
+  let count = 0
+  for (let a = 0; a < LIDAR_AZIMUTH_STEPS; a++) {
+    const azimuth = (a / LIDAR_AZIMUTH_STEPS) * Math.PI * 2
+    const dx = Math.cos(azimuth)
+    const dy = Math.sin(azimuth)
+    const hit = raycastTracks(dx, dy, tracks)
+
+    for (let ring = 0; ring < LIDAR_RINGS; ring++) {
+      const elevation = (-15 + ring * 2) * Math.PI / 180
+      const slope = Math.tan(elevation)
+      let range = slope < 0 ? Math.min(LIDAR_RANGE, LIDAR_HEIGHT / -slope) : LIDAR_RANGE
+      let label = 0
+      let intensity = 0.15 + 0.1 * noise(index, a, ring)
+
+      if (hit) {
+        const z = LIDAR_HEIGHT + hit.distance * slope
+        if (hit.distance < range && z >= 0 && z <= hit.state.track.size[2]) {
+          range = hit.distance
+          label = SUBTYPE_LABELS[hit.state.track.subType] ?? 0
+          intensity = 0.7 + 0.2 * noise(index, a, ring)
+        }
+      }
+      // 打在空中 (未命中任何物体) 的光束不产生回波
+      if (slope >= 0 && label === 0) continue
+
+      const base = count * stride
+      data[base] = dx * range
+      data[base + 1] = dy * range
+      data[base + 2] = Math.max(0, LIDAR_HEIGHT + range * slope)
+      data[base + 3] = intensity
+      data[base + 4] = ring
+      data[base + 5] = (a / LIDAR_AZIMUTH_STEPS) * 0.1
+      data[base + 6] = label
+      count++
+    }
+  }
+  points.count = count
+
+  return object('lidar_top', '主激光雷达', {
+    type: ObjectType.POINT_CLOUD,
+    subType: SubType.DEFAULT,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    size: { x: 2, y: 0, z: 0 }, // 点大小
+    color: { r: 255, g: 255, b: 255, a: 255 },
+    points
+  })
+}
+
+// 水平面内射线与障碍物外接圆求交，返回最近的命中
+function raycastTracks(dx: number, dy: number, tracks: TrackState[]): { distance: number, state: TrackState } | null {
+  let best: { distance: number, state: TrackState } | null = null
+  for (const state of tracks) {
+    const radius = Math.max(state.track.size[0], state.track.size[1]) / 2
+    const along = state.x * dx + state.y * dy
+    if (along <= 0) continue
+    const perp2 = state.x * state.x + state.y * state.y - along * along
+    if (perp2 > radius * radius) continue
+    const distance = along - Math.sqrt(radius * radius - perp2)
+    if (distance > 0 && (!best || distance < best.distance)) best = { distance, state }
+  }
+  return best
+}
+
+// ========== 相机图像 ==========
+
+function buildCameraImage(timestamp: number, tracks: TrackState[]): EncodableImage {
+  const w = IMAGE_WIDTH
+  const h = IMAGE_HEIGHT
+  const horizon = Math.round(h * 0.45)
+  const focal = w * 0.8
+  const cameraHeight = 1.5
+  const rgb = new Uint8Array(w * h * 3)
+
+  const fill = (x0: number, y0: number, x1: number, y1: number, r: number, g: number, b: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(h, y1); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(w, x1); x++) {
+        const i = (y * w + x) * 3
+        rgb[i] = r; rgb[i + 1] = g; rgb[i + 2] = b
+      }
+    }
+  }
+
+  // 天空渐变 + 路面
+  for (let y = 0; y < h; y++) {
+    const sky = y < horizon
+    const k = sky ? y / horizon : (y - horizon) / (h - horizon)
+    const color: [number, number, number] = sky
+      ? [120 + 60 * k, 170 + 40 * k, 230]
+      : [70 + 30 * k, 72 + 30 * k, 78 + 30 * k]
+    fill(0, y, w, y + 1, ...color)
+  }
+
+  // 车道线：地面点 (x, y) 投影到图像
+  for (const line of LANE_LINES) {
+    for (let x = 3; x < 80; x += 0.5) {
+      const u = Math.round(w / 2 - focal * line.y / x)
+      const v = Math.round(horizon + focal * cameraHeight / x)
+      fill(u, v, u + 1, v + 1, 235, 235, 235)
+    }
+  }
+
+  // 前方障碍物画成矩形，远处的先画
+  const ahead = tracks.filter(s => s.x - s.track.size[0] / 2 > 2).sort((a, b) => b.x - a.x)
+  for (const { track, x, y } of ahead) {
+    const near = x - track.size[0] / 2
+    const [r, g, b] = SUBTYPE_COLORS[track.subType] ?? [200, 200, 200]
+    const left = Math.round(w / 2 - focal * (y + track.size[1] / 2) / near)
+    const right = Math.round(w / 2 - focal * (y - track.size[1] / 2) / near)
+    const bottom = Math.round(horizon + focal * cameraHeight / near)
+    const top = Math.round(horizon + focal * (cameraHeight - track.size[2]) / near)
+    fill(left, top, right, bottom, r, g, b)
+  }
+
+  return { topic: '/camera/front', timestamp, width: w, height: h, format: 'png', data: encodePng(w, h, rgb) }
+}
+
+// ========== JSON Topic ==========
+
+const SYNTHETIC_SCHEMAS: Record<string, TopicSchema> = {
+  vehicle_state: {
+    proto_type: 'pack.mock.VehicleState',
+    fields: [
+      { id: 1, name: 'speed', path: 'speed', type: 'double', repeated: false },
+      { id: 2, name: 'acceleration', path: 'acceleration', type: 'double', repeated: false },
+      { id: 3, name: 'yaw_rate', path: 'yaw_rate', type: 'double', repeated: false },
+      { id: 4, name: 'gear', path: 'gear', type: 'enum', repeated: false, enum_type: 'pack.mock.Gear' },
+      { id: 5, name: 'x', path: 'pose.x', type: 'double', repeated: false },
+      { id: 6, name: 'y', path: 'pose.y', type: 'double', repeated: false },
+      { id: 7, name: 'heading', path: 'pose.heading', type: 'double', repeated: false }
+    ],
+    enums: {
+      'pack.mock.Gear': { 0: 'GEAR_NONE', 1: 'GEAR_PARK', 2: 'GEAR_REVERSE', 3: 'GEAR_NEUTRAL', 4: 'GEAR_DRIVE' }
+    }
+  },
+  perception_objects: {
+    proto_type: 'pack.mock.PerceptionObjects',
+    fields: [
+      { id: 1, name: 'objects', path: 'objects[]', type: 'message', repeated: true, message_type: 'pack.mock.Object' },
+      { id: 2, name: 'id', path: 'objects.id', type: 'int32', repeated: false },
+      { id: 3, name: 'type', path: 'objects.type', type: 'string', repeated: false },
+      { id: 4, name: 'x', path: 'objects.x', type: 'double', repeated: false },
+      { id: 5, name: 'y', path: 'objects.y', type: 'double', repeated: false },
+      { id: 6, name: 'rel_speed', path: 'objects.rel_speed', type: 'double', repeated: false },
+      { id: 7, name: 'object_count', path: 'object_count', type: 'int32', repeated: false }
+    ]
+  }
+}
+
+function vehicleStateData(t: number): Record<string, any> {
+  const speed = 10 + 2 * Math.sin(t * 0.3)
+  const heading = 0.1 * Math.sin(t * 0.05)
+  return {
+    1: round(speed),
+    2: round(0.6 * Math.cos(t * 0.3)),
+    3: round(0.005 * Math.cos(t * 0.05)),
+    4: 4,
+    5: round(10 * t + 6.67 * (1 - Math.cos(t * 0.3))),
+    6: round(20 * (1 - Math.cos(t * 0.05))),
+    7: round(heading)
+  }
+}
+
+function perceptionObjectsData(tracks: TrackState[]): Record<string, any> {
+  return {
+    1: tracks.map(({ track, x, y }) => ({
+      2: track.id,
+      3: SubType[track.subType],
+      4: round(x),
+      5: round(y),
+      6: track.speed
+    })),
+    7: tracks.length
+  }
+}
+
+// ========== 工具 ==========
+
+function positiveMod(value: number, mod: number): number {
+  return ((value % mod) + mod) % mod
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+// 确定性噪声 [0, 1)，保证同一帧重复生成结果一致
+function noise(a: number, b: number, c: number): number {
+  let h = (a * 374761393 + b * 668265263 + c * 2147483647) | 0
+  h = Math.imul(h ^ (h >>> 13), 1274126177)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296
+}
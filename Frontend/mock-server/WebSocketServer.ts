@@ -0,0 +1,243 @@
+// mock-server/WebSocketServer.ts
+
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import { createHash } from 'node:crypto'
+import { EventEmitter } from 'node:events'
+import type { Duplex } from 'node:stream'
+
+/**
+ * 最小 WebSocket 服务端 (RFC 6455)
+ * 只实现 Mock 服务需要的部分：握手、文本/二进制帧、分片重组、ping/pong、close
+ * 不依赖 ws 等第三方包，保证 npm install 之后即可运行
+ */
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+enum Opcode {
+  CONTINUATION = 0x0,
+  TEXT = 0x1,
+  BINARY = 0x2,
+  CLOSE = 0x8,
+  PING = 0x9,
+  PONG = 0xa
+}
+
+// 单条消息上限，防止异常客户端撑爆内存
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024
+
+export class WebSocketConnection extends EventEmitter {
+  private buffer = Buffer.alloc(0)
+  private fragments: Buffer[] = []
+  private fragmentOpcode: Opcode | null = null
+  private closed = false
+
+  constructor(
+    private socket: Duplex,
+    public readonly remoteAddress: string,
+    public readonly protocol: string = ''   // 协商的子协议，未协商为空
+  ) {
+    super()
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk))
+    socket.on('close', () => this.handleClose())
+    socket.on('error', () => this.handleClose())
+  }
+
+  get isOpen(): boolean {
+    return !this.closed
+  }
+
+  /**
+   * 背压：底层 socket 尚未写出的字节数
+   */
+  get bufferedAmount(): number {
+    return (this.socket as any).writableLength ?? 0
+  }
+
+  sendText(text: string) {
+    this.sendFrame(Opcode.TEXT, Buffer.from(text, 'utf8'))
+  }
+
+  sendJson(message: unknown) {
+    this.sendText(JSON.stringify(message))
+  }
+
+  sendBinary(data: ArrayBuffer | Uint8Array) {
+    const payload = data instanceof Uint8Array
+      ? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+      : Buffer.from(data)
+    this.sendFrame(Opcode.BINARY, payload)
+  }
+
+  close(code: number = 1000, reason: string = '') {
+    if (this.closed) return
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason))
+    payload.writeUInt16BE(code, 0)
+    payload.write(reason, 2)
+    this.sendFrame(Opcode.CLOSE, payload)
+    this.socket.end()
+    this.handleClose()
+  }
+
+  private sendFrame(opcode: Opcode, payload: Buffer) {
+    if (this.closed) return
+    const length = payload.byteLength
+    let header: Buffer
+    if (length < 126) {
+      header = Buffer.alloc(2)
+      header[1] = length
+    } else if (length < 0x10000) {
+      header = Buffer.alloc(4)
+      header[1] = 126
+      header.writeUInt16BE(length, 2)
+    } else {
+      header = Buffer.alloc(10)
+      header[1] = 127
+      header.writeBigUInt64BE(BigInt(length), 2)
+    }
+    header[0] = 0x80 | opcode // FIN + opcode，服务端不加掩码
+    this.socket.write(Buffer.concat([header, payload]))
+  }
+
+  private handleData(chunk: Buffer) {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0]
+      const second = this.buffer[1]
+      const fin = (first & 0x80) !== 0
+      const opcode = (first & 0x0f) as Opcode
+      const masked = (second & 0x80) !== 0
+
+      let length = second & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        length = Number(this.buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      if (length > MAX_MESSAGE_BYTES) {
+        this.close(1009, 'Message too big')
+        return
+      }
+
+      const maskLength = masked ? 4 : 0
+      if (this.buffer.length < offset + maskLength + length) return
+
+      const mask = masked ? this.buffer.subarray(offset, offset + 4) : null
+      offset += maskLength
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length))
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3]
+      }
+      this.buffer = this.buffer.subarray(offset + length)
+
+      this.handleFrame(fin, opcode, payload)
+      if (this.closed) return
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: Opcode, payload: Buffer) {
+    switch (opcode) {
+      case Opcode.PING:
+        this.sendFrame(Opcode.PONG, payload)
+        return
+      case Opcode.PONG:
+        return
+      case Opcode.CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000)
+        return
+    }
+
+    // 分片消息：首帧带 opcode，后续帧为 CONTINUATION
+    if (opcode !== Opcode.CONTINUATION) {
+      this.fragmentOpcode = opcode
+      this.fragments = []
+    }
+    this.fragments.push(payload)
+    if (!fin) return
+
+    const message = this.fragments.length === 1 ? this.fragments[0] : Buffer.concat(this.fragments)
+    const messageOpcode = this.fragmentOpcode
+    this.fragments = []
+    this.fragmentOpcode = null
+
+    if (messageOpcode === Opcode.TEXT) {
+      this.emit('text', message.toString('utf8'))
+    } else if (messageOpcode === Opcode.BINARY) {
+      this.emit('binary', message)
+    }
+  }
+
+  private handleClose() {
+    if (this.closed) return
+    this.closed = true
+    this.emit('close')
+  }
+}
+
+export interface WebSocketServerOptions {
+  // 支持的子协议 (Sec-WebSocket-Protocol)；设置后拒绝未请求其中任何一个的客户端
+  protocols?: string[]
+}
+
+export class WebSocketServer extends EventEmitter {
+  private server: Server
+
+  constructor(private options: WebSocketServerOptions = {}) {
+    super()
+    this.server = createServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' })
+      res.end('WebSocket endpoint\n')
+    })
+    this.server.on('upgrade', (req, socket) => this.handleUpgrade(req, socket))
+  }
+
+  listen(port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()))
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex) {
+    const key = req.headers['sec-websocket-key']
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+      return
+    }
+
+    let protocol = ''
+    if (this.options.protocols) {
+      const requested = String(req.headers['sec-websocket-protocol'] ?? '').split(',').map(p => p.trim())
+      protocol = requested.find(p => this.options.protocols!.includes(p)) ?? ''
+      if (!protocol) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+        return
+      }
+    }
+
+    const accept = createHash('sha1').update(key + GUID).digest('base64')
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      (protocol ? `Sec-WebSocket-Protocol: ${protocol}\r\n` : '') +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    )
+
+    const connection = new WebSocketConnection(socket, req.socket.remoteAddress ?? 'unknown', protocol)
+    this.emit('connection', connection)
+  }
+}
@@ -0,0 +1,128 @@
+// mock-server/index.ts
+
+import { Compression, PROTOCOL_VERSION } from '@/core/protocol/ProtocolCapabilities'
+import { MockPlaybackServer } from './MockPlaybackServer'
+import { SyntheticSource } from './SyntheticSource'
+import { RecordingSource, writeRecording } from './RecordingSource'
+import { FoxgloveServer } from './FoxgloveServer'
+import type { PlaybackSource } from './PlaybackSource'
+
+/**
+ * Mock 回放服务入口
+ *
+ *   npm run mock-server -- [选项]
+ *
+ * 前端默认连接 ws://localhost:9002，无需后端即可开发、演示和做端到端测试
+ */
+
+const USAGE = `
+Usage: npm run mock-server -- [options]
+
+  --port <n>               监听端口 (默认 9002)
+  --host <addr>            监听地址 (默认 0.0.0.0)
+  --protocol <n>           最高协议版本 (默认 ${PROTOCOL_VERSION})，0 模拟不握手的旧服务端
+  --compression <name>     点列压缩: none | zlib | deflate_raw (默认 zlib)
+  --keyframe-interval <n>  关键帧间隔帧数 (默认 30)，0 只发关键帧
+  --loop                   播放到末尾后循环
+
+  Foxglove 协议:
+  --foxglove               以 Foxglove WebSocket 协议 (foxglove.websocket.v1) 提供 JSON Topic，默认端口 8765
+  --no-playback-control    不声明 playbackControl，模拟只能实时推送的服务端
+
+  合成数据:
+  --frames <n>             总帧数 (默认 600)
+  --rate <hz>              帧率 (默认 10)
+  --no-lidar               不生成点云
+  --no-images              不生成相机图像
+
+  录制数据:
+  --recording <dir>        回放录制目录 (index.json + *.bin)
+  --export <dir>           把合成数据导出为录制目录后退出
+`
+
+function parseArgs(argv: string[]) {
+  const flags = new Set<string>()
+  const values = new Map<string, string>()
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) throw new Error(`Unexpected argument: ${arg}`)
+    const key = arg.slice(2)
+    const next = argv[i + 1]
+    if (next !== undefined && !next.startsWith('--')) {
+      values.set(key, next)
+      i++
+    } else {
+      flags.add(key)
+    }
+  }
+
+  const number = (key: string, fallback: number) => {
+    if (!values.has(key)) return fallback
+    const value = Number(values.get(key))
+    if (!Number.isFinite(value)) throw new Error(`--${key} expects a number`)
+    return value
+  }
+
+  return { flags, values, number }
+}
+
+function parseCompression(name: string | undefined): Compression {
+  if (name === undefined) return Compression.ZLIB
+  const value = Compression[name.toUpperCase() as keyof typeof Compression]
+  if (value === undefined) throw new Error(`Unknown compression: ${name}`)
+  return value
+}
+
+async function main() {
+  const { flags, values, number } = parseArgs(process.argv.slice(2))
+  if (flags.has('help')) {
+    console.log(USAGE)
+    return
+  }
+
+  const recordingDir = values.get('recording')
+  const source: PlaybackSource = recordingDir
+    ? new RecordingSource(recordingDir)
+    : new SyntheticSource({
+        frames: number('frames', 600),
+        rate: number('rate', 10),
+        lidar: !flags.has('no-lidar'),
+        images: !flags.has('no-images')
+      })
+
+  const exportDir = values.get('export')
+  if (exportDir) {
+    const version = number('protocol', PROTOCOL_VERSION)
+    writeRecording(source, exportDir, version)
+    console.log(`💾 Exported ${source.frameCount} frames (protocol v${version}) to ${exportDir}`)
+    return
+  }
+
+  const server = flags.has('foxglove')
+    ? new FoxgloveServer(source, {
+        port: number('port', 8765),
+        host: values.get('host'),
+        playbackControl: !flags.has('no-playback-control')
+      })
+    : new MockPlaybackServer(source, {
+        port: number('port', 9002),
+        host: values.get('host'),
+        protocolVersion: number('protocol', PROTOCOL_VERSION),
+        compression: parseCompression(values.get('compression')),
+        keyframeInterval: number('keyframe-interval', 30),
+        loop: flags.has('loop')
+      })
+  await server.start()
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`)
+  console.log(USAGE)
+  process.exit(1)
+})
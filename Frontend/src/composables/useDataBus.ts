@@ -1,6 +1,7 @@
 // composables/useDataBus.ts - DataBus 组合式函数
 
 import { dataBus } from '@/core/DataBus'
+import type { DataTransport } from '@/core/types/transport'
 
 /**
  * 使用 DataBus 的组合式函数
@@ -8,12 +9,19 @@ import { dataBus } from '@/core/DataBus'
  */
 export function useDataBus() {
   /**
-   * 连接服务器
+   * 连接服务器 (传输层由当前驱动决定)
    */
-  async function connect(url?: string): Promise<void> {
+  async function connect(url: string): Promise<void> {
     return dataBus.connect(url)
   }
   
+  /**
+   * 打开本地数据源 (离线回放)
+   */
+  async function openLocal(transport: DataTransport): Promise<void> {
+    return dataBus.openLocal(transport)
+  }
+  
   /**
    * 断开连接
    */
@@ -38,16 +46,12 @@ export function useDataBus() {
   /**
    * 发送命令
    */
-  function sendCommand(type: string, params?: any): boolean {
-    return dataBus.sendCommand(type, params)
-  }
+  const sendCommand: typeof dataBus.sendCommand = dataBus.sendCommand.bind(dataBus)
   
   /**
-   * 请求数据
+   * 请求数据 (已登记的命令自动推导参数与响应类型，失败时以 RpcError 拒绝)
    */
-  async function request<T = any>(type: string, params?: any): Promise<T> {
-    return dataBus.request<T>(type, params)
-  }
+  const request: typeof dataBus.request = dataBus.request.bind(dataBus)
   
   /**
    * 监听连接事件
@@ -73,6 +77,7 @@ export function useDataBus() {
     
     // 连接管理
     connect,
+    openLocal,
     disconnect,
     isConnected,
     
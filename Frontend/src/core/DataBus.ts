@@ -1,20 +1,40 @@
 // src/core/DataBus.ts
 
 import { EventEmitter } from './EventEmitter'
-import { WebSocketClient } from './WebSocketClient'
+import { WebSocketClient, type RawTextInfo } from './WebSocketClient'
 import { MessageRouter } from './MessageRouter'
+import { RpcClient } from './RpcClient'
 import { DataCache } from './data/DataCache'
 import type { Message } from './types/message'
+import type { DataTransport } from './types/transport'
 import type { Module } from './types/module'
 import type { DataCallback, UnsubscribeFn } from './types/common'
+import { RpcErrorCode, type RequestOptions, type RpcCommand, type RpcParams, type RpcResponse } from './types/rpc'
 import { sceneManager } from './vis/SceneManager'
+import { recordDecodedFrame, recordDecodeFailure, resetDecodeStats } from './data/DecodeStats'
+import { formatDiagnostic, type DecodeDiagnostic } from './protocol/DecodeDiagnostics'
+import { validateInboundMessage } from './protocol/ControlMessages'
+import { driverRegistry } from './driver/DriverRegistry'
+import { recordInvalidMessage, resetMessageStats } from './data/MessageStats'
+import { SessionRecorder, type RecordingStopReason } from './recording/SessionRecorder'
+import { RecordFlag } from './recording/SessionFile'
+import type { CommandParamsMap, CommandType, InitInfoMessage } from '@/types/playback'
+import type { DecodeResult } from './protocol/VizDecoder'
+import {
+  SceneDecodePool,
+  type DecodeFailure,
+  type DecodedPacketStats,
+  type DecodePoolStats
+} from './SceneDecodePool'
+import {
+  CLIENT_CAPABILITIES,
+  SCENE_MAGIC,
+  BinaryMessageType,
+  negotiateProtocol,
+  type NegotiatedProtocol
+} from './protocol/ProtocolCapabilities'
 import VizParserWorker from '@/drivers/schema/worker/viz-parser.worker.ts?worker'
 
-enum BinaryMessageType {
-  SCENE_GRAPH = 0x01,
-  IMAGE_DATA = 0x02
-}
-
 export interface ImageDataEvent {
   topic: string
   timestamp: number
@@ -30,22 +50,35 @@ export interface DataBusConfig {
   reconnectInterval?: number
   cacheSize?: number
   debug?: boolean
+  decodeWorkers?: number  // 🌟 [新增] 场景解码 Worker 数量，不填按 CPU 核数决定
 }
 
 export class DataBus extends EventEmitter {
   private config: DataBusConfig
   private wsClient: WebSocketClient
+  // 🌟 [新增] 当前使用的传输层：默认 WebSocket，离线回放时切换为本地数据源
+  private transport: DataTransport
+  private transportHandlers: Array<[string, (...args: any[]) => void]> = []
   private messageRouter: MessageRouter
+  private rpc: RpcClient
   private dataCache: DataCache
   private subscriptions: Map<string, Set<DataCallback>> = new Map()
   
-  private parserWorker: Worker
+  private decodePool: SceneDecodePool
+
+  // 🌟 [新增] 原始消息录制 (在数据闸门之前写入)
+  private recorder: SessionRecorder = new SessionRecorder()
   
   // 🌟 [新增] 数据流总开关
   // true: 正常接收所有数据
   // false: 丢弃所有业务数据 (TopicData, Binary)，只保留控制信令 (Status, Ack)
   private isDataFlowEnabled: boolean = true
 
+  // 🌟 [新增] 握手协商结果 (null: 尚未收到 INIT_INFO)
+  private protocol: NegotiatedProtocol | null = null
+  private protocolRejected: boolean = false
+  private protocolErrorReported: boolean = false
+
   constructor(config: DataBusConfig = {}) {
     super()
     this.config = {
@@ -64,50 +97,182 @@ export class DataBus extends EventEmitter {
     })
     
     this.messageRouter = new MessageRouter()
+    this.rpc = new RpcClient({
+      send: (type, params) => this.sendRaw(type, params),
+      debug: this.config.debug
+    })
+    this.setupMessageRoutes()
     this.dataCache = new DataCache(this.config.cacheSize)
     
-    this.parserWorker = new VizParserWorker()
-    this.setupWorkerHandlers()
+    // Worker 在收到第一个场景包时才创建
+    this.decodePool = new SceneDecodePool({
+      size: this.config.decodeWorkers,
+      createWorker: () => new VizParserWorker()
+    })
+    this.setupDecodePoolHandlers()
+
+    this.recorder.on('limit-reached', () => this.finishRecording('size-limit'))
 
-    this.setupWebSocketHandlers()
+    this.transport = this.wsClient
+    this.bindTransport(this.transport)
   }
 
   // 🌟 [新增] 控制数据闸门
   public setDataFlowEnabled(enabled: boolean) {
     this.isDataFlowEnabled = enabled
+    // 播放中解码积压时只渲染最新帧；暂停/单步时每帧都要交付
+    this.decodePool.setDropSuperseded(enabled)
   }
 
-  private setupWorkerHandlers() {
-    this.parserWorker.onmessage = (e) => {
-      const { type, data, success, error } = e.data
-      
+  private setupDecodePoolHandlers() {
+    this.decodePool.on('frame', (data: DecodeResult) => {
+      // 🌟 解码诊断先入统计 (与数据闸门无关，暂停时到达的坏包同样计数)
+      recordDecodedFrame(data)
+      if (this.config.debug) data.diagnostics.forEach((d: DecodeDiagnostic) => console.warn('[DataBus] Decode:', formatDiagnostic(d)))
+
       // 🌟 [优化] 即使 Worker 解析完了，如果现在闸门关了，也不要交给 SceneManager
       // (双重保险，防止 Worker 解析耗时导致的数据延迟到达)
       if (!this.isDataFlowEnabled) return
+      sceneManager.handleDecodedFrame(data)
+    })
+
+    this.decodePool.on('decode-error', ({ type, error, diagnostics }: DecodeFailure) => {
+      if (type === 'ERROR' && diagnostics) recordDecodeFailure(diagnostics)
+      if (!this.isDataFlowEnabled) return
 
-      if (type === 'SCENE_PARSED' && success) {
-        sceneManager.handleDecodedFrame(data)
-      } else if (type === 'ERROR') {
-        if (this.config.debug) console.warn('[DataBus] Worker parse error:', error)
+      if (type === 'PROTOCOL_ERROR') {
+        // 同一连接只上报一次，避免每帧弹窗
+        if (!this.protocolErrorReported) {
+          this.protocolErrorReported = true
+          this.emit('protocol-error', { message: error })
+        }
+      } else if (this.config.debug) {
+        console.warn('[DataBus] Worker parse error:', error)
       }
-    }
-    
-    this.parserWorker.onerror = (err) => {
-      console.error('[DataBus] Worker system error:', err)
-    }
+    })
+
+    // 🌟 [新增] 每包的排队深度与解码耗时，供性能面板使用
+    this.decodePool.on('packet', (stats: DecodedPacketStats) => {
+      this.emit('decode-stats', stats)
+    })
   }
 
   private sendToWorker(buffer: ArrayBuffer) {
-    this.parserWorker.postMessage(
-      { type: 'PARSE_SCENE', payload: buffer },
-      [buffer] 
-    )
+    this.decodePool.decode(buffer)
+  }
+
+  // ========== 🌟 [新增] 会话录制 ==========
+
+  /**
+   * 开始录制收到的全部原始消息 (含被数据闸门丢弃的消息)
+   * @param maxBytes 大小上限，达到后自动停止
+   */
+  startRecording(maxBytes?: number) {
+    if (this.recorder.isRecording) return
+    this.recorder.start({
+      url: this.transport.getUrl(),
+      protocolVersion: this.protocol?.version ?? null,
+      maxBytes
+    })
+    this.emit('recording-started')
+  }
+
+  /**
+   * 停止录制；录制文件通过 'recording-stopped' 事件交给 UI 下载
+   */
+  stopRecording(): Blob | null {
+    return this.finishRecording('user')
+  }
+
+  isRecording(): boolean {
+    return this.recorder.isRecording
+  }
+
+  private finishRecording(reason: RecordingStopReason): Blob | null {
+    const blob = this.recorder.stop(reason)
+    if (blob) this.emit('recording-stopped', { blob, reason })
+    return blob
+  }
+
+  private recordText(info: RawTextInfo | undefined, flags: RecordFlag) {
+    if (info) this.recorder.recordText(info.raw, flags, info.receivedAt)
+  }
+
+  /**
+   * 解码池汇总统计 (Worker 数、在途包数、交付/丢弃数、平均解码耗时)
+   */
+  getDecodePoolStats(): DecodePoolStats {
+    return this.decodePool.getStats()
+  }
+
+  /**
+   * 当前连接的协议协商结果
+   */
+  getProtocol(): NegotiatedProtocol | null {
+    return this.protocol
+  }
+
+  private sendHello() {
+    this.protocol = null
+    this.protocolRejected = false
+    this.protocolErrorReported = false
+    this.decodePool.reset()
+    this.decodePool.setProtocol(undefined)
+    resetDecodeStats()
+    resetMessageStats()
+    this.sendCommand('HELLO', CLIENT_CAPABILITIES)
+  }
+
+  /**
+   * 校验 INIT_INFO 中的服务端能力
+   * @returns 是否兼容
+   */
+  private handleInitInfo(message: InitInfoMessage): boolean {
+    const data = message.data
+    const result = negotiateProtocol(data.protocol, data.server_version)
+
+    if (!result.ok) {
+      this.protocol = null
+      this.protocolRejected = true
+      console.error('[DataBus] Protocol rejected:', result.reason)
+      this.emit('protocol-rejected', { reason: result.reason })
+      return false
+    }
+
+    this.protocol = result.protocol
+    this.protocolRejected = false
+    this.decodePool.setProtocol(result.protocol)
+    this.emit('protocol-negotiated', result.protocol)
+    return true
   }
 
   // ... (Connect, Subscribe 等标准方法保持不变) ...
-  async connect(url: string): Promise<void> { await this.wsClient.connect(url) }
-  disconnect(): void { this.wsClient.disconnect(); this.parserWorker.terminate() }
-  isConnected(): boolean { return this.wsClient.isConnected() }
+  /**
+   * 🌟 [修改] 传输层由当前驱动提供 (如 Foxglove WebSocket)，驱动未提供时使用内置 WebSocket 协议
+   */
+  async connect(url: string): Promise<void> {
+    const transport = driverRegistry.getActive().createTransport?.() ?? this.wsClient
+    this.useTransport(transport)
+    await transport.connect(url)
+  }
+  disconnect(): void { this.transport.disconnect(); this.decodePool.terminate() }
+  isConnected(): boolean { return this.transport.isConnected() }
+
+  /**
+   * 🌟 [新增] 使用本地传输层 (离线回放) 代替 WebSocket，之后的消息处理流程与在线完全一致
+   */
+  async openLocal(transport: DataTransport): Promise<void> {
+    this.useTransport(transport)
+    await transport.connect(transport.getUrl())
+  }
+
+  private useTransport(transport: DataTransport) {
+    if (transport === this.transport) return
+    this.transport.disconnect()
+    this.unbindTransport()
+    this.transport = transport
+    this.bindTransport(transport)
+  }
   
   subscribe<T = any>(topic: string, callback: DataCallback<T>): UnsubscribeFn {
     if (!this.subscriptions.has(topic)) this.subscriptions.set(topic, new Set())
@@ -134,50 +299,102 @@ export class DataBus extends EventEmitter {
       }
     }
   }
-  sendCommand(type: string, params?: any): boolean {
+  sendCommand<K extends CommandType>(type: K, params?: CommandParamsMap[K]): boolean {
+    return this.sendRaw(type, params)
+  }
+  // 请求-响应也走这里：未登记的扩展命令不受 CommandParamsMap 约束
+  private sendRaw(type: string, params?: any): boolean {
     if (!this.isConnected()) return false
-    return this.wsClient.send({ type, timestamp: Date.now(), ...(params && { params }) })
-  }
-  async request<T>(type: string, params?: any): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const requestId = Math.random().toString(36).substr(2, 9)
-      const timeout = setTimeout(() => {
-        this.off('response:' + requestId, handler)
-        reject(new Error('Request timeout'))
-      }, 5000)
-      const handler = (response: any) => {
-        clearTimeout(timeout)
-        if (response.error) resolve(response as any)
-        else resolve(response.data)
-      }
-      this.once('response:' + requestId, handler)
-      this.sendCommand(type, { ...params, _requestId: requestId })
-    })
+    return this.transport.send({ type, timestamp: Date.now(), ...(params && { params }) })
+  }
+  /**
+   * 🌟 请求-响应
+   * 失败 (未连接、超时、取消、断线、服务端 ERROR) 时以 RpcError 拒绝
+   */
+  request<K extends RpcCommand>(type: K, params: RpcParams<K>, options?: RequestOptions): Promise<RpcResponse<K>>
+  request<T = any>(type: string, params?: Record<string, any>, options?: RequestOptions): Promise<T>
+  request(type: string, params?: Record<string, any>, options?: RequestOptions): Promise<any> {
+    return this.rpc.call(type, params, options)
+  }
+
+  /**
+   * 文本消息分发：带 _requestId 的响应先交给 RpcClient，再按消息类型发布给订阅者
+   */
+  private setupMessageRoutes(): void {
+    this.messageRouter.register('*', (message) => this.rpc.handleMessage(message), 10)
+    this.messageRouter.register('*', (message) => this.publish(message.type, message))
+  }
+
+  private unbindTransport(): void {
+    this.transportHandlers.forEach(([event, handler]) => this.transport.off(event, handler))
+    this.transportHandlers = []
   }
 
-  private setupWebSocketHandlers(): void {
-    this.wsClient.on('connected', (d) => this.emit('connected', d))
-    this.wsClient.on('disconnected', (d) => this.emit('disconnected', d))
-    this.wsClient.on('error', (d) => this.emit('error', d))
+  private bindTransport(transport: DataTransport): void {
+    const on = (event: string, handler: (...args: any[]) => void) => {
+      transport.on(event, handler)
+      this.transportHandlers.push([event, handler])
+    }
+
+    on('connected', (d) => {
+      this.sendHello()
+      // 🌟 [新增] 驱动的连接钩子 (握手、鉴权等)
+      driverRegistry.getActive().onConnect?.(transport)
+      this.emit('connected', d)
+    })
+    on('disconnected', (d) => {
+      this.rpc.rejectAll(RpcErrorCode.DISCONNECTED, 'interrupted: connection closed')
+      this.emit('disconnected', d)
+    })
+    on('error', (d) => this.emit('error', d))
     
-    this.wsClient.on('message', (message: Message) => {
+    on('invalid-message', ({ type, reason }: { type: string; reason: string }, info?: RawTextInfo) => {
+      this.recordText(info, RecordFlag.INVALID | RecordFlag.DROPPED)
+      this.reportInvalidMessage(type, reason)
+    })
+
+    on('message', (raw: Message, info?: RawTextInfo) => {
+      // 🌟 结构校验：不合规的控制消息计数后丢弃，不再以 any 流入业务层
+      const validation = validateInboundMessage(raw)
+      if (!validation.ok) {
+        this.recordText(info, RecordFlag.INVALID | RecordFlag.DROPPED)
+        this.reportInvalidMessage(validation.type, validation.reason)
+        return
+      }
+      const message = validation.message
+
+      // 🌟 握手：不兼容的服务端不再向业务层分发任何消息
+      if (message.type === 'INIT_INFO' && !this.handleInitInfo(message as InitInfoMessage)) {
+        this.recordText(info, RecordFlag.DROPPED)
+        return
+      }
+      if (this.protocolRejected) {
+        this.recordText(info, RecordFlag.DROPPED)
+        return
+      }
+
       // 🌟 [核心拦截逻辑 - 文本消息]
       // 如果闸门关闭，并且消息类型是数据推送 (TOPIC_DATA)，直接丢弃。
       // 但必须放行控制消息 (如 STATUS, ACK, SCHEMA 等)，否则 UI 会失去响应。
       if (!this.isDataFlowEnabled) {
         if (message.type === 'TOPIC_DATA') {
+            this.recordText(info, RecordFlag.DROPPED)
             return
         }
       }
       
-      this.publish(message.type, message)
+      this.recordText(info, RecordFlag.NONE)
+      this.messageRouter.route(message as Message)
     })
 
-    this.wsClient.on('binary', (data: ArrayBuffer) => {
+    on('binary', (data: ArrayBuffer) => {
       // 🌟 [核心拦截逻辑 - 二进制消息]
       // 二进制消息通常全是重型业务数据 (3D场景、图像)，如果闸门关闭，全部丢弃。
       // 这将直接切断 2D、3D、图像 的数据源，实现“秒停”。
-      if (!this.isDataFlowEnabled) {
+      const dropped = !this.isDataFlowEnabled || this.protocolRejected
+      // 录制先于闸门：排查问题时需要看到暂停期间服务端仍在发送的数据
+      this.recorder.recordBinary(data, dropped ? RecordFlag.DROPPED : RecordFlag.NONE)
+      if (dropped) {
           return 
       }
 
@@ -186,7 +403,9 @@ export class DataBus extends EventEmitter {
       const view = new DataView(data)
       const firstByte = view.getUint8(0) 
 
-      if (firstByte === 0x43) {
+      // v0 兼容：场景包可以不带类型前缀，首字节恰好是 Magic 的低字节 ('C')
+      // v1 起所有二进制消息都必须带类型前缀
+      if ((this.protocol?.version ?? 0) === 0 && firstByte === (SCENE_MAGIC & 0xff)) {
         this.sendToWorker(data)
         return
       }
@@ -210,6 +429,12 @@ export class DataBus extends EventEmitter {
     })
   }
 
+  private reportInvalidMessage(type: string, reason: string) {
+    recordInvalidMessage(type, reason)
+    if (this.config.debug) console.warn(`[DataBus] Invalid message (${type}): ${reason}`)
+    this.emit('invalid-message', { type, reason })
+  }
+
   private handleImagePacket(buffer: ArrayBuffer) {
     try {
       const view = new DataView(buffer)
@@ -243,7 +468,9 @@ export class DataBus extends EventEmitter {
   }
 
   destroy(): void {
+    this.recorder.stop()
     this.disconnect()
+    this.rpc.rejectAll(RpcErrorCode.DISCONNECTED, 'cancelled: DataBus destroyed')
     this.dataCache.clear()
     this.subscriptions.clear()
     this.removeAllListeners()
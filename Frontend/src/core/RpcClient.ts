@@ -0,0 +1,173 @@
+// core/RpcClient.ts - 请求/响应关联
+
+import type { Message } from './types/message'
+import { MessageType } from './types/message'
+import { RPC_RESPONSE_TYPES, RpcErrorCode, type RequestOptions, type RpcCommand } from './types/rpc'
+
+/**
+ * 请求失败
+ * 超时、取消、断线与服务端 ERROR 都以此拒绝，调用方按 code 区分
+ */
+export class RpcError extends Error {
+  constructor(
+    public code: RpcErrorCode,
+    message: string,
+    public command: string,
+    public requestId: string,
+    public serverCode?: string   // 服务端 ERROR 消息中的 error_code
+  ) {
+    super(message)
+    this.name = 'RpcError'
+  }
+}
+
+interface PendingRequest {
+  command: string
+  expectedType?: MessageType
+  resolve: (value: any) => void
+  reject: (error: RpcError) => void
+  cleanup: () => void
+}
+
+export interface RpcClientConfig {
+  send: (type: string, params: Record<string, any>) => boolean
+  defaultTimeout?: number
+  debug?: boolean
+}
+
+/**
+ * 请求-响应客户端
+ *
+ * 职责：
+ * 1. 为每个请求分配 _requestId 并登记等待中的 Promise
+ * 2. 收到带 _requestId 的消息时找到对应请求并完成 (由 MessageRouter 分发进来)
+ * 3. 超时、取消、断线时拒绝等待中的请求
+ */
+export class RpcClient {
+  private config: Required<RpcClientConfig>
+  private pending: Map<string, PendingRequest> = new Map()
+  private nextId = 0
+  // 区分不同页面/实例的请求 ID，避免服务端日志里混淆
+  private readonly idPrefix = Math.random().toString(36).slice(2, 8)
+
+  constructor(config: RpcClientConfig) {
+    this.config = { defaultTimeout: 5000, debug: false, ...config }
+  }
+
+  /**
+   * 发送请求并等待响应
+   *
+   * @returns 已登记命令 (RpcCommandMap) 返回响应消息本身；其他命令返回 message.data，没有则为消息本身
+   */
+  call<T = any>(command: string, params: Record<string, any> = {}, options: RequestOptions = {}): Promise<T> {
+    const requestId = `${this.idPrefix}-${++this.nextId}`
+    const { timeout = this.config.defaultTimeout, signal } = options
+
+    return new Promise<T>((resolve, reject) => {
+      const fail = (code: RpcErrorCode, message: string) =>
+        reject(new RpcError(code, message, command, requestId))
+
+      if (signal?.aborted) {
+        fail(RpcErrorCode.ABORTED, `${command} aborted`)
+        return
+      }
+
+      const timer = setTimeout(() => {
+        this.settle(requestId)?.reject(
+          new RpcError(RpcErrorCode.TIMEOUT, `${command} timed out after ${timeout}ms`, command, requestId)
+        )
+      }, timeout)
+
+      const onAbort = () => {
+        this.settle(requestId)?.reject(
+          new RpcError(RpcErrorCode.ABORTED, `${command} aborted`, command, requestId)
+        )
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(requestId, {
+        command,
+        expectedType: RPC_RESPONSE_TYPES[command as RpcCommand],
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer)
+          signal?.removeEventListener('abort', onAbort)
+        }
+      })
+
+      if (!this.config.send(command, { ...params, _requestId: requestId })) {
+        this.settle(requestId)
+        fail(RpcErrorCode.NOT_CONNECTED, `${command} failed: not connected`)
+      }
+    })
+  }
+
+  /**
+   * 处理一条消息；不带 _requestId 或不属于本客户端的消息直接忽略
+   * 注册到 MessageRouter 上使用
+   */
+  handleMessage(message: Message) {
+    const requestId: string | undefined = (message as any)._requestId
+    if (!requestId) return
+
+    const request = this.settle(requestId)
+    if (!request) {
+      // 已超时/取消的请求，响应迟到
+      if (this.config.debug) console.warn('[RpcClient] Late or unknown response:', requestId, message.type)
+      return
+    }
+
+    const msg = message as any
+    if (message.type === MessageType.ERROR) {
+      request.reject(new RpcError(
+        RpcErrorCode.SERVER_ERROR,
+        msg.error || msg.message || 'Server error',
+        request.command,
+        requestId,
+        msg.error_code
+      ))
+      return
+    }
+
+    if (request.expectedType && message.type !== request.expectedType) {
+      request.reject(new RpcError(
+        RpcErrorCode.UNEXPECTED_RESPONSE,
+        `${request.command} expected ${request.expectedType}, got ${message.type}`,
+        request.command,
+        requestId
+      ))
+      return
+    }
+
+    // 已登记的命令返回校验过的响应消息；扩展命令沿用 data 信封约定
+    if (request.expectedType) request.resolve(message)
+    else request.resolve(msg.data !== undefined ? msg.data : message)
+  }
+
+  /**
+   * 拒绝所有等待中的请求 (断线、销毁时调用)
+   */
+  rejectAll(code: RpcErrorCode, reason: string) {
+    for (const requestId of Array.from(this.pending.keys())) {
+      const request = this.settle(requestId)!
+      request.reject(new RpcError(code, `${request.command} ${reason}`, request.command, requestId))
+    }
+  }
+
+  /**
+   * 等待响应中的请求数
+   */
+  get pendingCount(): number {
+    return this.pending.size
+  }
+
+  // 从等待表中移除并清理定时器/监听；已完成的请求返回 undefined
+  private settle(requestId: string): PendingRequest | undefined {
+    const request = this.pending.get(requestId)
+    if (!request) return undefined
+    this.pending.delete(requestId)
+    request.cleanup()
+    return request
+  }
+}
@@ -0,0 +1,254 @@
+// src/core/SceneDecodePool.ts
+
+import { EventEmitter } from './EventEmitter'
+import { FrameKind, type DecodeResult } from './protocol/VizDecoder'
+import type { Origin } from './protocol/PointListDecoder'
+import type { NegotiatedProtocol } from './protocol/ProtocolCapabilities'
+import type { DecodeDiagnostic } from './protocol/DecodeDiagnostics'
+
+/**
+ * 场景解码 Worker 池
+ *
+ * - 场景包按到达顺序编号 (seq) 后轮询分发给各 Worker 并行解码
+ * - 结果按 seq 重排后再交付：服务端按 frameId 顺序发送，seq 顺序即 frameId 顺序，
+ *   跳转 (frameId 回退) 时也不会被误判为乱序
+ * - 播放中结果积压时，只交付最后一个完整帧 (全量帧/关键帧) 及其后的增量帧，之前的帧丢弃
+ *
+ * 事件：
+ *   'frame'        (result: DecodeResult)          按序交付的解码结果
+ *   'decode-error' (error: DecodeFailure)          解码失败 (不保证顺序，立即上报)
+ *   'packet'       (stats: DecodedPacketStats)     每个包处理完毕 (交付或丢弃) 时的耗时统计
+ */
+
+export interface SceneDecodePoolConfig {
+  size?: number                  // Worker 数量，默认按 CPU 核数取 1~4
+  createWorker: () => Worker
+}
+
+export interface DecodeFailure {
+  type: 'PROTOCOL_ERROR' | 'ERROR'
+  error: string
+  diagnostics?: DecodeDiagnostic[]
+}
+
+export interface DecodedPacketStats {
+  seq: number
+  frameId: bigint | null   // 解码失败时为 null
+  worker: number
+  decodeMs: number         // Worker 内纯解码耗时
+  latencyMs: number        // 派发到交付 (含排队、重排等待)
+  queueDepth: number       // 交付时仍未完成的包数
+  dropped: boolean         // 被后续完整帧取代而未交付
+}
+
+export interface DecodePoolStats {
+  workers: number
+  queueDepth: number
+  delivered: number
+  dropped: number
+  failed: number
+  lastDecodeMs: number
+  avgDecodeMs: number      // 指数滑动平均
+}
+
+interface Slot {
+  seq: number
+  worker: number
+  dispatchedAt: number
+  status: 'pending' | 'done' | 'failed'
+  result?: DecodeResult
+  decodeMs: number
+}
+
+// 平均解码耗时的平滑系数
+const DECODE_TIME_SMOOTHING = 0.1
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(4, Math.floor(cores / 2)))
+}
+
+export class SceneDecodePool extends EventEmitter {
+  private config: SceneDecodePoolConfig
+  private size: number
+  private workers: Worker[] = []
+  private nextWorker = 0
+
+  private nextSeq = 0
+  private nextDeliverSeq = 0
+  private slots = new Map<number, Slot>()
+
+  private protocol: NegotiatedProtocol | undefined
+  // 🌟 各 Worker 独立解码，F64 原点由主线程统一下发，避免不同 Worker 选出不同原点导致画面跳动
+  private lastOrigin: Origin | null = null
+  private dropSuperseded = false
+
+  private stats = { delivered: 0, dropped: 0, failed: 0, lastDecodeMs: 0, avgDecodeMs: 0 }
+
+  constructor(config: SceneDecodePoolConfig) {
+    super()
+    this.config = config
+    this.size = Math.max(1, Math.floor(config.size ?? defaultPoolSize()))
+  }
+
+  /**
+   * 提交一个场景包 (所有权转移给 Worker)
+   */
+  decode(buffer: ArrayBuffer) {
+    this.ensureWorkers()
+
+    const seq = this.nextSeq++
+    const worker = this.nextWorker
+    this.nextWorker = (this.nextWorker + 1) % this.workers.length
+
+    this.slots.set(seq, { seq, worker, dispatchedAt: performance.now(), status: 'pending', decodeMs: 0 })
+    this.workers[worker].postMessage(
+      { type: 'PARSE_SCENE', payload: buffer, seq, origin: this.lastOrigin },
+      [buffer]
+    )
+  }
+
+  setProtocol(protocol: NegotiatedProtocol | undefined) {
+    this.protocol = protocol
+    for (const worker of this.workers) {
+      worker.postMessage({ type: 'SET_PROTOCOL', payload: protocol ?? null })
+    }
+  }
+
+  /**
+   * 播放中开启：积压的旧帧直接丢弃，只渲染最新状态
+   */
+  setDropSuperseded(enabled: boolean) {
+    this.dropSuperseded = enabled
+  }
+
+  /**
+   * 当前在途 (已派发未交付) 的包数
+   */
+  getQueueDepth(): number {
+    return this.slots.size
+  }
+
+  getStats(): DecodePoolStats {
+    return { workers: this.size, queueDepth: this.slots.size, ...this.stats }
+  }
+
+  /**
+   * 丢弃所有在途结果 (迟到的结果按 seq 识别后忽略)
+   */
+  reset() {
+    this.slots.clear()
+    this.nextDeliverSeq = this.nextSeq
+    this.lastOrigin = null
+  }
+
+  /**
+   * 终止全部 Worker；下次 decode 时重新创建
+   */
+  terminate() {
+    for (const worker of this.workers) worker.terminate()
+    this.workers = []
+    this.nextWorker = 0
+    this.reset()
+  }
+
+  private ensureWorkers() {
+    if (this.workers.length > 0) return
+    for (let i = 0; i < this.size; i++) {
+      const worker = this.config.createWorker()
+      worker.onmessage = (e) => this.handleWorkerMessage(i, e.data)
+      worker.onerror = (err) => this.handleWorkerCrash(i, err)
+      if (this.protocol) worker.postMessage({ type: 'SET_PROTOCOL', payload: this.protocol })
+      this.workers.push(worker)
+    }
+  }
+
+  private handleWorkerMessage(_worker: number, message: any) {
+    const { type, seq, data, error, diagnostics, decodeMs } = message
+    const slot = this.slots.get(seq)
+    if (!slot) return // 已被 reset 丢弃
+
+    slot.decodeMs = decodeMs ?? 0
+    this.stats.lastDecodeMs = slot.decodeMs
+    this.stats.avgDecodeMs = this.stats.avgDecodeMs === 0
+      ? slot.decodeMs
+      : this.stats.avgDecodeMs + (slot.decodeMs - this.stats.avgDecodeMs) * DECODE_TIME_SMOOTHING
+
+    if (type === 'SCENE_PARSED') {
+      slot.status = 'done'
+      slot.result = data
+    } else {
+      slot.status = 'failed'
+      this.stats.failed++
+      this.emit('decode-error', { type, error, diagnostics } as DecodeFailure)
+    }
+    this.flush()
+  }
+
+  // Worker 异常退出：它手上的包不会再有结果，标记失败以免阻塞后续交付
+  private handleWorkerCrash(worker: number, err: ErrorEvent) {
+    console.error(`[SceneDecodePool] Worker #${worker} system error:`, err)
+    for (const slot of this.slots.values()) {
+      if (slot.worker === worker && slot.status === 'pending') {
+        slot.status = 'failed'
+        this.stats.failed++
+      }
+    }
+    this.flush()
+  }
+
+  /**
+   * 按 seq 顺序交付已完成的结果；遇到未完成的包即停止等待
+   */
+  private flush() {
+    const ready: Slot[] = []
+    for (;;) {
+      const slot = this.slots.get(this.nextDeliverSeq)
+      if (!slot || slot.status === 'pending') break
+      this.slots.delete(this.nextDeliverSeq)
+      this.nextDeliverSeq++
+      if (slot.status === 'done') ready.push(slot)
+      else this.emitPacket(slot, null, false)
+    }
+    if (ready.length === 0) return
+
+    // 增量帧依赖前序帧，只能从一个完整帧开始整体跳过
+    let start = 0
+    if (this.dropSuperseded) {
+      for (let i = ready.length - 1; i > 0; i--) {
+        const result = ready[i].result!
+        if (result.kind !== FrameKind.DELTA && result.complete) {
+          start = i
+          break
+        }
+      }
+    }
+
+    for (let i = 0; i < ready.length; i++) {
+      const slot = ready[i]
+      const result = slot.result!
+      const dropped = i < start
+      if (dropped) {
+        this.stats.dropped++
+      } else {
+        this.stats.delivered++
+        if (result.origin) this.lastOrigin = result.origin
+      }
+      this.emitPacket(slot, result.frameId, dropped)
+      if (!dropped) this.emit('frame', result)
+    }
+  }
+
+  private emitPacket(slot: Slot, frameId: bigint | null, dropped: boolean) {
+    const stats: DecodedPacketStats = {
+      seq: slot.seq,
+      frameId,
+      worker: slot.worker,
+      decodeMs: slot.decodeMs,
+      latencyMs: performance.now() - slot.dispatchedAt,
+      queueDepth: this.slots.size,
+      dropped
+    }
+    this.emit('packet', stats)
+  }
+}
@@ -18,6 +18,15 @@ export interface WebSocketClientConfig {
  */
 interface QueueItem {
   data: any
+  receivedAt: number
+}
+
+/**
+ * 🌟 [新增] 文本消息的原始内容 ('message' / 'invalid-message' 事件附带，供会话录制使用)
+ */
+export interface RawTextInfo {
+  raw: string
+  receivedAt: number   // performance.now()
 }
 
 export class WebSocketClient extends EventEmitter {
@@ -120,10 +129,10 @@ export class WebSocketClient extends EventEmitter {
             // ⚡️ 极速通道：判断是否为控制指令
             // 只要不是特别巨大的 JSON，都视为指令尝试立即解析
             if (data.length < 10240) { 
-              this.processTextImmediate(data)
+              this.processTextImmediate(data, performance.now())
             } else {
               // 极少见的大文本，放入低优先级队列，避免阻塞 UI
-              this.enqueueMessage(data)
+              this.enqueueMessage(data, performance.now())
             }
           }
         }
@@ -141,26 +150,34 @@ export class WebSocketClient extends EventEmitter {
    * 立即处理文本消息 (指令/状态/Ack)
    * 目标：0 延迟响应 UI
    */
-  private processTextImmediate(data: string) {
+  private processTextImmediate(data: string, receivedAt: number) {
+    const info: RawTextInfo = { raw: data, receivedAt }
     try {
       const trimmed = data.trim()
-      if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return
+      if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+        this.emit('invalid-message', { type: '(json)', reason: 'not a JSON object' }, info)
+        return
+      }
       
       const message: Message = JSON.parse(data)
       
       // 直接触发，不进入任何调度，确保 UI 按钮 0 延迟响应
-      this.emit('message', message) 
+      this.emit('message', message, info)
       
     } catch (error) {
-      // JSON 解析失败忽略即可
+      // 🌟 JSON 解析失败：交给 DataBus 计数
+      this.emit('invalid-message', {
+        type: '(json)',
+        reason: error instanceof Error ? error.message : String(error)
+      }, info)
     }
   }
 
   /**
    * 将大文本加入低优先级队列
    */
-  private enqueueMessage(data: any) {
-    this.messageQueue.push({ data })
+  private enqueueMessage(data: any, receivedAt: number) {
+    this.messageQueue.push({ data, receivedAt })
     this.scheduleQueueProcessing()
   }
 
@@ -180,7 +197,7 @@ export class WebSocketClient extends EventEmitter {
       const item = this.messageQueue.shift()
       if (!item) break
 
-      this.processTextImmediate(item.data)
+      this.processTextImmediate(item.data, item.receivedAt)
 
       // 检查时间预算
       if (performance.now() - startTime > this.FRAME_BUDGET_MS) {
@@ -212,6 +229,10 @@ export class WebSocketClient extends EventEmitter {
     }
   }
   
+  getUrl(): string {
+    return this.url
+  }
+
   send(message: any): boolean {
     if (!this.isConnected()) return false
     
@@ -1,5 +1,5 @@
 // src/core/codec/SchemaParser.ts
-import type { TopicSchema, TopicField } from '@/core/types/common'
+import type { TopicSchema, TopicField, TopicEnum } from '@/core/types/common'
 
 /**
  * 核心 Schema 解析器
@@ -38,6 +38,7 @@ export class SchemaParser {
           }
           return item
         })
+        if (field.map) processedValue = this.entriesToMap(processedValue)
       }
 
       this.setNestedValue(result, field.path, processedValue)
@@ -79,6 +80,7 @@ export class SchemaParser {
             ? this.convertFieldIdsToNested(item, field.path, schema, fieldMap)
             : item
         )
+        if (field.map) processedValue = this.entriesToMap(processedValue)
       }
 
       this.setNestedValueSimple(result, relativePath, processedValue)
@@ -87,6 +89,56 @@ export class SchemaParser {
     return result
   }
 
+  /**
+   * 🌟 [新增] map 字段：[{key, value}, ...] -> { [key]: value }
+   */
+  private static entriesToMap(entries: any[]): Record<string, any> {
+    const map: Record<string, any> = {}
+    for (const entry of entries) {
+      if (entry && typeof entry === 'object' && entry.key !== undefined) map[String(entry.key)] = entry.value
+    }
+    return map
+  }
+
+  /**
+   * 🌟 [新增] 解析枚举名称
+   * 返回 字段路径 -> 枚举名 (路径与数据树一致，重复字段带下标，如 "objects[2].type")；
+   * 数据本身保留数值，数值历史与曲线不受影响
+   */
+  static resolveEnums(parsed: Record<string, any>, schema: TopicSchema): Record<string, string> {
+    const labels: Record<string, string> = {}
+    if (!schema?.enums) return labels
+
+    for (const field of schema.fields) {
+      const table = field.enum_type ? schema.enums[field.enum_type] : undefined
+      if (!table) continue
+      this.collectEnumLabels(parsed, field.path.replace(/\[\]$/, '').split('.'), '', table, labels)
+    }
+    return labels
+  }
+
+  private static collectEnumLabels(
+    value: any,
+    segments: string[],
+    path: string,
+    table: TopicEnum,
+    out: Record<string, string>
+  ): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => this.collectEnumLabels(item, segments, `${path}[${i}]`, table, out))
+      return
+    }
+    if (segments.length === 0) {
+      const name = typeof value === 'number' ? table[String(value)] : undefined
+      if (name !== undefined) out[path] = name
+      return
+    }
+    if (value && typeof value === 'object') {
+      const [head, ...rest] = segments
+      this.collectEnumLabels(value[head], rest, path ? `${path}.${head}` : head, table, out)
+    }
+  }
+
   /**
    * 设置对象值 (完整路径)
    */
@@ -0,0 +1,156 @@
+// src/core/codec/expression/ExpressionEvaluator.ts
+
+import type { ExprNode, PathSegment, BinaryOperator } from './types'
+import { FUNCTIONS } from './functions'
+
+/**
+ * 多值 (经过 [*] 或谓词) 的内部包装，区别于字段本身就是数组的情况
+ * 运算时按元素广播，两侧都是多值时按下标配对
+ */
+class Multi {
+  constructor(public items: any[]) {}
+}
+
+interface Scope {
+  message: any
+  element: any
+}
+
+function isMissing(v: any): boolean {
+  return v === undefined || v === null
+}
+
+// int64 等可能以字符串下发：两侧都能转成数字时按数值比较
+function looseEquals(a: any, b: any): boolean {
+  if (typeof a === typeof b) return a === b
+  const na = Number(a)
+  const nb = Number(b)
+  return !Number.isNaN(na) && !Number.isNaN(nb) && na === nb
+}
+
+function applyBinary(op: BinaryOperator, a: any, b: any): any {
+  if (op === '==') return looseEquals(a, b)
+  if (op === '!=') return !looseEquals(a, b)
+  if (op === '&&') return Boolean(a) && Boolean(b)
+  if (op === '||') return Boolean(a) || Boolean(b)
+  if (isMissing(a) || isMissing(b)) return null
+
+  const x = Number(a)
+  const y = Number(b)
+  switch (op) {
+    case '+': return x + y
+    case '-': return x - y
+    case '*': return x * y
+    case '/': return y === 0 ? null : x / y
+    case '%': return y === 0 ? null : x % y
+    case '<': return x < y
+    case '<=': return x <= y
+    case '>': return x > y
+    case '>=': return x >= y
+  }
+}
+
+/**
+ * 对若干操作数逐元素求值：任一操作数为 Multi 时结果也是 Multi
+ */
+function broadcast(operands: any[], fn: (values: any[]) => any): any {
+  const multis = operands.filter(o => o instanceof Multi) as Multi[]
+  if (multis.length === 0) return fn(operands)
+
+  const length = Math.min(...multis.map(m => m.items.length))
+  const items: any[] = []
+  for (let i = 0; i < length; i++) {
+    items.push(fn(operands.map(o => (o instanceof Multi ? o.items[i] : o))))
+  }
+  return new Multi(items)
+}
+
+function truthy(v: any): boolean {
+  return v instanceof Multi ? v.items.some(Boolean) : Boolean(v)
+}
+
+function evalPath(root: any, segments: PathSegment[], scope: Scope): any {
+  let values: any[] = [root]
+  let multi = false
+
+  for (const segment of segments) {
+    const next: any[] = []
+    for (const value of values) {
+      if (isMissing(value)) continue
+      switch (segment.kind) {
+        case 'field':
+          next.push(value[segment.name])
+          break
+        case 'index':
+          if (Array.isArray(value)) {
+            next.push(value[segment.index < 0 ? value.length + segment.index : segment.index])
+          }
+          break
+        case 'wildcard':
+          if (Array.isArray(value)) next.push(...value)
+          break
+        case 'filter':
+          if (Array.isArray(value)) {
+            for (const item of value) {
+              if (truthy(evalNode(segment.predicate, { message: scope.message, element: item }))) {
+                next.push(item)
+              }
+            }
+          }
+          break
+      }
+    }
+    if (segment.kind === 'wildcard' || segment.kind === 'filter') multi = true
+    values = next
+  }
+
+  if (multi) return new Multi(values.filter(v => !isMissing(v)))
+  return values.length > 0 ? values[0] : undefined
+}
+
+function evalNode(node: ExprNode, scope: Scope): any {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+
+    case 'path':
+      return evalPath(node.root === 'element' ? scope.element : scope.message, node.segments, scope)
+
+    case 'unary': {
+      const operand = evalNode(node.operand, scope)
+      return broadcast([operand], ([v]) => {
+        if (node.op === '!') return !v
+        return isMissing(v) ? null : -Number(v)
+      })
+    }
+
+    case 'binary': {
+      const left = evalNode(node.left, scope)
+      const right = evalNode(node.right, scope)
+      return broadcast([left, right], ([a, b]) => applyBinary(node.op, a, b))
+    }
+
+    case 'call': {
+      const def = FUNCTIONS[node.name]
+      const args = node.args.map(arg => evalNode(arg, scope))
+      if (def.aggregate) {
+        // 多值与原始数组字段 (如 count(objects)) 都按元素展开
+        const items = args.flatMap(a => (a instanceof Multi ? a.items : Array.isArray(a) ? a : [a]))
+          .filter(v => !isMissing(v))
+        return def.apply(items)
+      }
+      return broadcast(args, values => (values.some(isMissing) ? null : def.apply(values)))
+    }
+  }
+}
+
+/**
+ * 对一条 SchemaParser 输出的消息求值
+ * 多值结果以数组返回，缺失的字段返回 undefined/null
+ */
+export function evaluateExpression(ast: ExprNode, message: any): any {
+  const result = evalNode(ast, { message, element: message })
+  return result instanceof Multi ? result.items : result
+}
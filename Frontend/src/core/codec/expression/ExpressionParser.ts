@@ -0,0 +1,322 @@
+// src/core/codec/expression/ExpressionParser.ts
+
+import type {
+  ExprNode, PathSegment, PathRoot, BinaryOperator, ExpressionDiagnostic
+} from './types'
+
+/**
+ * 表达式语法 (优先级从低到高)：
+ *
+ *   expr    := or
+ *   or      := and ('||' and)*
+ *   and     := cmp ('&&' cmp)*
+ *   cmp     := add (('==' | '!=' | '<' | '<=' | '>' | '>=') add)?
+ *   add     := mul (('+' | '-') mul)*
+ *   mul     := unary (('*' | '/' | '%') unary)*
+ *   unary   := ('-' | '!') unary | primary
+ *   primary := number | string | true | false | '(' expr ')' | call | path
+ *   call    := ident '(' (expr (',' expr)*)? ')'
+ *   path    := ('$' | '@' | ident) ('.' ident | '[' index ']')*
+ *   index   := '*' | ['-'] integer | string | expr   (expr 为谓词)
+ *
+ * 示例：objects[*].velocity.x、objects[id == 42].position、unit(speed, "m/s", "km/h")
+ */
+
+type TokenKind = 'number' | 'string' | 'ident' | 'op' | 'eof'
+
+interface Token {
+  kind: TokenKind
+  text: string
+  value?: number | string
+  start: number
+  end: number
+}
+
+const OPERATORS = [
+  '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ',', '$', '@'
+]
+
+class ParseFailure extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message)
+  }
+}
+
+// ========== 词法分析 ==========
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    // 数字 (以 . 开头的小数不支持，避免与路径分隔符混淆)
+    if (/[0-9]/.test(ch)) {
+      const match = /^(\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(source.slice(i))!
+      tokens.push({ kind: 'number', text: match[1], value: Number(match[1]), start: i, end: i + match[1].length })
+      i += match[1].length
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!
+      tokens.push({ kind: 'ident', text: match[0], start: i, end: i + match[0].length })
+      i += match[0].length
+      continue
+    }
+
+    if (ch === '"' || ch === '\'') {
+      let j = i + 1
+      let value = ''
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) j++
+        value += source[j]
+        j++
+      }
+      if (j >= source.length) throw new ParseFailure('字符串缺少结束引号', i, source.length)
+      tokens.push({ kind: 'string', text: source.slice(i, j + 1), value, start: i, end: j + 1 })
+      i = j + 1
+      continue
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i))
+    if (!op) throw new ParseFailure(`无法识别的字符 "${ch}"`, i, i + 1)
+    tokens.push({ kind: 'op', text: op, start: i, end: i + op.length })
+    i += op.length
+  }
+
+  tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length })
+  return tokens
+}
+
+// ========== 语法分析 (递归下降) ==========
+
+class Parser {
+  private pos = 0
+  // 谓词嵌套深度：谓词内裸路径相对当前元素
+  private predicateDepth = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExprNode {
+    const node = this.parseOr()
+    const tail = this.peek()
+    if (tail.kind !== 'eof') {
+      throw new ParseFailure(`多余的内容 "${tail.text}"`, tail.start, tail.end)
+    }
+    return node
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++]
+  }
+
+  private isOp(text: string, offset: number = 0): boolean {
+    const t = this.peek(offset)
+    return t.kind === 'op' && t.text === text
+  }
+
+  private expectOp(text: string): Token {
+    const t = this.peek()
+    if (t.kind !== 'op' || t.text !== text) {
+      throw new ParseFailure(t.kind === 'eof' ? `缺少 "${text}"` : `应为 "${text}"，实际为 "${t.text}"`, t.start, t.end)
+    }
+    return this.next()
+  }
+
+  private binaryLevel(ops: BinaryOperator[], parseOperand: () => ExprNode, single: boolean = false): ExprNode {
+    let left = parseOperand()
+    while (this.peek().kind === 'op' && ops.includes(this.peek().text as BinaryOperator)) {
+      const op = this.next().text as BinaryOperator
+      const right = parseOperand()
+      left = { kind: 'binary', op, left, right, start: left.start, end: right.end }
+      if (single) break
+    }
+    return left
+  }
+
+  private parseOr(): ExprNode {
+    return this.binaryLevel(['||'], () => this.parseAnd())
+  }
+
+  private parseAnd(): ExprNode {
+    return this.binaryLevel(['&&'], () => this.parseComparison())
+  }
+
+  private parseComparison(): ExprNode {
+    return this.binaryLevel(['==', '!=', '<', '<=', '>', '>='], () => this.parseAdditive(), true)
+  }
+
+  private parseAdditive(): ExprNode {
+    return this.binaryLevel(['+', '-'], () => this.parseMultiplicative())
+  }
+
+  private parseMultiplicative(): ExprNode {
+    return this.binaryLevel(['*', '/', '%'], () => this.parseUnary())
+  }
+
+  private parseUnary(): ExprNode {
+    if (this.isOp('-') || this.isOp('!')) {
+      const opToken = this.next()
+      const operand = this.parseUnary()
+      return { kind: 'unary', op: opToken.text as '-' | '!', operand, start: opToken.start, end: operand.end }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): ExprNode {
+    const t = this.peek()
+
+    if (t.kind === 'number') {
+      this.next()
+      return { kind: 'number', value: t.value as number, start: t.start, end: t.end }
+    }
+
+    if (t.kind === 'string') {
+      this.next()
+      return { kind: 'string', value: t.value as string, start: t.start, end: t.end }
+    }
+
+    if (t.kind === 'op' && t.text === '(') {
+      this.next()
+      const inner = this.parseOr()
+      const close = this.expectOp(')')
+      return { ...inner, start: t.start, end: close.end }
+    }
+
+    if (t.kind === 'ident') {
+      if (t.text === 'true' || t.text === 'false') {
+        this.next()
+        return { kind: 'boolean', value: t.text === 'true', start: t.start, end: t.end }
+      }
+      if (this.isOp('(', 1)) return this.parseCall()
+      return this.parsePath()
+    }
+
+    if (t.kind === 'op' && (t.text === '$' || t.text === '@')) {
+      return this.parsePath()
+    }
+
+    throw new ParseFailure(t.kind === 'eof' ? '表达式不完整' : `意外的 "${t.text}"`, t.start, t.end)
+  }
+
+  private parseCall(): ExprNode {
+    const nameToken = this.next()
+    this.expectOp('(')
+    const args: ExprNode[] = []
+    if (!this.isOp(')')) {
+      args.push(this.parseOr())
+      while (this.isOp(',')) {
+        this.next()
+        args.push(this.parseOr())
+      }
+    }
+    const close = this.expectOp(')')
+    return { kind: 'call', name: nameToken.text, args, start: nameToken.start, end: close.end }
+  }
+
+  private parsePath(): ExprNode {
+    const first = this.next()
+    const segments: PathSegment[] = []
+    let root: PathRoot = this.predicateDepth > 0 ? 'element' : 'message'
+    let explicitRoot = false
+
+    if (first.kind === 'op') {
+      root = first.text === '$' ? 'message' : 'element'
+      explicitRoot = true
+      if (root === 'element' && this.predicateDepth === 0) {
+        throw new ParseFailure('@ 只能在谓词 [...] 中使用', first.start, first.end)
+      }
+    } else {
+      segments.push({ kind: 'field', name: first.text, start: first.start, end: first.end })
+    }
+
+    let end = first.end
+    while (true) {
+      if (this.isOp('.')) {
+        this.next()
+        const name = this.next()
+        if (name.kind !== 'ident') {
+          throw new ParseFailure('"." 之后应为字段名', name.start, name.end)
+        }
+        segments.push({ kind: 'field', name: name.text, start: name.start, end: name.end })
+        end = name.end
+      } else if (this.isOp('[')) {
+        const segment = this.parseIndex()
+        segments.push(segment)
+        end = segment.end
+      } else {
+        break
+      }
+    }
+
+    return { kind: 'path', root, explicitRoot, segments, start: first.start, end }
+  }
+
+  private parseIndex(): PathSegment {
+    const open = this.expectOp('[')
+    const t = this.peek()
+
+    // [*]
+    if (t.kind === 'op' && t.text === '*') {
+      this.next()
+      const close = this.expectOp(']')
+      return { kind: 'wildcard', start: open.start, end: close.end }
+    }
+
+    // [3] / [-1]
+    const negative = t.kind === 'op' && t.text === '-'
+    const numToken = negative ? this.peek(1) : t
+    if (numToken.kind === 'number' && this.isOp(']', negative ? 2 : 1)) {
+      const value = numToken.value as number
+      if (!Number.isInteger(value)) {
+        throw new ParseFailure('数组下标必须是整数', numToken.start, numToken.end)
+      }
+      this.pos += negative ? 2 : 1
+      const close = this.next()
+      return { kind: 'index', index: negative ? -value : value, start: open.start, end: close.end }
+    }
+
+    // ["field-with-dash"]
+    if (t.kind === 'string' && this.isOp(']', 1)) {
+      this.next()
+      const close = this.next()
+      return { kind: 'field', name: t.value as string, start: open.start, end: close.end }
+    }
+
+    // [predicate]
+    this.predicateDepth++
+    const predicate = this.parseOr()
+    this.predicateDepth--
+    const close = this.expectOp(']')
+    return { kind: 'filter', predicate, start: open.start, end: close.end }
+  }
+}
+
+/**
+ * 解析表达式源码，语法错误以诊断形式返回
+ */
+export function parseExpression(source: string): { ast?: ExprNode, error?: ExpressionDiagnostic } {
+  try {
+    if (!source.trim()) {
+      return { error: { message: '表达式为空', start: 0, end: source.length } }
+    }
+    return { ast: new Parser(tokenize(source)).parse() }
+  } catch (error: any) {
+    if (error instanceof ParseFailure) {
+      return { error: { message: error.message, start: error.start, end: error.end } }
+    }
+    throw error
+  }
+}
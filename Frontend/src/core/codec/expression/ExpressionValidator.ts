@@ -0,0 +1,232 @@
+// src/core/codec/expression/ExpressionValidator.ts
+
+import type { TopicSchema } from '@/core/types/common'
+import type { ExprNode, PathSegment, TypeInfo, ValueType, ExpressionDiagnostic } from './types'
+import { FUNCTIONS } from './functions'
+import { checkUnitConversion } from './units'
+
+/**
+ * 由 TopicSchema 的扁平字段列表还原出的字段树
+ */
+interface SchemaNode {
+  name: string
+  type: ValueType
+  repeated: boolean
+  children: Map<string, SchemaNode>
+}
+
+/**
+ * 路径遍历状态：node 为 null 表示无 Schema 可查 (跳过校验)
+ * pendingArray 表示当前值是重复字段本身，尚未用下标选取元素
+ */
+interface Cursor {
+  node: SchemaNode | null
+  pendingArray: boolean
+}
+
+const NUMERIC_TYPES = new Set([
+  'double', 'float', 'int32', 'int64', 'uint32', 'uint64',
+  'sint32', 'sint64', 'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'enum'
+])
+
+function toValueType(protoType: string): ValueType {
+  if (NUMERIC_TYPES.has(protoType)) return 'number'
+  if (protoType === 'bool') return 'boolean'
+  if (protoType === 'string' || protoType === 'bytes') return 'string'
+  if (protoType === 'message') return 'message'
+  return 'unknown'
+}
+
+function buildSchemaTree(schema: TopicSchema): SchemaNode {
+  const root: SchemaNode = { name: '$', type: 'message', repeated: false, children: new Map() }
+
+  // 按深度排序，保证父节点先建立 (与 SchemaManager.buildTreeTemplate 一致)
+  const fields = [...schema.fields].sort((a, b) => a.path.split('.').length - b.path.split('.').length)
+
+  for (const field of fields) {
+    const parts = field.path.replace(/\[\]/g, '').split('.')
+    let current = root
+    parts.forEach((part, i) => {
+      let child = current.children.get(part)
+      if (!child) {
+        child = { name: part, type: 'message', repeated: false, children: new Map() }
+        current.children.set(part, child)
+      }
+      if (i === parts.length - 1) {
+        child.type = toValueType(field.type)
+        child.repeated = field.repeated
+      }
+      current = child
+    })
+  }
+  return root
+}
+
+/**
+ * 表达式静态校验
+ * 在输入阶段对照 TopicSchema 检查字段是否存在、数组访问是否合法、运算类型是否匹配
+ * 没有 Schema 时只做函数/单位等与数据无关的检查
+ */
+export class ExpressionValidator {
+  private root: SchemaNode | null
+  private errors: ExpressionDiagnostic[] = []
+
+  constructor(schema?: TopicSchema) {
+    this.root = schema?.fields ? buildSchemaTree(schema) : null
+  }
+
+  validate(ast: ExprNode): { type: TypeInfo, errors: ExpressionDiagnostic[] } {
+    this.errors = []
+    const type = this.check(ast, { node: this.root, pendingArray: false })
+    return { type, errors: this.errors }
+  }
+
+  private error(message: string, span: { start: number, end: number }) {
+    this.errors.push({ message, start: span.start, end: span.end })
+  }
+
+  private check(node: ExprNode, element: Cursor): TypeInfo {
+    switch (node.kind) {
+      case 'number':
+        return { type: 'number', multi: false }
+      case 'string':
+        return { type: 'string', multi: false }
+      case 'boolean':
+        return { type: 'boolean', multi: false }
+      case 'path':
+        return this.checkPath(node.root === 'element' ? element : { node: this.root, pendingArray: false }, node.segments)
+      case 'unary': {
+        const operand = this.check(node.operand, element)
+        if (node.op === '-') {
+          this.expectType(operand, ['number'], node.operand, '取负')
+          return { type: 'number', multi: operand.multi }
+        }
+        return { type: 'boolean', multi: operand.multi }
+      }
+      case 'binary':
+        return this.checkBinary(node, element)
+      case 'call':
+        return this.checkCall(node, element)
+    }
+  }
+
+  private checkPath(start: Cursor, segments: PathSegment[]): TypeInfo {
+    const cursor: Cursor = { ...start }
+    let multi = false
+    let lastName = start.node?.name ?? ''
+
+    for (const segment of segments) {
+      if (segment.kind === 'field') {
+        if (cursor.node) {
+          if (cursor.pendingArray) {
+            this.error(`"${lastName}" 是重复字段，需先用 [下标] 或 [*] 选取元素`, segment)
+            return { type: 'unknown', multi }
+          }
+          if (cursor.node.type !== 'message') {
+            this.error(`"${lastName}" 不是消息类型，没有字段 "${segment.name}"`, segment)
+            return { type: 'unknown', multi }
+          }
+          const child = cursor.node.children.get(segment.name)
+          if (!child) {
+            const candidates = Array.from(cursor.node.children.keys()).slice(0, 6).join(', ')
+            this.error(`未知字段 "${segment.name}"${candidates ? ` (可选: ${candidates})` : ''}`, segment)
+            return { type: 'unknown', multi }
+          }
+          cursor.node = child
+          cursor.pendingArray = child.repeated
+        }
+        lastName = segment.name
+        continue
+      }
+
+      // index / wildcard / filter 都要求当前值是数组
+      if (cursor.node && !cursor.pendingArray) {
+        this.error(`"${lastName}" 不是数组，不能使用 [...]`, segment)
+        return { type: 'unknown', multi }
+      }
+      cursor.pendingArray = false
+
+      if (segment.kind === 'wildcard') {
+        multi = true
+      } else if (segment.kind === 'filter') {
+        multi = true
+        const predicate = this.check(segment.predicate, { node: cursor.node, pendingArray: false })
+        this.expectType(predicate, ['boolean', 'number'], segment.predicate, '谓词')
+      }
+    }
+
+    if (!cursor.node) return { type: 'unknown', multi }
+    return { type: cursor.pendingArray ? 'array' : cursor.node.type, multi }
+  }
+
+  private checkBinary(node: Extract<ExprNode, { kind: 'binary' }>, element: Cursor): TypeInfo {
+    const left = this.check(node.left, element)
+    const right = this.check(node.right, element)
+    const multi = left.multi || right.multi
+
+    switch (node.op) {
+      case '+': case '-': case '*': case '/': case '%':
+        this.expectType(left, ['number'], node.left, `运算符 "${node.op}"`)
+        this.expectType(right, ['number'], node.right, `运算符 "${node.op}"`)
+        return { type: 'number', multi }
+      case '<': case '<=': case '>': case '>=':
+        this.expectType(left, ['number'], node.left, `比较 "${node.op}"`)
+        this.expectType(right, ['number'], node.right, `比较 "${node.op}"`)
+        return { type: 'boolean', multi }
+      case '==': case '!=':
+        // int64 可能以字符串下发，允许数字与字符串比较
+        this.expectType(left, ['number', 'string', 'boolean'], node.left, `比较 "${node.op}"`)
+        this.expectType(right, ['number', 'string', 'boolean'], node.right, `比较 "${node.op}"`)
+        return { type: 'boolean', multi }
+      case '&&': case '||':
+        return { type: 'boolean', multi }
+    }
+  }
+
+  private checkCall(node: Extract<ExprNode, { kind: 'call' }>, element: Cursor): TypeInfo {
+    const def = FUNCTIONS[node.name]
+    if (!def) {
+      this.error(`未知函数 "${node.name}" (可用: ${Object.keys(FUNCTIONS).join(', ')})`, node)
+      return { type: 'unknown', multi: false }
+    }
+
+    if (node.args.length < def.minArgs || node.args.length > def.maxArgs) {
+      const expected = def.minArgs === def.maxArgs
+        ? `${def.minArgs}`
+        : def.maxArgs === Infinity ? `至少 ${def.minArgs}` : `${def.minArgs}~${def.maxArgs}`
+      this.error(`函数 ${node.name} 需要 ${expected} 个参数，实际 ${node.args.length} 个`, node)
+    }
+
+    let multi = false
+    node.args.forEach((arg, i) => {
+      if (def.literalArgs?.includes(i)) {
+        if (arg.kind !== 'string') this.error(`函数 ${node.name} 的第 ${i + 1} 个参数必须是字符串常量`, arg)
+        return
+      }
+      const argType = this.check(arg, element)
+      multi = multi || argType.multi
+      // count/any/all 接受任意元素，其余函数要求数值
+      if (!['count', 'any', 'all'].includes(node.name)) {
+        this.expectType(argType, ['number'], arg, `函数 ${node.name}`)
+      }
+    })
+
+    // unit(value, "from", "to")：在输入阶段检查单位
+    if (node.name === 'unit' && node.args.length === 3) {
+      const [, from, to] = node.args
+      if (from.kind === 'string' && to.kind === 'string') {
+        const problem = checkUnitConversion(from.value, to.value)
+        if (problem) this.error(problem, { start: from.start, end: to.end })
+      }
+    }
+
+    return { type: def.returns, multi: def.aggregate ? false : multi }
+  }
+
+  private expectType(actual: TypeInfo, allowed: ValueType[], span: { start: number, end: number }, context: string) {
+    if (actual.type === 'unknown' || allowed.includes(actual.type)) return
+    // 布尔值参与数值运算时按 0/1 处理
+    if (actual.type === 'boolean' && allowed.includes('number')) return
+    this.error(`${context} 不支持 ${actual.type} 类型的值`, span)
+  }
+}
@@ -0,0 +1,71 @@
+// src/core/codec/expression/FieldExpression.ts
+
+import type { TopicSchema } from '@/core/types/common'
+import type { ExprNode, TypeInfo, CompileResult } from './types'
+import { parseExpression } from './ExpressionParser'
+import { ExpressionValidator } from './ExpressionValidator'
+import { evaluateExpression } from './ExpressionEvaluator'
+
+/**
+ * 字段路径表达式
+ *
+ * 用于在图表、表格、过滤器中选取消息内的值，例如：
+ *   pose.x
+ *   objects[*].velocity.x
+ *   objects[id == 42].position
+ *   max(objects[type == 3].speed)
+ *   unit(hypot(velocity.x, velocity.y), "m/s", "km/h")
+ *
+ * 使用方式：先 compile (可传入 TopicSchema 做输入阶段校验)，再对每帧数据 evaluate
+ */
+export class FieldExpression {
+  private constructor(
+    public readonly source: string,
+    public readonly ast: ExprNode,
+    public readonly resultType: TypeInfo
+  ) {}
+
+  /**
+   * 解析并校验表达式；有 Schema 时会检查字段是否存在以及类型是否匹配
+   */
+  static compile(source: string, schema?: TopicSchema): CompileResult {
+    const { ast, error } = parseExpression(source)
+    if (!ast) {
+      return { success: false, errors: [error!] }
+    }
+
+    const { type, errors } = new ExpressionValidator(schema).validate(ast)
+    if (errors.length > 0) {
+      return { success: false, resultType: type, errors }
+    }
+
+    return {
+      success: true,
+      expression: new FieldExpression(source, ast, type),
+      resultType: type,
+      errors: []
+    }
+  }
+
+  /**
+   * 对一条解析后的消息求值，多值表达式返回数组
+   */
+  evaluate(message: any): any {
+    return evaluateExpression(this.ast, message)
+  }
+
+  /**
+   * 求值并转换为数值 (绘图用)，非数值返回 null
+   */
+  evaluateNumber(message: any): number | null {
+    const value = this.evaluate(message)
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value)
+    return null
+  }
+
+  get isMultiValued(): boolean {
+    return this.resultType.multi
+  }
+}
@@ -0,0 +1,83 @@
+// src/core/codec/expression/functions.ts
+
+import { convertUnit } from './units'
+import type { ValueType } from './types'
+
+/**
+ * 内置函数定义
+ * - 逐元素函数：参数为多值时按元素广播
+ * - 聚合函数 (aggregate)：把所有参数 (含多值与数组字段) 展开成一个列表后归约为标量
+ */
+export interface FunctionDef {
+  minArgs: number
+  maxArgs: number
+  aggregate?: boolean
+  // 必须是字符串字面量的参数下标 (如 unit 的单位名)
+  literalArgs?: number[]
+  returns: ValueType
+  apply(args: any[]): any
+}
+
+function numeric(fn: (...xs: number[]) => number) {
+  return (args: any[]) => {
+    const xs = args.map(Number)
+    return xs.some(x => Number.isNaN(x)) ? null : fn(...xs)
+  }
+}
+
+function finiteNumbers(items: any[]): number[] {
+  return items.map(Number).filter(x => Number.isFinite(x))
+}
+
+export const FUNCTIONS: Record<string, FunctionDef> = {
+  // ===== 逐元素 =====
+  abs: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(Math.abs) },
+  sqrt: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(Math.sqrt) },
+  round: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(Math.round) },
+  floor: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(Math.floor) },
+  ceil: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(Math.ceil) },
+  hypot: { minArgs: 2, maxArgs: 3, returns: 'number', apply: numeric(Math.hypot) },
+  atan2: { minArgs: 2, maxArgs: 2, returns: 'number', apply: numeric(Math.atan2) },
+  deg: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(x => x * 180 / Math.PI) },
+  rad: { minArgs: 1, maxArgs: 1, returns: 'number', apply: numeric(x => x * Math.PI / 180) },
+  unit: {
+    minArgs: 3,
+    maxArgs: 3,
+    literalArgs: [1, 2],
+    returns: 'number',
+    apply: ([value, from, to]) => {
+      const x = Number(value)
+      return Number.isNaN(x) ? null : convertUnit(x, from, to)
+    }
+  },
+
+  // ===== 聚合 =====
+  count: { minArgs: 1, maxArgs: 1, aggregate: true, returns: 'number', apply: items => items.length },
+  sum: {
+    minArgs: 1, maxArgs: Infinity, aggregate: true, returns: 'number',
+    apply: items => finiteNumbers(items).reduce((acc, x) => acc + x, 0)
+  },
+  mean: {
+    minArgs: 1, maxArgs: Infinity, aggregate: true, returns: 'number',
+    apply: items => {
+      const xs = finiteNumbers(items)
+      return xs.length ? xs.reduce((acc, x) => acc + x, 0) / xs.length : null
+    }
+  },
+  min: {
+    minArgs: 1, maxArgs: Infinity, aggregate: true, returns: 'number',
+    apply: items => {
+      const xs = finiteNumbers(items)
+      return xs.length ? Math.min(...xs) : null
+    }
+  },
+  max: {
+    minArgs: 1, maxArgs: Infinity, aggregate: true, returns: 'number',
+    apply: items => {
+      const xs = finiteNumbers(items)
+      return xs.length ? Math.max(...xs) : null
+    }
+  },
+  any: { minArgs: 1, maxArgs: 1, aggregate: true, returns: 'boolean', apply: items => items.some(Boolean) },
+  all: { minArgs: 1, maxArgs: 1, aggregate: true, returns: 'boolean', apply: items => items.every(Boolean) }
+}
@@ -0,0 +1,13 @@
+// src/core/codec/expression/index.ts - 字段路径表达式导出
+
+export { FieldExpression } from './FieldExpression'
+export { getUnitNames } from './units'
+
+export type {
+  ExprNode,
+  PathSegment,
+  TypeInfo,
+  ValueType,
+  ExpressionDiagnostic,
+  CompileResult
+} from './types'
@@ -0,0 +1,67 @@
+// src/core/codec/expression/types.ts
+// 字段路径表达式的 AST 与诊断类型
+
+import type { FieldExpression } from './FieldExpression'
+
+/**
+ * 源码区间 (字符偏移，左闭右开)，用于在输入框中定位错误
+ */
+export interface SourceSpan {
+  start: number
+  end: number
+}
+
+// ========== 路径段 ==========
+
+export type PathSegment =
+  | ({ kind: 'field', name: string } & SourceSpan)          // .velocity
+  | ({ kind: 'index', index: number } & SourceSpan)         // [0] / [-1]
+  | ({ kind: 'wildcard' } & SourceSpan)                     // [*]
+  | ({ kind: 'filter', predicate: ExprNode } & SourceSpan)  // [id == 42]
+
+/**
+ * 路径起点
+ * - message: 整条消息 (顶层表达式的默认起点，谓词内用 $ 显式引用)
+ * - element: 谓词中的当前数组元素 (谓词内的默认起点，也可用 @ 显式引用)
+ */
+export type PathRoot = 'message' | 'element'
+
+// ========== 表达式节点 ==========
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||'
+
+export type UnaryOperator = '-' | '!'
+
+export type ExprNode =
+  | ({ kind: 'number', value: number } & SourceSpan)
+  | ({ kind: 'string', value: string } & SourceSpan)
+  | ({ kind: 'boolean', value: boolean } & SourceSpan)
+  | ({ kind: 'path', root: PathRoot, explicitRoot: boolean, segments: PathSegment[] } & SourceSpan)
+  | ({ kind: 'unary', op: UnaryOperator, operand: ExprNode } & SourceSpan)
+  | ({ kind: 'binary', op: BinaryOperator, left: ExprNode, right: ExprNode } & SourceSpan)
+  | ({ kind: 'call', name: string, args: ExprNode[] } & SourceSpan)
+
+// ========== 静态类型 ==========
+
+export type ValueType = 'number' | 'boolean' | 'string' | 'message' | 'array' | 'unknown'
+
+export interface TypeInfo {
+  type: ValueType
+  multi: boolean // 经过 [*] 或谓词后为多值
+}
+
+// ========== 诊断 ==========
+
+export interface ExpressionDiagnostic extends SourceSpan {
+  message: string
+}
+
+export interface CompileResult {
+  success: boolean
+  expression?: FieldExpression
+  resultType?: TypeInfo
+  errors: ExpressionDiagnostic[]
+}
@@ -0,0 +1,73 @@
+// src/core/codec/expression/units.ts
+
+/**
+ * 单位换算表
+ * value_base = value * scale + offset，同一量纲内的单位可互相换算
+ */
+interface UnitDef {
+  dimension: string
+  scale: number
+  offset?: number
+}
+
+const UNITS: Record<string, UnitDef> = {
+  // 长度
+  'm': { dimension: 'length', scale: 1 },
+  'km': { dimension: 'length', scale: 1000 },
+  'cm': { dimension: 'length', scale: 0.01 },
+  'mm': { dimension: 'length', scale: 0.001 },
+  'ft': { dimension: 'length', scale: 0.3048 },
+  'mi': { dimension: 'length', scale: 1609.344 },
+
+  // 速度
+  'm/s': { dimension: 'speed', scale: 1 },
+  'km/h': { dimension: 'speed', scale: 1 / 3.6 },
+  'mph': { dimension: 'speed', scale: 0.44704 },
+  'kn': { dimension: 'speed', scale: 1852 / 3600 },
+
+  // 加速度
+  'm/s2': { dimension: 'acceleration', scale: 1 },
+  'g': { dimension: 'acceleration', scale: 9.80665 },
+
+  // 角度 / 角速度
+  'rad': { dimension: 'angle', scale: 1 },
+  'deg': { dimension: 'angle', scale: Math.PI / 180 },
+  'rad/s': { dimension: 'angular_speed', scale: 1 },
+  'deg/s': { dimension: 'angular_speed', scale: Math.PI / 180 },
+
+  // 时间
+  's': { dimension: 'time', scale: 1 },
+  'ms': { dimension: 'time', scale: 1e-3 },
+  'us': { dimension: 'time', scale: 1e-6 },
+  'ns': { dimension: 'time', scale: 1e-9 },
+  'min': { dimension: 'time', scale: 60 },
+  'h': { dimension: 'time', scale: 3600 },
+
+  // 温度
+  'K': { dimension: 'temperature', scale: 1 },
+  'degC': { dimension: 'temperature', scale: 1, offset: 273.15 },
+  'degF': { dimension: 'temperature', scale: 5 / 9, offset: 273.15 - 32 * 5 / 9 }
+}
+
+export function getUnitNames(): string[] {
+  return Object.keys(UNITS)
+}
+
+/**
+ * 校验换算是否合法，合法返回 null，否则返回错误描述
+ */
+export function checkUnitConversion(from: string, to: string): string | null {
+  const a = UNITS[from]
+  const b = UNITS[to]
+  if (!a) return `未知单位 "${from}"`
+  if (!b) return `未知单位 "${to}"`
+  if (a.dimension !== b.dimension) return `单位 "${from}" 与 "${to}" 量纲不同，无法换算`
+  return null
+}
+
+export function convertUnit(value: number, from: string, to: string): number {
+  const a = UNITS[from]
+  const b = UNITS[to]
+  const base = value * a.scale + (a.offset || 0)
+  return (base - (b.offset || 0)) / b.scale
+}
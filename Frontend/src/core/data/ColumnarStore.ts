@@ -0,0 +1,340 @@
+// Frontend/src/core/data/ColumnarStore.ts
+
+/**
+ * 列式时间序列存储
+ *
+ * 职责：
+ * 1. 按 Topic 保存所有数值字段的历史 (每个字段路径一列 Float64Array)
+ * 2. 行按 frame_id / timestamp 单调递增，支持二分范围查询
+ * 3. 全局内存预算：按 Topic 均分，超出后环形覆盖最旧的行
+ *
+ * 字段路径与 RenderedTreeNode.path 一致，如 "pose.x"、"objects[3].velocity.x"
+ * 某帧缺失的字段以 NaN 填充
+ */
+
+// ========== Worker -> 主线程 的行数据 ==========
+
+export interface ColumnarRow {
+  frameId: number
+  timestamp: number
+  // 列布局变化时才携带 (Worker 按 Topic 缓存)，否则沿用上一次的布局
+  paths?: string[]
+  values: Float64Array
+}
+
+export interface SeriesResult {
+  times: Float64Array
+  frameIds: Float64Array
+  values: Float64Array
+}
+
+export interface ColumnarStoreStats {
+  budgetBytes: number
+  usedBytes: number
+  topics: Array<{ topicKey: string, rows: number, columns: number, bytes: number }>
+}
+
+// 重复字段展开的上限，防止点云之类的大数组撑爆列数
+export const MAX_REPEATED_ITEMS = 64
+
+/**
+ * 将解析后的消息展开为 (路径, 数值) 两个平行数组
+ * 在 Worker 中调用，布尔值记为 0/1，可解析为数字的字符串 (int64) 一并收录
+ */
+export function flattenNumericFields(
+  data: any,
+  paths: string[] = [],
+  values: number[] = [],
+  prefix: string = ''
+): { paths: string[], values: number[] } {
+  if (data === null || data === undefined) return { paths, values }
+
+  if (Array.isArray(data)) {
+    const count = Math.min(data.length, MAX_REPEATED_ITEMS)
+    for (let i = 0; i < count; i++) {
+      collect(data[i], `${prefix}[${i}]`, paths, values)
+    }
+    return { paths, values }
+  }
+
+  if (typeof data === 'object') {
+    for (const key of Object.keys(data)) {
+      collect(data[key], prefix ? `${prefix}.${key}` : key, paths, values)
+    }
+  }
+  return { paths, values }
+}
+
+function collect(value: any, path: string, paths: string[], values: number[]) {
+  if (typeof value === 'number') {
+    paths.push(path)
+    values.push(value)
+  } else if (typeof value === 'boolean') {
+    paths.push(path)
+    values.push(value ? 1 : 0)
+  } else if (typeof value === 'string') {
+    if (value.trim() !== '' && !isNaN(Number(value))) {
+      paths.push(path)
+      values.push(Number(value))
+    }
+  } else if (value && typeof value === 'object' && !ArrayBuffer.isView(value)) {
+    flattenNumericFields(value, paths, values, path)
+  }
+}
+
+// ========== 单 Topic 的列存 ==========
+
+const INITIAL_ROWS = 256
+
+class TopicColumns {
+  capacity: number = 0
+  private head: number = 0 // 最旧一行的物理下标
+  length: number = 0
+
+  private times = new Float64Array(0)
+  private frameIds = new Float64Array(0)
+  private columns: Map<string, Float64Array> = new Map()
+
+  // 当前行布局：values[i] 写入 layoutColumns[i]
+  private layoutColumns: Float64Array[] = []
+
+  get columnCount(): number {
+    return this.columns.size
+  }
+
+  get bytesPerRow(): number {
+    return (this.columns.size + 2) * Float64Array.BYTES_PER_ELEMENT
+  }
+
+  get bytes(): number {
+    return this.capacity * this.bytesPerRow
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.columns.keys())
+  }
+
+  /**
+   * 更新行布局，新出现的路径按当前容量分配列 (历史行为 NaN)
+   */
+  setLayout(paths: string[]) {
+    this.layoutColumns = paths.map(path => {
+      let column = this.columns.get(path)
+      if (!column) {
+        column = new Float64Array(this.capacity).fill(NaN)
+        this.columns.set(path, column)
+      }
+      return column
+    })
+  }
+
+  lastTime(): number | null {
+    return this.length > 0 ? this.times[this.physical(this.length - 1)] : null
+  }
+
+  lastFrameId(): number | null {
+    return this.length > 0 ? this.frameIds[this.physical(this.length - 1)] : null
+  }
+
+  /**
+   * 追加一行；maxRows 为预算允许的最大行数
+   */
+  append(row: ColumnarRow, maxRows: number) {
+    if (this.length === this.capacity) {
+      if (this.capacity < maxRows) {
+        this.resize(Math.min(maxRows, Math.max(INITIAL_ROWS, this.capacity * 2)))
+      } else if (this.capacity === 0) {
+        return
+      }
+    }
+
+    let slot: number
+    if (this.length < this.capacity) {
+      slot = this.physical(this.length)
+      this.length++
+    } else {
+      // 环形覆盖最旧的一行
+      slot = this.head
+      this.head = (this.head + 1) % this.capacity
+    }
+
+    this.times[slot] = row.timestamp
+    this.frameIds[slot] = row.frameId
+    // 先整行置 NaN，本帧未出现的字段保持缺失
+    this.columns.forEach(column => { column[slot] = NaN })
+    const count = Math.min(row.values.length, this.layoutColumns.length)
+    for (let i = 0; i < count; i++) {
+      this.layoutColumns[i][slot] = row.values[i]
+    }
+  }
+
+  /**
+   * 容量调整 (扩容或按预算收缩)，保留最新的行并整理为从 0 开始的顺序存储
+   */
+  resize(capacity: number) {
+    const keep = Math.min(this.length, capacity)
+    const start = this.length - keep
+
+    const relocate = (src: Float64Array, fillValue: number) => {
+      const dst = new Float64Array(capacity)
+      if (fillValue !== 0) dst.fill(fillValue)
+      for (let i = 0; i < keep; i++) {
+        dst[i] = src[this.physical(start + i)]
+      }
+      return dst
+    }
+
+    const remap = new Map<Float64Array, Float64Array>()
+    this.times = relocate(this.times, 0)
+    this.frameIds = relocate(this.frameIds, 0)
+    this.columns.forEach((column, path) => {
+      const next = relocate(column, NaN)
+      remap.set(column, next)
+      this.columns.set(path, next)
+    })
+    this.layoutColumns = this.layoutColumns.map(column => remap.get(column) || column)
+
+    this.capacity = capacity
+    this.head = 0
+    this.length = keep
+  }
+
+  /**
+   * 按时间或帧号范围查询 (闭区间)
+   */
+  query(path: string, from: number, to: number, by: 'time' | 'frame'): SeriesResult | null {
+    const column = this.columns.get(path)
+    if (!column) return null
+
+    const key = by === 'time' ? this.times : this.frameIds
+    const start = this.lowerBound(key, from)
+    const end = this.lowerBound(key, to, true)
+    const count = Math.max(0, end - start)
+
+    const result: SeriesResult = {
+      times: new Float64Array(count),
+      frameIds: new Float64Array(count),
+      values: new Float64Array(count)
+    }
+    for (let i = 0; i < count; i++) {
+      const p = this.physical(start + i)
+      result.times[i] = this.times[p]
+      result.frameIds[i] = this.frameIds[p]
+      result.values[i] = column[p]
+    }
+    return result
+  }
+
+  clear() {
+    this.head = 0
+    this.length = 0
+  }
+
+  private physical(logical: number): number {
+    return this.capacity === 0 ? 0 : (this.head + logical) % this.capacity
+  }
+
+  /**
+   * 第一个 key >= v (upper=true 时为 key > v) 的逻辑下标
+   */
+  private lowerBound(key: Float64Array, v: number, upper: boolean = false): number {
+    let lo = 0
+    let hi = this.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      const k = key[this.physical(mid)]
+      if (k < v || (upper && k === v)) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+}
+
+// ========== 对外存储 ==========
+
+export class ColumnarStore {
+  private topics: Map<string, TopicColumns> = new Map()
+  private budgetBytes: number
+
+  constructor(budgetBytes: number = 64 * 1024 * 1024) {
+    this.budgetBytes = budgetBytes
+  }
+
+  /**
+   * 调整内存预算，超出预算的 Topic 立即收缩 (丢弃最旧的行)
+   */
+  setBudget(bytes: number) {
+    this.budgetBytes = Math.max(0, bytes)
+    this.topics.forEach(store => this.enforceBudget(store))
+  }
+
+  getBudget(): number {
+    return this.budgetBytes
+  }
+
+  append(topicKey: string, row: ColumnarRow) {
+    let store = this.topics.get(topicKey)
+    if (!store) {
+      store = new TopicColumns()
+      this.topics.set(topicKey, store)
+      // 新 Topic 加入后每个 Topic 的份额变小
+      this.topics.forEach(s => this.enforceBudget(s))
+    }
+
+    // 回放跳转后时间/帧号回退，历史不再连续，直接重建
+    const lastTime = store.lastTime()
+    const lastFrame = store.lastFrameId()
+    if ((lastTime !== null && row.timestamp < lastTime) || (lastFrame !== null && row.frameId < lastFrame)) {
+      store.clear()
+    }
+
+    if (row.paths) {
+      store.setLayout(row.paths)
+      this.enforceBudget(store)
+    }
+    store.append(row, this.maxRowsFor(store))
+  }
+
+  getSeries(topicKey: string, path: string, t0: number = -Infinity, t1: number = Infinity): SeriesResult | null {
+    return this.topics.get(topicKey)?.query(path, t0, t1, 'time') ?? null
+  }
+
+  getSeriesByFrame(topicKey: string, path: string, frameStart: number, frameEnd: number): SeriesResult | null {
+    return this.topics.get(topicKey)?.query(path, frameStart, frameEnd, 'frame') ?? null
+  }
+
+  getPaths(topicKey: string): string[] {
+    return this.topics.get(topicKey)?.getPaths() ?? []
+  }
+
+  getStats(): ColumnarStoreStats {
+    const topics: ColumnarStoreStats['topics'] = []
+    let usedBytes = 0
+    this.topics.forEach((store, topicKey) => {
+      usedBytes += store.bytes
+      topics.push({ topicKey, rows: store.length, columns: store.columnCount, bytes: store.bytes })
+    })
+    return { budgetBytes: this.budgetBytes, usedBytes, topics }
+  }
+
+  clearTopic(topicKey: string) {
+    this.topics.delete(topicKey)
+  }
+
+  clear() {
+    this.topics.clear()
+  }
+
+  // 预算按 Topic 均分，行宽越大可保留的行数越少
+  private maxRowsFor(store: TopicColumns): number {
+    const share = this.budgetBytes / Math.max(1, this.topics.size)
+    return Math.floor(share / store.bytesPerRow)
+  }
+
+  private enforceBudget(store: TopicColumns) {
+    const maxRows = this.maxRowsFor(store)
+    if (store.capacity > maxRows) {
+      store.resize(maxRows)
+    }
+  }
+}
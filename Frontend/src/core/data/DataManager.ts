@@ -1,10 +1,13 @@
 // Frontend/src/core/data/DataManager.ts
 
 import { schemaManager, type TreeTemplateNode } from './SchemaManager'
+import { ColumnarStore, type ColumnarRow, type SeriesResult, type ColumnarStoreStats } from './ColumnarStore'
 import { EventEmitter } from '@/core/EventEmitter'
 import type { TopicData } from '@/types/topic'
+import type { IDataAdapter, IDataDriver } from '@/core/types/driver'
 
-import { schemaDriver as driver } from '@/driver'
+// 🌟 [修改] 驱动来自注册表，随连接表单的选择切换
+import { driverRegistry } from '@/core/driver/DriverRegistry'
 
 // 🌟 引入 UI 格式化工具
 import { getValueIcon, getValueType, formatFieldValue } from '@/packages/data-panel/utils/formatters'
@@ -31,15 +34,26 @@ export interface DataUpdateEvent {
   timestamp: number
 }
 
+/**
+ * 事件：
+ *   'data-updated' (DataUpdateEvent) - UI 面板刷新，按 Topic 节流
+ *   'data-parsed'  (DataUpdateEvent) - 🌟 [新增] 每次解析完成都触发 (客户端图层等需要逐帧的消费者)
+ *   'topic-cleared' (topicKey)       - 🌟 [新增] Topic 数据被清除
+ */
+
 export class DataManager extends EventEmitter {
   private static instance: DataManager
   
-  // Worker 实例
-  private worker: Worker
+  // Worker 实例 (由当前驱动创建，首次使用时才创建)
+  private worker: Worker | null = null
+  private driver: IDataDriver | null = null
+  private adapters: IDataAdapter[] = []
   
   // 数据存储 (非响应式 Map)
   private rawData: Map<string, TopicData> = new Map()
   private parsedData: Map<string, ParsedData> = new Map()
+  // 🌟 [新增] 最新一帧的枚举名 (字段路径 -> 名称)
+  private enumLabels: Map<string, Record<string, string>> = new Map()
   private renderedTrees: Map<string, RenderedTreeNode[]> = new Map()
   private treeCache: Map<string, CacheEntry> = new Map()
   
@@ -50,19 +64,14 @@ export class DataManager extends EventEmitter {
   private lastUiUpdate: Record<string, number> = {}
   private readonly UI_UPDATE_INTERVAL = 100; // UI 面板限制最高 10 FPS
   
-  // 🌟 [新增] 环形缓冲区: 缓存最近收到的 60 帧数据
-  private frameBuffer: Map<string, ParsedData[]> = new Map()
-  private readonly BUFFER_SIZE = 60 
+  // 🌟 [新增] 数值字段历史 (列式存储，由 Worker 填充)
+  private history: ColumnarStore = new ColumnarStore()
   
   private constructor() {
     super()
     
-    // 初始化 Worker
-    console.log(`[DataManager] Initializing with driver: ${driver.name}`)
-    this.worker = driver.createWorker()
-    
-    // 设置监听
-    this.setupWorker()
+    // 驱动切换时重建 Worker 与适配器
+    driverRegistry.on('driver-changed', (driver: IDataDriver) => this.useDriver(driver))
   }
   
   static getInstance(): DataManager {
@@ -72,12 +81,41 @@ export class DataManager extends EventEmitter {
     return DataManager.instance
   }
   
-  private setupWorker() {
-    this.worker.onmessage = (e: MessageEvent) => {
-      const { success, topicKey, parsedData, error } = e.data
+  /**
+   * 🌟 [新增] 切换到指定驱动的解析 Worker 与适配器
+   * 新 Worker 没有任何 Schema，已同步记录一并清空
+   */
+  private useDriver(driver: IDataDriver) {
+    if (this.driver === driver) return
+    console.log(`[DataManager] Initializing with driver: ${driver.name}`)
+    this.worker?.terminate()
+    this.driver = driver
+    this.worker = driver.createWorker()
+    this.adapters = driver.getAdapters()
+    this.syncedSchemas.clear()
+    this.setupWorker(this.worker)
+  }
+
+  private ensureWorker(): Worker {
+    if (!this.worker) this.useDriver(driverRegistry.getActive())
+    return this.worker!
+  }
+
+  /**
+   * 🌟 [新增] 当前驱动中能处理该 Topic 的适配器 (按注册顺序取第一个)
+   */
+  getAdapter(topicKey: string): IDataAdapter | undefined {
+    if (!this.driver) this.useDriver(driverRegistry.getActive())
+    const schemaType = schemaManager.getSchema(topicKey)?.proto_type
+    return this.adapters.find(adapter => adapter.canHandle(topicKey, schemaType))
+  }
+  
+  private setupWorker(worker: Worker) {
+    worker.onmessage = (e: MessageEvent) => {
+      const { success, topicKey, parsedData, columns, enumLabels, error } = e.data
       
       if (success && parsedData) {
-        this.handleWorkerResult(topicKey, parsedData)
+        this.handleWorkerResult(topicKey, parsedData, columns, enumLabels)
       } else if (error) {
         if (Math.random() < 0.01) { 
           console.error(`[DataManager] Worker error for ${topicKey}:`, error)
@@ -87,29 +125,34 @@ export class DataManager extends EventEmitter {
   }
 
   // 🌟 核心修改：只更新状态，不主动推送到 3D 渲染层
-  private handleWorkerResult(topicKey: string, result: ParsedData) {
+  private handleWorkerResult(topicKey: string, result: ParsedData, columns?: ColumnarRow, enumLabels?: Record<string, string>) {
     // 1. 更新最新快照 (Atomic Update)
     this.parsedData.set(topicKey, result)
+    if (enumLabels) this.enumLabels.set(topicKey, enumLabels)
+    else this.enumLabels.delete(topicKey)
     
-    // 2. 🌟 存入缓冲区 (Buffer)
-    if (!this.frameBuffer.has(topicKey)) {
-      this.frameBuffer.set(topicKey, [])
+    // 2. 🌟 写入列式历史 (每帧都写，不受 UI 节流影响)
+    if (columns) {
+      this.history.append(topicKey, columns)
     }
-    const buffer = this.frameBuffer.get(topicKey)!
-    buffer.push(result)
-    
-    // 保持缓冲区大小 (FIFO)
-    if (buffer.length > this.BUFFER_SIZE) {
-      buffer.shift()
+
+    // 3. 🌟 [新增] 逐帧通知 (不节流)
+    const raw = this.rawData.get(topicKey)
+    if (raw) {
+      this.emit('data-parsed', {
+        topicKey,
+        frameId: raw.frame_id,
+        timestamp: raw.timestamp
+      } as DataUpdateEvent)
     }
 
-    // 3. 构建渲染树 (UI 面板专用)
+    // 4. 构建渲染树 (UI 面板专用)
     const rendered = this.buildRenderedTree(topicKey, result)
     if (rendered) {
       this.renderedTrees.set(topicKey, rendered)
     }
     
-    // 4. 通知 UI 面板 (Vue)，但必须节流
+    // 5. 通知 UI 面板 (Vue)，但必须节流
     this.notifyUiThrottled(topicKey)
   }
   
@@ -135,9 +178,11 @@ export class DataManager extends EventEmitter {
     const schema = schemaManager.getSchema(topicKey)
     if (!schema) return
     
+    const worker = this.ensureWorker()
+    
     // 步骤 A: 如果 Schema 还没发给 Worker，先发 Schema
     if (!this.syncedSchemas.has(topicKey)) {
-      this.worker.postMessage({
+      worker.postMessage({
         type: 'SET_SCHEMA',
         payload: { topicKey, schema }
       })
@@ -145,11 +190,13 @@ export class DataManager extends EventEmitter {
     }
     
     // 步骤 B: 发送纯数据进行解析
-    this.worker.postMessage({
+    worker.postMessage({
       type: 'PARSE', 
       payload: {
         topicKey,
-        data: data.data
+        data: data.data,
+        frameId: data.frame_id,
+        timestamp: data.timestamp
       }
     })
   }
@@ -172,30 +219,75 @@ export class DataManager extends EventEmitter {
   getParsedData(topicKey: string): ParsedData | undefined {
     return this.parsedData.get(topicKey)
   }
+
+  /**
+   * 🌟 [新增] 最新一帧中某字段的枚举名 (path 与 RenderedTreeNode.path 一致)
+   */
+  getEnumLabel(topicKey: string, path: string): string | undefined {
+    return this.enumLabels.get(topicKey)?.[path]
+  }
   
   hasData(topicKey: string): boolean {
     return this.rawData.has(topicKey)
   }
+
+  // ========== 历史查询接口 (列式存储) ==========
+
+  /**
+   * 按时间范围 [t0, t1] 查询某字段的历史，path 与 RenderedTreeNode.path 一致
+   * 重复字段按下标寻址，如 "objects[2].velocity.x"
+   */
+  getSeries(topicKey: string, path: string, t0?: number, t1?: number): SeriesResult | null {
+    return this.history.getSeries(topicKey, path, t0, t1)
+  }
+
+  /**
+   * 按帧号范围 [frameStart, frameEnd] 查询某字段的历史
+   */
+  getSeriesByFrame(topicKey: string, path: string, frameStart: number, frameEnd: number): SeriesResult | null {
+    return this.history.getSeriesByFrame(topicKey, path, frameStart, frameEnd)
+  }
+
+  /**
+   * 某 Topic 已记录历史的全部数值字段路径
+   */
+  getSeriesPaths(topicKey: string): string[] {
+    return this.history.getPaths(topicKey)
+  }
+
+  /**
+   * 设置历史存储的内存预算 (字节)，默认 64MB，所有 Topic 均分
+   */
+  setHistoryBudget(bytes: number): void {
+    this.history.setBudget(bytes)
+  }
+
+  getHistoryStats(): ColumnarStoreStats {
+    return this.history.getStats()
+  }
   
   // ========== 清理逻辑 ==========
 
   clearTopic(topicKey: string): void {
     this.rawData.delete(topicKey)
     this.parsedData.delete(topicKey)
+    this.enumLabels.delete(topicKey)
     this.renderedTrees.delete(topicKey)
     this.treeCache.delete(topicKey)
     this.syncedSchemas.delete(topicKey) 
-    this.frameBuffer.delete(topicKey)
+    this.history.clearTopic(topicKey)
     delete this.lastUiUpdate[topicKey]
+    this.emit('topic-cleared', topicKey)
   }
   
   clear(): void {
     this.rawData.clear()
     this.parsedData.clear()
+    this.enumLabels.clear()
     this.renderedTrees.clear()
     this.treeCache.clear()
     this.syncedSchemas.clear()
-    this.frameBuffer.clear()
+    this.history.clear()
     this.lastUiUpdate = {}
     this.removeAllListeners()
   }
@@ -214,7 +306,8 @@ export class DataManager extends EventEmitter {
       return cached.tree
     }
     
-    const tree = this.fillTemplateWithData(template, parsedData, '')
+    const labels = this.enumLabels.get(topicKey) ?? {}
+    const tree = this.fillTemplateWithData(template, parsedData, '', labels)
     
     if (uniqueKey) {
       this.treeCache.set(topicKey, { dataHash: uniqueKey, tree })
@@ -222,59 +315,80 @@ export class DataManager extends EventEmitter {
     return tree
   }
 
-  private createTreeNode(name: string, value: any, path: string, templateNode?: TreeTemplateNode): RenderedTreeNode {
+  private createTreeNode(name: string, value: any, path: string, templateNode?: TreeTemplateNode, enumName?: string): RenderedTreeNode {
     const hasData = value !== undefined && value !== null
     return {
       id: path, 
       name, 
       path,
-      type: templateNode?.type || getValueType(value),
+      type: templateNode?.type || (enumName !== undefined ? 'enum' : getValueType(value)),
       repeated: templateNode?.repeated || Array.isArray(value),
       icon: templateNode?.icon || getValueIcon(value), 
+      ...(templateNode?.oneof && { oneof: templateNode.oneof }),
+      ...(templateNode?.map && { map: true }),
       hasData, 
       value,
-      formattedValue: hasData ? formatFieldValue(value, { type: templateNode?.type } as any) : 'null'
+      formattedValue: hasData ? formatFieldValue(value, templateNode, enumName) : 'null'
     }
   }
 
-  private fillTemplateWithData(templateNodes: TreeTemplateNode[], data: any, parentPath: string = ''): RenderedTreeNode[] {
-    return templateNodes.map(templateNode => {
+  private fillTemplateWithData(
+    templateNodes: TreeTemplateNode[],
+    data: any,
+    parentPath: string = '',
+    labels: Record<string, string> = {}
+  ): RenderedTreeNode[] {
+    const nodes: RenderedTreeNode[] = []
+    for (const templateNode of templateNodes) {
       const fieldName = templateNode.name
       const value = data?.[fieldName]
+      // 🌟 [新增] oneof 中未选中的成员不显示
+      if (templateNode.oneof && (value === undefined || value === null)) continue
+
       const currentPath = parentPath ? `${parentPath}.${fieldName}` : fieldName
-      const node = this.createTreeNode(fieldName, value, currentPath, templateNode)
+      const node = this.createTreeNode(fieldName, value, currentPath, templateNode, labels[currentPath])
+      nodes.push(node)
       
       if (value !== undefined && value !== null) {
         if (Array.isArray(value)) {
           node.formattedValue = `[${value.length} items]`
           if (value.length < 500) { 
-             node.children = this.buildArrayChildren(value, templateNode, currentPath)
+             node.children = this.buildArrayChildren(value, templateNode, currentPath, labels)
           }
         } else if (typeof value === 'object') {
-          if (templateNode.children?.length) {
-            node.children = this.fillTemplateWithData(templateNode.children, value, currentPath)
+          if (templateNode.map) {
+            // 🌟 [新增] map 字段：按实际键展开
+            node.formattedValue = `{${Object.keys(value).length} entries}`
+            node.children = this.buildDynamicTree(value, currentPath)
+          } else if (templateNode.children?.length) {
+            node.children = this.fillTemplateWithData(templateNode.children, value, currentPath, labels)
           } else {
             node.children = this.buildDynamicTree(value, currentPath)
           }
         }
       } else {
         if (templateNode.children?.length) {
-          node.children = this.fillTemplateWithData(templateNode.children, {}, currentPath)
+          node.children = this.fillTemplateWithData(templateNode.children, {}, currentPath, labels)
         }
       }
-      return node
-    })
+    }
+    return nodes
   }
 
-  private buildArrayChildren(array: any[], templateNode: TreeTemplateNode, parentPath: string): RenderedTreeNode[] {
+  private buildArrayChildren(
+    array: any[],
+    templateNode: TreeTemplateNode,
+    parentPath: string,
+    labels: Record<string, string> = {}
+  ): RenderedTreeNode[] {
     return array.map((item, index) => {
       const arrayItemPath = `${parentPath}[${index}]`
-      const arrayItemNode = this.createTreeNode(`[${index}]`, item, arrayItemPath)
+      const arrayItemNode = this.createTreeNode(`[${index}]`, item, arrayItemPath, undefined, labels[arrayItemPath])
       if (typeof item === 'object' && item !== null) {
         arrayItemNode.icon = '📦'
         arrayItemNode.type = 'object'
         if (templateNode.children?.length) {
-          arrayItemNode.children = this.fillTemplateWithData(templateNode.children, item, arrayItemPath)
+          arrayItemNode.children = this.fillTemplateWithData(templateNode.children, item, arrayItemPath, labels)
         } else {
           arrayItemNode.children = this.buildDynamicTree(item, arrayItemPath)
         }
@@ -0,0 +1,115 @@
+// src/core/data/DecodeStats.ts
+
+import { reactive } from 'vue'
+import type { DecodeResult } from '@/core/protocol/VizDecoder'
+import type { DecodeDiagnostic, DecodeErrorKind } from '@/core/protocol/DecodeDiagnostics'
+
+/**
+ * 场景解码统计 (主线程)
+ * DataBus 收到 Worker 的解码结果/失败后写入，UI 直接读取响应式状态展示
+ */
+
+// 整包级错误 (Header 损坏、图层头损坏) 没有 Topic 归属，统一记在这个键下
+export const FRAME_LEVEL_KEY = '(frame)'
+
+// 保留的最近诊断条数
+const RECENT_LIMIT = 50
+
+export interface TopicDecodeStats {
+  key: string              // "layerId/topicId"，与图层树中 Topic 节点 ID 一致
+  errors: number
+  warnings: number
+  bytesSkipped: number
+  lastKind: DecodeErrorKind
+  lastMessage: string
+  lastFrameId: string | null
+  lastTime: number
+}
+
+export interface RecentDiagnostic extends DecodeDiagnostic {
+  frameId: string | null
+  time: number
+}
+
+export interface DecodeStatsState {
+  framesDecoded: number
+  framesWithErrors: number  // 含 error 级诊断的帧 (含整包失败)
+  framesFailed: number      // 整包无法解析
+  totalErrors: number
+  totalWarnings: number
+  topics: Record<string, TopicDecodeStats>
+  recent: RecentDiagnostic[]
+}
+
+export const decodeStats = reactive<DecodeStatsState>(createState())
+
+function createState(): DecodeStatsState {
+  return {
+    framesDecoded: 0,
+    framesWithErrors: 0,
+    framesFailed: 0,
+    totalErrors: 0,
+    totalWarnings: 0,
+    topics: {},
+    recent: []
+  }
+}
+
+export function diagnosticKey(d: DecodeDiagnostic): string {
+  if (d.layerId !== undefined && d.topicId !== undefined) return `${d.layerId}/${d.topicId}`
+  return d.layerId ?? FRAME_LEVEL_KEY
+}
+
+/**
+ * 记录一帧成功返回的解码结果 (可能带有诊断)
+ */
+export function recordDecodedFrame(result: Pick<DecodeResult, 'frameId' | 'diagnostics'>) {
+  decodeStats.framesDecoded++
+  if (!result.diagnostics || result.diagnostics.length === 0) return
+
+  record(result.diagnostics, result.frameId.toString())
+  if (result.diagnostics.some(d => d.severity === 'error')) decodeStats.framesWithErrors++
+}
+
+/**
+ * 记录整包解码失败 (Header 损坏等，Worker 未能返回 DecodeResult)
+ */
+export function recordDecodeFailure(diagnostics: DecodeDiagnostic[]) {
+  decodeStats.framesFailed++
+  decodeStats.framesWithErrors++
+  record(diagnostics, null)
+}
+
+export function resetDecodeStats() {
+  Object.assign(decodeStats, createState())
+}
+
+function record(diagnostics: DecodeDiagnostic[], frameId: string | null) {
+  const now = Date.now()
+  for (const d of diagnostics) {
+    const key = diagnosticKey(d)
+    let stats = decodeStats.topics[key]
+    if (!stats) {
+      stats = decodeStats.topics[key] = {
+        key, errors: 0, warnings: 0, bytesSkipped: 0,
+        lastKind: d.kind, lastMessage: '', lastFrameId: null, lastTime: 0
+      }
+    }
+
+    if (d.severity === 'error') {
+      stats.errors++
+      decodeStats.totalErrors++
+    } else {
+      stats.warnings++
+      decodeStats.totalWarnings++
+    }
+    stats.bytesSkipped += d.bytesSkipped
+    stats.lastKind = d.kind
+    stats.lastMessage = d.message
+    stats.lastFrameId = frameId
+    stats.lastTime = now
+
+    decodeStats.recent.unshift({ ...d, frameId, time: now })
+  }
+  if (decodeStats.recent.length > RECENT_LIMIT) decodeStats.recent.length = RECENT_LIMIT
+}
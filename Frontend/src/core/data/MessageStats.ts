@@ -0,0 +1,40 @@
+// src/core/data/MessageStats.ts
+
+import { reactive } from 'vue'
+
+/**
+ * 控制消息校验统计 (主线程)
+ * DataBus 丢弃无法解析/结构不符的 JSON 消息时写入，UI 直接读取响应式状态展示
+ */
+
+// 保留的最近记录条数
+const RECENT_LIMIT = 20
+
+export interface InvalidMessageRecord {
+  type: string      // 消息类型；JSON 无法解析时为 "(json)"
+  reason: string
+  time: number
+}
+
+export interface MessageStatsState {
+  invalid: number
+  byType: Record<string, number>
+  recent: InvalidMessageRecord[]
+}
+
+export const messageStats = reactive<MessageStatsState>(createState())
+
+function createState(): MessageStatsState {
+  return { invalid: 0, byType: {}, recent: [] }
+}
+
+export function recordInvalidMessage(type: string, reason: string) {
+  messageStats.invalid++
+  messageStats.byType[type] = (messageStats.byType[type] ?? 0) + 1
+  messageStats.recent.unshift({ type, reason, time: Date.now() })
+  if (messageStats.recent.length > RECENT_LIMIT) messageStats.recent.length = RECENT_LIMIT
+}
+
+export function resetMessageStats() {
+  Object.assign(messageStats, createState())
+}
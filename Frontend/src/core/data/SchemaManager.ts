@@ -15,6 +15,8 @@ export interface TreeTemplateNode {
   icon: string                  // 显示图标
   children?: TreeTemplateNode[] // 子节点模板
   fieldId?: number              // 对应的field ID
+  oneof?: string                // 🌟 [新增] 所属 oneof 名称
+  map?: boolean                 // 🌟 [新增] map 字段 (解析后为对象，按实际键展开)
 }
 
 /**
@@ -152,20 +154,50 @@ export class SchemaManager {
         const parentPath = pathParts.slice(0, -1).join('.')
         const parentNode = this.findNodeByPath(Array.from(rootNodes.values()), parentPath)
         
-        if (parentNode) {
-          if (!parentNode.children) {
-            parentNode.children = []
-          }
-          parentNode.children.push(node)
-        } else {
-          // 如果找不到父节点，可能是schema定义问题，放到根节点
-          console.warn(`⚠️ Parent node not found for ${field.path}, adding to root`)
-          rootNodes.set(field.path, node)
+        // 🌟 [修改] 嵌套消息 ("pose.x") 本身不占字段，按路径补出中间的消息节点
+        const parent = parentNode ?? this.ensureMessageNode(rootNodes, pathParts.slice(0, -1))
+        if (!parent.children) {
+          parent.children = []
         }
+        parent.children.push(node)
       }
     })
     
-    return Array.from(rootNodes.values())
+    const roots = Array.from(rootNodes.values())
+    if (schema.oneofs?.length) this.markOneofs(roots, schema)
+    return roots
+  }
+
+  /**
+   * 🌟 [新增] 补出路径上缺失的消息节点，返回最末一级
+   */
+  private ensureMessageNode(rootNodes: Map<string, TreeTemplateNode>, parts: string[]): TreeTemplateNode {
+    let siblings: TreeTemplateNode[] | null = null
+    let node: TreeTemplateNode | undefined
+
+    parts.forEach((name, i) => {
+      const path = parts.slice(0, i + 1).join('.')
+      node = siblings ? siblings.find(n => n.path === path) : rootNodes.get(path)
+      if (!node) {
+        node = { id: path, name, path, type: 'message', repeated: false, icon: '📦', children: [] }
+        if (siblings) siblings.push(node)
+        else rootNodes.set(path, node)
+      }
+      siblings = node.children ?? (node.children = [])
+    })
+    return node!
+  }
+
+  /**
+   * 🌟 [新增] 给 oneof 成员节点打上分组名 (数据树只显示选中的成员)
+   */
+  private markOneofs(roots: TreeTemplateNode[], schema: TopicSchema) {
+    for (const oneof of schema.oneofs ?? []) {
+      for (const member of oneof.fields) {
+        const node = this.findNodeByPath(roots, oneof.path ? `${oneof.path}.${member}` : member)
+        if (node) node.oneof = oneof.name
+      }
+    }
   }
   
   /**
@@ -181,7 +213,8 @@ export class SchemaManager {
       type: field.type,
       repeated: field.repeated,
       icon: this.getFieldIcon(field),
-      fieldId: field.id
+      fieldId: field.id,
+      ...(field.map && { map: true })
     }
   }
   
@@ -222,6 +255,9 @@ export class SchemaManager {
    * 获取字段类型对应的图标
    */
   private getFieldIcon(field: TopicField): string {
+    if (field.map) {
+      return '🗂️'
+    }
     if (field.repeated) {
       return '📋'
     }
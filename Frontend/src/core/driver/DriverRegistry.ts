@@ -0,0 +1,124 @@
+// DriverRegistry.ts - 数据驱动注册表（单例模式）
+
+import { EventEmitter } from '../EventEmitter'
+import type { IDataDriver } from '../types/driver'
+
+/**
+ * 数据驱动注册表
+ * 职责：
+ * 1. 登记所有可用的数据驱动及其能力 (src/drivers/index.ts 在启动时注册)
+ * 2. 记录当前选用的驱动，DataManager / DataBus / playback store 都经由它取驱动
+ * 3. 按连接地址或文件类型自动识别驱动
+ *
+ * 事件：
+ *   'driver-changed' (driver: IDataDriver)
+ */
+export class DriverRegistry extends EventEmitter {
+  private static instance: DriverRegistry
+
+  private drivers: Map<string, IDataDriver> = new Map()
+  private defaultName: string | null = null
+  private activeName: string | null = null
+
+  private constructor() {
+    super()
+  }
+
+  /**
+   * 获取单例
+   */
+  static getInstance(): DriverRegistry {
+    if (!DriverRegistry.instance) {
+      DriverRegistry.instance = new DriverRegistry()
+    }
+    return DriverRegistry.instance
+  }
+
+  /**
+   * 注册驱动；第一个注册 (或 isDefault) 的驱动作为默认驱动
+   */
+  register(driver: IDataDriver, isDefault = false): void {
+    if (this.drivers.has(driver.name)) {
+      console.warn(`[DriverRegistry] Driver ${driver.name} already registered, replacing`)
+    }
+    this.drivers.set(driver.name, driver)
+    if (isDefault || !this.defaultName) this.defaultName = driver.name
+  }
+
+  get(name: string): IDataDriver | undefined {
+    return this.drivers.get(name)
+  }
+
+  list(): IDataDriver[] {
+    return Array.from(this.drivers.values())
+  }
+
+  /**
+   * 当前选用的驱动 (未选择时为默认驱动)
+   */
+  getActive(): IDataDriver {
+    const name = this.activeName ?? this.defaultName
+    const driver = name ? this.drivers.get(name) : undefined
+    if (!driver) throw new Error('No data driver registered')
+    return driver
+  }
+
+  /**
+   * 切换当前驱动
+   */
+  select(name: string): IDataDriver {
+    const driver = this.drivers.get(name)
+    if (!driver) throw new Error(`Unknown data driver: ${name}`)
+    if (this.activeName !== name) {
+      this.activeName = name
+      console.log(`🔌 DriverRegistry: Using driver ${name}`)
+      this.emit('driver-changed', driver)
+    }
+    return driver
+  }
+
+  /**
+   * 按连接地址识别驱动：端口命中 capabilities.defaultPorts 的驱动优先，否则使用默认的在线驱动
+   */
+  detectForUrl(url: string): IDataDriver | undefined {
+    const live = this.list().filter(driver => driver.capabilities?.live)
+    let port: number | null = null
+    try {
+      const parsed = new URL(url)
+      port = parsed.port ? Number(parsed.port) : null
+    } catch {
+      // 地址不完整时只能使用默认驱动
+    }
+    const byPort = port !== null ? live.find(driver => driver.capabilities?.defaultPorts?.includes(port!)) : undefined
+    if (byPort) return byPort
+
+    const fallback = this.defaultName ? this.drivers.get(this.defaultName) : undefined
+    return fallback?.capabilities?.live ? fallback : live[0]
+  }
+
+  /**
+   * 按扩展名识别可打开该文件的驱动
+   */
+  detectForFile(fileName: string): IDataDriver | undefined {
+    const name = fileName.toLowerCase()
+    return this.list().find(driver =>
+      driver.openFile && driver.capabilities?.fileExtensions?.some(ext => name.endsWith(ext.toLowerCase()))
+    )
+  }
+
+  /**
+   * 可打开录制目录的驱动
+   */
+  detectForDirectory(): IDataDriver | undefined {
+    return this.list().find(driver => driver.openDirectory && driver.capabilities?.directory)
+  }
+
+  /**
+   * 所有驱动支持的文件扩展名 (用于文件选择框的 accept)
+   */
+  fileExtensions(): string[] {
+    return this.list().flatMap(driver => (driver.openFile && driver.capabilities?.fileExtensions) || [])
+  }
+}
+
+export const driverRegistry = DriverRegistry.getInstance()
@@ -4,7 +4,12 @@ export * from './types'
 export { EventEmitter } from './EventEmitter'
 export { WebSocketClient } from './WebSocketClient'
 export { MessageRouter } from './MessageRouter'
+export { RpcClient, RpcError } from './RpcClient'
 export { DataBus } from './DataBus'
+export { OfflineReplayTransport } from './replay/OfflineReplayTransport'
+export { DirectoryReplaySource } from './replay/DirectoryReplaySource'
+export { SessionFileReplaySource } from './replay/SessionFileReplaySource'
 
 export type { WebSocketClientConfig } from './WebSocketClient'
-export type { DataBusConfig } from './DataBus'
\ No newline at end of file
+export type { DataBusConfig } from './DataBus'
+export type { ReplaySource, ReplayFrame } from './replay/ReplaySource'
\ No newline at end of file
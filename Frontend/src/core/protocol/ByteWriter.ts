@@ -0,0 +1,114 @@
+// src/core/protocol/ByteWriter.ts
+
+const textEncoder = new TextEncoder()
+
+/**
+ * 小端二进制写入器 (容量不足时自动翻倍)
+ * 编码器共用，读取侧对应 VizDecoder 中的 DataView 读取逻辑
+ */
+export class ByteWriter {
+  private buffer: ArrayBuffer
+  private view: DataView
+  private bytes: Uint8Array
+  private offset = 0
+
+  constructor(initialCapacity: number = 1024) {
+    this.buffer = new ArrayBuffer(Math.max(16, initialCapacity))
+    this.view = new DataView(this.buffer)
+    this.bytes = new Uint8Array(this.buffer)
+  }
+
+  get length(): number {
+    return this.offset
+  }
+
+  private ensure(need: number) {
+    if (this.offset + need <= this.buffer.byteLength) return
+    let capacity = this.buffer.byteLength * 2
+    while (capacity < this.offset + need) capacity *= 2
+    const next = new ArrayBuffer(capacity)
+    new Uint8Array(next).set(this.bytes.subarray(0, this.offset))
+    this.buffer = next
+    this.view = new DataView(next)
+    this.bytes = new Uint8Array(next)
+  }
+
+  u8(value: number): this {
+    this.ensure(1)
+    this.view.setUint8(this.offset, value); this.offset += 1
+    return this
+  }
+
+  u16(value: number): this {
+    this.ensure(2)
+    this.view.setUint16(this.offset, value, true); this.offset += 2
+    return this
+  }
+
+  u32(value: number): this {
+    this.ensure(4)
+    this.view.setUint32(this.offset, value, true); this.offset += 4
+    return this
+  }
+
+  i32(value: number): this {
+    this.ensure(4)
+    this.view.setInt32(this.offset, value, true); this.offset += 4
+    return this
+  }
+
+  u64(value: bigint): this {
+    this.ensure(8)
+    this.view.setBigUint64(this.offset, value, true); this.offset += 8
+    return this
+  }
+
+  f32(value: number): this {
+    this.ensure(4)
+    this.view.setFloat32(this.offset, value, true); this.offset += 4
+    return this
+  }
+
+  f64(value: number): this {
+    this.ensure(8)
+    this.view.setFloat64(this.offset, value, true); this.offset += 8
+    return this
+  }
+
+  bytesOf(data: Uint8Array): this {
+    this.ensure(data.byteLength)
+    this.bytes.set(data, this.offset); this.offset += data.byteLength
+    return this
+  }
+
+  /**
+   * 字符串：len(u16) + UTF-8 字节
+   */
+  string(value: string): this {
+    const encoded = textEncoder.encode(value)
+    if (encoded.byteLength > 0xffff) throw new Error(`String too long: ${encoded.byteLength}`)
+    this.u16(encoded.byteLength)
+    return this.bytesOf(encoded)
+  }
+
+  /**
+   * 短字符串：len(u8) + UTF-8 字节 (点云通道名)
+   */
+  shortString(value: string): this {
+    const encoded = textEncoder.encode(value)
+    if (encoded.byteLength > 0xff) throw new Error(`Short string too long: ${encoded.byteLength}`)
+    this.u8(encoded.byteLength)
+    return this.bytesOf(encoded)
+  }
+
+  /**
+   * 返回已写入部分的独立副本
+   */
+  toArrayBuffer(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset)
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.toArrayBuffer())
+  }
+}
@@ -0,0 +1,138 @@
+// src/core/protocol/ControlMessages.ts
+
+import type { InboundMessage, InboundMessageType } from '@/types/playback'
+
+/**
+ * 控制消息 (JSON) 运行时校验
+ *
+ * 只检查业务代码实际读取的字段类型，多余字段原样保留；
+ * 未登记的消息类型不做校验直接放行 (扩展消息由各自的订阅者负责)
+ */
+
+export type ValidationResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: true; message: { type: string; [key: string]: any }; unchecked: true }
+  | { ok: false; type: string; reason: string }
+
+type Check = (value: unknown) => boolean
+
+const isString: Check = (v) => typeof v === 'string'
+const isNumber: Check = (v) => typeof v === 'number' && Number.isFinite(v)
+const isBoolean: Check = (v) => typeof v === 'boolean'
+const isObject: Check = (v) => typeof v === 'object' && v !== null && !Array.isArray(v)
+const optional = (check: Check): Check => (v) => v === undefined || check(v)
+const nullable = (check: Check): Check => (v) => v === null || check(v)
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check)
+
+type Shape = Record<string, Check>
+
+// 返回第一个不合法的字段描述，全部合法返回 null
+function checkShape(obj: Record<string, unknown>, shape: Shape, prefix = ''): string | null {
+  for (const [field, check] of Object.entries(shape)) {
+    if (!check(obj[field])) return `${prefix}${field}: unexpected ${describe(obj[field])}`
+  }
+  return null
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const shapeCheck = (shape: Shape): Check => (v) => isObject(v) && checkShape(v as Record<string, unknown>, shape) === null
+
+const RANGE: Shape = { min: isNumber, max: isNumber }
+
+const PLAYBACK_STATUS: Shape = {
+  is_playing: isBoolean,
+  current_frame_id: isNumber,
+  current_timestamp: isNumber,
+  progress: optional(isNumber),
+  speed_multiplier: optional(isNumber),
+  play_mode: optional(isString),
+  timestamp_type: optional(isString),
+  frame_range: optional(shapeCheck(RANGE)),
+  time_range: optional(shapeCheck(RANGE))
+}
+
+const INIT_INFO: Shape = {
+  server_version: optional(isString),
+  available_keys: arrayOf(isString),
+  initial_status: optional(shapeCheck(PLAYBACK_STATUS)),
+  protocol: optional(isObject)
+}
+
+interface MessageSpec {
+  // 业务字段放在 data 中 (旧服务端平铺在顶层，校验时收拢到 data)
+  enveloped?: boolean
+  shape: Shape
+}
+
+const SPECS: Record<InboundMessageType, MessageSpec> = {
+  INIT_INFO: { enveloped: true, shape: INIT_INFO },
+  PLAYBACK_STATUS: { enveloped: true, shape: PLAYBACK_STATUS },
+  COMMAND_ACK: {
+    shape: { command: isString, success: isBoolean, message: optional(isString) }
+  },
+  ERROR: {
+    shape: { message: isString, error_code: optional(isString), _requestId: optional(isString), error: optional(isString) }
+  },
+  SUBSCRIPTION_ACK: {
+    shape: { success: isBoolean, topic_key: isString, message: optional(isString) }
+  },
+  AVAILABLE_TOPICS: {
+    shape: { available_keys: arrayOf(isString), _requestId: optional(isString) }
+  },
+  TOPIC_SCHEMA: {
+    shape: { topic_key: isString, schema: shapeCheck({ fields: Array.isArray }) }
+  },
+  TOPIC_SCHEMA_RESPONSE: {
+    shape: { topic_key: isString, schema: shapeCheck({ fields: Array.isArray }), _requestId: optional(isString) }
+  },
+  TOPIC_DATA: {
+    shape: { topic_key: isString, frame_id: isNumber, timestamp: isNumber, data: isObject }
+  },
+  TOPIC_DATA_RESPONSE: {
+    shape: {
+      topic_key: isString,
+      frame_id: nullable(isNumber),
+      timestamp: nullable(isNumber),
+      data: nullable(isObject),
+      _requestId: optional(isString)
+    }
+  }
+}
+
+export function isKnownMessageType(type: string): type is InboundMessageType {
+  return Object.prototype.hasOwnProperty.call(SPECS, type)
+}
+
+/**
+ * 校验一条已解析的 JSON 消息
+ */
+export function validateInboundMessage(raw: unknown): ValidationResult {
+  if (!isObject(raw)) return { ok: false, type: '(unknown)', reason: `message is ${describe(raw)}` }
+
+  const message = raw as Record<string, any>
+  if (!isString(message.type)) {
+    const reason = message.type === undefined ? 'type: missing' : `type: unexpected ${describe(message.type)}`
+    return { ok: false, type: '(unknown)', reason }
+  }
+
+  const type: string = message.type
+  if (!isKnownMessageType(type)) return { ok: true, message: message as { type: string }, unchecked: true }
+
+  const spec = SPECS[type]
+  if (spec.enveloped) {
+    const { type: _type, data, ...flat } = message
+    const body = isObject(data) ? data : flat
+    const error = checkShape(body, spec.shape, 'data.')
+    if (error) return { ok: false, type, reason: error }
+    return { ok: true, message: { ...message, data: body } as InboundMessage }
+  }
+
+  const error = checkShape(message, spec.shape)
+  if (error) return { ok: false, type, reason: error }
+  return { ok: true, message: message as InboundMessage }
+}
@@ -0,0 +1,64 @@
+// src/core/protocol/DecodeDiagnostics.ts
+
+/**
+ * 场景包解码诊断
+ *
+ * 解码器不再吞掉错误：每个问题都以 DecodeDiagnostic 的形式随 DecodeResult 返回，
+ * 由 Worker 转发到主线程统计，UI 可以据此区分 "数据为空" 与 "数据损坏"
+ */
+
+export enum DecodeErrorKind {
+  TRUNCATED      = 'TRUNCATED',      // 数据不足 (包被截断或长度字段错误)
+  INVALID_VALUE  = 'INVALID_VALUE',  // 未知枚举值 / 非法字段 (节点类型、更新方式、补丁操作等)
+  INVALID_STRING = 'INVALID_STRING', // 字符串长度超限
+  CHANNEL_TABLE  = 'CHANNEL_TABLE',  // 点云通道表非法
+  INFLATE_FAILED = 'INFLATE_FAILED', // 点列解压失败
+  SIZE_MISMATCH  = 'SIZE_MISMATCH',  // 解压后大小与声明不一致
+  UNKNOWN        = 'UNKNOWN'
+}
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface DecodeDiagnostic {
+  kind: DecodeErrorKind
+  severity: DiagnosticSeverity // error: 有数据丢失；warning: 数据已修正/截取，仍可使用
+  message: string
+  offset: number        // 出错位置 (相对场景包起始的字节偏移)
+  path: string          // 节点路径，如 "perception//perception/objects/objects/track_7"；Header 错误为 ""
+  layerId?: string
+  topicId?: string
+  bytesSkipped: number  // 因此未能解析的字节数
+}
+
+/**
+ * 带错误类型与偏移的解码异常
+ * 解码器内部抛出，在能恢复的层级 (Topic / 图层 / 点列) 转成 DecodeDiagnostic
+ */
+export class DecodeError extends Error {
+  constructor(public kind: DecodeErrorKind, message: string, public offset: number) {
+    super(message)
+    this.name = 'DecodeError'
+  }
+}
+
+/**
+ * 把任意异常归类为诊断信息 (非 DecodeError 的异常归为 UNKNOWN)
+ */
+export function toDiagnostic(
+  error: unknown,
+  fallbackOffset: number,
+  location: Pick<DecodeDiagnostic, 'path' | 'bytesSkipped'> & Partial<Pick<DecodeDiagnostic, 'layerId' | 'topicId'>>
+): DecodeDiagnostic {
+  if (error instanceof DecodeError) {
+    return { kind: error.kind, severity: 'error', message: error.message, offset: error.offset, ...location }
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  // DataView 越界读取抛出的是 RangeError
+  const kind = error instanceof RangeError ? DecodeErrorKind.TRUNCATED : DecodeErrorKind.UNKNOWN
+  return { kind, severity: 'error', message, offset: fallbackOffset, ...location }
+}
+
+export function formatDiagnostic(d: DecodeDiagnostic): string {
+  const where = d.path ? ` at ${d.path}` : ''
+  return `[${d.kind}]${where} @${d.offset} (skipped ${d.bytesSkipped}B): ${d.message}`
+}
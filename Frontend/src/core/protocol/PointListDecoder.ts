@@ -1,13 +1,57 @@
 // src/core/protocol/PointListDecoder.ts
 
 import pako from 'pako'
+import { Compression, ProtocolError } from './ProtocolCapabilities'
+import { DecodeError, DecodeErrorKind, type DecodeDiagnostic } from './DecodeDiagnostics'
 
 export enum PointFormat {
   XY_F32    = 0,
   XYZ_F32   = 1,
   XYZI_F32  = 2,
   XY_F64    = 3,
-  XYZ_F64   = 4
+  XYZ_F64   = 4,
+  CHANNELS  = 5  // 🌟 自描述通道布局 (见 readChannelTable)
+}
+
+// 通道数据类型 (线上编码)
+export enum ChannelType {
+  FLOAT32 = 0,
+  FLOAT64 = 1,
+  UINT8   = 2,
+  UINT16  = 3,
+  UINT32  = 4,
+  INT8    = 5,
+  INT16   = 6,
+  INT32   = 7
+}
+
+export const CHANNEL_TYPE_BYTES: Record<ChannelType, number> = {
+  [ChannelType.FLOAT32]: 4,
+  [ChannelType.FLOAT64]: 8,
+  [ChannelType.UINT8]: 1,
+  [ChannelType.UINT16]: 2,
+  [ChannelType.UINT32]: 4,
+  [ChannelType.INT8]: 1,
+  [ChannelType.INT16]: 2,
+  [ChannelType.INT32]: 4
+}
+
+// 约定的通道名 (其余名称原样透传，渲染层可按名称着色)
+export const CHANNEL_POSITION  = 'position'  // 2 或 3 分量，必须是第一个通道
+export const CHANNEL_INTENSITY = 'intensity'
+export const CHANNEL_RGB       = 'rgb'       // 3 分量，UINT8 为 0~255
+export const CHANNEL_RING      = 'ring'
+export const CHANNEL_TIME      = 'time'      // 点内相对时间戳
+export const CHANNEL_LABEL     = 'label'     // 语义类别 ID
+
+/**
+ * 解码后通道在 data 中的位置 (以 float 为单位)
+ */
+export interface PointChannel {
+  name: string
+  offset: number
+  components: number
+  type: ChannelType // 线上原始类型，渲染层据此决定是否归一化 (如 UINT8 颜色)
 }
 
 export interface DecodedPointList {
@@ -15,91 +59,401 @@ export interface DecodedPointList {
   count: number
   data: Float32Array 
   stride: number     
+  channels: PointChannel[]
+  rebased?: boolean  // F64 坐标：data 中的位置为相对帧原点的坐标
+  malformed?: boolean // 🌟 数据损坏 (解压失败等) 导致的空点列，与本来就没有点的空点列区分
+}
+
+// 点列级诊断 (节点路径由 VizDecoder 补全)
+export type PointListDiagnostic = Omit<DecodeDiagnostic, 'path' | 'layerId' | 'topicId'>
+
+export interface PointListDecodeOutput {
+  result: DecodedPointList
+  newOffset: number
+  diagnostic?: PointListDiagnostic // 可恢复的问题：点列已跳过或按实际数据截取
+}
+
+/**
+ * 按名称查找通道
+ */
+export function getPointChannel(points: DecodedPointList, name: string): PointChannel | undefined {
+  return points.channels.find(c => c.name === name)
+}
+
+// 固定格式对应的通道布局
+function legacyChannels(format: PointFormat): PointChannel[] {
+  switch (format) {
+    case PointFormat.XY_F32:
+      return [{ name: CHANNEL_POSITION, offset: 0, components: 2, type: ChannelType.FLOAT32 }]
+    case PointFormat.XY_F64:
+      return [{ name: CHANNEL_POSITION, offset: 0, components: 2, type: ChannelType.FLOAT64 }]
+    case PointFormat.XYZ_F64:
+      return [{ name: CHANNEL_POSITION, offset: 0, components: 3, type: ChannelType.FLOAT64 }]
+    case PointFormat.XYZI_F32:
+      return [
+        { name: CHANNEL_POSITION, offset: 0, components: 3, type: ChannelType.FLOAT32 },
+        { name: CHANNEL_INTENSITY, offset: 3, components: 1, type: ChannelType.FLOAT32 }
+      ]
+    default:
+      return [{ name: CHANNEL_POSITION, offset: 0, components: 3, type: ChannelType.FLOAT32 }]
+  }
+}
+
+// 线上通道描述 (解压前读取)
+interface WireChannel {
+  name: string
+  type: ChannelType
+  components: number
+}
+
+export interface Origin {
+  x: number
+  y: number
+  z: number
+}
+
+// 原点按网格对齐，相邻帧大概率落在同一原点上
+const ORIGIN_GRID = 1000
+// 距离上一帧原点超过此范围才重新选原点 (float32 在 10km 内精度约 1mm)
+const ORIGIN_REUSE_RANGE = 10000
+
+/**
+ * 帧级原点上下文
+ * 同一帧内所有 F64 点列共用一个原点，首个 F64 点决定原点
+ * Z 不做平移 (高程量级 float32 足够)
+ */
+export class OriginContext {
+  origin: Origin | null = null
+
+  constructor(private previous: Origin | null = null) {}
+
+  resolve(x: number, y: number): Origin {
+    if (this.origin) return this.origin
+
+    const prev = this.previous
+    if (prev && Math.abs(x - prev.x) < ORIGIN_REUSE_RANGE && Math.abs(y - prev.y) < ORIGIN_REUSE_RANGE) {
+      this.origin = prev
+    } else {
+      this.origin = {
+        x: Math.round(x / ORIGIN_GRID) * ORIGIN_GRID,
+        y: Math.round(y / ORIGIN_GRID) * ORIGIN_GRID,
+        z: 0
+      }
+    }
+    return this.origin
+  }
 }
 
 export class PointListDecoder {
-  static decode(view: DataView, offset: number): { result: DecodedPointList, newOffset: number } {
+  /**
+   * @param originContext F64 格式的平移基准；不传时按原值转 float32 (会丢精度)
+   * @param compression v1 协议由 Header 指定；不传 (v0) 时先试 zlib 再试裸 deflate
+   *
+   * 错误处理：
+   *   - Header / 通道表损坏或长度不足：无法确定点列边界，抛出 DecodeError 由上层处理
+   *   - 压缩体损坏：已知边界，跳过压缩体并返回 malformed 的空点列 + 诊断信息
+   *   - 解压后大小与声明不符：按实际数据截取，附带 warning 诊断
+   */
+  static decode(
+    view: DataView,
+    offset: number,
+    originContext?: OriginContext,
+    compression?: Compression
+  ): PointListDecodeOutput {
     let ptr = offset
 
+    // 1. 检查剩余长度 (Header 13 bytes)
+    if (ptr + 13 > view.byteLength) {
+      throw new DecodeError(DecodeErrorKind.TRUNCATED, `Point list header needs 13 bytes, has ${view.byteLength - ptr}`, ptr)
+    }
+
+    // 2. 读取元数据
+    const format = view.getUint8(ptr) as PointFormat; ptr += 1
+    const count = view.getUint32(ptr, true); ptr += 4
+    if (compression !== undefined && PointFormat[format] === undefined) {
+      throw new ProtocolError(`Unknown point format ${format}`)
+    }
+    const originalSize = view.getUint32(ptr, true); ptr += 4
+    const compressedSize = view.getUint32(ptr, true); ptr += 4
+
+    // 🌟 自描述格式：压缩体之前是未压缩的通道表
+    let wireChannels: WireChannel[] | null = null
+    if (format === PointFormat.CHANNELS) {
+      const table = this.readChannelTable(view, ptr)
+      wireChannels = table.channels
+      ptr = table.newOffset
+    }
+
+    // 3. 提取压缩体
+    const bodyOffset = ptr
+    if (ptr + compressedSize > view.byteLength) {
+      throw new DecodeError(
+        DecodeErrorKind.TRUNCATED,
+        `Point list body needs ${compressedSize} bytes, has ${view.byteLength - ptr}`,
+        ptr
+      )
+    }
+
+    // 空数据直接返回 (声明了点数却没有数据体属于损坏)
+    if (compressedSize === 0) {
+      if (count === 0) return { result: this.emptyList(format), newOffset: ptr }
+      return {
+        result: this.emptyList(format, true),
+        newOffset: ptr,
+        diagnostic: {
+          kind: DecodeErrorKind.SIZE_MISMATCH, severity: 'error', offset: bodyOffset, bytesSkipped: 0,
+          message: `Declared ${count} points but body is empty`
+        }
+      }
+    }
+
+    const compressedBytes = new Uint8Array(view.buffer, view.byteOffset + ptr, compressedSize)
+    ptr += compressedSize
+
+    // 4. 解压 (pako)
+    let rawBytes: Uint8Array
     try {
-      // 1. 检查剩余长度 (Header 13 bytes)
-      if (ptr + 13 > view.byteLength) {
-        throw new Error(`Buffer too short for header. Need 13, has ${view.byteLength - ptr}`)
+      rawBytes = this.inflate(compressedBytes, compression)
+    } catch (e) {
+      if (e instanceof ProtocolError) throw e
+      return {
+        result: this.emptyList(format, true),
+        newOffset: ptr,
+        diagnostic: {
+          kind: DecodeErrorKind.INFLATE_FAILED, severity: 'error', offset: bodyOffset, bytesSkipped: compressedSize,
+          message: `Inflate failed (${compression !== undefined ? Compression[compression] : 'auto'}): ${e instanceof Error ? e.message : e}`
+        }
       }
+    }
 
-      // 2. 读取元数据
-      const format = view.getUint8(ptr) as PointFormat; ptr += 1
-      const count = view.getUint32(ptr, true); ptr += 4
-      const originalSize = view.getUint32(ptr, true); ptr += 4
-      const compressedSize = view.getUint32(ptr, true); ptr += 4
+    const result = this.decodeBody(rawBytes, format, count, wireChannels, originContext)
 
-      // 3. 提取压缩体
-      if (ptr + compressedSize > view.byteLength) {
-        throw new Error(`Buffer overflow. Need ${compressedSize}, has ${view.byteLength - ptr}`)
+    // 5. 大小校验：数据不足时已按实际点数截取
+    let diagnostic: PointListDiagnostic | undefined
+    if (result.count < count) {
+      const lost = result.count === 0
+      if (lost) result.malformed = true
+      diagnostic = {
+        kind: DecodeErrorKind.SIZE_MISMATCH, severity: lost ? 'error' : 'warning', offset: bodyOffset, bytesSkipped: 0,
+        message: `Declared ${count} points, body holds ${result.count} (${rawBytes.byteLength} bytes)`
       }
-      
-      // 空数据直接返回
-      if (compressedSize === 0) {
-         return {
-           result: { format, count: 0, data: new Float32Array(0), stride: 3 },
-           newOffset: ptr
-         }
+    } else if (rawBytes.byteLength !== originalSize) {
+      diagnostic = {
+        kind: DecodeErrorKind.SIZE_MISMATCH, severity: 'warning', offset: bodyOffset, bytesSkipped: 0,
+        message: `Inflated ${rawBytes.byteLength} bytes, header declares ${originalSize}`
       }
+    }
 
-      const compressedBytes = new Uint8Array(view.buffer, view.byteOffset + ptr, compressedSize)
-      ptr += compressedSize
+    return { result, newOffset: ptr, diagnostic }
+  }
 
-      // 4. 解压 (pako)
-      let rawBytes: Uint8Array | null = null
+  private static inflate(bytes: Uint8Array, compression?: Compression): Uint8Array {
+    let out: Uint8Array | undefined
+    if (compression === undefined) {
       try {
-        rawBytes = pako.inflate(compressedBytes)
-      } catch (e1) {
-        try {
-          rawBytes = pako.inflateRaw(compressedBytes)
-        } catch (e2) {
-           console.error('[Decoder] All inflate methods failed', e2)
-           return this.emptyResult(format, ptr)
-        }
+        out = pako.inflate(bytes)
+      } catch {
+        out = pako.inflateRaw(bytes)
       }
-
-      if (!rawBytes || rawBytes.byteLength === 0) {
-        return this.emptyResult(format, ptr)
+    } else {
+      // v1：按 Header 声明的方式解压，不做猜测
+      switch (compression) {
+        case Compression.NONE: out = bytes.slice(); break
+        case Compression.ZLIB: out = pako.inflate(bytes); break
+        case Compression.DEFLATE_RAW: out = pako.inflateRaw(bytes); break
+        default: throw new ProtocolError(`Unknown compression ${compression}`)
       }
+    }
+    // pako 对不完整的流返回 undefined 而不是抛错
+    if (!out) throw new Error('Incomplete deflate stream')
+    return out
+  }
 
-      // 5. 转换为 Float32Array (处理内存对齐)
-      let finalData: Float32Array
-      let stride = 3
+  private static decodeBody(
+    rawBytes: Uint8Array,
+    format: PointFormat,
+    count: number,
+    wireChannels: WireChannel[] | null,
+    originContext?: OriginContext
+  ): DecodedPointList {
+    // 🌟 自描述通道：逐通道展开为 float32 交错数组
+    if (wireChannels) {
+      return this.decodeChannels(rawBytes, count, wireChannels, originContext)
+    }
 
-      switch (format) {
-        case PointFormat.XY_F32: stride = 2; break;
-        case PointFormat.XYZ_F32: stride = 3; break;
-        case PointFormat.XYZI_F32: stride = 4; break;
-        default: stride = 3; break;
-      }
-      
-      // 必须确保内存地址是 4 的倍数才能创建 Float32Array
-      if (rawBytes.byteOffset % 4 !== 0 || rawBytes.byteLength % 4 !== 0) {
-          const alignedBuffer = rawBytes.slice().buffer
-          finalData = new Float32Array(alignedBuffer)
-      } else {
-          finalData = new Float32Array(rawBytes.buffer, rawBytes.byteOffset, rawBytes.byteLength / 4)
+    // 🌟 F64 格式：减去帧原点后再转 float32
+    if (format === PointFormat.XY_F64 || format === PointFormat.XYZ_F64) {
+      const stride = format === PointFormat.XY_F64 ? 2 : 3
+      const data = this.rebaseF64(rawBytes, count, stride, originContext)
+      return { format, count: data.length / stride, data, stride, channels: legacyChannels(format), rebased: !!originContext }
+    }
+
+    // 转换为 Float32Array (处理内存对齐)
+    let stride = 3
+    switch (format) {
+      case PointFormat.XY_F32: stride = 2; break;
+      case PointFormat.XYZ_F32: stride = 3; break;
+      case PointFormat.XYZI_F32: stride = 4; break;
+      default: stride = 3; break;
+    }
+
+    const n = Math.min(count, Math.floor(rawBytes.byteLength / (stride * 4)))
+    const byteLength = n * stride * 4
+
+    // 必须确保内存地址是 4 的倍数才能创建 Float32Array
+    let finalData: Float32Array
+    if (rawBytes.byteOffset % 4 !== 0) {
+      finalData = new Float32Array(rawBytes.slice(0, byteLength).buffer)
+    } else {
+      finalData = new Float32Array(rawBytes.buffer, rawBytes.byteOffset, byteLength / 4)
+    }
+
+    return { format, count: n, data: finalData, stride, channels: legacyChannels(format) }
+  }
+
+  /**
+   * 通道表：channelCount(u8) + [nameLen(u8) + name + type(u8) + components(u8)] * N
+   * 压缩体为按通道顺序紧密排列的交错记录 (小端，无对齐填充)
+   *
+   * 常见布局：
+   *   position(F32x3) + rgb(U8x3)
+   *   position(F32x3) + intensity(F32) + ring(U16) + time(F32)
+   *   position(F64x3) + label(U32)
+   */
+  private static readChannelTable(view: DataView, offset: number): { channels: WireChannel[], newOffset: number } {
+    let ptr = offset
+    const need = (n: number) => {
+      if (ptr + n > view.byteLength) {
+        throw new DecodeError(DecodeErrorKind.TRUNCATED, `Buffer too short for channel table at ${ptr}`, ptr)
       }
+    }
 
-      return {
-        result: { format, count, data: finalData, stride },
-        newOffset: ptr
+    need(1)
+    const channelCount = view.getUint8(ptr++)
+    const channels: WireChannel[] = []
+    for (let i = 0; i < channelCount; i++) {
+      need(1)
+      const nameLen = view.getUint8(ptr++)
+      need(nameLen + 2)
+      const name = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + ptr, nameLen))
+      ptr += nameLen
+      const type = view.getUint8(ptr++) as ChannelType
+      const components = view.getUint8(ptr++)
+      if (CHANNEL_TYPE_BYTES[type] === undefined) {
+        throw new DecodeError(DecodeErrorKind.CHANNEL_TABLE, `Unknown channel type ${type} for "${name}"`, ptr - 2)
       }
+      if (components === 0) {
+        throw new DecodeError(DecodeErrorKind.CHANNEL_TABLE, `Channel "${name}" has zero components`, ptr - 1)
+      }
+      channels.push({ name, type, components })
+    }
 
-    } catch (err) {
-      console.error('[Decoder] Critical Error:', err)
-      return this.emptyResult(PointFormat.XYZ_F32, ptr)
+    if (channels.length === 0 || channels[0].name !== CHANNEL_POSITION) {
+      throw new DecodeError(DecodeErrorKind.CHANNEL_TABLE, 'First channel must be "position"', offset)
     }
+    const posComponents = channels[0].components
+    if (posComponents !== 2 && posComponents !== 3) {
+      throw new DecodeError(DecodeErrorKind.CHANNEL_TABLE, `Position channel must have 2 or 3 components, got ${posComponents}`, offset)
+    }
+    return { channels, newOffset: ptr }
   }
 
-  private static emptyResult(format: PointFormat, offset: number) {
+  /**
+   * 交错记录 -> float32 交错数组；F64 位置按帧原点平移
+   */
+  private static decodeChannels(
+    rawBytes: Uint8Array,
+    count: number,
+    wireChannels: WireChannel[],
+    originContext?: OriginContext
+  ): DecodedPointList {
+    const recordSize = wireChannels.reduce((sum, c) => sum + CHANNEL_TYPE_BYTES[c.type] * c.components, 0)
+    const n = Math.min(count, Math.floor(rawBytes.byteLength / recordSize))
+
+    const channels: PointChannel[] = []
+    let stride = 0
+    for (const c of wireChannels) {
+      channels.push({ name: c.name, offset: stride, components: c.components, type: c.type })
+      stride += c.components
+    }
+
+    const data = new Float32Array(n * stride)
+    const view = new DataView(rawBytes.buffer, rawBytes.byteOffset, rawBytes.byteLength)
+    const position = wireChannels[0]
+    const rebase = position.type === ChannelType.FLOAT64 && n > 0
+
+    let origin: Origin = { x: 0, y: 0, z: 0 }
+    if (rebase && originContext) {
+      origin = originContext.resolve(view.getFloat64(0, true), view.getFloat64(8, true))
+    }
+    const originComponents = [origin.x, origin.y, origin.z]
+
+    let src = 0
+    for (let i = 0; i < n; i++) {
+      let dst = i * stride
+      for (let c = 0; c < wireChannels.length; c++) {
+        const { type, components } = wireChannels[c]
+        const bytes = CHANNEL_TYPE_BYTES[type]
+        for (let k = 0; k < components; k++) {
+          let value = this.readScalar(view, src, type)
+          if (c === 0 && rebase) value -= originComponents[k]
+          data[dst++] = value
+          src += bytes
+        }
+      }
+    }
+
     return {
-        result: { format, count: 0, data: new Float32Array(0), stride: 3 },
-        newOffset: offset
+      format: PointFormat.CHANNELS,
+      count: n,
+      data,
+      stride,
+      channels,
+      rebased: rebase && !!originContext
     }
   }
+
+  private static readScalar(view: DataView, offset: number, type: ChannelType): number {
+    switch (type) {
+      case ChannelType.FLOAT32: return view.getFloat32(offset, true)
+      case ChannelType.FLOAT64: return view.getFloat64(offset, true)
+      case ChannelType.UINT8: return view.getUint8(offset)
+      case ChannelType.UINT16: return view.getUint16(offset, true)
+      case ChannelType.UINT32: return view.getUint32(offset, true)
+      case ChannelType.INT8: return view.getInt8(offset)
+      case ChannelType.INT16: return view.getInt16(offset, true)
+      case ChannelType.INT32: return view.getInt32(offset, true)
+    }
+  }
+
+  /**
+   * float64 坐标 -> 相对原点的 float32 坐标
+   * 先在 float64 下做减法，再截断为 float32，保证局部精度
+   */
+  private static rebaseF64(rawBytes: Uint8Array, count: number, stride: number, originContext?: OriginContext): Float32Array {
+    // Float64Array 需要 8 字节对齐
+    const source = rawBytes.byteOffset % 8 === 0
+      ? new Float64Array(rawBytes.buffer, rawBytes.byteOffset, Math.floor(rawBytes.byteLength / 8))
+      : new Float64Array(rawBytes.slice(0, rawBytes.byteLength - (rawBytes.byteLength % 8)).buffer)
+
+    const n = Math.min(count, Math.floor(source.length / stride))
+    const out = new Float32Array(n * stride)
+    if (n === 0) return out
+
+    const origin = originContext ? originContext.resolve(source[0], source[1]) : { x: 0, y: 0, z: 0 }
+    for (let i = 0; i < n; i++) {
+      const idx = i * stride
+      out[idx] = source[idx] - origin.x
+      out[idx + 1] = source[idx + 1] - origin.y
+      if (stride === 3) out[idx + 2] = source[idx + 2] - origin.z
+    }
+    return out
+  }
+
+  private static emptyList(format: PointFormat, malformed: boolean = false): DecodedPointList {
+    const result: DecodedPointList = { format, count: 0, data: new Float32Array(0), stride: 3, channels: legacyChannels(format) }
+    if (malformed) result.malformed = true
+    return result
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+// src/core/protocol/PointListEncoder.ts
+
+import pako from 'pako'
+import { ByteWriter } from './ByteWriter'
+import { Compression } from './ProtocolCapabilities'
+import {
+  PointFormat,
+  ChannelType,
+  CHANNEL_TYPE_BYTES,
+  CHANNEL_POSITION,
+  type DecodedPointList,
+  type PointChannel,
+  type Origin
+} from './PointListDecoder'
+
+export interface PointListEncodeOptions {
+  // F64 坐标的平移原点：rebased 的点列写出时加回原点，还原绝对坐标
+  origin?: Origin | null
+  compression?: Compression
+}
+
+// 通道布局描述 (构造点列用)
+export interface ChannelLayout {
+  name: string
+  type: ChannelType
+  components: number
+}
+
+/**
+ * PointListDecoder 的逆过程
+ *
+ * 输出：format(1) + count(4) + originalSize(4) + compressedSize(4) + [CHANNELS: 通道表] + 压缩体
+ * 没有几何数据的对象也要写一个空点列 (count = 0, compressedSize = 0)，解码器按此推进偏移
+ */
+export class PointListEncoder {
+  static encode(points: DecodedPointList | undefined, options: PointListEncodeOptions = {}): Uint8Array {
+    const writer = new ByteWriter(64)
+    this.write(writer, points, options)
+    return writer.toUint8Array()
+  }
+
+  static write(writer: ByteWriter, points: DecodedPointList | undefined, options: PointListEncodeOptions = {}) {
+    const compression = options.compression ?? Compression.ZLIB
+
+    if (!points || points.count === 0) {
+      writer.u8(points?.format ?? PointFormat.XYZ_F32).u32(0).u32(0).u32(0)
+      if (points?.format === PointFormat.CHANNELS) this.writeChannelTable(writer, points.channels)
+      return
+    }
+
+    const raw = this.packBody(points, options.origin ?? null)
+    const body = this.compress(raw, compression)
+
+    writer.u8(points.format)
+    writer.u32(points.count)
+    writer.u32(raw.byteLength)
+    writer.u32(body.byteLength)
+    if (points.format === PointFormat.CHANNELS) this.writeChannelTable(writer, points.channels)
+    writer.bytesOf(body)
+  }
+
+  /**
+   * 按通道布局创建空点列 (数据全 0，由调用方填充)，用于合成数据
+   * 第一个通道必须是 position
+   */
+  static createChannelList(layout: ChannelLayout[], count: number): DecodedPointList {
+    if (layout.length === 0 || layout[0].name !== CHANNEL_POSITION) {
+      throw new Error('First channel must be "position"')
+    }
+    const channels: PointChannel[] = []
+    let stride = 0
+    for (const c of layout) {
+      channels.push({ name: c.name, offset: stride, components: c.components, type: c.type })
+      stride += c.components
+    }
+    return {
+      format: PointFormat.CHANNELS,
+      count,
+      data: new Float32Array(count * stride),
+      stride,
+      channels
+    }
+  }
+
+  private static compress(raw: Uint8Array, compression: Compression): Uint8Array {
+    switch (compression) {
+      case Compression.NONE: return raw
+      case Compression.DEFLATE_RAW: return pako.deflateRaw(raw)
+      default: return pako.deflate(raw)
+    }
+  }
+
+  private static packBody(points: DecodedPointList, origin: Origin | null): Uint8Array {
+    const { format, count, data, stride } = points
+    const shift = points.rebased && origin ? [origin.x, origin.y, origin.z] : [0, 0, 0]
+
+    switch (format) {
+      case PointFormat.XY_F64:
+      case PointFormat.XYZ_F64: {
+        const dims = format === PointFormat.XY_F64 ? 2 : 3
+        const out = new Float64Array(count * dims)
+        for (let i = 0; i < count; i++) {
+          for (let k = 0; k < dims; k++) out[i * dims + k] = data[i * stride + k] + shift[k]
+        }
+        return new Uint8Array(out.buffer)
+      }
+
+      case PointFormat.CHANNELS:
+        return this.packChannels(points, shift)
+
+      default: {
+        // F32 固定格式：data 已是线上布局，截取有效部分
+        const out = data.slice(0, count * stride)
+        return new Uint8Array(out.buffer)
+      }
+    }
+  }
+
+  private static packChannels(points: DecodedPointList, shift: number[]): Uint8Array {
+    const { count, data, stride, channels } = points
+    const recordSize = channels.reduce((sum, c) => sum + CHANNEL_TYPE_BYTES[c.type] * c.components, 0)
+    const out = new Uint8Array(count * recordSize)
+    const view = new DataView(out.buffer)
+
+    let dst = 0
+    for (let i = 0; i < count; i++) {
+      const base = i * stride
+      for (const channel of channels) {
+        const isPosition = channel.name === CHANNEL_POSITION
+        for (let k = 0; k < channel.components; k++) {
+          let value = data[base + channel.offset + k]
+          if (isPosition) value += shift[k]
+          this.writeScalar(view, dst, channel.type, value)
+          dst += CHANNEL_TYPE_BYTES[channel.type]
+        }
+      }
+    }
+    return out
+  }
+
+  private static writeScalar(view: DataView, offset: number, type: ChannelType, value: number) {
+    switch (type) {
+      case ChannelType.FLOAT32: view.setFloat32(offset, value, true); break
+      case ChannelType.FLOAT64: view.setFloat64(offset, value, true); break
+      case ChannelType.UINT8: view.setUint8(offset, value); break
+      case ChannelType.UINT16: view.setUint16(offset, value, true); break
+      case ChannelType.UINT32: view.setUint32(offset, value, true); break
+      case ChannelType.INT8: view.setInt8(offset, value); break
+      case ChannelType.INT16: view.setInt16(offset, value, true); break
+      case ChannelType.INT32: view.setInt32(offset, value, true); break
+    }
+  }
+
+  private static writeChannelTable(writer: ByteWriter, channels: PointChannel[]) {
+    writer.u8(channels.length)
+    for (const c of channels) {
+      writer.shortString(c.name).u8(c.type).u8(c.components)
+    }
+  }
+}
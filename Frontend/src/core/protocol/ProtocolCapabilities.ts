@@ -0,0 +1,134 @@
+// src/core/protocol/ProtocolCapabilities.ts
+
+/**
+ * 二进制场景协议版本与能力协商
+ *
+ * 流程：
+ *   1. 连接建立后客户端发送 HELLO，声明支持的版本范围、帧类型、点格式、压缩方式
+ *   2. 服务端在 INIT_INFO.protocol 中回复它将要使用的版本和能力 (应为客户端能力的子集)
+ *   3. 客户端校验后把协商结果下发给解码 Worker；不兼容则拒绝连接并提示原因
+ *
+ * 版本：
+ *   v0 (旧协议)  INIT_INFO 不带 protocol 字段；Header 无版本号，坐标系字节按剩余长度猜测，
+ *               场景包可以不带消息类型前缀 (首字节 0x43 即 Magic)
+ *   v1          Header 显式携带版本、帧类型、坐标系、压缩方式；二进制消息必须带类型前缀
+ */
+
+export const PROTOCOL_VERSION = 1
+export const MIN_PROTOCOL_VERSION = 0
+
+// 场景包 Magic ("CS" 小端)
+export const SCENE_MAGIC = 0x5343
+
+// 二进制消息类型前缀 (WebSocket 二进制帧第 1 字节)
+export enum BinaryMessageType {
+  SCENE_GRAPH = 0x01,
+  IMAGE_DATA = 0x02
+}
+
+// 点列压缩方式 (v1 Header 第 5 字节)
+export enum Compression {
+  NONE        = 0,
+  ZLIB        = 1, // 带 zlib 头的 deflate
+  DEFLATE_RAW = 2  // 裸 deflate
+}
+
+/**
+ * 能力声明 (HELLO.params / INIT_INFO.protocol 的 JSON 结构)
+ * 帧类型、点格式、压缩方式均使用枚举名，如 "DELTA"、"XYZI_F32"、"ZLIB"
+ */
+export interface ProtocolCapabilities {
+  version: number
+  min_version?: number
+  frame_kinds: string[]
+  point_formats: string[]
+  compressions: string[]
+}
+
+/**
+ * 协商结果 (可结构化克隆，会发送给解码 Worker)
+ */
+export interface NegotiatedProtocol {
+  version: number
+  frameKinds: string[]
+  pointFormats: string[]
+  compressions: string[]
+  serverVersion?: string
+}
+
+export type NegotiationResult =
+  | { ok: true, protocol: NegotiatedProtocol }
+  | { ok: false, reason: string }
+
+/**
+ * 协议不兼容 (版本、帧类型、压缩方式不匹配)
+ * 与普通解码错误区分开，上层据此提示用户而不是静默丢帧
+ */
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+// 客户端能力 (与 VizDecoder / PointListDecoder 实现保持同步)
+export const CLIENT_CAPABILITIES: ProtocolCapabilities = {
+  version: PROTOCOL_VERSION,
+  min_version: MIN_PROTOCOL_VERSION,
+  frame_kinds: ['FULL', 'KEYFRAME', 'DELTA'],
+  point_formats: ['XY_F32', 'XYZ_F32', 'XYZI_F32', 'XY_F64', 'XYZ_F64', 'CHANNELS'],
+  compressions: ['NONE', 'ZLIB', 'DEFLATE_RAW']
+}
+
+// 旧服务端不声明能力：按 v0 能解析的全部内容处理
+const LEGACY_PROTOCOL: NegotiatedProtocol = {
+  version: 0,
+  frameKinds: CLIENT_CAPABILITIES.frame_kinds,
+  pointFormats: CLIENT_CAPABILITIES.point_formats,
+  compressions: ['ZLIB', 'DEFLATE_RAW']
+}
+
+/**
+ * 校验服务端声明的能力
+ * @param server INIT_INFO.protocol，旧服务端为 undefined
+ */
+export function negotiateProtocol(server: Partial<ProtocolCapabilities> | undefined, serverVersion?: string): NegotiationResult {
+  if (!server || server.version === undefined) {
+    return { ok: true, protocol: { ...LEGACY_PROTOCOL, serverVersion } }
+  }
+
+  const version = Number(server.version)
+  if (!Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) {
+    return { ok: false, reason: `服务端声明了无效的协议版本 "${server.version}"` }
+  }
+  if (version > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      reason: `服务端协议版本 v${version} 高于本客户端支持的 v${PROTOCOL_VERSION}，请升级前端`
+    }
+  }
+
+  const problems: string[] = []
+  const check = (label: string, declared: string[] | undefined, supported: string[]) => {
+    const unsupported = (declared ?? []).filter(name => !supported.includes(name))
+    if (unsupported.length > 0) problems.push(`${label}: ${unsupported.join(', ')}`)
+  }
+  check('帧类型', server.frame_kinds, CLIENT_CAPABILITIES.frame_kinds)
+  check('点格式', server.point_formats, CLIENT_CAPABILITIES.point_formats)
+  check('压缩方式', server.compressions, CLIENT_CAPABILITIES.compressions)
+
+  if (problems.length > 0) {
+    return { ok: false, reason: `服务端会发送客户端不支持的内容 (${problems.join('；')})` }
+  }
+
+  return {
+    ok: true,
+    protocol: {
+      version,
+      frameKinds: server.frame_kinds ?? LEGACY_PROTOCOL.frameKinds,
+      pointFormats: server.point_formats ?? LEGACY_PROTOCOL.pointFormats,
+      compressions: server.compressions ?? LEGACY_PROTOCOL.compressions,
+      serverVersion
+    }
+  }
+}
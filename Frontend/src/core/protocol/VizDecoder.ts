@@ -1,6 +1,13 @@
 // src/core/protocol/VizDecoder.ts
 
-import { PointListDecoder, type DecodedPointList } from './PointListDecoder'
+import { PointListDecoder, OriginContext, type DecodedPointList, type Origin } from './PointListDecoder'
+import { DecodeError, DecodeErrorKind, toDiagnostic, type DecodeDiagnostic } from './DecodeDiagnostics'
+import {
+  SCENE_MAGIC,
+  Compression,
+  ProtocolError,
+  type NegotiatedProtocol
+} from './ProtocolCapabilities'
 
 // 坐标系枚举 (对应 C++ CoordinateSystem)
 export enum CoordinateSystem {
@@ -73,12 +80,55 @@ export enum ViewMask {
   ALL     = 3       // 1 | 2
 }
 
+// 🌟 帧类型
+// v1：Header 独立字段；v0：与坐标系共用第 18 字节 (低 4 位坐标系，高 4 位帧类型)
+export enum FrameKind {
+  FULL     = 0, // 旧协议全量帧 (只增改，不删除未出现的 Topic)
+  KEYFRAME = 1, // 关键帧：完整场景，未出现的图层/Topic 视为已删除
+  DELTA    = 2  // 增量帧：只携带变化的 Topic，需基于 baseFrameId 的场景应用
+}
+
+// 增量帧中 Topic 的更新方式
+export enum TopicUpdateKind {
+  UNCHANGED = 0, // 无变化，不携带数据
+  REPLACE   = 1, // 整体替换 (与全量帧相同的 hasNode + Node)
+  PATCH     = 2, // 按对象 ID 增/改/删
+  REMOVE    = 3  // 删除整个 Topic
+}
+
+export enum PatchOp {
+  ADD    = 0,
+  UPDATE = 1,
+  REMOVE = 2
+}
+
+/**
+ * 对象级补丁
+ * parentPath 为父节点相对 Topic 根的 ID 路径 ("" 表示 Topic 根，"vehicles" 表示名为 vehicles 的组)
+ */
+export interface DecodedPatch {
+  op: PatchOp
+  parentPath: string
+  id: string
+  node?: DecodedGroup | DecodedObject // ADD / UPDATE 携带完整节点
+}
+
 // 解码结果接口
 export interface DecodeResult {
   frameId: bigint
   timestamp: number
   coordinateSystem: CoordinateSystem
+  protocolVersion: number
+  kind: FrameKind
+  baseFrameId?: bigint // 仅 DELTA：本增量所基于的帧
+  // 🌟 本帧 F64 点列的平移原点 (无 F64 数据时为 null)
+  // 绝对坐标 = 渲染坐标 + origin
+  origin: Origin | null
   layers: DecodedLayer[]
+  // 🌟 解码诊断 (空数组表示无异常)
+  diagnostics: DecodeDiagnostic[]
+  // false：包体中途出错，出错位置之后的图层/Topic 缺失 (增量帧此时不可应用)
+  complete: boolean
 }
 
 // 基础节点信息
@@ -112,7 +162,9 @@ export interface DecodedObject extends DecodedNodeBase {
 export interface DecodedTopic {
   id: string
   frameId: bigint 
+  update: TopicUpdateKind // 全量帧/关键帧中恒为 REPLACE
   rootNode?: DecodedGroup | DecodedObject
+  patches?: DecodedPatch[]
 }
 
 // 图层节点
@@ -121,37 +173,66 @@ export interface DecodedLayer extends DecodedNodeBase {
   topics: DecodedTopic[]
 }
 
+// Header 解析结果 (offset 指向 layerCount)
+interface FrameHeader {
+  frameId: bigint
+  timestamp: number
+  coordinateSystem: CoordinateSystem
+  kind: FrameKind
+  baseFrameId?: bigint
+  compression?: Compression
+  offset: number
+}
+
 export class VizDecoder {
-  static decode(buffer: ArrayBuffer): DecodeResult {
+  // 上一帧使用的原点 (Worker 常驻，跨帧保持原点稳定，避免画面跳变)
+  private static lastOrigin: Origin | null = null
+
+  /**
+   * 🌟 [新增] 指定下一帧沿用的原点
+   * 多 Worker 并行解码时，每个 Worker 只看到部分帧，由主线程下发最近交付帧的原点
+   */
+  static seedOrigin(origin: Origin | null) {
+    if (origin) VizDecoder.lastOrigin = origin
+  }
+
+  /**
+   * @param protocol 握手协商结果；不传按 v0 旧协议解析
+   *
+   * Header 损坏或协议不匹配时抛出异常 (整包不可用)；
+   * 包体中的错误记录到 result.diagnostics，出错位置之后的数据无法定位边界，停止解析并标记 complete = false
+   */
+  static decode(buffer: ArrayBuffer, protocol?: NegotiatedProtocol): DecodeResult {
     const view = new DataView(buffer)
-    let offset = 0
-    
-    // Header Check
-    if (view.byteLength < 23) throw new Error('Packet too short')
-    
-    const magic = view.getUint16(offset, true); offset += 2
-    if (magic !== 0x5343) throw new Error('Invalid Magic')
-    
-    const frameId = view.getBigUint64(offset, true); offset += 8
-    const timestamp = view.getFloat64(offset, true); offset += 8
-    
-    // 读取坐标系
-    let coordinateSystem = CoordinateSystem.RIGHT_HANDED_Z_UP_X_FWD;
-    if (offset + 1 <= view.byteLength) {
-       coordinateSystem = view.getUint8(offset++) as CoordinateSystem;
-    }
+    const originContext = new OriginContext(VizDecoder.lastOrigin)
+    const protocolVersion = protocol?.version ?? 0
+
+    const header = protocolVersion >= 1
+      ? VizDecoder.readHeaderV1(view, protocol!)
+      : VizDecoder.readHeaderV0(view)
+    const { frameId, timestamp, coordinateSystem, kind, baseFrameId, compression } = header
+    let offset = header.offset
 
     const layerCount = view.getUint32(offset, true); offset += 4
     const layers: DecodedLayer[] = []
 
+    // 🌟 诊断信息与当前解析位置 (层/Topic/节点 ID 栈)
+    const diagnostics: DecodeDiagnostic[] = []
+    const path: string[] = []
+    let layerId: string | undefined
+    let topicId: string | undefined
+
     const checkBound = (need: number) => {
-      if (offset + need > view.byteLength) throw new Error(`Buffer overflow: need ${need}, left ${view.byteLength - offset}`)
+      if (offset + need > view.byteLength) {
+        throw new DecodeError(DecodeErrorKind.TRUNCATED, `Buffer overflow: need ${need}, left ${view.byteLength - offset}`, offset)
+      }
     }
 
     const readString = () => {
       checkBound(2)
-      const len = view.getUint16(offset, true); offset += 2
-      if (len > 10000) throw new Error(`String too long: ${len}`)
+      const len = view.getUint16(offset, true)
+      if (len > 10000) throw new DecodeError(DecodeErrorKind.INVALID_STRING, `String too long: ${len}`, offset)
+      offset += 2
       
       checkBound(len)
       const strBytes = new Uint8Array(buffer, offset, len)
@@ -159,6 +240,16 @@ export class VizDecoder {
       return new TextDecoder().decode(strBytes)
     }
 
+    const readNodeTag = () => {
+      checkBound(1)
+      const tag = view.getUint8(offset) as NodeType
+      if (tag !== NodeType.GROUP && tag !== NodeType.OBJECT) {
+        throw new DecodeError(DecodeErrorKind.INVALID_VALUE, `Unknown node type ${tag}`, offset)
+      }
+      offset++
+      return tag
+    }
+
     // 读取节点基础信息 (Node::serialize)
     const readNodeBase = () => {
       const id = readString()
@@ -174,7 +265,6 @@ export class VizDecoder {
       
       const properties: Record<string, string> = {}
       for(let i=0; i<propCount; i++) {
-        if (offset >= view.byteLength) break;
         const k = readString(); 
         const v = readString();
         properties[k] = v
@@ -185,6 +275,7 @@ export class VizDecoder {
     const decodeNode = (typeTag: NodeType): DecodedGroup | DecodedObject => {
       // 1. 读取基类 Node 部分
       const base = readNodeBase()
+      path.push(base.id)
 
       if (typeTag === NodeType.GROUP) {
         // Group::serialize
@@ -193,11 +284,9 @@ export class VizDecoder {
         const children: any[] = []
         
         for(let i=0; i<childCount; i++) {
-          if (offset >= view.byteLength) break
-          checkBound(1)
-          const childTag = view.getUint8(offset++) as NodeType
-          children.push(decodeNode(childTag))
+          children.push(decodeNode(readNodeTag()))
         }
+        path.pop()
         return { nodeType: 'group', ...base, children }
       } 
       else {
@@ -214,19 +303,17 @@ export class VizDecoder {
         const color = { r: view.getUint8(offset++), g: view.getUint8(offset++), b: view.getUint8(offset++), a: view.getUint8(offset++) }
 
         // 解析几何数据 (CompressedPointList)
-        let points
-        try {
-            if (offset + 4 <= view.byteLength) {
-                const res = PointListDecoder.decode(view, offset)
-                if (res && res.newOffset > offset && res.newOffset <= view.byteLength) {
-                    points = res.result
-                    offset = res.newOffset
-                }
+        // 旧版序列化的最后一个对象可能不带点列，恰好读到包尾时视为无几何数据
+        let points: DecodedPointList | undefined
+        if (offset < view.byteLength) {
+            const res = PointListDecoder.decode(view, offset, originContext, compression)
+            points = res.result
+            offset = res.newOffset
+            if (res.diagnostic) {
+                diagnostics.push({ ...res.diagnostic, path: path.join('/'), layerId, topicId })
             }
-        } catch (e) {
-            console.warn('[VizDecoder] PointList decode skipped', e)
-            throw e
         }
+        path.pop()
 
         return { 
             nodeType: 'object', ...base, 
@@ -235,48 +322,205 @@ export class VizDecoder {
       }
     }
 
-    const decodeTopic = (): DecodedTopic | null => {
-        try {
-            const id = readString()
-            checkBound(8 + 1)
-            const frameId = view.getBigUint64(offset, true); offset += 8
-            const hasNode = view.getUint8(offset++) !== 0
-            
-            let rootNode
-            if (hasNode) {
-                checkBound(1)
-                const typeTag = view.getUint8(offset++) as NodeType
-                rootNode = decodeNode(typeTag)
+    const decodeRootNode = () => {
+        checkBound(1)
+        const hasNode = view.getUint8(offset++) !== 0
+        if (!hasNode) return undefined
+        return decodeNode(readNodeTag())
+    }
+
+    // Patch: op(1) + parentPath + [ADD/UPDATE: typeTag(1) + Node | REMOVE: id]
+    const decodePatches = (): DecodedPatch[] => {
+        checkBound(4)
+        const patchCount = view.getUint32(offset, true); offset += 4
+        const patches: DecodedPatch[] = []
+        for (let i = 0; i < patchCount; i++) {
+            checkBound(1)
+            const op = view.getUint8(offset) as PatchOp
+            offset++
+            const parentPath = readString()
+            if (op === PatchOp.REMOVE) {
+                patches.push({ op, parentPath, id: readString() })
+            } else if (op === PatchOp.ADD || op === PatchOp.UPDATE) {
+                const node = decodeNode(readNodeTag())
+                patches.push({ op, parentPath, id: node.id, node })
+            } else {
+                throw new DecodeError(DecodeErrorKind.INVALID_VALUE, `Unknown patch op ${op}`, offset - 1)
             }
-            return { id, frameId, rootNode }
-        } catch (e) {
-            console.error('[VizDecoder] Topic decode error', e)
-            return null
         }
+        return patches
     }
 
-    for (let l = 0; l < layerCount; l++) {
+    // 🌟 增量帧中 Topic 在 frameId 之后多一个 update 字节
+    const decodeTopic = (): DecodedTopic => {
+        const id = readString()
+        topicId = id
+        path.push(id)
+        checkBound(8 + 1)
+        const frameId = view.getBigUint64(offset, true); offset += 8
+
+        let topic: DecodedTopic
+        if (kind !== FrameKind.DELTA) {
+            topic = { id, frameId, update: TopicUpdateKind.REPLACE, rootNode: decodeRootNode() }
+        } else {
+            const update = view.getUint8(offset++) as TopicUpdateKind
+            switch (update) {
+                case TopicUpdateKind.UNCHANGED:
+                case TopicUpdateKind.REMOVE:
+                    topic = { id, frameId, update }
+                    break
+                case TopicUpdateKind.REPLACE:
+                    topic = { id, frameId, update, rootNode: decodeRootNode() }
+                    break
+                case TopicUpdateKind.PATCH:
+                    topic = { id, frameId, update, patches: decodePatches() }
+                    break
+                default:
+                    throw new DecodeError(DecodeErrorKind.INVALID_VALUE, `Unknown topic update kind ${update}`, offset - 1)
+            }
+        }
+        path.pop()
+        topicId = undefined
+        return topic
+    }
+
+    // 节点没有长度前缀，出错后无法跳到下一个 Topic/图层，只能放弃包内剩余数据
+    let complete = true
+    for (let l = 0; l < layerCount && complete; l++) {
+      const layerStart = offset
+      let topicStart = offset
+      let layer: DecodedLayer | null = null
+      layerId = undefined
+      path.length = 0
       try {
           const layerBase = readNodeBase()
+          layerId = layerBase.id
+          path.push(layerBase.id)
           checkBound(4)
           const topicCount = view.getUint32(offset, true); offset += 4
-          const topics: DecodedTopic[] = []
+          layer = { nodeType: 'layer', ...layerBase, topics: [] }
           for (let t = 0; t < topicCount; t++) {
-              const topic = decodeTopic()
-              if (topic) topics.push(topic)
+              topicStart = offset
+              layer.topics.push(decodeTopic())
           }
-          layers.push({ nodeType: 'layer', ...layerBase, topics })
+          layers.push(layer)
       } catch (e) {
-          console.error('[VizDecoder] Layer decode error', e)
-          break;
+          if (e instanceof ProtocolError) throw e
+          complete = false
+          // 已解析出的 Topic 保留 (全量帧/关键帧可以部分应用，增量帧由上层整帧丢弃)
+          if (layer) layers.push(layer)
+          const start = layer ? topicStart : layerStart
+          diagnostics.push(toDiagnostic(e, start, {
+              path: path.join('/'),
+              layerId,
+              topicId,
+              bytesSkipped: view.byteLength - start
+          }))
       }
+      topicId = undefined
     }
     
+    if (originContext.origin) {
+        VizDecoder.lastOrigin = originContext.origin
+    }
+
     return {
         frameId,
         timestamp,
         coordinateSystem,
-        layers
+        protocolVersion,
+        kind,
+        baseFrameId,
+        origin: originContext.origin,
+        layers,
+        diagnostics,
+        complete
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 🌟 [新增] 只读取场景包 (不含类型前缀) 的帧类型，不解析包体；无法识别时返回 null
+   */
+  static peekFrameKind(bytes: Uint8Array, protocolVersion: number): FrameKind | null {
+    if (bytes.byteLength < 4 || (bytes[0] | (bytes[1] << 8)) !== SCENE_MAGIC) return null
+    // v0 的帧类型在时间戳后的标志字节高 4 位 (与 readHeaderV0 一致)
+    const kind = (protocolVersion === 0
+      ? (bytes.byteLength >= 23 ? bytes[18] >> 4 : FrameKind.FULL)
+      : bytes[3]) as FrameKind
+    return FrameKind[kind] !== undefined ? kind : null
+  }
+
+  /**
+   * v0 Header：magic(2) + frameId(8) + timestamp(8) + [坐标系|帧类型](1) + [DELTA: baseFrameId(8)] + layerCount(4)
+   * 坐标系字节是后加的，旧数据可能没有，只能按剩余长度判断
+   */
+  private static readHeaderV0(view: DataView): FrameHeader {
+    let offset = 0
+    if (view.byteLength < 23) throw new DecodeError(DecodeErrorKind.TRUNCATED, 'Packet too short', 0)
+
+    const magic = view.getUint16(offset, true); offset += 2
+    if (magic !== SCENE_MAGIC) throw new DecodeError(DecodeErrorKind.INVALID_VALUE, 'Invalid Magic', 0)
+
+    const frameId = view.getBigUint64(offset, true); offset += 8
+    const timestamp = view.getFloat64(offset, true); offset += 8
+
+    // 读取坐标系 + 帧类型
+    let coordinateSystem = CoordinateSystem.RIGHT_HANDED_Z_UP_X_FWD;
+    let kind = FrameKind.FULL
+    if (offset + 1 <= view.byteLength) {
+       const flags = view.getUint8(offset++)
+       coordinateSystem = (flags & 0x0f) as CoordinateSystem;
+       kind = (flags >> 4) as FrameKind
+    }
+
+    let baseFrameId: bigint | undefined
+    if (kind === FrameKind.DELTA) {
+      if (offset + 8 + 4 > view.byteLength) throw new DecodeError(DecodeErrorKind.TRUNCATED, 'Delta header too short', offset)
+      baseFrameId = view.getBigUint64(offset, true); offset += 8
+    } else if (kind !== FrameKind.FULL && kind !== FrameKind.KEYFRAME) {
+      throw new DecodeError(DecodeErrorKind.INVALID_VALUE, `Unknown frame kind ${kind}`, 18)
+    }
+
+    return { frameId, timestamp, coordinateSystem, kind, baseFrameId, offset }
+  }
+
+  /**
+   * v1 Header (26 字节，DELTA 再加 8 字节)：
+   *   magic(2) + version(1) + frameKind(1) + coordinateSystem(1) + compression(1)
+   *   + frameId(8) + timestamp(8) + [DELTA: baseFrameId(8)] + layerCount(4)
+   */
+  private static readHeaderV1(view: DataView, protocol: NegotiatedProtocol): FrameHeader {
+    let offset = 0
+    if (view.byteLength < 26) throw new DecodeError(DecodeErrorKind.TRUNCATED, 'Packet too short', 0)
+
+    const magic = view.getUint16(offset, true); offset += 2
+    if (magic !== SCENE_MAGIC) throw new ProtocolError(`Invalid magic 0x${magic.toString(16)}`)
+
+    const version = view.getUint8(offset++)
+    if (version !== protocol.version) {
+      throw new ProtocolError(`Packet version v${version} does not match negotiated v${protocol.version}`)
+    }
+
+    const kind = view.getUint8(offset++) as FrameKind
+    if (!protocol.frameKinds.includes(FrameKind[kind])) {
+      throw new ProtocolError(`Frame kind ${FrameKind[kind] ?? kind} was not negotiated`)
+    }
+
+    const coordinateSystem = view.getUint8(offset++) as CoordinateSystem
+    const compression = view.getUint8(offset++) as Compression
+    if (!protocol.compressions.includes(Compression[compression])) {
+      throw new ProtocolError(`Compression ${Compression[compression] ?? compression} was not negotiated`)
+    }
+
+    const frameId = view.getBigUint64(offset, true); offset += 8
+    const timestamp = view.getFloat64(offset, true); offset += 8
+
+    let baseFrameId: bigint | undefined
+    if (kind === FrameKind.DELTA) {
+      if (offset + 8 + 4 > view.byteLength) throw new DecodeError(DecodeErrorKind.TRUNCATED, 'Delta header too short', offset)
+      baseFrameId = view.getBigUint64(offset, true); offset += 8
+    }
+
+    return { frameId, timestamp, coordinateSystem, kind, baseFrameId, compression, offset }
+  }
+}
@@ -0,0 +1,230 @@
+// src/core/protocol/VizEncoder.ts
+
+import { ByteWriter } from './ByteWriter'
+import { PointListEncoder } from './PointListEncoder'
+import {
+  PROTOCOL_VERSION,
+  SCENE_MAGIC,
+  BinaryMessageType,
+  Compression
+} from './ProtocolCapabilities'
+import {
+  FrameKind,
+  TopicUpdateKind,
+  PatchOp,
+  NodeType,
+  CoordinateSystem,
+  type DecodeResult,
+  type DecodedLayer,
+  type DecodedTopic,
+  type DecodedGroup,
+  type DecodedObject,
+  type DecodedNodeBase,
+  type DecodedPatch
+} from './VizDecoder'
+import type { Origin } from './PointListDecoder'
+
+// 与 VizDecoder.readString 的上限保持一致
+const MAX_STRING_BYTES = 10000
+
+// 编码输入：DecodeResult 去掉解码侧才有的字段，帧类型默认全量帧
+export type EncodableFrame =
+  Pick<DecodeResult, 'frameId' | 'timestamp' | 'layers'> &
+  Partial<Pick<DecodeResult, 'coordinateSystem' | 'kind' | 'baseFrameId' | 'origin'>>
+
+// 图像消息输入 (结构与 DataBus 的 ImageDataEvent 一致，这里单独声明以免编码器依赖 DataBus)
+export interface EncodableImage {
+  topic: string
+  timestamp: number
+  width: number
+  height: number
+  format: 'jpeg' | 'png'
+  data: Uint8Array
+}
+
+export interface VizEncodeOptions {
+  protocolVersion?: number   // 默认当前版本；0 输出旧协议 Header
+  compression?: Compression  // 点列压缩方式，v0 只能用 ZLIB
+}
+
+/**
+ * VizDecoder 的逆过程：把 DecodeResult 序列化成 C++ 端发送的二进制格式
+ * 用于在没有后端的情况下构造测试数据、模拟服务器
+ *
+ * 注意：没有点列的对象会写入空点列，解码后 points 为 count = 0 的空结果而不是 undefined
+ */
+export class VizEncoder {
+  /**
+   * 编码场景包 (不含消息类型前缀)
+   */
+  static encode(frame: EncodableFrame, options: VizEncodeOptions = {}): ArrayBuffer {
+    const writer = new ByteWriter(4096)
+    const version = options.protocolVersion ?? PROTOCOL_VERSION
+    const kind = frame.kind ?? FrameKind.FULL
+    const compression = options.compression ?? Compression.ZLIB
+    const coordinateSystem = frame.coordinateSystem ?? CoordinateSystem.RIGHT_HANDED_Z_UP_X_FWD
+
+    if (kind === FrameKind.DELTA && frame.baseFrameId === undefined) {
+      throw new Error('Delta frame requires baseFrameId')
+    }
+
+    writer.u16(SCENE_MAGIC)
+    if (version >= 1) {
+      writer.u8(version).u8(kind).u8(coordinateSystem).u8(compression)
+      writer.u64(frame.frameId).f64(frame.timestamp)
+    } else {
+      if (compression !== Compression.ZLIB) throw new Error('Protocol v0 only supports ZLIB compression')
+      writer.u64(frame.frameId).f64(frame.timestamp)
+      writer.u8((kind << 4) | (coordinateSystem & 0x0f))
+    }
+    if (kind === FrameKind.DELTA) writer.u64(frame.baseFrameId!)
+
+    const context: EncodeContext = { writer, kind, compression, origin: frame.origin ?? null }
+    writer.u32(frame.layers.length)
+    for (const layer of frame.layers) {
+      this.writeLayer(context, layer)
+    }
+    return writer.toArrayBuffer()
+  }
+
+  /**
+   * 编码带 0x01 前缀的场景消息 (WebSocket 二进制帧)
+   */
+  static encodeSceneMessage(frame: EncodableFrame, options: VizEncodeOptions = {}): ArrayBuffer {
+    return this.withEnvelope(BinaryMessageType.SCENE_GRAPH, new Uint8Array(this.encode(frame, options)))
+  }
+
+  /**
+   * 编码带 0x02 前缀的图像消息，格式与 DataBus.handleImagePacket 对应：
+   * topicLen(2) + topic + timestamp(8) + width(2) + height(2) + format(1) + dataLen(4) + data
+   */
+  static encodeImageMessage(image: EncodableImage): ArrayBuffer {
+    const writer = new ByteWriter(image.data.byteLength + 64)
+    writeString(writer, image.topic)
+    writer.f64(image.timestamp)
+    writer.u16(image.width).u16(image.height)
+    writer.u8(image.format === 'jpeg' ? 0 : 1)
+    writer.u32(image.data.byteLength)
+    writer.bytesOf(image.data)
+    return this.withEnvelope(BinaryMessageType.IMAGE_DATA, writer.toUint8Array())
+  }
+
+  private static withEnvelope(type: BinaryMessageType, payload: Uint8Array): ArrayBuffer {
+    const out = new Uint8Array(payload.byteLength + 1)
+    out[0] = type
+    out.set(payload, 1)
+    return out.buffer
+  }
+
+  // ========== 节点序列化 (顺序与 VizDecoder 读取顺序一一对应) ==========
+
+  private static writeLayer(context: EncodeContext, layer: DecodedLayer) {
+    this.writeNodeBase(context.writer, layer)
+    context.writer.u32(layer.topics.length)
+    for (const topic of layer.topics) {
+      this.writeTopic(context, topic)
+    }
+  }
+
+  private static writeTopic(context: EncodeContext, topic: DecodedTopic) {
+    const { writer } = context
+    writeString(writer, topic.id)
+    writer.u64(topic.frameId)
+
+    if (context.kind !== FrameKind.DELTA) {
+      this.writeRootNode(context, topic.rootNode)
+      return
+    }
+
+    const update = topic.update ?? TopicUpdateKind.REPLACE
+    writer.u8(update)
+    switch (update) {
+      case TopicUpdateKind.REPLACE:
+        this.writeRootNode(context, topic.rootNode)
+        break
+      case TopicUpdateKind.PATCH:
+        this.writePatches(context, topic.patches ?? [])
+        break
+    }
+  }
+
+  private static writeRootNode(context: EncodeContext, node: DecodedGroup | DecodedObject | undefined) {
+    context.writer.u8(node ? 1 : 0)
+    if (node) this.writeTaggedNode(context, node)
+  }
+
+  private static writePatches(context: EncodeContext, patches: DecodedPatch[]) {
+    const { writer } = context
+    writer.u32(patches.length)
+    for (const patch of patches) {
+      writer.u8(patch.op)
+      writeString(writer, patch.parentPath)
+      if (patch.op === PatchOp.REMOVE) {
+        writeString(writer, patch.id)
+      } else {
+        if (!patch.node) throw new Error(`Patch ${PatchOp[patch.op]} for "${patch.id}" has no node`)
+        this.writeTaggedNode(context, patch.node)
+      }
+    }
+  }
+
+  private static writeTaggedNode(context: EncodeContext, node: DecodedGroup | DecodedObject) {
+    if (node.nodeType === 'group') {
+      context.writer.u8(NodeType.GROUP)
+      this.writeGroup(context, node)
+    } else {
+      context.writer.u8(NodeType.OBJECT)
+      this.writeObject(context, node)
+    }
+  }
+
+  private static writeGroup(context: EncodeContext, group: DecodedGroup) {
+    this.writeNodeBase(context.writer, group)
+    context.writer.u32(group.children.length)
+    for (const child of group.children) {
+      this.writeTaggedNode(context, child)
+    }
+  }
+
+  // Node -> Type(1) -> SubType(4) -> Pos(12) -> Rot(12) -> Size(12) -> Color(4) -> Geometry
+  private static writeObject(context: EncodeContext, obj: DecodedObject) {
+    const { writer } = context
+    this.writeNodeBase(writer, obj)
+    writer.u8(obj.type)
+    writer.i32(obj.subType)
+    writer.f32(obj.position.x).f32(obj.position.y).f32(obj.position.z)
+    writer.f32(obj.rotation.x).f32(obj.rotation.y).f32(obj.rotation.z)
+    writer.f32(obj.size.x).f32(obj.size.y).f32(obj.size.z)
+    writer.u8(obj.color.r).u8(obj.color.g).u8(obj.color.b).u8(obj.color.a)
+    PointListEncoder.write(writer, obj.points, { origin: context.origin, compression: context.compression })
+  }
+
+  // id + name + visible(1) + viewMask(1) + propCount(2) + [key + value]
+  private static writeNodeBase(writer: ByteWriter, node: DecodedNodeBase) {
+    writeString(writer, node.id)
+    writeString(writer, node.name)
+    writer.u8(node.visible ? 1 : 0)
+    writer.u8(node.viewMask)
+    const entries = Object.entries(node.properties ?? {})
+    writer.u16(entries.length)
+    for (const [key, value] of entries) {
+      writeString(writer, key)
+      writeString(writer, value)
+    }
+  }
+}
+
+interface EncodeContext {
+  writer: ByteWriter
+  kind: FrameKind
+  compression: Compression
+  origin: Origin | null
+}
+
+function writeString(writer: ByteWriter, value: string) {
+  const before = writer.length
+  writer.string(value)
+  if (writer.length - before - 2 > MAX_STRING_BYTES) {
+    throw new Error(`String exceeds decoder limit (${MAX_STRING_BYTES} bytes): ${value.slice(0, 32)}...`)
+  }
+}
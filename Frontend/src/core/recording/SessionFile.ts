@@ -0,0 +1,113 @@
+// src/core/recording/SessionFile.ts
+
+import { ByteWriter } from '../protocol/ByteWriter'
+
+/**
+ * 会话录制文件 (.vizrec)：按接收顺序保存 WebSocket 收到的原始消息
+ *
+ *   Header
+ *     magic     4B   "VREC"
+ *     version   u16
+ *     metaLen   u32
+ *     meta      UTF-8 JSON (SessionMeta)
+ *   Record × N
+ *     kind      u8   1 = 文本, 2 = 二进制
+ *     flags     u8   RecordFlag 位组合
+ *     time      f64  相对录制开始的毫秒数
+ *     length    u32
+ *     payload   length 字节 (文本为 UTF-8，二进制为原始消息，含类型前缀)
+ *
+ * 全部小端序
+ */
+
+export const SESSION_FILE_MAGIC = 'VREC'
+export const SESSION_FILE_VERSION = 1
+export const SESSION_FILE_EXTENSION = '.vizrec'
+
+export const RECORD_HEADER_SIZE = 14
+
+export enum RecordKind {
+  TEXT = 1,
+  BINARY = 2
+}
+
+export enum RecordFlag {
+  NONE = 0,
+  DROPPED = 1 << 0,  // 被数据闸门丢弃 (暂停期间到达、协议被拒绝)
+  INVALID = 1 << 1   // 无法解析或结构校验失败
+}
+
+export interface SessionMeta {
+  started_at: number          // 录制开始的墙钟时间 (ms)
+  stopped_at: number
+  url: string
+  protocol_version: number | null  // 录制开始时已协商的协议版本
+  record_count: number
+  dropped_count: number
+  truncated: boolean          // 因大小上限提前停止
+  user_agent?: string
+}
+
+export interface SessionRecord {
+  kind: RecordKind
+  flags: number
+  time: number
+  payload: Uint8Array
+}
+
+export function encodeSessionHeader(meta: SessionMeta): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(meta))
+  const writer = new ByteWriter(4 + 2 + 4 + json.byteLength)
+  for (let i = 0; i < 4; i++) writer.u8(SESSION_FILE_MAGIC.charCodeAt(i))
+  writer.u16(SESSION_FILE_VERSION)
+  writer.u32(json.byteLength)
+  writer.bytesOf(json)
+  return writer.toUint8Array()
+}
+
+/**
+ * 单条记录的头部 (payload 单独存放，避免再拷贝一次大包)
+ */
+export function encodeRecordHeader(kind: RecordKind, flags: number, time: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(RECORD_HEADER_SIZE)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, kind)
+  view.setUint8(1, flags)
+  view.setFloat64(2, time, true)
+  view.setUint32(10, length, true)
+  return bytes
+}
+
+/**
+ * 解析录制文件；文件尾部不完整的记录 (下载中断等) 直接忽略
+ */
+export function readSessionFile(buffer: ArrayBuffer): { meta: SessionMeta; records: SessionRecord[] } {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+
+  const magic = String.fromCharCode(...bytes.subarray(0, 4))
+  if (buffer.byteLength < 10 || magic !== SESSION_FILE_MAGIC) {
+    throw new Error('Not a session recording (bad magic)')
+  }
+  const version = view.getUint16(4, true)
+  if (version > SESSION_FILE_VERSION) {
+    throw new Error(`Unsupported session recording version ${version}`)
+  }
+  const metaLen = view.getUint32(6, true)
+  let offset = 10
+  const meta: SessionMeta = JSON.parse(new TextDecoder().decode(bytes.subarray(offset, offset + metaLen)))
+  offset += metaLen
+
+  const records: SessionRecord[] = []
+  while (offset + RECORD_HEADER_SIZE <= buffer.byteLength) {
+    const kind = view.getUint8(offset) as RecordKind
+    const flags = view.getUint8(offset + 1)
+    const time = view.getFloat64(offset + 2, true)
+    const length = view.getUint32(offset + 10, true)
+    offset += RECORD_HEADER_SIZE
+    if (offset + length > buffer.byteLength) break
+    records.push({ kind, flags, time, payload: bytes.subarray(offset, offset + length) })
+    offset += length
+  }
+  return { meta, records }
+}
@@ -0,0 +1,138 @@
+// src/core/recording/SessionRecorder.ts
+
+import { reactive } from 'vue'
+import { EventEmitter } from '../EventEmitter'
+import {
+  RecordFlag,
+  RecordKind,
+  RECORD_HEADER_SIZE,
+  encodeRecordHeader,
+  encodeSessionHeader,
+  type SessionMeta
+} from './SessionFile'
+
+/**
+ * 会话录制器
+ *
+ * DataBus 在数据闸门之前把每条入站消息交给录制器，被丢弃的消息同样写入并打上 DROPPED 标记；
+ * 录制内容缓存在内存中，停止时拼成 Blob 交给 UI 下载
+ *
+ * 事件：
+ *   'limit-reached' ()   写入下一条消息将超过大小上限 (该消息不再写入)
+ */
+
+export const DEFAULT_RECORDING_LIMIT = 256 * 1024 * 1024
+
+export type RecordingStopReason = 'user' | 'size-limit'
+
+export interface RecordingStartOptions {
+  url: string
+  protocolVersion: number | null
+  maxBytes?: number
+}
+
+export interface RecorderState {
+  recording: boolean
+  startedAt: number     // 墙钟时间 (ms)，未录制时为 0
+  bytes: number
+  maxBytes: number
+  messages: number
+  dropped: number
+}
+
+// 供 UI 展示录制进度
+export const recorderState = reactive<RecorderState>({
+  recording: false,
+  startedAt: 0,
+  bytes: 0,
+  maxBytes: DEFAULT_RECORDING_LIMIT,
+  messages: 0,
+  dropped: 0
+})
+
+const textEncoder = new TextEncoder()
+
+export class SessionRecorder extends EventEmitter {
+  private chunks: Uint8Array[] = []
+  private startTime = 0
+  private options: RecordingStartOptions | null = null
+  private truncated = false
+  private active = false
+
+  get isRecording(): boolean {
+    return this.active
+  }
+
+  start(options: RecordingStartOptions) {
+    if (this.active) return
+    this.active = true
+    this.chunks = []
+    this.truncated = false
+    this.options = options
+    this.startTime = performance.now()
+
+    Object.assign(recorderState, {
+      recording: true,
+      startedAt: Date.now(),
+      bytes: 0,
+      maxBytes: options.maxBytes ?? DEFAULT_RECORDING_LIMIT,
+      messages: 0,
+      dropped: 0
+    })
+  }
+
+  /**
+   * 停止录制并生成文件；未在录制时返回 null
+   */
+  stop(reason: RecordingStopReason = 'user'): Blob | null {
+    if (!this.active || !this.options) return null
+
+    const meta: SessionMeta = {
+      started_at: recorderState.startedAt,
+      stopped_at: Date.now(),
+      url: this.options.url,
+      protocol_version: this.options.protocolVersion,
+      record_count: recorderState.messages,
+      dropped_count: recorderState.dropped,
+      truncated: reason === 'size-limit' || this.truncated,
+      user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
+    }
+    const blob = new Blob([encodeSessionHeader(meta), ...this.chunks], { type: 'application/octet-stream' })
+
+    this.chunks = []
+    this.options = null
+    this.active = false
+    recorderState.recording = false
+    return blob
+  }
+
+  /**
+   * @param receivedAt 收到消息时的 performance.now()；大文本在队列中延后处理时由 WebSocketClient 提供
+   */
+  recordText(text: string, flags: number = RecordFlag.NONE, receivedAt?: number) {
+    if (!this.active) return
+    this.append(RecordKind.TEXT, flags, textEncoder.encode(text), receivedAt)
+  }
+
+  /**
+   * 二进制消息会被转移给解码 Worker，这里同步拷贝一份
+   */
+  recordBinary(data: ArrayBuffer, flags: number = RecordFlag.NONE, receivedAt?: number) {
+    if (!this.active) return
+    this.append(RecordKind.BINARY, flags, new Uint8Array(data.slice(0)), receivedAt)
+  }
+
+  private append(kind: RecordKind, flags: number, payload: Uint8Array, receivedAt = performance.now()) {
+    const size = RECORD_HEADER_SIZE + payload.byteLength
+    if (recorderState.bytes + size > recorderState.maxBytes) {
+      this.truncated = true
+      this.emit('limit-reached')
+      return
+    }
+
+    this.chunks.push(encodeRecordHeader(kind, flags, receivedAt - this.startTime, payload.byteLength), payload)
+    recorderState.bytes += size
+    recorderState.messages++
+    if (flags & RecordFlag.DROPPED) recorderState.dropped++
+  }
+}
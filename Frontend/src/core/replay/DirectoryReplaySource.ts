@@ -0,0 +1,77 @@
+// src/core/replay/DirectoryReplaySource.ts
+
+import type { TopicSchema } from '../types/common'
+import {
+  RECORDING_INDEX_FILE,
+  validateRecordingIndex,
+  withSceneEnvelope,
+  type RecordingIndex
+} from './RecordingIndex'
+import type { ReplayFrame, ReplaySource } from './ReplaySource'
+
+/**
+ * 录制目录 (index.json + *.bin) 数据源
+ * 文件来自 <input webkitdirectory>，按需读取，不会一次性把整个目录载入内存
+ */
+export class DirectoryReplaySource implements ReplaySource {
+  readonly name: string
+  readonly frameCount: number
+  readonly protocolVersion: number
+  readonly schemas: Record<string, TopicSchema>
+
+  private constructor(
+    name: string,
+    private index: RecordingIndex,
+    private files: Map<string, File>
+  ) {
+    this.name = name
+    this.frameCount = index.frames.length
+    this.protocolVersion = index.protocol_version ?? 0
+    this.schemas = index.schemas ?? {}
+  }
+
+  /**
+   * @param files 目录下的全部文件 (按相对目录根的路径查找 index.json 引用的文件)
+   */
+  static async open(files: File[]): Promise<DirectoryReplaySource> {
+    const byPath = new Map<string, File>()
+    let root = ''
+    for (const file of files) {
+      const path = file.webkitRelativePath || file.name
+      // webkitRelativePath 带有所选目录名 ("rec/index.json")，去掉第一段
+      const relative = path.includes('/') ? path.slice(path.indexOf('/') + 1) : path
+      if (!root && path.includes('/')) root = path.slice(0, path.indexOf('/'))
+      byPath.set(relative, file)
+    }
+
+    const indexFile = byPath.get(RECORDING_INDEX_FILE)
+    if (!indexFile) throw new Error(`目录中没有 ${RECORDING_INDEX_FILE}`)
+
+    let index: RecordingIndex
+    try {
+      index = JSON.parse(await indexFile.text())
+    } catch (e) {
+      throw new Error(`${RECORDING_INDEX_FILE} 不是合法的 JSON: ${(e as Error).message}`)
+    }
+    const problem = validateRecordingIndex(index)
+    if (problem) throw new Error(`${RECORDING_INDEX_FILE} 格式错误: ${problem}`)
+
+    const missing = index.frames.flatMap(frame => frame.files).find(name => !byPath.has(name))
+    if (missing) throw new Error(`缺少文件: ${missing}`)
+
+    return new DirectoryReplaySource(root || indexFile.name, index, byPath)
+  }
+
+  timestampOf(index: number): number {
+    return this.index.frames[index].timestamp
+  }
+
+  async loadFrame(index: number): Promise<ReplayFrame> {
+    const entry = this.index.frames[index]
+    const packets = await Promise.all(entry.files.map(async (name) => {
+      const bytes = withSceneEnvelope(new Uint8Array(await this.files.get(name)!.arrayBuffer()))
+      return bytes.buffer as ArrayBuffer
+    }))
+    return { index, timestamp: entry.timestamp, packets, topics: entry.topics }
+  }
+}
@@ -0,0 +1,385 @@
+// src/core/replay/OfflineReplayTransport.ts
+
+import { EventEmitter } from '../EventEmitter'
+import { CLIENT_CAPABILITIES } from '../protocol/ProtocolCapabilities'
+import { MessageType, PlaybackCommand, SubscriptionCommand } from '../types/message'
+import type { Message } from '../types/message'
+import type { DataTransport } from '../types/transport'
+import type { RawTextInfo } from '../WebSocketClient'
+import type { InitInfo, PlaybackStatus } from '@/types/playback'
+import type { ReplaySource } from './ReplaySource'
+
+// 单帧间隔的上下限 (毫秒)，避免录制中的长时间空档让回放停住
+const MIN_FRAME_DELAY_MS = 1
+const MAX_FRAME_DELAY_MS = 5000
+
+/**
+ * 离线回放传输层
+ *
+ * 在浏览器内扮演回放服务端：应答 HELLO / 播放控制 / 订阅 / _requestId 请求，
+ * 按帧时间戳的间隔推送 ReplaySource 中的二进制包与 Topic 数据。
+ * 消息格式与 Mock 服务 (mock-server/MockPlaybackServer.ts) 保持一致，
+ * 因此 DataBus 之上的 Store 与面板无需感知数据来自本地文件
+ */
+export class OfflineReplayTransport extends EventEmitter implements DataTransport {
+  private connected = false
+  private url: string
+  private initialized = false
+  private subscriptions = new Set<string>()
+
+  private isPlaying = false
+  private currentIndex = 0
+  private speed = 1.0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  // 帧加载是异步的：跳转后丢弃旧的加载结果
+  private loadToken = 0
+  private lastSentIndex = -1
+  private currentTopics: { index: number; topics: Record<string, Record<string, any>> } | null = null
+
+  private readonly frameInterval: number
+
+  constructor(private source: ReplaySource) {
+    super()
+    this.url = `local://${source.name}`
+    const last = source.frameCount - 1
+    this.frameInterval = last > 0
+      ? (source.timestampOf(last) - source.timestampOf(0)) / last
+      : 0.1
+  }
+
+  getSource(): ReplaySource {
+    return this.source
+  }
+
+  // ========== DataTransport ==========
+
+  async connect(url: string): Promise<void> {
+    if (url) this.url = url
+    this.connected = true
+    this.emit('connected', { url: this.url })
+  }
+
+  disconnect(): void {
+    if (!this.connected) return
+    this.pausePlayback()
+    this.loadToken++
+    this.connected = false
+    this.initialized = false
+    this.subscriptions.clear()
+    this.source.close?.()
+    this.emit('disconnected', { code: 1000, reason: 'Replay closed' })
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getUrl(): string {
+    return this.url
+  }
+
+  send(message: any): boolean {
+    if (!this.connected) return false
+    // 模拟网络往返：调用方 (Store) 往往在发送之后才注册响应处理
+    setTimeout(() => {
+      if (this.connected) this.handleCommand(message)
+    }, 0)
+    return true
+  }
+
+  // ========== 命令处理 ==========
+
+  private handleCommand(message: any) {
+    const type: string = message?.type
+    const params = message?.params ?? {}
+    const requestId: string | undefined = params._requestId
+
+    if (type === MessageType.HELLO) return this.initialize()
+    if (type === 'HEARTBEAT') return
+
+    switch (type) {
+      case PlaybackCommand.PLAY: return this.commandPlay()
+      case PlaybackCommand.PAUSE: return this.commandPause()
+      case PlaybackCommand.STOP:
+        this.pausePlayback()
+        return this.commandSeek(type, 0)
+      case PlaybackCommand.RESET:
+        this.speed = 1.0
+        this.pausePlayback()
+        return this.commandSeek(type, 0)
+      case PlaybackCommand.NEXT_FRAME: return this.commandSeek(type, this.currentIndex + 1)
+      case PlaybackCommand.PREV_FRAME: return this.commandSeek(type, this.currentIndex - 1)
+      case PlaybackCommand.SEEK_FRAME: return this.commandSeek(type, Number(params.frame_id))
+      case PlaybackCommand.SEEK_TIME: return this.commandSeek(type, this.indexOfTime(Number(params.timestamp)))
+      case PlaybackCommand.SEEK_PROGRESS:
+        return this.commandSeek(type, Math.round(Number(params.progress) * (this.source.frameCount - 1)))
+      case PlaybackCommand.SET_SPEED: return this.commandSetSpeed(Number(params.multiplier))
+      case PlaybackCommand.GET_STATUS:
+        this.emitMessage({ type: MessageType.PLAYBACK_STATUS, data: this.buildStatus() })
+        return
+
+      case SubscriptionCommand.SUBSCRIBE_TOPIC: return this.commandSubscribe(params.topic_key)
+      case SubscriptionCommand.GET_AVAILABLE_TOPICS:
+        this.emitMessage({
+          type: MessageType.AVAILABLE_TOPICS,
+          available_keys: this.availableKeys(),
+          ...(requestId && { _requestId: requestId })
+        })
+        return
+      case SubscriptionCommand.GET_TOPIC_SCHEMA: return this.respondTopicSchema(params.topic_key, requestId)
+      case SubscriptionCommand.GET_TOPIC_DATA: return this.respondTopicData(params.topic_key, requestId)
+    }
+
+    this.sendError(`Unknown command: ${type}`, 'UNKNOWN_COMMAND', requestId)
+  }
+
+  private initialize() {
+    const version = this.source.protocolVersion
+    const info: InitInfo = {
+      server_version: `offline-replay (${this.source.name})`,
+      available_keys: this.availableKeys(),
+      initial_status: this.buildStatus()
+    }
+    // 录制数据的协议版本是固定的，按客户端能力声明 (v0 不带 protocol 字段)
+    if (version > 0) info.protocol = { ...CLIENT_CAPABILITIES, version }
+    this.initialized = true
+    this.emitMessage({ type: MessageType.INIT_INFO, data: info })
+    this.sendFrame(this.currentIndex)
+  }
+
+  private commandPlay() {
+    if (!this.isPlaying) {
+      if (this.currentIndex >= this.source.frameCount - 1) this.currentIndex = 0
+      this.isPlaying = true
+      // 暂停期间客户端丢弃了数据，从当前帧完整重发
+      this.lastSentIndex = -1
+      this.scheduleNextFrame()
+    }
+    this.sendAck(PlaybackCommand.PLAY, true)
+    this.broadcastStatus()
+  }
+
+  private commandPause() {
+    this.pausePlayback()
+    this.sendAck(PlaybackCommand.PAUSE, true)
+    this.broadcastStatus()
+  }
+
+  private commandSeek(command: string, index: number) {
+    if (!Number.isFinite(index)) {
+      this.sendAck(command, false, 'Invalid seek target')
+      return
+    }
+    this.stopTimer()
+    this.currentIndex = clamp(Math.round(index), 0, this.source.frameCount - 1)
+    this.lastSentIndex = -1
+    this.sendFrame(this.currentIndex)
+
+    this.sendAck(command, true)
+    this.broadcastStatus()
+  }
+
+  private commandSetSpeed(multiplier: number) {
+    if (!Number.isFinite(multiplier) || multiplier <= 0) {
+      this.sendAck(PlaybackCommand.SET_SPEED, false, `Invalid speed: ${multiplier}`)
+      return
+    }
+    this.speed = multiplier
+    if (this.isPlaying && this.timer) this.scheduleNextFrame()
+    this.sendAck(PlaybackCommand.SET_SPEED, true)
+    this.broadcastStatus()
+  }
+
+  private commandSubscribe(topicKey: string) {
+    const known = topicKey in this.source.schemas
+    if (known) this.subscriptions.add(topicKey)
+    this.emitMessage({
+      type: MessageType.SUBSCRIPTION_ACK,
+      success: known,
+      topic_key: topicKey,
+      message: known ? 'Subscribed' : `Unknown topic: ${topicKey}`
+    })
+  }
+
+  private respondTopicSchema(topicKey: string, requestId?: string) {
+    const schema = this.source.schemas[topicKey]
+    if (!schema) {
+      this.sendError(`Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    this.emitMessage({
+      type: MessageType.TOPIC_SCHEMA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      topic_key: topicKey,
+      schema
+    })
+  }
+
+  private respondTopicData(topicKey: string, requestId?: string) {
+    if (!(topicKey in this.source.schemas)) {
+      this.sendError(`Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    if (this.source.loadTopic) {
+      const index = this.currentIndex
+      this.source.loadTopic(topicKey, index)
+        .catch((error) => {
+          console.error(`[Replay] Failed to load ${topicKey}:`, error)
+          return undefined
+        })
+        .then(data => this.emitTopicDataResponse(topicKey, index, data, requestId))
+      return
+    }
+    // 只应答已加载完成的当前帧，加载中视为该帧暂无数据
+    const loaded = this.currentTopics?.index === this.currentIndex ? this.currentTopics : null
+    this.emitTopicDataResponse(topicKey, this.currentIndex, loaded?.topics[topicKey], requestId)
+  }
+
+  private emitTopicDataResponse(topicKey: string, index: number, data: Record<string, any> | undefined, requestId?: string) {
+    if (!this.connected) return
+    this.emitMessage({
+      type: MessageType.TOPIC_DATA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      ...(data !== undefined
+        ? { topic_key: topicKey, frame_id: index, timestamp: this.source.timestampOf(index), data }
+        : { topic_key: topicKey, frame_id: null, timestamp: null, data: null })
+    })
+  }
+
+  private sendAck(command: string, success: boolean, message: string = 'OK') {
+    this.emitMessage({ type: MessageType.COMMAND_ACK, command, success, message })
+  }
+
+  private sendError(message: string, errorCode: string, requestId?: string) {
+    this.emitMessage({
+      type: MessageType.ERROR,
+      message,
+      error_code: errorCode,
+      ...(requestId && { _requestId: requestId, error: message })
+    })
+  }
+
+  // ========== 播放节拍 ==========
+
+  private pausePlayback() {
+    this.isPlaying = false
+    this.stopTimer()
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * 当前帧推送完成后才安排下一帧，读取文件慢于播放速度时自然降速而不是堆积
+   */
+  private scheduleNextFrame() {
+    this.stopTimer()
+    if (!this.isPlaying) return
+
+    const next = this.currentIndex + 1
+    if (next >= this.source.frameCount) {
+      this.pausePlayback()
+      this.broadcastStatus()
+      return
+    }
+
+    const gap = this.source.timestampOf(next) - this.source.timestampOf(this.currentIndex)
+    const delay = clamp((gap * 1000) / this.speed, MIN_FRAME_DELAY_MS, MAX_FRAME_DELAY_MS)
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.currentIndex = next
+      this.sendFrame(next)
+      this.broadcastStatus()
+    }, delay)
+  }
+
+  // ========== 数据推送 ==========
+
+  private sendFrame(index: number) {
+    const token = ++this.loadToken
+    const continuous = index === this.lastSentIndex + 1
+
+    this.source.loadFrame(index, continuous, this.subscriptions).then((frame) => {
+      if (token !== this.loadToken || !this.connected) return
+
+      frame.packets.forEach(packet => this.emit('binary', packet))
+      this.currentTopics = { index, topics: frame.topics ?? {} }
+      this.lastSentIndex = index
+
+      for (const topicKey of this.subscriptions) {
+        const data = frame.topics?.[topicKey]
+        if (data === undefined) continue
+        this.emitMessage({
+          type: MessageType.TOPIC_DATA,
+          topic_key: topicKey,
+          frame_id: index,
+          timestamp: frame.timestamp,
+          data
+        })
+      }
+
+      if (this.isPlaying) this.scheduleNextFrame()
+    }).catch((error) => {
+      if (token !== this.loadToken) return
+      console.error(`[Replay] Failed to load frame ${index}:`, error)
+      this.pausePlayback()
+      this.sendError(`Failed to load frame ${index}: ${error?.message ?? error}`, 'FRAME_LOAD_FAILED')
+      this.broadcastStatus()
+    })
+  }
+
+  private emitMessage(message: Record<string, any>) {
+    if (!this.initialized && message.type !== MessageType.INIT_INFO) return
+    const info: RawTextInfo = { raw: JSON.stringify(message), receivedAt: performance.now() }
+    this.emit('message', message as Message, info)
+  }
+
+  private broadcastStatus() {
+    this.emitMessage({ type: MessageType.PLAYBACK_STATUS, data: this.buildStatus() })
+  }
+
+  private availableKeys(): string[] {
+    return this.source.availableKeys ?? Object.keys(this.source.schemas)
+  }
+
+  private indexOfTime(timestamp: number): number {
+    if (!Number.isFinite(timestamp)) return NaN
+    // 时间戳单调递增，二分查找最后一个 <= timestamp 的帧
+    let lo = 0
+    let hi = this.source.frameCount - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (this.source.timestampOf(mid) <= timestamp) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  private buildStatus(): PlaybackStatus {
+    const last = this.source.frameCount - 1
+    return {
+      is_playing: this.isPlaying,
+      play_mode: 'FRAME_BASED',
+      timestamp_type: 'RAW_TIMESTAMP',
+      current_frame_id: this.currentIndex,
+      current_timestamp: this.source.timestampOf(this.currentIndex),
+      frame_range: { min: 0, max: last },
+      time_range: { min: this.source.timestampOf(0), max: this.source.timestampOf(last) },
+      progress: last > 0 ? this.currentIndex / last : 0,
+      speed_multiplier: this.speed,
+      sleep_time_ms: Math.round((this.frameInterval * 1000) / this.speed),
+      time_step: this.frameInterval,
+      main_axis_key: 'frame_id'
+    }
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
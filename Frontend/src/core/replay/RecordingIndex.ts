@@ -0,0 +1,67 @@
+// src/core/replay/RecordingIndex.ts
+
+import { BinaryMessageType, SCENE_MAGIC } from '../protocol/ProtocolCapabilities'
+import type { TopicSchema } from '../types/common'
+
+/**
+ * 录制目录格式 (Mock 服务 --recording/--export 与浏览器离线回放共用)
+ *
+ *   <dir>/index.json
+ *     {
+ *       "protocol_version": 1,                 // 二进制包使用的协议版本，缺省为 0
+ *       "schemas": { "<topic_key>": TopicSchema },   // 可选
+ *       "frames": [
+ *         { "timestamp": 1700000000.1, "files": ["000000.scene.bin", "000000.image.bin"],
+ *           "topics": { "<topic_key>": { ...以字段 ID 为键的数据 } } }
+ *       ]
+ *     }
+ *   <dir>/*.bin  每个文件是一条完整的 WebSocket 二进制消息 (带 0x01/0x02 类型前缀)；
+ *               以 Magic 开头的裸场景包会自动补上 0x01 前缀
+ *
+ * 二进制包原样转发，不做重新编码，因此每帧的场景包应当是完整帧 (FULL/KEYFRAME)，才能任意跳转
+ */
+
+export const RECORDING_INDEX_FILE = 'index.json'
+
+export interface RecordingIndex {
+  protocol_version?: number
+  schemas?: Record<string, TopicSchema>
+  frames: RecordingFrameEntry[]
+}
+
+export interface RecordingFrameEntry {
+  timestamp: number
+  files: string[]
+  topics?: Record<string, Record<string, any>>
+}
+
+/**
+ * 校验 index.json 的基本结构，返回错误描述 (合法时返回 null)
+ */
+export function validateRecordingIndex(index: any): string | null {
+  if (!index || !Array.isArray(index.frames)) return 'frames 缺失'
+  if (index.frames.length === 0) return '没有任何帧'
+  for (let i = 0; i < index.frames.length; i++) {
+    const frame = index.frames[i]
+    if (typeof frame?.timestamp !== 'number' || !Array.isArray(frame.files)) {
+      return `第 ${i} 帧缺少 timestamp 或 files`
+    }
+    if (i > 0 && frame.timestamp < index.frames[i - 1].timestamp) {
+      return `第 ${i} 帧时间戳回退`
+    }
+  }
+  return null
+}
+
+/**
+ * 裸场景包补上 0x01 类型前缀，其他消息原样返回
+ */
+export function withSceneEnvelope(bytes: Uint8Array): Uint8Array {
+  const isBareScene = bytes.byteLength >= 2 && (bytes[0] | (bytes[1] << 8)) === SCENE_MAGIC
+  if (!isBareScene) return bytes
+
+  const out = new Uint8Array(bytes.byteLength + 1)
+  out[0] = BinaryMessageType.SCENE_GRAPH
+  out.set(bytes, 1)
+  return out
+}
@@ -0,0 +1,43 @@
+// src/core/replay/ReplaySource.ts
+
+import type { TopicSchema } from '../types/common'
+
+/**
+ * 离线回放数据源：按帧提供原始二进制消息与 Topic 数据
+ * 由 OfflineReplayTransport 驱动播放节奏并应答播放控制命令
+ */
+export interface ReplaySource {
+  readonly name: string
+  readonly frameCount: number
+  readonly protocolVersion: number   // 二进制包使用的协议版本
+  readonly schemas: Record<string, TopicSchema>
+  readonly availableKeys?: string[]  // INIT_INFO.available_keys，缺省时取 schemas 的键
+  readonly skipped?: ReadonlyArray<{ topic: string; reason: string }>  // 无法解码而跳过的 Topic
+
+  timestampOf(index: number): number  // 秒，单调递增
+
+  /**
+   * 加载一帧
+   * @param continuous 是否紧接着上一次加载的帧 (顺序播放)；
+   *   为 false 时数据源需要保证返回的包足以独立重建场景 (例如从前一个关键帧补发增量帧)
+   * @param topics 已订阅的 Topic，按需解码的数据源可以只返回这些 Topic 的数据
+   */
+  loadFrame(index: number, continuous: boolean, topics?: ReadonlySet<string>): Promise<ReplayFrame>
+
+  /**
+   * (可选) 截至某帧的 Topic 最新数据；帧数据只包含变化的 Topic 时，用于应答 GET_TOPIC_DATA
+   */
+  loadTopic?(topicKey: string, index: number): Promise<Record<string, any> | undefined>
+
+  /**
+   * (可选) 释放资源 (Worker、文件句柄)，回放断开时调用
+   */
+  close?(): void
+}
+
+export interface ReplayFrame {
+  index: number
+  timestamp: number
+  packets: ArrayBuffer[]   // 完整的二进制消息 (带类型前缀)，每次加载都是新副本，可直接转移所有权
+  topics?: Record<string, Record<string, any>>
+}
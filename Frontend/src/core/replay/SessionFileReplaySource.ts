@@ -0,0 +1,132 @@
+// src/core/replay/SessionFileReplaySource.ts
+
+import { BinaryMessageType } from '../protocol/ProtocolCapabilities'
+import { FrameKind, VizDecoder } from '../protocol/VizDecoder'
+import {
+  RecordFlag,
+  RecordKind,
+  readSessionFile,
+  type SessionMeta,
+  type SessionRecord
+} from '../recording/SessionFile'
+import type { TopicSchema } from '../types/common'
+import type { ReplayFrame, ReplaySource } from './ReplaySource'
+
+interface SessionFrame {
+  timestamp: number
+  keyframe: boolean          // 可独立重建场景 (FULL/KEYFRAME)
+  scenes: Uint8Array[]
+  images: Uint8Array[]
+  topics: Record<string, Record<string, any>>
+}
+
+/**
+ * 会话录制文件 (.vizrec) 数据源
+ *
+ * 每个场景包开始新的一帧，其后到达的图像包与 TOPIC_DATA 归入该帧；
+ * 帧时间使用录制时的接收时间，回放节奏与录制时一致。
+ * 录制从数据流中途开始时，第一个关键帧之前的增量帧缺少基准帧，加载时跳过
+ */
+export class SessionFileReplaySource implements ReplaySource {
+  readonly name: string
+  readonly frameCount: number
+  readonly protocolVersion: number
+  readonly schemas: Record<string, TopicSchema> = {}
+  readonly availableKeys?: string[]
+
+  private frames: SessionFrame[] = []
+
+  private constructor(name: string, meta: SessionMeta, records: SessionRecord[]) {
+    this.name = name
+
+    let protocolVersion = meta.protocol_version
+    const pending: SessionFrame = { timestamp: 0, keyframe: true, scenes: [], images: [], topics: {} }
+    let current: SessionFrame | null = null
+    let skippedDeltas = 0
+
+    for (const record of records) {
+      if (record.flags & RecordFlag.INVALID) continue
+      if (record.kind === RecordKind.TEXT) {
+        let message: any
+        try {
+          message = JSON.parse(new TextDecoder().decode(record.payload))
+        } catch {
+          continue
+        }
+        if (message?.type === 'INIT_INFO') {
+          const data = message.data ?? message
+          if (Array.isArray(data.available_keys)) this.availableKeys = data.available_keys
+          if (protocolVersion == null && data.protocol?.version != null) protocolVersion = data.protocol.version
+        } else if (message?.type === 'TOPIC_SCHEMA' || message?.type === 'TOPIC_SCHEMA_RESPONSE') {
+          if (message.topic_key && message.schema) this.schemas[message.topic_key] = message.schema
+        } else if (message?.type === 'TOPIC_DATA' && message.topic_key && message.data) {
+          (current ?? pending).topics[message.topic_key] = message.data
+        }
+        continue
+      }
+
+      const type = record.payload[0]
+      const body = record.payload.subarray(1)
+      if (type === BinaryMessageType.SCENE_GRAPH) {
+        const kind = VizDecoder.peekFrameKind(body, protocolVersion ?? 0)
+        if (kind === null) continue
+        // 第一个关键帧之前的增量帧无法重建场景
+        if (this.frames.length === 0 && kind === FrameKind.DELTA) {
+          skippedDeltas++
+          continue
+        }
+        current = {
+          timestamp: (meta.started_at + record.time) / 1000,
+          keyframe: kind !== FrameKind.DELTA,
+          scenes: [record.payload],
+          images: [],
+          topics: {}
+        }
+        // 第一个场景包之前收到的图像 / Topic 数据归入第一帧
+        if (this.frames.length === 0) {
+          current.images.push(...pending.images)
+          Object.assign(current.topics, pending.topics)
+        }
+        this.frames.push(current)
+      } else if (type === BinaryMessageType.IMAGE_DATA) {
+        (current ?? pending).images.push(record.payload)
+      }
+    }
+
+    if (this.frames.length === 0) {
+      throw new Error(skippedDeltas > 0 ? '录制文件中没有关键帧，增量帧无法回放' : '录制文件中没有场景帧')
+    }
+    if (skippedDeltas > 0) {
+      console.warn(`[SessionFileReplaySource] Skipped ${skippedDeltas} delta frame(s) recorded before the first keyframe`)
+    }
+    this.protocolVersion = protocolVersion ?? 0
+    this.frameCount = this.frames.length
+  }
+
+  static async open(file: File): Promise<SessionFileReplaySource> {
+    const { meta, records } = readSessionFile(await file.arrayBuffer())
+    return new SessionFileReplaySource(file.name, meta, records)
+  }
+
+  timestampOf(index: number): number {
+    return this.frames[index].timestamp
+  }
+
+  async loadFrame(index: number, continuous: boolean): Promise<ReplayFrame> {
+    const frame = this.frames[index]
+
+    // 跳转到增量帧时，从前一个关键帧开始补发场景包 (第 0 帧必为关键帧)
+    let start = index
+    if (!continuous) {
+      while (start > 0 && !this.frames[start].keyframe) start--
+    }
+    const scenes = this.frames.slice(start, index + 1).flatMap(f => f.scenes)
+
+    return {
+      index,
+      timestamp: frame.timestamp,
+      packets: [...scenes, ...frame.images].map(bytes => bytes.slice().buffer as ArrayBuffer),
+      topics: frame.topics
+    }
+  }
+}
@@ -15,6 +15,8 @@ export interface TopicData {
 export interface TopicSchema {
   proto_type: string
   fields: TopicField[]
+  enums?: Record<string, TopicEnum> // 🌟 [新增] 枚举值表：enum_type 全名 -> 值表
+  oneofs?: TopicOneof[]             // 🌟 [新增] oneof 分组
 }
 
 /**
@@ -28,6 +30,30 @@ export interface TopicField {
   repeated: boolean
   message_type?: string
   enum_type?: string
+  // 🌟 [新增] map<K, V> 字段：线上为元素 {key, value} 的 repeated 消息 ("labels[]")，解析后还原为对象
+  map?: TopicMapEntry
+}
+
+/**
+ * 🌟 [新增] 枚举值表：数值 (JSON 中为字符串键) -> 名称
+ */
+export type TopicEnum = Record<string, string>
+
+/**
+ * 🌟 [新增] map 字段的键 / 值类型
+ */
+export interface TopicMapEntry {
+  key_type: string
+  value_type: string
+}
+
+/**
+ * 🌟 [新增] oneof 分组：同一时刻至多一个成员有值
+ */
+export interface TopicOneof {
+  path: string     // 所在消息的路径，"" 为根消息，重复消息元素内写作 "objects"
+  name: string     // oneof 名称
+  fields: string[] // 成员字段名 (消息类型成员为其嵌套前缀，如 "circle")
 }
 
 /**
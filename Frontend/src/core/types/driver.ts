@@ -3,6 +3,9 @@
 
 import type { TopicSchema } from './common' // 复用现有的 TopicSchema
 import type { RenderableObject } from './viz-standard'
+import type { ColumnarRow } from '@/core/data/ColumnarStore'
+import type { DataTransport } from './transport'
+import type { ReplaySource } from '@/core/replay/ReplaySource'
 
 // ========== 1. Worker 协议标准 (主线程 <-> Worker) ==========
 // 规定主线程和 Worker 之间传什么数据
@@ -11,12 +14,16 @@ export interface ParseRequest {
   topicKey: string
   data: any           // 原始数据 (ArrayBuffer, Blob 或 JSON)
   schema?: TopicSchema // 解析需要的 Schema
+  frameId?: number     // 携带帧号/时间戳时 Worker 会额外产出列存行
+  timestamp?: number
 }
 
 export interface ParseResponse {
   success: boolean
   topicKey: string
   parsedData?: Record<string, any> // 解析后的纯 JSON 对象
+  columns?: ColumnarRow            // 数值字段展开后的一行 (列存历史)
+  enumLabels?: Record<string, string> // 🌟 [新增] 字段路径 -> 枚举名 (Schema 带枚举值表时)
   error?: string
 }
 
@@ -40,7 +47,17 @@ export interface IDataAdapter<T = any> {
 }
 
 // ========== 3. 驱动核心接口 (Driver Entry) ==========
-// 每个数据格式插件(Pack/RosBag)的入口必须导出符合此接口的对象
+// 每个数据格式插件(Pack/RosBag)的入口必须导出符合此接口的对象，并在 DriverRegistry 中注册
+
+/**
+ * 🌟 [新增] 驱动能力声明 (连接表单据此列出可选驱动并自动识别)
+ */
+export interface DriverCapabilities {
+  live?: boolean              // 可连接 WebSocket 服务端
+  defaultPorts?: number[]     // 服务端常用端口，连接地址命中时自动选用该驱动
+  fileExtensions?: string[]   // 可打开的文件扩展名 (含 '.')
+  directory?: boolean         // 可打开录制目录
+}
 
 export interface IDataDriver {
   /**
@@ -48,6 +65,16 @@ export interface IDataDriver {
    */
   name: string
 
+  /**
+   * 🌟 [新增] 界面显示名称，不填时显示 name
+   */
+  label?: string
+
+  /**
+   * 🌟 [新增] 能力声明
+   */
+  capabilities?: DriverCapabilities
+
   /**
    * 创建该格式专属的解析 Worker
    * (用于在后台线程处理二进制反序列化，避免阻塞 UI)
@@ -60,9 +87,25 @@ export interface IDataDriver {
    */
   getAdapters(): IDataAdapter[]
 
+  /**
+   * 🌟 [新增] (可选) 创建自带线协议的传输层 (如 Foxglove WebSocket)
+   * 不提供时使用内置 WebSocket 协议
+   */
+  createTransport?(): DataTransport
+
+  /**
+   * 🌟 [新增] (可选) 打开单个数据文件 (capabilities.fileExtensions)
+   */
+  openFile?(file: File): Promise<ReplaySource>
+
+  /**
+   * 🌟 [新增] (可选) 打开录制目录 (capabilities.directory)
+   */
+  openDirectory?(files: File[]): Promise<ReplaySource>
+
   /**
    * (可选) 连接建立时的钩子
-   * 例如发送特殊的握手协议或鉴权信息
+   * 例如发送特殊的握手协议或鉴权信息；本地文件回放同样会调用
    */
-  onConnect?(ws: WebSocket): void
-}
\ No newline at end of file
+  onConnect?(transport: DataTransport): void
+}
@@ -3,4 +3,6 @@
 export * from './common'
 export * from './message'
 export * from './module'
-export * from './event'
\ No newline at end of file
+export * from './event'
+export * from './rpc'
+export * from './transport'
\ No newline at end of file
@@ -5,8 +5,8 @@
  */
 export interface Message {
     type: string
-    payload: any
-    timestamp: number
+    payload?: any
+    timestamp?: number
     source?: string
   }
   
@@ -20,6 +20,7 @@ export interface Message {
    */
   export enum MessageType {
     // 初始化和状态
+    HELLO = 'HELLO', // 客户端 -> 服务端：协议能力声明
     INIT_INFO = 'INIT_INFO',
     PLAYBACK_STATUS = 'PLAYBACK_STATUS',
     COMMAND_ACK = 'COMMAND_ACK',
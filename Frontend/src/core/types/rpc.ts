@@ -0,0 +1,60 @@
+// core/types/rpc.ts - 请求/响应 (RPC) 类型定义
+
+import type { AvailableTopicsMessage, TopicDataResponseMessage, TopicSchemaMessage } from '@/types/playback'
+import { MessageType } from './message'
+
+/**
+ * 请求-响应命令表
+ * 客户端在 params._requestId 中带上请求 ID，服务端在响应消息顶层原样带回
+ *
+ * 键与 SubscriptionCommand 的取值一致
+ * - params: 命令参数
+ * - response: 经过校验的响应消息
+ */
+export interface RpcCommandMap {
+  GET_TOPIC_SCHEMA: {
+    params: { topic_key: string }
+    response: TopicSchemaMessage
+  }
+  GET_TOPIC_DATA: {
+    params: { topic_key: string }
+    response: TopicDataResponseMessage
+  }
+  GET_AVAILABLE_TOPICS: {
+    params: Record<string, never>
+    response: AvailableTopicsMessage
+  }
+}
+
+export type RpcCommand = keyof RpcCommandMap
+export type RpcParams<K extends RpcCommand> = RpcCommandMap[K]['params']
+export type RpcResponse<K extends RpcCommand> = RpcCommandMap[K]['response']
+
+/**
+ * 每个命令期望的响应消息类型 (ERROR 消息对所有命令都视为失败响应)
+ */
+export const RPC_RESPONSE_TYPES: Record<RpcCommand, MessageType> = {
+  GET_TOPIC_SCHEMA: MessageType.TOPIC_SCHEMA_RESPONSE,
+  GET_TOPIC_DATA: MessageType.TOPIC_DATA_RESPONSE,
+  GET_AVAILABLE_TOPICS: MessageType.AVAILABLE_TOPICS
+}
+
+/**
+ * 单次请求选项
+ */
+export interface RequestOptions {
+  timeout?: number        // 毫秒，不填使用默认超时
+  signal?: AbortSignal    // 取消请求
+}
+
+/**
+ * 请求失败原因
+ */
+export enum RpcErrorCode {
+  NOT_CONNECTED = 'NOT_CONNECTED', // 发送时未连接
+  TIMEOUT       = 'TIMEOUT',       // 超时未收到响应
+  ABORTED       = 'ABORTED',       // 调用方取消
+  DISCONNECTED  = 'DISCONNECTED',  // 等待响应期间连接断开
+  SERVER_ERROR  = 'SERVER_ERROR',  // 服务端返回 ERROR
+  UNEXPECTED_RESPONSE = 'UNEXPECTED_RESPONSE' // 响应消息类型与命令不匹配
+}
@@ -0,0 +1,26 @@
+// core/types/transport.ts - DataBus 底层传输接口
+
+/**
+ * 数据传输层
+ *
+ * DataBus 只依赖这组方法和事件，WebSocketClient 与离线回放 (OfflineReplayTransport) 都实现它，
+ * 因此上层 Store / 面板不需要区分数据来自服务端还是本地文件
+ *
+ * 事件：
+ *   'connected'       ({ url })
+ *   'disconnected'    ({ code, reason })
+ *   'error'           ({ error })
+ *   'message'         (message: Message, info?: RawTextInfo)   文本 (JSON) 消息
+ *   'invalid-message' ({ type, reason }, info?: RawTextInfo)   无法解析的文本消息
+ *   'binary'          (data: ArrayBuffer)                      二进制消息，所有权交给接收方
+ */
+export interface DataTransport {
+  connect(url: string): Promise<void>
+  disconnect(): void
+  isConnected(): boolean
+  send(message: any): boolean
+  getUrl(): string
+
+  on(event: string, handler: (...args: any[]) => void): void
+  off(event: string, handler: (...args: any[]) => void): void
+}
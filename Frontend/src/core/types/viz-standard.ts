@@ -56,6 +56,7 @@ export interface Point2D {
     | 'text' 
     | 'image' 
     | 'mesh'
+    | 'box'   // 🌟 [新增] 3D 包围盒
     | 'custom' // 预留给特殊对象
   
   /**
@@ -148,6 +149,16 @@ export interface Point2D {
     resourceId?: string // 引用外部模型资源ID (如 'car_model_01')
   }
   
+  /**
+   * 🌟 [新增] 3D 包围盒 (障碍物/检测框)
+   */
+  export interface RenderableBox extends BaseRenderable {
+    type: 'box'
+    position: Point3D   // 盒体中心
+    size: Point3D       // x 长 / y 宽 / z 高 (米)
+    rotation?: Rotation3D
+  }
+  
   // 联合类型，方便使用
   export type RenderableObject = 
     | RenderablePoint 
@@ -157,4 +168,5 @@ export interface Point2D {
     | RenderableCircle 
     | RenderableText 
     | RenderableImage
-    | RenderableMesh
\ No newline at end of file
+    | RenderableMesh
+    | RenderableBox
\ No newline at end of file
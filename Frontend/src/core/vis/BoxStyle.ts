@@ -0,0 +1,104 @@
+// src/core/vis/BoxStyle.ts
+
+import { reactive, watch } from 'vue'
+import { SubType, type DecodedObject } from '@/core/protocol/VizDecoder'
+
+/**
+ * 3D 包围盒 (CUBE) 的绘制方式
+ *
+ *   solid     - 实心盒 (原有样式)
+ *   wireframe - 线框 + 朝向箭头，可选半透明填充，顶部悬浮标签
+ *
+ * 生效顺序：SubType 设置 > 图层设置 > 默认
+ */
+
+export type BoxRenderMode = 'solid' | 'wireframe'
+
+export interface BoxStyleSettings {
+  defaultMode: BoxRenderMode
+  layerModes: Record<string, BoxRenderMode>   // 图层 ID -> 模式
+  subTypeModes: Record<number, BoxRenderMode> // SubType -> 模式
+  fill: boolean                               // 线框模式下的半透明填充
+  labelFields: string[]                       // 标签内容：'id' 为对象 ID，其余取 properties 中的同名属性
+}
+
+export const BOX_RENDER_MODE_LABELS: Record<BoxRenderMode, string> = {
+  solid: '实心',
+  wireframe: '线框'
+}
+
+// 可单独设置的障碍物类型
+export const BOX_SUBTYPES: { value: SubType; label: string }[] = [
+  { value: SubType.OBJ_CAR, label: '轿车' },
+  { value: SubType.OBJ_TRUCK, label: '卡车' },
+  { value: SubType.OBJ_BUS, label: '公交' },
+  { value: SubType.OBJ_PEDESTRIAN, label: '行人' },
+  { value: SubType.OBJ_CYCLIST, label: '骑行者' },
+  { value: SubType.OBJ_CONE, label: '锥桶' }
+]
+
+// 标签字段的常用候选
+export const BOX_LABEL_FIELD_OPTIONS = ['id', 'class', 'speed']
+
+const STORAGE_KEY = 'box_style_settings_v1'
+
+const DEFAULT_SETTINGS: BoxStyleSettings = {
+  defaultMode: 'solid',
+  layerModes: {},
+  subTypeModes: {},
+  fill: true,
+  labelFields: ['id']
+}
+
+function loadFromStorage(): BoxStyleSettings {
+  try {
+    const json = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+    return { ...JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), ...(json ? JSON.parse(json) : {}) }
+  } catch (e) {
+    console.error('[BoxStyle] Failed to load settings:', e)
+    return JSON.parse(JSON.stringify(DEFAULT_SETTINGS))
+  }
+}
+
+// 全局设置 (3D 视图工具栏修改，渲染器每帧读取)
+export const boxStyleSettings = reactive<BoxStyleSettings>(loadFromStorage())
+
+watch(boxStyleSettings, () => {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(boxStyleSettings))
+}, { deep: true })
+
+/**
+ * 对象的绘制方式
+ * @param layerId 对象所在图层 (LayerManager.getObjectLayer)
+ */
+export function resolveBoxMode(obj: DecodedObject, layerId?: string | null): BoxRenderMode {
+  return boxStyleSettings.subTypeModes[obj.subType]
+    ?? (layerId ? boxStyleSettings.layerModes[layerId] : undefined)
+    ?? boxStyleSettings.defaultMode
+}
+
+function fieldValue(obj: DecodedObject, field: string): string | undefined {
+  if (field === 'id') return obj.id
+  const value = obj.properties?.[field]
+  // 没有 class 属性时用障碍物类型名
+  if (field === 'class' && !value) return BOX_SUBTYPES.find(s => s.value === obj.subType)?.label
+  return value
+}
+
+/**
+ * 按标签字段拼出标签文本，没有任何字段有值时返回空串
+ */
+export function boxLabel(obj: DecodedObject): string {
+  const parts: string[] = []
+  for (const field of boxStyleSettings.labelFields) {
+    const value = fieldValue(obj, field)
+    if (value === undefined || value === null || value === '') continue
+    // 数值属性 (速度等) 保留一位小数
+    const num = Number(value)
+    parts.push(field !== 'id' && value.trim() !== '' && Number.isFinite(num) && !Number.isInteger(num)
+      ? num.toFixed(1)
+      : value)
+  }
+  return parts.join(' | ')
+}
@@ -0,0 +1,66 @@
+// src/core/vis/Highlight.ts
+
+import type { DecodedObject } from '@/core/protocol/VizDecoder'
+import { getPointChannel, CHANNEL_POSITION } from '@/core/protocol/PointListDecoder'
+
+/**
+ * 选中 / 悬停高亮的公共定义 (2D、3D 视图共用同一套颜色)
+ * 高亮状态来自 layerManager.state.selectedId / hoveredId
+ */
+
+export type HighlightKind = 'selected' | 'hovered'
+
+export const HIGHLIGHT_COLORS: Record<HighlightKind, string> = {
+  selected: '#ffd04b',
+  hovered: '#7fdbff'
+}
+
+// 2D 光晕在对象线宽之外额外加宽的像素数
+export const HALO_WIDTH_PX: Record<HighlightKind, number> = {
+  selected: 6,
+  hovered: 4
+}
+
+export interface ObjectBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * 对象在数据坐标系 (渲染坐标) 下的 XY 包围范围，用于聚焦视角
+ * 点列对象取各点范围，其他对象取位置 ± 尺寸的一半 (按航向旋转后的外接矩形)
+ */
+export function objectBounds(obj: DecodedObject): ObjectBounds | null {
+  const points = obj.points
+  if (points && points.count > 0) {
+    const offset = getPointChannel(points, CHANNEL_POSITION)?.offset ?? 0
+    const { data, stride, count } = points
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    for (let i = 0, o = offset; i < count; i++, o += stride) {
+      const x = data[o]
+      const y = data[o + 1]
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue
+      if (x < bounds.minX) bounds.minX = x
+      if (x > bounds.maxX) bounds.maxX = x
+      if (y < bounds.minY) bounds.minY = y
+      if (y > bounds.maxY) bounds.maxY = y
+    }
+    return bounds.minX <= bounds.maxX ? bounds : null
+  }
+
+  if (!obj.position) return null
+  const cos = Math.abs(Math.cos(obj.rotation?.z ?? 0))
+  const sin = Math.abs(Math.sin(obj.rotation?.z ?? 0))
+  const sx = obj.size?.x ?? 0
+  const sy = obj.size?.y ?? 0
+  const halfX = (sx * cos + sy * sin) / 2
+  const halfY = (sx * sin + sy * cos) / 2
+  return {
+    minX: obj.position.x - halfX,
+    minY: obj.position.y - halfY,
+    maxX: obj.position.x + halfX,
+    maxY: obj.position.y + halfY
+  }
+}
@@ -5,11 +5,17 @@ import { EventEmitter } from '@/core/EventEmitter'
 import { 
   CoordinateSystem, 
   ViewMask, 
-  type DecodedLayer, 
+  FrameKind,
+  TopicUpdateKind,
+  PatchOp,
+  type DecodeResult,
+  type DecodedPatch,
   type DecodedTopic, 
+  type DecodedLayer,
   type DecodedGroup, 
   type DecodedObject 
 } from '@/core/protocol/VizDecoder'
+import type { Origin } from '@/core/protocol/PointListDecoder'
 
 // UI 树节点定义
 export interface UINode {
@@ -42,6 +48,21 @@ export class LayerManager extends EventEmitter {
   // Topic 完整路径 -> Last Frame ID (用于增量更新检测)
   private topicFrameIndex = new Map<string, bigint>()
 
+  // 🌟 UI Path ID -> UI 节点 (增量补丁按路径定位节点)
+  private nodeIndex = new Map<string, UINode>()
+
+  // 🌟 [新增] 对象 -> UI Path ID (视图拾取到的对象反查树节点)
+  private objectPaths = new WeakMap<DecodedObject, string>()
+
+  // 🌟 最近一次成功应用的场景帧 ID，增量帧必须基于它
+  private lastSceneFrameId: bigint | null = null
+
+  // 🌟 本帧有补丁无法应用 (父节点 / Topic 不存在)，场景已与服务端不一致
+  private resyncNeeded = false
+
+  // 🌟 [新增] 客户端图层 (前端由 Topic 数据生成)，不受服务端关键帧的删除影响
+  private clientLayerIds = new Set<string>()
+
   public state = reactive<SelectionState>({
     selectedId: null,
     hoveredId: null,
@@ -52,6 +73,9 @@ export class LayerManager extends EventEmitter {
   // 渲染层 (World.ts) 会读取此属性来决定根容器的旋转
   public currentCoordinateSystem = CoordinateSystem.RIGHT_HANDED_Z_UP_X_FWD
 
+  // 🌟 [新增] 当前帧 F64 数据的平移原点，坐标读数用它还原绝对坐标
+  public currentOrigin: Origin | null = null
+
   private constructor() { super() }
 
   static getInstance() {
@@ -61,11 +85,34 @@ export class LayerManager extends EventEmitter {
 
   /**
    * 处理新的一帧数据
-   * 🌟 [修改] 接收包含坐标系的完整结果
+   * 🌟 [修改] 接收包含坐标系的完整结果；增量帧按补丁应用
    */
-  updateScene(result: { layers: DecodedLayer[], coordinateSystem: CoordinateSystem }) {
-    // 1. 更新坐标系状态
+  updateScene(result: Pick<DecodeResult, 'layers' | 'coordinateSystem' | 'frameId'> & Partial<Pick<DecodeResult, 'kind' | 'baseFrameId' | 'origin' | 'complete'>>) {
+    const kind = result.kind ?? FrameKind.FULL
+    // 🌟 包体解码中途出错：缺失的 Topic 不能当作已删除
+    const complete = result.complete ?? true
+
+    // 不完整的增量帧无法应用 (补丁不能跳着打)，按丢帧处理
+    if (kind === FrameKind.DELTA && !complete) {
+        console.warn(`[LayerManager] Delta frame ${result.frameId} is incomplete; waiting for keyframe`)
+        this.lastSceneFrameId = null
+        this.emit('resync-required', result.frameId)
+        return
+    }
+
+    // 0. 增量帧校验：基准帧不连续说明中间丢了帧，丢弃直到下一个关键帧
+    if (kind === FrameKind.DELTA && (this.lastSceneFrameId === null || this.lastSceneFrameId !== result.baseFrameId)) {
+        console.warn(`[LayerManager] Delta frame ${result.frameId} expects base ${result.baseFrameId}, have ${this.lastSceneFrameId}; waiting for keyframe`)
+        this.lastSceneFrameId = null
+        this.emit('resync-required', result.frameId)
+        return
+    }
+
+    // 1. 更新坐标系与原点状态 (增量帧可能不含 F64 点列，沿用已有原点)
     this.currentCoordinateSystem = result.coordinateSystem
+    if (kind !== FrameKind.DELTA || result.origin) {
+        this.currentOrigin = result.origin ?? null
+    }
 
     // 2. 更新图层
     let hasChanges = false
@@ -76,16 +123,7 @@ export class LayerManager extends EventEmitter {
         let uiLayer = this.tree.find(l => l.id === dataLayer.id)
         
         if (!uiLayer) {
-            uiLayer = {
-                id: dataLayer.id,
-                rawId: dataLayer.id,
-                name: dataLayer.name || dataLayer.id,
-                type: 'layer',
-                visible: true,
-                viewMask: dataLayer.viewMask, // ✅ 从数据中获取 Mask
-                children: []
-            }
-            this.tree.push(uiLayer)
+            uiLayer = this.createLayer(dataLayer)
             hasChanges = true
         } else {
             // 如果 Mask 发生变化，也需要更新
@@ -97,6 +135,24 @@ export class LayerManager extends EventEmitter {
         
         const topicsChanged = this.updateLayerTopics(uiLayer, dataLayer.topics)
         if (topicsChanged) hasChanges = true
+
+        // 关键帧是完整场景：本图层中未出现的 Topic 已被删除
+        if (kind === FrameKind.KEYFRAME && complete && this.pruneTopics(uiLayer, new Set(dataLayer.topics.map(t => t.id)))) {
+            hasChanges = true
+        }
+    }
+
+    if (kind === FrameKind.KEYFRAME && complete && this.pruneLayers(new Set(decodedLayers.map(l => l.id)))) {
+        hasChanges = true
+    }
+
+    // 补丁没能全部应用：后续增量帧都不可信，丢弃直到下一个关键帧
+    if (this.resyncNeeded) {
+        this.resyncNeeded = false
+        this.lastSceneFrameId = null
+        this.emit('resync-required', result.frameId)
+    } else {
+        this.lastSceneFrameId = result.frameId
     }
     
     if (hasChanges) {
@@ -104,6 +160,21 @@ export class LayerManager extends EventEmitter {
     }
   }
 
+  private createLayer(dataLayer: Pick<DecodedLayer, 'id' | 'name' | 'viewMask'>): UINode {
+    const uiLayer: UINode = {
+        id: dataLayer.id,
+        rawId: dataLayer.id,
+        name: dataLayer.name || dataLayer.id,
+        type: 'layer',
+        visible: true,
+        viewMask: dataLayer.viewMask, // ✅ 从数据中获取 Mask
+        children: []
+    }
+    this.tree.push(uiLayer)
+    // 返回响应式代理，后续对 children 的修改才能刷新树面板
+    return this.tree[this.tree.length - 1]
+  }
+
   /**
    * 增量更新 Layer 下的 Topics
    */
@@ -121,9 +192,32 @@ export class LayerManager extends EventEmitter {
           // 构造 Topic 唯一路径：LayerID/TopicID
           const topicPath = `${uiLayer.id}/${dataTopic.id}`
           const existingTopic = existingTopicMap.get(topicPath)
-          const lastFrameId = this.topicFrameIndex.get(topicPath)
 
-          // 增量检测：FrameId 没变则跳过
+          switch (dataTopic.update) {
+              case TopicUpdateKind.UNCHANGED:
+                  continue
+
+              case TopicUpdateKind.REMOVE:
+                  if (existingTopic) {
+                      this.removeTopic(uiLayer, existingTopic)
+                      hasChanges = true
+                  }
+                  continue
+
+              case TopicUpdateKind.PATCH:
+                  if (!existingTopic) {
+                      console.warn(`[LayerManager] Patch for unknown topic ${topicPath}, ignored`)
+                      this.resyncNeeded = true
+                      continue
+                  }
+                  if (this.applyTopicPatches(existingTopic, dataTopic.patches ?? [])) hasChanges = true
+                  existingTopic.frameId = dataTopic.frameId
+                  this.topicFrameIndex.set(topicPath, dataTopic.frameId)
+                  continue
+          }
+
+          // REPLACE：增量检测，FrameId 没变则跳过
+          const lastFrameId = this.topicFrameIndex.get(topicPath)
           if (existingTopic && lastFrameId === dataTopic.frameId) {
               continue
           }
@@ -145,6 +239,7 @@ export class LayerManager extends EventEmitter {
               frameId: dataTopic.frameId,
               children: []
           }
+          this.nodeIndex.set(topicPath, uiTopic)
 
           // 递归构建子节点 (Group/Object)
           if (dataTopic.rootNode) {
@@ -168,6 +263,89 @@ export class LayerManager extends EventEmitter {
       return hasChanges
   }
 
+  /**
+   * 🌟 按对象 ID 应用补丁，只触碰变化的节点
+   */
+  private applyTopicPatches(uiTopic: UINode, patches: DecodedPatch[]): boolean {
+      let hasChanges = false
+
+      for (const patch of patches) {
+          const parent = patch.parentPath
+              ? this.findNode(`${uiTopic.id}/${patch.parentPath}`)
+              : uiTopic
+          if (!parent || !parent.children) {
+              console.warn(`[LayerManager] Patch parent not found: ${uiTopic.id}/${patch.parentPath}`)
+              this.resyncNeeded = true
+              continue
+          }
+
+          const targetId = `${parent.id}/${patch.id}`
+          const existing = this.findNode(targetId)
+
+          if (patch.op === PatchOp.REMOVE) {
+              if (existing) {
+                  this.removeNodeRecursively(existing)
+                  parent.children.splice(parent.children.indexOf(existing), 1)
+                  hasChanges = true
+              }
+              continue
+          }
+
+          // ADD / UPDATE：已存在则更新，不存在则追加 (两者都容忍对方的情况)
+          const node = patch.node!
+          hasChanges = true
+
+          // 对象 -> 对象：原地更新，保留 UI 节点
+          if (existing && existing.type === 'object' && node.nodeType === 'object') {
+              this.objectMap.set(targetId, node)
+              this.objectPaths.set(node, targetId)
+              existing.name = node.name || node.id
+              existing.visible = node.visible
+              existing.viewMask = node.viewMask
+              continue
+          }
+
+          // 先移除旧子树再登记新子树，否则同 ID 的新索引会被一并删掉
+          let index = parent.children.length
+          if (existing) {
+              index = parent.children.indexOf(existing)
+              this.removeNodeRecursively(existing)
+              parent.children.splice(index, 1)
+          }
+          const [uiNode] = this.mapDataToUINodes([node], parent.id)
+          parent.children.splice(index, 0, uiNode)
+      }
+      return hasChanges
+  }
+
+  // nodeIndex 存的是原始对象，修改前需取回响应式代理，否则树面板不会刷新
+  private findNode(uiId: string): UINode | undefined {
+      const node = this.nodeIndex.get(uiId)
+      return node ? reactive(node) as UINode : undefined
+  }
+
+  private removeTopic(uiLayer: UINode, uiTopic: UINode) {
+      this.removeNodeRecursively(uiTopic)
+      this.topicFrameIndex.delete(uiTopic.id)
+      const idx = uiLayer.children!.indexOf(uiTopic)
+      if (idx >= 0) uiLayer.children!.splice(idx, 1)
+  }
+
+  private pruneTopics(uiLayer: UINode, keepIds: Set<string>): boolean {
+      const stale = (uiLayer.children ?? []).filter(c => c.type === 'topic' && !keepIds.has(c.rawId))
+      stale.forEach(topic => this.removeTopic(uiLayer, topic))
+      return stale.length > 0
+  }
+
+  private pruneLayers(keepIds: Set<string>): boolean {
+      const stale = this.tree.filter(l => !keepIds.has(l.id) && !this.clientLayerIds.has(l.id))
+      for (const layer of stale) {
+          for (const topic of [...(layer.children ?? [])]) this.removeTopic(layer, topic)
+          this.tree.splice(this.tree.indexOf(layer), 1)
+      }
+      return stale.length > 0
+  }
+
   /**
    * 递归映射数据节点 -> UI 节点
    */
@@ -193,7 +371,7 @@ export class LayerManager extends EventEmitter {
 
           if (node.nodeType === 'group') {
               const groupData = node as DecodedGroup
-              uiNodes.push({
+              const uiGroup: UINode = {
                   id: uniquePath,
                   rawId: rawId,
                   name: groupData.name || rawId,
@@ -201,27 +379,33 @@ export class LayerManager extends EventEmitter {
                   visible: groupData.visible,
                   viewMask: groupData.viewMask, // ✅ 获取组的掩码
                   children: this.mapDataToUINodes(groupData.children, uniquePath)
-              })
+              }
+              this.nodeIndex.set(uniquePath, uiGroup)
+              uiNodes.push(uiGroup)
           } else if (node.nodeType === 'object') {
               const objectData = node as DecodedObject
               
               // 建立映射：UI 唯一路径 -> 原始数据对象
               this.objectMap.set(uniquePath, objectData)
+              this.objectPaths.set(objectData, uniquePath)
               
-              uiNodes.push({
+              const uiObject: UINode = {
                   id: uniquePath,
                   rawId: rawId,
                   name: objectData.name || rawId,
                   type: 'object',
                   visible: objectData.visible,
                   viewMask: objectData.viewMask // ✅ 获取对象的掩码
-              })
+              }
+              this.nodeIndex.set(uniquePath, uiObject)
+              uiNodes.push(uiObject)
           }
       }
       return uiNodes
   }
 
   private removeNodeRecursively(node: UINode) {
+      this.nodeIndex.delete(node.id)
       if (node.type === 'object') {
           this.objectMap.delete(node.id)
       }
@@ -232,8 +416,56 @@ export class LayerManager extends EventEmitter {
       }
   }
 
+  // ========== 🌟 [新增] 客户端图层 ==========
+
+  /**
+   * 更新客户端图层中的 Topic (与服务端场景的 REPLACE 语义相同，frameId 不变则跳过)
+   */
+  updateClientLayer(layer: Pick<DecodedLayer, 'id' | 'name' | 'viewMask' | 'topics'>) {
+    let uiLayer = this.tree.find(l => l.id === layer.id)
+    let hasChanges = false
+    if (!uiLayer) {
+        uiLayer = this.createLayer(layer)
+        this.clientLayerIds.add(layer.id)
+        hasChanges = true
+    }
+    if (this.updateLayerTopics(uiLayer, layer.topics)) hasChanges = true
+    if (hasChanges) this.emit('scene-updated')
+  }
+
+  /**
+   * 从客户端图层移除 Topic
+   */
+  removeClientTopic(layerId: string, topicId: string) {
+    const uiLayer = this.tree.find(l => l.id === layerId)
+    const uiTopic = uiLayer?.children?.find(c => c.type === 'topic' && c.rawId === topicId)
+    if (!uiLayer || !uiTopic) return
+    this.removeTopic(uiLayer, uiTopic)
+    this.emit('scene-updated')
+  }
+
+  /**
+   * 移除整个客户端图层
+   */
+  removeClientLayer(layerId: string) {
+    const uiLayer = this.tree.find(l => l.id === layerId)
+    this.clientLayerIds.delete(layerId)
+    if (!uiLayer) return
+    for (const topic of [...(uiLayer.children ?? [])]) this.removeTopic(uiLayer, topic)
+    this.tree.splice(this.tree.indexOf(uiLayer), 1)
+    this.emit('scene-updated')
+  }
+
   // ========== 公共 API ==========
 
+  /**
+   * 渲染坐标 -> 绝对坐标 (加回 F64 数据的平移原点)
+   */
+  toAbsolute(x: number, y: number, z: number = 0): Origin {
+    const o = this.currentOrigin
+    return o ? { x: x + o.x, y: y + o.y, z: z + o.z } : { x, y, z }
+  }
+
   /**
    * 根据 UI 路径获取对象
    */
@@ -241,6 +473,23 @@ export class LayerManager extends EventEmitter {
     return this.objectMap.get(uiId)
   }
 
+  /**
+   * 🌟 [新增] 根据渲染对象反查 UI 路径 (对象已不在场景中时返回 null)
+   */
+  getObjectPath(obj: DecodedObject): string | null {
+    const uiId = this.objectPaths.get(obj)
+    return uiId && this.objectMap.get(uiId) === obj ? uiId : null
+  }
+
+  /**
+   * 🌟 [新增] 渲染对象所在图层的 ID (按图层样式区分渲染方式)
+   */
+  getObjectLayer(obj: DecodedObject): string | null {
+    const uiId = this.objectPaths.get(obj)
+    if (!uiId) return null
+    return this.tree.find(l => uiId.startsWith(`${l.id}/`))?.id ?? null
+  }
+
   /**
    * 选中对象
    */
@@ -250,6 +499,23 @@ export class LayerManager extends EventEmitter {
     this.emit('selection-changed', uiId)
   }
 
+  /**
+   * 🌟 [新增] 请求各视图把视角对准对象 (默认当前选中对象)
+   */
+  focusObject(uiId: string | null = this.state.selectedId) {
+    if (!uiId || !this.objectMap.has(uiId)) return
+    this.emit('focus-requested', uiId)
+  }
+
+  /**
+   * 🌟 [新增] 悬停对象 (视图中鼠标指向的对象)
+   */
+  hoverObject(uiId: string | null) {
+    if (this.state.hoveredId === uiId) return
+    this.state.hoveredId = uiId
+    this.emit('hover-changed', uiId)
+  }
+
   /**
    * 🌟 [核心修改] 获取可渲染对象
    * @param targetView 当前视图类型 (VIEW_2D 或 VIEW_3D)
@@ -303,6 +569,10 @@ export class LayerManager extends EventEmitter {
     this.tree.splice(0, this.tree.length)
     this.objectMap.clear()
     this.topicFrameIndex.clear()
+    this.nodeIndex.clear()
+    this.clientLayerIds.clear()
+    this.lastSceneFrameId = null
+    this.currentOrigin = null
     this.state.selectedId = null
     this.state.hoveredId = null
     this.emit('scene-updated')
@@ -0,0 +1,135 @@
+// src/core/vis/PointColoring.ts
+
+import { reactive } from 'vue'
+import {
+  ChannelType,
+  CHANNEL_POSITION,
+  CHANNEL_INTENSITY,
+  CHANNEL_RGB,
+  CHANNEL_LABEL,
+  type DecodedPointList,
+  type PointChannel
+} from '@/core/protocol/PointListDecoder'
+import { ObjectType, type DecodedObject } from '@/core/protocol/VizDecoder'
+
+/**
+ * 点云着色 (2D / 3D 共用)
+ *
+ * 着色方式由通道决定：
+ *   rgb / color          -> 直接使用颜色 (UINT8 按 0~255 归一化)
+ *   label / class        -> 分类调色板
+ *   其他标量通道          -> 按本帧取值范围映射到冷暖色带
+ */
+
+export const POINT_COLOR_AUTO = 'auto'
+export const POINT_COLOR_SOLID = 'solid'
+
+export enum PointColorMode {
+  SOLID = 0,
+  RAMP = 1,
+  RGB = 2,
+  CATEGORY = 3
+}
+
+export interface ResolvedPointColoring {
+  mode: PointColorMode
+  channel: PointChannel | null
+  min: number
+  max: number
+}
+
+// 全局着色设置 (视图工具栏修改，渲染器每帧读取)
+export const pointColorSettings = reactive({
+  channel: POINT_COLOR_AUTO as string
+})
+
+// auto 模式下的通道优先级
+const AUTO_ORDER = [CHANNEL_RGB, 'color', CHANNEL_INTENSITY, CHANNEL_LABEL]
+const CATEGORY_CHANNELS = new Set([CHANNEL_LABEL, 'class', 'class_id', 'semantic'])
+const RGB_CHANNELS = new Set([CHANNEL_RGB, 'color', 'rgba'])
+
+// 色带两端 (与原点云 Shader 保持一致：青 -> 红)
+export const RAMP_LOW: [number, number, number] = [0, 1, 1]
+export const RAMP_HIGH: [number, number, number] = [1, 0, 0]
+
+// 分类调色板 (类别 ID 取模)
+export const CATEGORY_PALETTE: [number, number, number][] = [
+  [0.90, 0.30, 0.24], [0.18, 0.80, 0.44], [0.20, 0.60, 0.86], [0.95, 0.77, 0.06],
+  [0.61, 0.35, 0.71], [0.10, 0.74, 0.61], [0.90, 0.49, 0.13], [0.93, 0.44, 0.72],
+  [0.58, 0.65, 0.65], [0.55, 0.76, 0.29], [0.40, 0.23, 0.72], [0.99, 0.85, 0.67]
+]
+
+function modeForChannel(channel: PointChannel): PointColorMode {
+  if (RGB_CHANNELS.has(channel.name) && channel.components >= 3) return PointColorMode.RGB
+  if (CATEGORY_CHANNELS.has(channel.name)) return PointColorMode.CATEGORY
+  return PointColorMode.RAMP
+}
+
+/**
+ * 计算某通道第一个分量的取值范围
+ */
+export function computeChannelRange(points: DecodedPointList, channel: PointChannel): { min: number, max: number } {
+  const { data, stride, count } = points
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0, idx = channel.offset; i < count; i++, idx += stride) {
+    const v = data[idx]
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return { min: 0, max: 1 }
+  if (max === min) max = min + 1
+  return { min, max }
+}
+
+/**
+ * 根据设置选择着色通道；指定通道不存在时退化为纯色
+ */
+export function resolvePointColoring(points: DecodedPointList, requested: string = pointColorSettings.channel): ResolvedPointColoring {
+  let channel: PointChannel | undefined
+  if (requested === POINT_COLOR_AUTO) {
+    for (const name of AUTO_ORDER) {
+      channel = points.channels.find(c => c.name === name)
+      if (channel) break
+    }
+  } else if (requested !== POINT_COLOR_SOLID && requested !== CHANNEL_POSITION) {
+    channel = points.channels.find(c => c.name === requested)
+  }
+
+  if (!channel) return { mode: PointColorMode.SOLID, channel: null, min: 0, max: 1 }
+
+  const mode = modeForChannel(channel)
+  if (mode === PointColorMode.RAMP) {
+    return { mode, channel, ...computeChannelRange(points, channel) }
+  }
+  // RGB：UINT8 需要 /255，浮点颜色约定为 0~1
+  const max = mode === PointColorMode.RGB && channel.type === ChannelType.UINT8 ? 255 : 1
+  return { mode, channel, min: 0, max }
+}
+
+export function rampColor(t: number, out: [number, number, number]): [number, number, number] {
+  const k = Math.min(1, Math.max(0, t))
+  out[0] = RAMP_LOW[0] + (RAMP_HIGH[0] - RAMP_LOW[0]) * k
+  out[1] = RAMP_LOW[1] + (RAMP_HIGH[1] - RAMP_LOW[1]) * k
+  out[2] = RAMP_LOW[2] + (RAMP_HIGH[2] - RAMP_LOW[2]) * k
+  return out
+}
+
+export function categoryColor(id: number): [number, number, number] {
+  const n = CATEGORY_PALETTE.length
+  return CATEGORY_PALETTE[((Math.round(id) % n) + n) % n]
+}
+
+/**
+ * 收集当前场景点云中出现过的可着色通道名 (供工具栏下拉框使用)
+ */
+export function collectPointChannels(objects: DecodedObject[]): string[] {
+  const names = new Set<string>()
+  for (const obj of objects) {
+    if (obj.type !== ObjectType.POINT_CLOUD || !obj.points) continue
+    for (const c of obj.points.channels) {
+      if (c.name !== CHANNEL_POSITION) names.add(c.name)
+    }
+  }
+  return [...names]
+}
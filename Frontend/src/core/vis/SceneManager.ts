@@ -3,6 +3,7 @@
 import { EventEmitter } from '@/core/EventEmitter'
 import { VizDecoder, type DecodeResult } from '../protocol/VizDecoder'
 import { layerManager } from './LayerManager'
+import type { NegotiatedProtocol } from '../protocol/ProtocolCapabilities'
 
 export class SceneManager extends EventEmitter {
   private static instance: SceneManager
@@ -18,10 +19,10 @@ export class SceneManager extends EventEmitter {
    * 处理二进制原始数据 (同步解析)
    * 注意：在高并发场景下尽量不要使用此方法，应走 DataBus 的 Worker 通道
    */
-  handleBinaryMessage(buffer: ArrayBuffer) {
+  handleBinaryMessage(buffer: ArrayBuffer, protocol?: NegotiatedProtocol) {
     try {
       // 1. 解析数据
-      const result = VizDecoder.decode(buffer)
+      const result = VizDecoder.decode(buffer, protocol)
       
       // 2. 复用更新逻辑
       this.handleDecodedFrame(result)
@@ -0,0 +1,216 @@
+// src/core/vis/SchemaVizLayer.ts
+
+import { watch, type WatchStopHandle } from 'vue'
+import { dataManager, type DataUpdateEvent } from '@/core/data/DataManager'
+import {
+  ObjectType,
+  SubType,
+  ViewMask,
+  TopicUpdateKind,
+  type DecodedGroup,
+  type DecodedObject
+} from '@/core/protocol/VizDecoder'
+import { ChannelType, CHANNEL_POSITION, PointFormat, type Origin } from '@/core/protocol/PointListDecoder'
+import type { Point3D, RenderableObject } from '@/core/types/viz-standard'
+import { layerManager } from './LayerManager'
+import { schemaVizRules, topicsWithRules } from './SchemaVizRules'
+
+export const SCHEMA_VIZ_LAYER_ID = 'client:schema-viz'
+const SCHEMA_VIZ_LAYER_NAME = 'Schema 映射'
+
+/**
+ * Schema 映射图层 (客户端图层)
+ *
+ * 订阅 DataManager 的逐帧解析结果，经当前驱动的适配器 (SchemaAdapter) 转为 RenderableObject，
+ * 再转换成场景对象写入 LayerManager，2D / 3D 视图与服务端场景走同一条渲染路径。
+ * 由可视化视图挂载时 attach、卸载时 detach (引用计数)，最后一个视图卸载后图层一并移除
+ */
+export class SchemaVizLayer {
+  private static instance: SchemaVizLayer
+
+  private refCount = 0
+  private stopWatch: WatchStopHandle | null = null
+  private frameSeq = 0n
+  // 当前图层中已有对象的 Topic
+  private activeTopics = new Set<string>()
+
+  private constructor() {}
+
+  static getInstance(): SchemaVizLayer {
+    if (!this.instance) this.instance = new SchemaVizLayer()
+    return this.instance
+  }
+
+  attach() {
+    if (this.refCount++ > 0) return
+    dataManager.on('data-parsed', this.handleParsed)
+    dataManager.on('topic-cleared', this.handleCleared)
+    // 规则变化后用各 Topic 的最新数据立即重建
+    this.stopWatch = watch(schemaVizRules, () => this.refreshAll(), { deep: true })
+    this.refreshAll()
+  }
+
+  detach() {
+    if (this.refCount === 0 || --this.refCount > 0) return
+    dataManager.off('data-parsed', this.handleParsed)
+    dataManager.off('topic-cleared', this.handleCleared)
+    this.stopWatch?.()
+    this.stopWatch = null
+    this.activeTopics.clear()
+    layerManager.removeClientLayer(SCHEMA_VIZ_LAYER_ID)
+  }
+
+  private handleParsed = (event: DataUpdateEvent) => {
+    this.refresh(event.topicKey, event.timestamp)
+  }
+
+  private handleCleared = (topicKey: string) => {
+    if (this.activeTopics.delete(topicKey)) {
+      layerManager.removeClientTopic(SCHEMA_VIZ_LAYER_ID, topicKey)
+    }
+  }
+
+  private refreshAll() {
+    const topicKeys = new Set([...this.activeTopics, ...topicsWithRules()])
+    topicKeys.forEach(topicKey => this.refresh(topicKey))
+  }
+
+  private refresh(topicKey: string, timestamp?: number) {
+    const data = dataManager.getParsedData(topicKey)
+    const adapter = data ? dataManager.getAdapter(topicKey) : undefined
+    const renderables = adapter && data
+      ? adapter.transform(data, { topicKey, timestamp: timestamp ?? dataManager.getRawData(topicKey)?.timestamp })
+      : []
+
+    if (renderables.length === 0) {
+      this.handleCleared(topicKey)
+      return
+    }
+
+    const origin = layerManager.currentOrigin
+    const root: DecodedGroup = {
+      nodeType: 'group',
+      id: topicKey,
+      name: topicKey,
+      visible: true,
+      viewMask: ViewMask.ALL,
+      properties: {},
+      children: renderables
+        .map(r => toDecodedObject(r, origin))
+        .filter((obj): obj is DecodedObject => obj !== null)
+    }
+
+    layerManager.updateClientLayer({
+      id: SCHEMA_VIZ_LAYER_ID,
+      name: SCHEMA_VIZ_LAYER_NAME,
+      viewMask: ViewMask.ALL,
+      topics: [{ id: topicKey, frameId: ++this.frameSeq, update: TopicUpdateKind.REPLACE, rootNode: root }]
+    })
+    this.activeTopics.add(topicKey)
+  }
+}
+
+export const schemaVizLayer = SchemaVizLayer.getInstance()
+
+// ========== RenderableObject -> 场景对象 ==========
+
+// 点 / 文本的默认尺寸 (米)
+const POINT_SIZE = 0.4
+const LINE_WIDTH = 0.15
+
+function parseColor(color: string | undefined, opacity = 1): DecodedObject['color'] {
+  const m = /^#?([0-9a-f]{6})$/i.exec(color ?? '')
+  const rgb = m ? parseInt(m[1], 16) : 0xffffff
+  return { r: (rgb >> 16) & 0xff, g: (rgb >> 8) & 0xff, b: rgb & 0xff, a: Math.round(opacity * 255) }
+}
+
+/**
+ * 场景中 F64 数据以帧原点为基准，客户端对象的绝对坐标需要减去同一原点
+ */
+function rebase(p: Point3D, origin: Origin | null): Point3D {
+  return origin ? { x: p.x - origin.x, y: p.y - origin.y, z: p.z - origin.z } : { x: p.x, y: p.y, z: p.z }
+}
+
+function pointList(points: Point3D[], origin: Origin | null): NonNullable<DecodedObject['points']> {
+  const data = new Float32Array(points.length * 3)
+  points.forEach((p, i) => {
+    const q = rebase(p, origin)
+    data[i * 3] = q.x
+    data[i * 3 + 1] = q.y
+    data[i * 3 + 2] = q.z
+  })
+  return {
+    format: PointFormat.XYZ_F32,
+    count: points.length,
+    data,
+    stride: 3,
+    channels: [{ name: CHANNEL_POSITION, offset: 0, components: 3, type: ChannelType.FLOAT32 }]
+  }
+}
+
+export function toDecodedObject(r: RenderableObject, origin: Origin | null): DecodedObject | null {
+  const style = r.style ?? {}
+  const properties: Record<string, string> = {}
+  for (const [key, value] of Object.entries(r.meta ?? {})) properties[key] = String(value)
+
+  const object: DecodedObject = {
+    nodeType: 'object',
+    id: r.id,
+    name: r.id,
+    visible: style.visible ?? true,
+    viewMask: ViewMask.ALL,
+    properties,
+    type: ObjectType.UNKNOWN,
+    subType: SubType.DEFAULT,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    size: { x: 0, y: 0, z: 0 },
+    color: parseColor(style.color ?? style.strokeColor ?? style.fillColor, style.opacity)
+  }
+
+  switch (r.type) {
+    case 'point':
+      object.type = ObjectType.SPHERE
+      object.position = rebase(r.position, origin)
+      object.size = { x: style.size ?? POINT_SIZE, y: style.size ?? POINT_SIZE, z: style.size ?? POINT_SIZE }
+      return object
+
+    case 'circle':
+      object.type = ObjectType.SPHERE
+      object.position = rebase(r.center, origin)
+      object.size = { x: r.radius * 2, y: r.radius * 2, z: r.radius * 2 }
+      return object
+
+    case 'line':
+    case 'polyline': {
+      const points = r.type === 'line' ? [r.start, r.end] : r.points
+      object.type = ObjectType.POLYLINE
+      object.points = pointList(r.type === 'polyline' && r.closed ? [...points, points[0]] : points, origin)
+      object.size = { x: style.strokeWidth ?? LINE_WIDTH, y: 0, z: 0 }
+      return object
+    }
+
+    case 'polygon':
+      object.type = ObjectType.POLYGON
+      object.points = pointList(r.points, origin)
+      return object
+
+    case 'box':
+      object.type = ObjectType.CUBE
+      object.position = rebase(r.position, origin)
+      object.size = { ...r.size }
+      object.rotation = { ...(r.rotation ?? object.rotation) }
+      return object
+
+    case 'text':
+      object.type = ObjectType.TEXT
+      object.name = r.text
+      object.position = rebase(r.position, origin)
+      object.properties.text = r.text
+      return object
+
+    default:
+      // 图像 / 模型需要外部资源，客户端图层暂不支持
+      return null
+  }
+}
@@ -0,0 +1,113 @@
+// src/core/vis/SchemaVizRules.ts
+
+import { reactive, watch } from 'vue'
+import type { TopicSchema } from '@/core/types/common'
+
+/**
+ * Schema 可视化映射规则 (用户配置，SchemaAdapter 按规则把 Topic 字段转为渲染对象)
+ *
+ * 字段路径沿用 Schema 的点号写法，"[]" 表示展开数组的每个元素：
+ *   objects[].position  -> 每个障碍物一个位置 ({x,y,z} 或 [x,y,z])
+ *   path.points         -> 一条多段线的点列
+ *   lanes[].points      -> 每条车道线一条多段线
+ * 同一规则内各字段按展开后的下标一一对应，只有一个值的字段 (未展开) 对所有元素共用
+ */
+
+export type SchemaVizKind = 'point' | 'polyline' | 'box' | 'text'
+
+export interface SchemaVizRule {
+  id: string
+  topicKey: string
+  kind: SchemaVizKind
+  enabled: boolean
+  position?: string  // point / box / text：位置
+  points?: string    // polyline：点列
+  size?: string      // box：尺寸 ({x,y,z}、{length,width,height} 或 [l,w,h])
+  heading?: string   // box：航向角 (弧度)
+  label?: string     // text：文本内容；point / box：附加的文本标签
+  color?: string     // '#rrggbb'，不填时按类型取默认色
+}
+
+export const SCHEMA_VIZ_KIND_LABELS: Record<SchemaVizKind, string> = {
+  point: '点',
+  polyline: '多段线',
+  box: '包围盒',
+  text: '文本'
+}
+
+const STORAGE_KEY = 'schema_viz_rules_v1'
+
+function loadFromStorage(): SchemaVizRule[] {
+  try {
+    const json = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+    const parsed = json ? JSON.parse(json) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch (e) {
+    console.error('[SchemaVizRules] Failed to load rules:', e)
+    return []
+  }
+}
+
+// 全部规则 (规则编辑框修改，SchemaAdapter 读取)
+export const schemaVizRules = reactive<SchemaVizRule[]>(loadFromStorage())
+
+watch(schemaVizRules, () => {
+  if (typeof localStorage === 'undefined') return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schemaVizRules))
+}, { deep: true })
+
+let nextRuleSeq = 0
+
+/**
+ * 某 Topic 已启用的规则
+ */
+export function rulesForTopic(topicKey: string): SchemaVizRule[] {
+  return schemaVizRules.filter(rule => rule.enabled && rule.topicKey === topicKey)
+}
+
+/**
+ * 配置了规则 (含未启用) 的 Topic
+ */
+export function topicsWithRules(): string[] {
+  return Array.from(new Set(schemaVizRules.map(rule => rule.topicKey)))
+}
+
+export function addSchemaVizRule(topicKey: string, kind: SchemaVizKind): SchemaVizRule {
+  schemaVizRules.push({
+    id: `rule_${Date.now().toString(36)}_${nextRuleSeq++}`,
+    topicKey,
+    kind,
+    enabled: true
+  })
+  return schemaVizRules[schemaVizRules.length - 1]
+}
+
+export function removeSchemaVizRule(id: string): void {
+  const idx = schemaVizRules.findIndex(rule => rule.id === id)
+  if (idx >= 0) schemaVizRules.splice(idx, 1)
+}
+
+/**
+ * 由 Schema 生成可选的字段路径 (规则编辑时的补全候选)
+ * Schema 中 "objects[]" 为重复字段本身、"objects.id" 为其元素字段，这里统一写成 "objects[].id"
+ */
+export function fieldPathsOf(schema: TopicSchema): string[] {
+  const repeated = new Set(
+    schema.fields.filter(f => f.repeated).map(f => f.path.replace(/\[\]$/, ''))
+  )
+  const paths: string[] = []
+
+  for (const field of schema.fields) {
+    const segments = field.path.replace(/\[\]$/, '').split('.')
+    let prefix = ''
+    const parts = segments.map((segment, i) => {
+      prefix = prefix ? `${prefix}.${segment}` : segment
+      return i < segments.length - 1 && repeated.has(prefix) ? `${segment}[]` : segment
+    })
+    const path = parts.join('.')
+    paths.push(path)
+    // 重复的消息字段既可整体取用 (点列)，也可逐个展开 (每个元素一个对象)
+    if (field.repeated && field.type === 'message') paths.push(`${path}[]`)
+  }
+  return paths
+}
@@ -0,0 +1,76 @@
+// src/drivers/foxglove/ChannelDecoder.ts
+
+import type { TopicSchema } from '@/core/types/common'
+import { DescriptorPool, decodeMessage } from '@/drivers/mcap/codec/Protobuf'
+import {
+  FieldIdMapper,
+  inferSchema,
+  schemaFromDescriptor,
+  schemaFromJsonSchema
+} from '@/drivers/mcap/codec/FieldMapping'
+import type { FoxgloveChannel } from './protocol'
+
+const textDecoder = new TextDecoder()
+
+/**
+ * 单个 Foxglove 通道的解码器：把 messageData 负载转换为以字段 ID 为键的 TopicData.data
+ *
+ * 编码支持与 MCAP 驱动一致 (protobuf / json)，复用其描述符解析与字段映射；
+ * 没有 JSON Schema 的 json 通道在收到第一条消息时推断字段，之前 schema 为 null
+ */
+export class ChannelDecoder {
+  private mapper: FieldIdMapper | null = null
+  private parse: (payload: Uint8Array) => Record<string, any>
+
+  private constructor(
+    private channel: FoxgloveChannel,
+    public schema: TopicSchema | null,
+    parse: (payload: Uint8Array) => Record<string, any>
+  ) {
+    this.parse = parse
+    if (schema) this.mapper = new FieldIdMapper(schema)
+  }
+
+  /**
+   * @throws 编码不支持或 Schema 无法解析时抛出
+   */
+  static create(channel: FoxgloveChannel): ChannelDecoder {
+    if (channel.encoding === 'protobuf') {
+      const pool = DescriptorPool.fromFileDescriptorSet(decodeBase64(channel.schema))
+      const type = pool.get(channel.schemaName)
+      if (!type) throw new Error(`Message type ${channel.schemaName} not found in schema`)
+      return new ChannelDecoder(channel, schemaFromDescriptor(pool, type), payload => decodeMessage(pool, type, payload))
+    }
+
+    if (channel.encoding === 'json') {
+      const encoding = channel.schemaEncoding ?? 'jsonschema'
+      if (encoding !== 'jsonschema') throw new Error(`Unsupported schema encoding: ${encoding}`)
+      const schema = channel.schema ? schemaFromJsonSchema(channel.schemaName, JSON.parse(channel.schema)) : null
+      return new ChannelDecoder(channel, schema, payload => JSON.parse(textDecoder.decode(payload)))
+    }
+
+    const encoding = channel.schemaEncoding ? `${channel.encoding} (${channel.schemaEncoding})` : channel.encoding
+    throw new Error(`Unsupported message encoding: ${encoding}`)
+  }
+
+  /**
+   * @returns 以字段 ID 为键的数据；schemaInferred 表示本条消息首次确定了 schema
+   */
+  decode(payload: Uint8Array): { data: Record<string, any>; schemaInferred: boolean } {
+    const message = this.parse(payload)
+    let schemaInferred = false
+    if (!this.mapper) {
+      this.schema = inferSchema(this.channel.schemaName || this.channel.topic, [message])
+      this.mapper = new FieldIdMapper(this.schema)
+      schemaInferred = true
+    }
+    return { data: this.mapper.map(message), schemaInferred }
+  }
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
@@ -0,0 +1,545 @@
+// src/drivers/foxglove/FoxgloveTransport.ts
+
+import { EventEmitter } from '@/core/EventEmitter'
+import { MessageType, PlaybackCommand, SubscriptionCommand } from '@/core/types/message'
+import type { Message } from '@/core/types/message'
+import type { DataTransport } from '@/core/types/transport'
+import type { RawTextInfo } from '@/core/WebSocketClient'
+import type { InitInfo, PlaybackStatus } from '@/types/playback'
+import { ChannelDecoder } from './ChannelDecoder'
+import {
+  FOXGLOVE_SUBPROTOCOL,
+  FoxgloveCapability,
+  FoxglovePlaybackCommand,
+  FoxglovePlaybackStatus,
+  FoxgloveStatusLevel,
+  ServerBinaryOpcode,
+  encodePlaybackControl,
+  parseServerBinary,
+  timeToSeconds,
+  type FoxgloveChannel,
+  type FoxgloveClientMessage,
+  type FoxgloveServerMessage,
+  type MessageDataFrame,
+  type PlaybackStateFrame,
+  type ServerInfoMessage
+} from './protocol'
+
+// Foxglove 协议以时间为主轴：按固定步长换算出帧号，供进度条与单步使用
+const FRAME_STEP = 0.1
+// 服务端时间推送很频繁，PLAYBACK_STATUS 至多按此间隔广播
+const STATUS_INTERVAL_MS = 200
+// 控制请求等待服务端 playbackState 应答的时长，超时按失败回复
+const CONTROL_TIMEOUT_MS = 5000
+
+interface PendingControl {
+  command: string
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface ChannelEntry {
+  channel: FoxgloveChannel
+  topicKey: string
+  decoder: ChannelDecoder
+  sequence: number        // 已收到的消息数，作为 TopicData.frame_id
+}
+
+/**
+ * Foxglove WebSocket 传输层 (foxglove.websocket.v1)
+ *
+ * 与 OfflineReplayTransport 一样在本地扮演回放服务端：
+ *   advertise / unadvertise  -> INIT_INFO.available_keys 与 AVAILABLE_TOPICS 推送
+ *   SUBSCRIBE_TOPIC          -> subscribe，messageData 解码后作为 TOPIC_DATA 推送
+ *   time / playbackState     -> PLAYBACK_STATUS
+ *   播放控制                  -> Playback Control Request (服务端声明 playbackControl 时)
+ * 不支持 playbackControl 的实时服务端只能在本地暂停 (由数据闸门丢弃消息)，跳转与变速返回失败
+ */
+export class FoxgloveTransport extends EventEmitter implements DataTransport {
+  private ws: WebSocket | null = null
+  private url = ''
+  private serverInfo: ServerInfoMessage | null = null
+  private helloPending = false
+  private initialized = false
+
+  private channels = new Map<number, ChannelEntry>()
+  private byTopic = new Map<string, ChannelEntry>()
+  private subscriptions = new Map<number, ChannelEntry>()   // subscriptionId -> 通道
+  private subscriptionIds = new Map<string, number>()       // topicKey -> subscriptionId
+  private nextSubscriptionId = 1
+  private latest = new Map<string, { frame_id: number; timestamp: number; data: Record<string, any> }>()
+  private pendingSchemas = new Map<string, Array<string | undefined>>()
+
+  private isPlaying = true
+  private speed = 1.0
+  private currentTime: number | null = null
+  private startTime: number | null = null
+  private endTime: number | null = null
+  private pendingControls = new Map<string, PendingControl>() // 控制请求 ID -> 命令
+  private nextControlId = 1
+  private lastStatusAt = 0
+
+  // ========== DataTransport ==========
+
+  async connect(url: string): Promise<void> {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      console.warn('[Foxglove] Already connected')
+      return
+    }
+    this.reset()
+    this.url = url
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, FOXGLOVE_SUBPROTOCOL)
+      ws.binaryType = 'arraybuffer'
+      this.ws = ws
+
+      ws.onopen = () => {
+        if (ws.protocol !== FOXGLOVE_SUBPROTOCOL) {
+          ws.close()
+          reject(new Error(`Server did not accept subprotocol ${FOXGLOVE_SUBPROTOCOL}`))
+          return
+        }
+        this.emit('connected', { url })
+        resolve()
+      }
+      ws.onerror = (error) => {
+        console.error('[Foxglove] Error:', error)
+        this.emit('error', { error })
+        reject(error)
+      }
+      ws.onclose = (event) => {
+        if (this.ws === ws) this.ws = null
+        this.initialized = false
+        this.clearPendingControls()
+        this.emit('disconnected', { code: event.code, reason: event.reason })
+      }
+      ws.onmessage = (event) => {
+        if (typeof event.data === 'string') this.handleServerText(event.data)
+        else if (event.data instanceof ArrayBuffer) this.handleServerBinary(event.data)
+      }
+    })
+  }
+
+  disconnect(): void {
+    this.ws?.close()
+    this.ws = null
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN
+  }
+
+  getUrl(): string {
+    return this.url
+  }
+
+  send(message: any): boolean {
+    if (!this.isConnected()) return false
+    // 与 OfflineReplayTransport 相同：本地应答推迟到调用方注册响应处理之后
+    setTimeout(() => {
+      if (this.isConnected()) this.handleCommand(message)
+    }, 0)
+    return true
+  }
+
+  private reset() {
+    this.serverInfo = null
+    this.helloPending = false
+    this.initialized = false
+    this.channels.clear()
+    this.byTopic.clear()
+    this.subscriptions.clear()
+    this.subscriptionIds.clear()
+    this.latest.clear()
+    this.pendingSchemas.clear()
+    this.clearPendingControls()
+    this.isPlaying = true
+    this.speed = 1.0
+    this.currentTime = this.startTime = this.endTime = null
+  }
+
+  private sendToServer(message: FoxgloveClientMessage | Uint8Array) {
+    if (!this.isConnected()) return
+    this.ws!.send(message instanceof Uint8Array ? message : JSON.stringify(message))
+  }
+
+  private get canControlPlayback(): boolean {
+    return this.serverInfo?.capabilities.includes(FoxgloveCapability.PLAYBACK_CONTROL) ?? false
+  }
+
+  // ========== 服务端消息 ==========
+
+  private handleServerText(raw: string) {
+    let message: FoxgloveServerMessage
+    try {
+      message = JSON.parse(raw)
+    } catch (error) {
+      console.warn('[Foxglove] Invalid JSON message:', error)
+      return
+    }
+
+    switch (message.op) {
+      case 'serverInfo': return this.handleServerInfo(message)
+      case 'advertise': return this.handleAdvertise(message.channels)
+      case 'unadvertise': return this.handleUnadvertise(message.channelIds)
+      case 'status':
+        if (message.level === FoxgloveStatusLevel.ERROR) {
+          this.sendError(message.message, 'SERVER_STATUS')
+        } else {
+          console[message.level === FoxgloveStatusLevel.WARNING ? 'warn' : 'log'](`[Foxglove] ${message.message}`)
+        }
+        return
+    }
+  }
+
+  private handleServerInfo(info: ServerInfoMessage) {
+    this.serverInfo = { ...info, capabilities: info.capabilities ?? [] }
+    this.startTime = timeToSeconds(info.dataStartTime) ?? null
+    this.endTime = timeToSeconds(info.dataEndTime) ?? null
+    // 可控回放以 playbackState 为准 (初始视为暂停)，实时服务端一直在推送
+    this.isPlaying = !this.canControlPlayback
+    if (this.helloPending) this.sendInitInfo()
+  }
+
+  private handleAdvertise(channels: FoxgloveChannel[]) {
+    for (const channel of channels) {
+      if (this.channels.has(channel.id)) continue
+      try {
+        const decoder = ChannelDecoder.create(channel)
+        const topicKey = this.byTopic.has(channel.topic) ? `${channel.topic}#${channel.id}` : channel.topic
+        const entry: ChannelEntry = { channel, topicKey, decoder, sequence: 0 }
+        this.channels.set(channel.id, entry)
+        this.byTopic.set(topicKey, entry)
+      } catch (error: any) {
+        console.warn(`[Foxglove] Skipped channel ${channel.topic}: ${error?.message ?? error}`)
+      }
+    }
+    this.broadcastTopics()
+  }
+
+  private handleUnadvertise(channelIds: number[]) {
+    for (const id of channelIds) {
+      const entry = this.channels.get(id)
+      if (!entry) continue
+      this.channels.delete(id)
+      this.byTopic.delete(entry.topicKey)
+      this.latest.delete(entry.topicKey)
+      const subscriptionId = this.subscriptionIds.get(entry.topicKey)
+      if (subscriptionId !== undefined) {
+        this.subscriptionIds.delete(entry.topicKey)
+        this.subscriptions.delete(subscriptionId)
+      }
+    }
+    this.broadcastTopics()
+  }
+
+  private handleServerBinary(buffer: ArrayBuffer) {
+    let parsed
+    try {
+      parsed = parseServerBinary(buffer)
+    } catch (error) {
+      console.warn('[Foxglove] Invalid binary message:', error)
+      return
+    }
+    if (!parsed) return
+
+    switch (parsed.op) {
+      case ServerBinaryOpcode.MESSAGE_DATA: return this.handleMessageData(parsed.message)
+      case ServerBinaryOpcode.TIME:
+        this.updateTime(parsed.timestamp)
+        return
+      case ServerBinaryOpcode.PLAYBACK_STATE: return this.handlePlaybackState(parsed.state)
+    }
+  }
+
+  private handleMessageData(message: MessageDataFrame) {
+    const entry = this.subscriptions.get(message.subscriptionId)
+    if (!entry) return
+
+    let decoded
+    try {
+      decoded = entry.decoder.decode(message.payload)
+    } catch (error: any) {
+      console.warn(`[Foxglove] Failed to decode message on ${entry.topicKey}: ${error?.message ?? error}`)
+      return
+    }
+
+    // 服务端不推送时间时以消息时间戳为当前时间
+    if (!this.serverInfo?.capabilities.includes(FoxgloveCapability.TIME)) this.updateTime(message.timestamp)
+
+    if (decoded.schemaInferred) {
+      this.emitMessage({ type: MessageType.TOPIC_SCHEMA, topic_key: entry.topicKey, schema: entry.decoder.schema })
+      this.pendingSchemas.get(entry.topicKey)?.forEach(requestId => this.respondTopicSchema(entry.topicKey, requestId))
+      this.pendingSchemas.delete(entry.topicKey)
+    }
+
+    const topicData = { frame_id: ++entry.sequence, timestamp: message.timestamp, data: decoded.data }
+    this.latest.set(entry.topicKey, topicData)
+    this.emitMessage({ type: MessageType.TOPIC_DATA, topic_key: entry.topicKey, ...topicData })
+  }
+
+  private handlePlaybackState(state: PlaybackStateFrame) {
+    this.isPlaying = state.status === FoxglovePlaybackStatus.PLAYING || state.status === FoxglovePlaybackStatus.BUFFERING
+    this.speed = state.playbackSpeed > 0 ? state.playbackSpeed : this.speed
+    this.currentTime = state.currentTime
+    // 跳转后缓存的消息属于旧时刻
+    if (state.didSeek) this.latest.clear()
+
+    const pending = state.requestId !== null ? this.pendingControls.get(state.requestId) : undefined
+    if (pending) {
+      clearTimeout(pending.timer)
+      this.pendingControls.delete(state.requestId!)
+      this.sendAck(pending.command, true)
+    }
+    this.broadcastStatus()
+  }
+
+  private updateTime(timestamp: number) {
+    this.currentTime = timestamp
+    if (this.startTime === null) this.startTime = timestamp
+    const now = performance.now()
+    if (now - this.lastStatusAt >= STATUS_INTERVAL_MS) this.broadcastStatus()
+  }
+
+  // ========== 本地命令 ==========
+
+  private handleCommand(message: any) {
+    const type: string = message?.type
+    const params = message?.params ?? {}
+    const requestId: string | undefined = params._requestId
+
+    if (type === MessageType.HELLO) {
+      if (this.serverInfo) this.sendInitInfo()
+      else this.helloPending = true
+      return
+    }
+    if (type === 'HEARTBEAT') return
+
+    switch (type) {
+      case PlaybackCommand.PLAY: return this.commandPlayback(type, FoxglovePlaybackCommand.PLAY)
+      case PlaybackCommand.PAUSE: return this.commandPlayback(type, FoxglovePlaybackCommand.PAUSE)
+      case PlaybackCommand.STOP: return this.commandSeek(type, this.rangeStart(), FoxglovePlaybackCommand.PAUSE)
+      case PlaybackCommand.RESET:
+        if (this.canControlPlayback) this.speed = 1.0
+        return this.commandSeek(type, this.rangeStart(), FoxglovePlaybackCommand.PAUSE)
+      case PlaybackCommand.NEXT_FRAME: return this.commandSeek(type, this.timeOfFrame(this.currentFrame() + 1))
+      case PlaybackCommand.PREV_FRAME: return this.commandSeek(type, this.timeOfFrame(this.currentFrame() - 1))
+      case PlaybackCommand.SEEK_FRAME: return this.commandSeek(type, this.timeOfFrame(Number(params.frame_id)))
+      case PlaybackCommand.SEEK_TIME: return this.commandSeek(type, Number(params.timestamp))
+      case PlaybackCommand.SEEK_PROGRESS:
+        return this.commandSeek(type, this.rangeStart() + Number(params.progress) * (this.rangeEnd() - this.rangeStart()))
+      case PlaybackCommand.SET_SPEED: return this.commandSetSpeed(Number(params.multiplier))
+      case PlaybackCommand.GET_STATUS:
+        this.broadcastStatus()
+        return
+
+      case SubscriptionCommand.SUBSCRIBE_TOPIC: return this.commandSubscribe(params.topic_key)
+      case SubscriptionCommand.GET_AVAILABLE_TOPICS:
+        this.emitMessage({
+          type: MessageType.AVAILABLE_TOPICS,
+          available_keys: [...this.byTopic.keys()],
+          ...(requestId && { _requestId: requestId })
+        })
+        return
+      case SubscriptionCommand.GET_TOPIC_SCHEMA: return this.commandTopicSchema(params.topic_key, requestId)
+      case SubscriptionCommand.GET_TOPIC_DATA: return this.respondTopicData(params.topic_key, requestId)
+    }
+
+    this.sendError(`Unknown command: ${type}`, 'UNKNOWN_COMMAND', requestId)
+  }
+
+  private sendInitInfo() {
+    this.helloPending = false
+    const info: InitInfo = {
+      server_version: `${this.serverInfo!.name} (${FOXGLOVE_SUBPROTOCOL})`,
+      available_keys: [...this.byTopic.keys()],
+      initial_status: this.buildStatus()
+    }
+    this.initialized = true
+    this.emitMessage({ type: MessageType.INIT_INFO, data: info })
+  }
+
+  private commandPlayback(command: string, playbackCommand: FoxglovePlaybackCommand) {
+    if (this.canControlPlayback) {
+      const seekTime = playbackCommand === FoxglovePlaybackCommand.PLAY && this.currentTime !== null && this.currentTime >= this.rangeEnd()
+        ? this.rangeStart()   // 已播放到末尾，从头开始
+        : null
+      this.sendControl(command, playbackCommand, seekTime)
+      return
+    }
+    // 实时数据无法让服务端暂停：只改变本地状态，数据由 DataBus 的闸门丢弃
+    this.isPlaying = playbackCommand === FoxglovePlaybackCommand.PLAY
+    this.sendAck(command, true, this.isPlaying ? 'OK' : 'Live stream paused locally')
+    this.broadcastStatus()
+  }
+
+  private commandSeek(command: string, time: number, playbackCommand?: FoxglovePlaybackCommand) {
+    if (!this.canControlPlayback) {
+      if (playbackCommand === FoxglovePlaybackCommand.PAUSE) return this.commandPlayback(command, playbackCommand)
+      this.sendAck(command, false, 'Server does not support playback control')
+      return
+    }
+    if (!Number.isFinite(time)) {
+      this.sendAck(command, false, 'Invalid seek target')
+      return
+    }
+    const target = Math.min(this.rangeEnd(), Math.max(this.rangeStart(), time))
+    const next = playbackCommand ?? (this.isPlaying ? FoxglovePlaybackCommand.PLAY : FoxglovePlaybackCommand.PAUSE)
+    this.sendControl(command, next, target)
+  }
+
+  private commandSetSpeed(multiplier: number) {
+    if (!this.canControlPlayback) {
+      this.sendAck(PlaybackCommand.SET_SPEED, false, 'Server does not support playback control')
+      return
+    }
+    if (!Number.isFinite(multiplier) || multiplier <= 0) {
+      this.sendAck(PlaybackCommand.SET_SPEED, false, `Invalid speed: ${multiplier}`)
+      return
+    }
+    this.speed = multiplier
+    this.sendControl(PlaybackCommand.SET_SPEED, this.isPlaying ? FoxglovePlaybackCommand.PLAY : FoxglovePlaybackCommand.PAUSE, null)
+  }
+
+  /**
+   * 发送 Playback Control Request；服务端以带相同 requestId 的 playbackState 应答后回复 COMMAND_ACK
+   */
+  private sendControl(command: string, playbackCommand: FoxglovePlaybackCommand, seekTime: number | null) {
+    const requestId = `${command.toLowerCase()}-${this.nextControlId++}`
+    const timer = setTimeout(() => {
+      this.pendingControls.delete(requestId)
+      this.sendAck(command, false, `${command} timed out after ${CONTROL_TIMEOUT_MS}ms`)
+    }, CONTROL_TIMEOUT_MS)
+    this.pendingControls.set(requestId, { command, timer })
+    this.sendToServer(encodePlaybackControl({ command: playbackCommand, playbackSpeed: this.speed, seekTime, requestId }))
+  }
+
+  // 断线 / 重连时未应答的控制请求不会再有回复
+  private clearPendingControls() {
+    for (const { timer } of this.pendingControls.values()) clearTimeout(timer)
+    this.pendingControls.clear()
+  }
+
+  private commandSubscribe(topicKey: string) {
+    const entry = this.byTopic.get(topicKey)
+    if (entry && !this.subscriptionIds.has(topicKey)) {
+      const id = this.nextSubscriptionId++
+      this.subscriptionIds.set(topicKey, id)
+      this.subscriptions.set(id, entry)
+      this.sendToServer({ op: 'subscribe', subscriptions: [{ id, channelId: entry.channel.id }] })
+    }
+    this.emitMessage({
+      type: MessageType.SUBSCRIPTION_ACK,
+      success: !!entry,
+      topic_key: topicKey,
+      message: entry ? 'Subscribed' : `Unknown topic: ${topicKey}`
+    })
+  }
+
+  private commandTopicSchema(topicKey: string, requestId?: string) {
+    const entry = this.byTopic.get(topicKey)
+    if (!entry) {
+      this.sendError(`Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    if (entry.decoder.schema) {
+      this.respondTopicSchema(topicKey, requestId)
+      return
+    }
+    // 无 Schema 的 JSON 通道：等第一条消息推断出字段后再应答 (未订阅时先订阅)
+    if (!this.subscriptionIds.has(topicKey)) this.commandSubscribe(topicKey)
+    const pending = this.pendingSchemas.get(topicKey) ?? []
+    pending.push(requestId)
+    this.pendingSchemas.set(topicKey, pending)
+  }
+
+  private respondTopicSchema(topicKey: string, requestId?: string) {
+    this.emitMessage({
+      type: MessageType.TOPIC_SCHEMA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      topic_key: topicKey,
+      schema: this.byTopic.get(topicKey)!.decoder.schema
+    })
+  }
+
+  private respondTopicData(topicKey: string, requestId?: string) {
+    if (!this.byTopic.has(topicKey)) {
+      this.sendError(`Unknown topic: ${topicKey}`, 'UNKNOWN_TOPIC', requestId)
+      return
+    }
+    const latest = this.latest.get(topicKey)
+    this.emitMessage({
+      type: MessageType.TOPIC_DATA_RESPONSE,
+      ...(requestId && { _requestId: requestId }),
+      topic_key: topicKey,
+      ...(latest ?? { frame_id: null, timestamp: null, data: null })
+    })
+  }
+
+  private sendAck(command: string, success: boolean, message: string = 'OK') {
+    this.emitMessage({ type: MessageType.COMMAND_ACK, command, success, message })
+  }
+
+  private sendError(message: string, errorCode: string, requestId?: string) {
+    this.emitMessage({
+      type: MessageType.ERROR,
+      message,
+      error_code: errorCode,
+      ...(requestId && { _requestId: requestId, error: message })
+    })
+  }
+
+  // ========== 状态 ==========
+
+  private emitMessage(message: Record<string, any>) {
+    if (!this.initialized && message.type !== MessageType.INIT_INFO) return
+    const info: RawTextInfo = { raw: JSON.stringify(message), receivedAt: performance.now() }
+    this.emit('message', message as Message, info)
+  }
+
+  private broadcastTopics() {
+    this.emitMessage({ type: MessageType.AVAILABLE_TOPICS, available_keys: [...this.byTopic.keys()] })
+  }
+
+  private broadcastStatus() {
+    this.lastStatusAt = performance.now()
+    this.emitMessage({ type: MessageType.PLAYBACK_STATUS, data: this.buildStatus() })
+  }
+
+  private rangeStart(): number {
+    return this.startTime ?? this.currentTime ?? 0
+  }
+
+  // 实时服务端没有声明时间范围，以当前时间为终点
+  private rangeEnd(): number {
+    return Math.max(this.rangeStart(), this.endTime ?? this.currentTime ?? 0)
+  }
+
+  private currentFrame(): number {
+    return Math.round(((this.currentTime ?? this.rangeStart()) - this.rangeStart()) / FRAME_STEP)
+  }
+
+  private timeOfFrame(frame: number): number {
+    return this.rangeStart() + frame * FRAME_STEP
+  }
+
+  private buildStatus(): PlaybackStatus {
+    const start = this.rangeStart()
+    const end = this.rangeEnd()
+    const current = this.currentTime ?? start
+    return {
+      is_playing: this.isPlaying,
+      play_mode: 'TIME_BASED',
+      timestamp_type: 'RAW_TIMESTAMP',
+      current_frame_id: this.currentFrame(),
+      current_timestamp: current,
+      frame_range: { min: 0, max: Math.round((end - start) / FRAME_STEP) },
+      time_range: { min: start, max: end },
+      progress: end > start ? (current - start) / (end - start) : 0,
+      speed_multiplier: this.speed,
+      sleep_time_ms: Math.round((FRAME_STEP * 1000) / this.speed),
+      time_step: FRAME_STEP,
+      main_axis_key: 'timestamp'
+    }
+  }
+}
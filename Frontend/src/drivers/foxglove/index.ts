@@ -0,0 +1,35 @@
+// src/drivers/foxglove/index.ts
+import type { IDataDriver, IDataAdapter } from '@/core/types/driver'
+import { SchemaAdapter } from '@/drivers/schema/adapters/SchemaAdapter'
+import { FoxgloveTransport } from './FoxgloveTransport'
+
+// messageData 在传输层已转换为以字段 ID 为键的数据，Topic 解析沿用 Schema 驱动的 Worker
+import ParserWorker from '@/drivers/schema/worker/parser.worker?worker'
+
+export { FoxgloveTransport } from './FoxgloveTransport'
+export { FOXGLOVE_SUBPROTOCOL } from './protocol'
+
+export const foxgloveDriver: IDataDriver = {
+  name: 'foxglove-driver',
+  label: 'Foxglove WebSocket',
+
+  // 8765 是 Foxglove WebSocket 服务端的惯用端口
+  capabilities: {
+    live: true,
+    defaultPorts: [8765]
+  },
+
+  createWorker(): Worker {
+    return new ParserWorker()
+  },
+
+  getAdapters(): IDataAdapter[] {
+    return [
+      new SchemaAdapter()
+    ]
+  },
+
+  createTransport() {
+    return new FoxgloveTransport()
+  }
+}
@@ -0,0 +1,264 @@
+// src/drivers/foxglove/protocol.ts
+// Foxglove WebSocket 协议 (foxglove.websocket.v1) 的消息类型与二进制编解码
+// 浏览器端驱动与 Mock 服务的替身服务端共用，保证两端字节布局一致
+
+export const FOXGLOVE_SUBPROTOCOL = 'foxglove.websocket.v1'
+
+/**
+ * 服务端能力 (serverInfo.capabilities)，这里只列出驱动会用到的部分
+ */
+export const FoxgloveCapability = {
+  TIME: 'time',                         // 服务端推送当前时间 (二进制 TIME)
+  PLAYBACK_CONTROL: 'playbackControl'   // 支持播放/暂停/变速/跳转
+} as const
+
+/**
+ * 服务端 -> 客户端 二进制消息类型 (首字节)
+ */
+export enum ServerBinaryOpcode {
+  MESSAGE_DATA = 0x01,
+  TIME = 0x02,
+  PLAYBACK_STATE = 0x05
+}
+
+/**
+ * 客户端 -> 服务端 二进制消息类型 (首字节)
+ */
+export enum ClientBinaryOpcode {
+  PLAYBACK_CONTROL_REQUEST = 0x03
+}
+
+export enum FoxglovePlaybackCommand {
+  PLAY = 0,
+  PAUSE = 1
+}
+
+export enum FoxglovePlaybackStatus {
+  PLAYING = 0,
+  PAUSED = 1,
+  BUFFERING = 2,
+  ENDED = 3
+}
+
+export enum FoxgloveStatusLevel {
+  INFO = 0,
+  WARNING = 1,
+  ERROR = 2
+}
+
+// ========== JSON 消息 ==========
+
+/**
+ * 时间戳：JSON 中为 { sec, nsec }，二进制中为 uint64 纳秒；驱动内部统一换算为秒
+ */
+export interface FoxgloveTime {
+  sec: number
+  nsec: number
+}
+
+export interface FoxgloveChannel {
+  id: number
+  topic: string
+  encoding: string           // 消息编码: protobuf / json / ros1 / cdr ...
+  schemaName: string
+  schema: string             // protobuf 为 base64 的 FileDescriptorSet，json 为 JSON Schema 文本 (可为空)
+  schemaEncoding?: string
+}
+
+export interface ServerInfoMessage {
+  op: 'serverInfo'
+  name: string
+  capabilities: string[]
+  supportedEncodings?: string[]
+  metadata?: Record<string, string>
+  sessionId?: string
+  // playbackControl 服务端声明的数据时间范围
+  dataStartTime?: FoxgloveTime
+  dataEndTime?: FoxgloveTime
+}
+
+export interface StatusMessage {
+  op: 'status'
+  level: FoxgloveStatusLevel
+  message: string
+  id?: string
+}
+
+export interface AdvertiseMessage {
+  op: 'advertise'
+  channels: FoxgloveChannel[]
+}
+
+export interface UnadvertiseMessage {
+  op: 'unadvertise'
+  channelIds: number[]
+}
+
+export type FoxgloveServerMessage =
+  | ServerInfoMessage
+  | StatusMessage
+  | AdvertiseMessage
+  | UnadvertiseMessage
+
+export type FoxgloveClientMessage =
+  | { op: 'subscribe'; subscriptions: { id: number; channelId: number }[] }
+  | { op: 'unsubscribe'; subscriptionIds: number[] }
+
+// ========== 二进制消息 ==========
+
+export interface MessageDataFrame {
+  subscriptionId: number
+  timestamp: number          // 秒
+  payload: Uint8Array
+}
+
+export interface PlaybackStateFrame {
+  status: FoxglovePlaybackStatus
+  currentTime: number        // 秒
+  playbackSpeed: number
+  didSeek: boolean
+  requestId: string | null
+}
+
+export interface PlaybackControlFrame {
+  command: FoxglovePlaybackCommand
+  playbackSpeed: number
+  seekTime: number | null    // 秒，null 表示不跳转
+  requestId: string
+}
+
+export type FoxgloveServerBinary =
+  | { op: ServerBinaryOpcode.MESSAGE_DATA; message: MessageDataFrame }
+  | { op: ServerBinaryOpcode.TIME; timestamp: number }
+  | { op: ServerBinaryOpcode.PLAYBACK_STATE; state: PlaybackStateFrame }
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+export function timeToSeconds(time: FoxgloveTime | undefined): number | undefined {
+  if (!time || typeof time.sec !== 'number') return undefined
+  return time.sec + (time.nsec ?? 0) / 1e9
+}
+
+export function secondsToTime(seconds: number): FoxgloveTime {
+  const sec = Math.floor(seconds)
+  return { sec, nsec: Math.round((seconds - sec) * 1e9) }
+}
+
+function readNanos(view: DataView, offset: number): number {
+  return Number(view.getBigUint64(offset, true)) / 1e9
+}
+
+function writeNanos(view: DataView, offset: number, seconds: number) {
+  const { sec, nsec } = secondsToTime(Math.max(0, seconds))
+  view.setBigUint64(offset, BigInt(sec) * 1_000_000_000n + BigInt(nsec), true)
+}
+
+/**
+ * 解析服务端二进制消息；未知类型返回 null
+ * @throws 包长度不足时抛出
+ */
+export function parseServerBinary(buffer: ArrayBuffer): FoxgloveServerBinary | null {
+  const view = new DataView(buffer)
+  const need = (length: number) => {
+    if (buffer.byteLength < length) throw new Error(`Truncated foxglove message (${buffer.byteLength} < ${length} bytes)`)
+  }
+  need(1)
+
+  switch (view.getUint8(0)) {
+    case ServerBinaryOpcode.MESSAGE_DATA:
+      need(13)
+      return {
+        op: ServerBinaryOpcode.MESSAGE_DATA,
+        message: {
+          subscriptionId: view.getUint32(1, true),
+          timestamp: readNanos(view, 5),
+          payload: new Uint8Array(buffer, 13)
+        }
+      }
+
+    case ServerBinaryOpcode.TIME:
+      need(9)
+      return { op: ServerBinaryOpcode.TIME, timestamp: readNanos(view, 1) }
+
+    case ServerBinaryOpcode.PLAYBACK_STATE: {
+      need(19)
+      const requestIdLength = view.getUint32(15, true)
+      need(19 + requestIdLength)
+      return {
+        op: ServerBinaryOpcode.PLAYBACK_STATE,
+        state: {
+          status: view.getUint8(1),
+          currentTime: readNanos(view, 2),
+          playbackSpeed: view.getFloat32(10, true),
+          didSeek: view.getUint8(14) !== 0,
+          requestId: requestIdLength > 0 ? textDecoder.decode(new Uint8Array(buffer, 19, requestIdLength)) : null
+        }
+      }
+    }
+  }
+  return null
+}
+
+export function encodePlaybackControl(request: PlaybackControlFrame): Uint8Array {
+  const requestId = textEncoder.encode(request.requestId)
+  const bytes = new Uint8Array(19 + requestId.byteLength)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, ClientBinaryOpcode.PLAYBACK_CONTROL_REQUEST)
+  view.setUint8(1, request.command)
+  view.setFloat32(2, request.playbackSpeed, true)
+  view.setUint8(6, request.seekTime !== null ? 1 : 0)
+  writeNanos(view, 7, request.seekTime ?? 0)
+  view.setUint32(15, requestId.byteLength, true)
+  bytes.set(requestId, 19)
+  return bytes
+}
+
+// ========== 替身服务端使用 ==========
+
+export function parsePlaybackControl(bytes: Uint8Array): PlaybackControlFrame {
+  if (bytes.byteLength < 19 || bytes[0] !== ClientBinaryOpcode.PLAYBACK_CONTROL_REQUEST) {
+    throw new Error('Invalid playback control request')
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const requestIdLength = view.getUint32(15, true)
+  if (bytes.byteLength < 19 + requestIdLength) throw new Error('Truncated playback control request')
+  return {
+    command: view.getUint8(1),
+    playbackSpeed: view.getFloat32(2, true),
+    seekTime: view.getUint8(6) !== 0 ? readNanos(view, 7) : null,
+    requestId: textDecoder.decode(bytes.subarray(19, 19 + requestIdLength))
+  }
+}
+
+export function encodeMessageData(subscriptionId: number, timestamp: number, payload: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(13 + payload.byteLength)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, ServerBinaryOpcode.MESSAGE_DATA)
+  view.setUint32(1, subscriptionId, true)
+  writeNanos(view, 5, timestamp)
+  bytes.set(payload, 13)
+  return bytes
+}
+
+export function encodeTime(timestamp: number): Uint8Array {
+  const bytes = new Uint8Array(9)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, ServerBinaryOpcode.TIME)
+  writeNanos(view, 1, timestamp)
+  return bytes
+}
+
+export function encodePlaybackState(state: PlaybackStateFrame): Uint8Array {
+  const requestId = textEncoder.encode(state.requestId ?? '')
+  const bytes = new Uint8Array(19 + requestId.byteLength)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(0, ServerBinaryOpcode.PLAYBACK_STATE)
+  view.setUint8(1, state.status)
+  writeNanos(view, 2, state.currentTime)
+  view.setFloat32(10, state.playbackSpeed, true)
+  view.setUint8(14, state.didSeek ? 1 : 0)
+  view.setUint32(15, requestId.byteLength, true)
+  bytes.set(requestId, 19)
+  return bytes
+}
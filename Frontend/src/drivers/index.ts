@@ -0,0 +1,13 @@
+// src/drivers/index.ts
+// 注册全部内置驱动 (main.ts 启动时导入)；新增驱动在这里登记即可出现在连接表单中
+
+import { driverRegistry } from '@/core/driver/DriverRegistry'
+import { schemaDriver } from './schema'
+import { foxgloveDriver } from './foxglove'
+import { mcapDriver } from './mcap'
+
+driverRegistry.register(schemaDriver, true)
+driverRegistry.register(foxgloveDriver)
+driverRegistry.register(mcapDriver)
+
+export { schemaDriver, foxgloveDriver, mcapDriver }
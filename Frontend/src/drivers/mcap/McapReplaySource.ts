@@ -0,0 +1,178 @@
+// src/drivers/mcap/McapReplaySource.ts
+
+import type { TopicSchema } from '@/core/types/common'
+import type { ReplayFrame, ReplaySource } from '@/core/replay/ReplaySource'
+import type {
+  McapChannelInfo,
+  McapLoadedMessage,
+  McapLoadItem,
+  McapSkippedChannel,
+  McapWorkerRequest,
+  McapWorkerResponse
+} from './types'
+import McapWorker from './worker/mcap.worker?worker'
+
+export interface McapReplayOptions {
+  frameInterval?: number  // 回放帧间隔 (秒)，默认 0.1
+}
+
+const DEFAULT_FRAME_INTERVAL = 0.1
+
+type PendingRequest = {
+  resolve: (response: McapWorkerResponse) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * MCAP 文件数据源
+ *
+ * 索引与解码都在 Worker 中完成，主线程只保留每个通道的消息时间表。
+ * MCAP 没有 "帧" 的概念：按固定间隔把时间轴切成帧，每帧给出各通道截至该时刻的最新消息，
+ * 因此 SEEK_TIME / 进度条跳转后所有 Topic 立即显示跳转时刻的状态
+ */
+export class McapReplaySource implements ReplaySource {
+  readonly name: string
+  readonly frameCount: number
+  readonly protocolVersion = 0   // 不产生场景二进制包
+  readonly schemas: Record<string, TopicSchema> = {}
+  readonly skipped: McapSkippedChannel[]
+
+  private channels: McapChannelInfo[]
+  private byTopic = new Map<string, McapChannelInfo>()
+  private byId = new Map<number, McapChannelInfo>()
+  private startTime: number
+  private frameInterval: number
+  private nextRequestId = 1
+
+  private constructor(
+    name: string,
+    private worker: Worker,
+    private pending: Map<number, PendingRequest>,
+    opened: Extract<McapWorkerResponse, { type: 'OPENED' }>,
+    options: McapReplayOptions
+  ) {
+    this.name = name
+    this.channels = opened.channels
+    this.skipped = opened.skipped
+    this.frameInterval = options.frameInterval ?? DEFAULT_FRAME_INTERVAL
+
+    let start = Infinity
+    let end = -Infinity
+    for (const channel of this.channels) {
+      this.schemas[channel.topicKey] = channel.schema
+      this.byTopic.set(channel.topicKey, channel)
+      this.byId.set(channel.id, channel)
+      if (channel.times.length > 0) {
+        start = Math.min(start, channel.times[0])
+        end = Math.max(end, channel.times[channel.times.length - 1])
+      }
+    }
+    if (!Number.isFinite(start)) throw new Error('MCAP 文件中没有可解码的消息')
+
+    this.startTime = start
+    // 最后一帧不早于最后一条消息
+    this.frameCount = Math.ceil((end - start) / this.frameInterval) + 1
+  }
+
+  static async open(file: File, options: McapReplayOptions = {}): Promise<McapReplaySource> {
+    const worker = new McapWorker()
+    const pending = new Map<number, PendingRequest>()
+    worker.onmessage = (e: MessageEvent<McapWorkerResponse>) => {
+      const request = pending.get(e.data.requestId)
+      if (!request) return
+      pending.delete(e.data.requestId)
+      if (e.data.type === 'ERROR') request.reject(new Error(e.data.error))
+      else request.resolve(e.data)
+    }
+    worker.onerror = (e) => {
+      const error = new Error(e.message || 'MCAP worker crashed')
+      pending.forEach(request => request.reject(error))
+      pending.clear()
+    }
+
+    try {
+      const opened = await call(worker, pending, { type: 'OPEN', requestId: 0, file })
+      if (opened.type !== 'OPENED') throw new Error(`Unexpected worker response ${opened.type}`)
+      opened.skipped.forEach(({ topic, reason }) => console.warn(`[MCAP] Skipped channel ${topic}: ${reason}`))
+      return new McapReplaySource(file.name, worker, pending, opened, options)
+    } catch (error) {
+      worker.terminate()
+      throw error
+    }
+  }
+
+  timestampOf(index: number): number {
+    return this.startTime + index * this.frameInterval
+  }
+
+  async loadFrame(index: number, continuous: boolean, topics?: ReadonlySet<string>): Promise<ReplayFrame> {
+    const time = this.timestampOf(index)
+    const previousTime = continuous && index > 0 ? this.timestampOf(index - 1) : -Infinity
+
+    const items: McapLoadItem[] = []
+    for (const channel of this.channels) {
+      if (topics && !topics.has(channel.topicKey)) continue
+      const i = lastIndexAtOrBefore(channel.times, time)
+      // 顺序播放时只发送本帧时间段内有新消息的通道
+      if (i < 0 || channel.times[i] <= previousTime) continue
+      items.push({ channelId: channel.id, index: i })
+    }
+
+    const frameTopics: Record<string, Record<string, any>> = {}
+    for (const message of await this.load(items)) {
+      if (message.data) frameTopics[this.byId.get(message.channelId)!.topicKey] = message.data
+    }
+    return { index, timestamp: time, packets: [], topics: frameTopics }
+  }
+
+  async loadTopic(topicKey: string, index: number): Promise<Record<string, any> | undefined> {
+    const channel = this.byTopic.get(topicKey)
+    if (!channel) return undefined
+    const i = lastIndexAtOrBefore(channel.times, this.timestampOf(index))
+    if (i < 0) return undefined
+    const [message] = await this.load([{ channelId: channel.id, index: i }])
+    return message?.data ?? undefined
+  }
+
+  close(): void {
+    this.worker.terminate()
+    this.pending.forEach(request => request.reject(new Error('MCAP source closed')))
+    this.pending.clear()
+  }
+
+  private async load(items: McapLoadItem[]): Promise<McapLoadedMessage[]> {
+    if (items.length === 0) return []
+    const response = await call(this.worker, this.pending, { type: 'LOAD', requestId: this.nextRequestId++, items })
+    if (response.type !== 'LOADED') throw new Error(`Unexpected worker response ${response.type}`)
+    response.messages
+      .filter(m => m.error)
+      .forEach(m => console.warn(`[MCAP] Failed to decode message ${m.index} on channel ${m.channelId}: ${m.error}`))
+    return response.messages
+  }
+}
+
+function call(worker: Worker, pending: Map<number, PendingRequest>, request: McapWorkerRequest): Promise<McapWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    pending.set(request.requestId, { resolve, reject })
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * 升序数组中最后一个 <= value 的下标，没有时返回 -1
+ */
+function lastIndexAtOrBefore(times: Float64Array, value: number): number {
+  let lo = 0
+  let hi = times.length - 1
+  let found = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (times[mid] <= value) {
+      found = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return found
+}
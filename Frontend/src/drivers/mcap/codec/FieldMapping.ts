@@ -0,0 +1,209 @@
+// src/drivers/mcap/codec/FieldMapping.ts
+
+import type { TopicEnum, TopicField, TopicOneof, TopicSchema } from '@/core/types/common'
+import { FIELD_TYPE_NAMES, FieldType, type DescriptorPool, type MessageDescriptor } from './Protobuf'
+
+/**
+ * 把 MCAP 通道的消息结构映射为后端使用的 TopicSchema (字段 ID + 路径)，
+ * 并把解码出的普通对象转换为以字段 ID 为键的 TopicData.data，
+ * 之后沿用 SchemaParser / DataManager 的现有流程
+ *
+ * 路径约定与后端一致：
+ *   嵌套消息展开为 "pose.x"，不单独占字段；
+ *   repeated 消息字段为 "objects[]" (type = 'message')，元素内字段为 "objects.id"
+ */
+
+// 递归消息 (如 google.protobuf.Struct) 只展开到这一层
+const MAX_DEPTH = 8
+
+class FieldCollector {
+  readonly fields: TopicField[] = []
+  readonly enums: Record<string, TopicEnum> = {}
+  readonly oneofs: TopicOneof[] = []
+  private paths = new Set<string>()
+
+  add(path: string, type: string, repeated: boolean, extra: Partial<TopicField> = {}) {
+    if (this.paths.has(path)) return
+    this.paths.add(path)
+    const name = path.replace(/\[\]$/, '').split('.').pop()!
+    this.fields.push({ id: this.fields.length + 1, name, path, type, repeated, ...extra })
+  }
+}
+
+// ========== Protobuf ==========
+
+export function schemaFromDescriptor(pool: DescriptorPool, root: MessageDescriptor): TopicSchema {
+  const collector = new FieldCollector()
+  collectDescriptor(pool, root, '', 0, collector)
+  const schema: TopicSchema = { proto_type: root.fullName, fields: collector.fields }
+  if (Object.keys(collector.enums).length > 0) schema.enums = collector.enums
+  if (collector.oneofs.length > 0) schema.oneofs = collector.oneofs
+  return schema
+}
+
+function collectDescriptor(pool: DescriptorPool, type: MessageDescriptor, prefix: string, depth: number, out: FieldCollector) {
+  // 🌟 [新增] oneof 分组 (proto3 optional 生成的合成 oneof 不算)
+  const oneofMembers: string[][] = type.oneofs.map(() => [])
+
+  for (const field of type.fields) {
+    const path = prefix + field.name
+    if (field.oneofIndex !== undefined && !field.proto3Optional) oneofMembers[field.oneofIndex]?.push(field.name)
+
+    if (field.type === FieldType.MESSAGE || field.type === FieldType.GROUP) {
+      const sub = field.typeName ? pool.get(field.typeName) : undefined
+      if (!sub || depth >= MAX_DEPTH) continue
+      if (field.repeated) {
+        out.add(`${path}[]`, 'message', true,
+          sub.mapEntry ? { message_type: sub.fullName, map: mapEntryOf(pool, sub) } : { message_type: sub.fullName })
+      }
+      collectDescriptor(pool, sub, `${path}.`, depth + 1, out)
+    } else {
+      const enumType = field.type === FieldType.ENUM ? field.typeName : undefined
+      const table = enumType ? pool.getEnum(enumType) : undefined
+      if (enumType && table) out.enums[enumType] = table
+      out.add(path, FIELD_TYPE_NAMES[field.type] ?? 'unknown', field.repeated,
+        enumType ? { enum_type: enumType } : {})
+    }
+  }
+
+  type.oneofs.forEach((name, i) => {
+    if (oneofMembers[i].length > 0) out.oneofs.push({ path: prefix.replace(/\.$/, ''), name, fields: oneofMembers[i] })
+  })
+}
+
+/**
+ * map<K, V> 的 Entry 消息：key = 1, value = 2
+ */
+function mapEntryOf(pool: DescriptorPool, entry: MessageDescriptor) {
+  const typeName = (number: number) => {
+    const field = entry.byNumber.get(number)
+    if (!field) return 'unknown'
+    if (field.type === FieldType.MESSAGE) return pool.get(field.typeName ?? '')?.fullName ?? 'message'
+    if (field.type === FieldType.ENUM) return field.typeName ?? 'enum'
+    return FIELD_TYPE_NAMES[field.type] ?? 'unknown'
+  }
+  return { key_type: typeName(1), value_type: typeName(2) }
+}
+
+// ========== JSON ==========
+
+/**
+ * 由 JSON Schema (MCAP schema encoding = "jsonschema") 生成字段；没有 properties 时返回 null
+ */
+export function schemaFromJsonSchema(name: string, jsonSchema: any): TopicSchema | null {
+  if (!jsonSchema?.properties) return null
+  const collector = new FieldCollector()
+  collectJsonSchema(jsonSchema, '', 0, collector)
+  return { proto_type: name || jsonSchema.title || 'json', fields: collector.fields }
+}
+
+function jsonSchemaType(node: any): string | undefined {
+  const type = node?.type
+  return Array.isArray(type) ? type.find((t: string) => t !== 'null') : type
+}
+
+const JSON_SCALAR_TYPES: Record<string, string> = {
+  number: 'double',
+  integer: 'int64',
+  boolean: 'bool',
+  string: 'string'
+}
+
+function collectJsonSchema(node: any, prefix: string, depth: number, out: FieldCollector) {
+  for (const [key, prop] of Object.entries<any>(node.properties ?? {})) {
+    const path = prefix + key
+    const type = jsonSchemaType(prop)
+    if (type === 'object' && depth < MAX_DEPTH) {
+      collectJsonSchema(prop, `${path}.`, depth + 1, out)
+    } else if (type === 'array') {
+      const items = prop.items ?? {}
+      if (jsonSchemaType(items) === 'object') {
+        out.add(`${path}[]`, 'message', true)
+        if (depth < MAX_DEPTH) collectJsonSchema(items, `${path}.`, depth + 1, out)
+      } else {
+        out.add(path, JSON_SCALAR_TYPES[jsonSchemaType(items) ?? ''] ?? 'unknown', true)
+      }
+    } else if (type && type !== 'object') {
+      out.add(path, JSON_SCALAR_TYPES[type] ?? 'unknown', false)
+    }
+  }
+}
+
+/**
+ * 没有 Schema 的 JSON 通道：根据样本消息推断字段
+ */
+export function inferSchema(name: string, samples: any[]): TopicSchema {
+  const collector = new FieldCollector()
+  samples.forEach(sample => collectValue(sample, '', 0, collector))
+  return { proto_type: name || 'json', fields: collector.fields }
+}
+
+function collectValue(obj: any, prefix: string, depth: number, out: FieldCollector) {
+  if (!isPlainObject(obj)) return
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix + key
+    if (Array.isArray(value)) {
+      const objects = value.filter(isPlainObject)
+      if (objects.length > 0) {
+        out.add(`${path}[]`, 'message', true)
+        if (depth < MAX_DEPTH) objects.slice(0, 16).forEach(item => collectValue(item, `${path}.`, depth + 1, out))
+      } else if (value.length > 0) {
+        out.add(path, scalarType(value[0]), true)
+      }
+    } else if (isPlainObject(value)) {
+      if (depth < MAX_DEPTH) collectValue(value, `${path}.`, depth + 1, out)
+    } else if (value !== null && value !== undefined) {
+      out.add(path, scalarType(value), false)
+    }
+  }
+}
+
+function scalarType(value: any): string {
+  switch (typeof value) {
+    case 'number': return 'double'  // 样本是整数不代表后续消息也是
+    case 'boolean': return 'bool'
+    case 'string': return 'string'
+    default: return 'unknown'
+  }
+}
+
+// ========== 对象 -> 字段 ID ==========
+
+/**
+ * 按 TopicSchema 把普通对象转换为以字段 ID 为键的数据 (Schema 中没有的字段丢弃)
+ */
+export class FieldIdMapper {
+  private byPath = new Map<string, TopicField>()
+
+  constructor(schema: TopicSchema) {
+    schema.fields.forEach(field => this.byPath.set(field.path, field))
+  }
+
+  map(obj: Record<string, any>): Record<string, any> {
+    return this.mapInto(obj, '', {})
+  }
+
+  private mapInto(obj: Record<string, any>, prefix: string, out: Record<string, any>): Record<string, any> {
+    for (const [key, value] of Object.entries(obj)) {
+      const path = prefix + key
+
+      const listField = this.byPath.get(`${path}[]`)
+      if (listField && Array.isArray(value)) {
+        out[listField.id] = value.map(item => isPlainObject(item) ? this.mapInto(item, `${path}.`, {}) : item)
+        continue
+      }
+
+      const field = this.byPath.get(path)
+      if (field) {
+        out[field.id] = value
+      } else if (isPlainObject(value)) {
+        this.mapInto(value, `${path}.`, out)
+      }
+    }
+    return out
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,88 @@
+// src/drivers/mcap/codec/Lz4.ts
+
+const LZ4_FRAME_MAGIC = 0x184d2204
+
+/**
+ * LZ4 Frame 解压 (MCAP 的 "lz4" 块压缩)
+ * 输出大小由 MCAP Chunk 的 uncompressed_size 给出，所有块解压到同一缓冲区，
+ * 因此块间依赖 (B.Indep = 0) 的回溯引用也能直接命中
+ */
+export function decompressLz4Frame(src: Uint8Array, uncompressedSize: number): Uint8Array {
+  const view = new DataView(src.buffer, src.byteOffset, src.byteLength)
+  if (src.byteLength < 7 || view.getUint32(0, true) !== LZ4_FRAME_MAGIC) {
+    throw new Error('Invalid LZ4 frame magic')
+  }
+
+  const flg = src[4]
+  if ((flg >> 6) !== 1) throw new Error(`Unsupported LZ4 frame version ${flg >> 6}`)
+  const blockChecksum = (flg & 0x10) !== 0
+  const contentSize = (flg & 0x08) !== 0
+  const contentChecksum = (flg & 0x04) !== 0
+  const dictId = (flg & 0x01) !== 0
+
+  // FLG + BD + [ContentSize 8] + [DictID 4] + HC
+  let ip = 6 + (contentSize ? 8 : 0) + (dictId ? 4 : 0) + 1
+  const out = new Uint8Array(uncompressedSize)
+  let op = 0
+
+  while (ip + 4 <= src.byteLength) {
+    const header = view.getUint32(ip, true); ip += 4
+    if (header === 0) break // EndMark
+
+    const size = header & 0x7fffffff
+    if (ip + size > src.byteLength) throw new Error('LZ4 block truncated')
+
+    if (header & 0x80000000) {
+      // 未压缩块
+      if (op + size > out.byteLength) throw new Error('LZ4 output overflow')
+      out.set(src.subarray(ip, ip + size), op)
+      op += size
+    } else {
+      op = decompressBlock(src, ip, ip + size, out, op)
+    }
+    ip += size
+    if (blockChecksum) ip += 4
+  }
+  if (contentChecksum) ip += 4
+
+  if (op !== uncompressedSize) {
+    throw new Error(`LZ4 size mismatch: expected ${uncompressedSize}, got ${op}`)
+  }
+  return out
+}
+
+function decompressBlock(src: Uint8Array, ip: number, end: number, out: Uint8Array, op: number): number {
+  while (ip < end) {
+    const token = src[ip++]
+
+    let literalLength = token >> 4
+    if (literalLength === 15) {
+      let b: number
+      do { b = src[ip++]; literalLength += b } while (b === 255 && ip < end)
+    }
+    if (op + literalLength > out.byteLength || ip + literalLength > end) throw new Error('LZ4 literal overflow')
+    out.set(src.subarray(ip, ip + literalLength), op)
+    ip += literalLength
+    op += literalLength
+
+    // 块的最后一个序列只有字面量
+    if (ip >= end) break
+
+    const offset = src[ip] | (src[ip + 1] << 8)
+    ip += 2
+    if (offset === 0 || offset > op) throw new Error('LZ4 invalid match offset')
+
+    let matchLength = token & 0x0f
+    if (matchLength === 15) {
+      let b: number
+      do { b = src[ip++]; matchLength += b } while (b === 255 && ip < end)
+    }
+    matchLength += 4
+    if (op + matchLength > out.byteLength) throw new Error('LZ4 match overflow')
+
+    // 匹配区可能与输出重叠，逐字节复制
+    let from = op - offset
+    for (let i = 0; i < matchLength; i++) out[op++] = out[from++]
+  }
+  return op
+}
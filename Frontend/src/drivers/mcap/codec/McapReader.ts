@@ -0,0 +1,451 @@
+// src/drivers/mcap/codec/McapReader.ts
+
+import { decompress as decompressZstd } from 'fzstd'
+import { decompressLz4Frame } from './Lz4'
+
+/**
+ * MCAP 文件读取 (https://mcap.dev/spec)
+ *
+ * 只实现回放需要的部分：Schema / Channel / Chunk / MessageIndex / ChunkIndex / Message。
+ * 有 Summary 的文件通过 ChunkIndex + MessageIndex 建索引，不需要解压数据块；
+ * 没有索引的文件顺序扫描全文件，边解压边建索引
+ */
+
+export const MCAP_MAGIC = [0x89, 0x4d, 0x43, 0x41, 0x50, 0x30, 0x0d, 0x0a] // "\x89MCAP0\r\n"
+
+export enum McapOpcode {
+  HEADER = 0x01,
+  FOOTER = 0x02,
+  SCHEMA = 0x03,
+  CHANNEL = 0x04,
+  MESSAGE = 0x05,
+  CHUNK = 0x06,
+  MESSAGE_INDEX = 0x07,
+  CHUNK_INDEX = 0x08,
+  ATTACHMENT = 0x09,
+  ATTACHMENT_INDEX = 0x0a,
+  STATISTICS = 0x0b,
+  METADATA = 0x0c,
+  METADATA_INDEX = 0x0d,
+  SUMMARY_OFFSET = 0x0e,
+  DATA_END = 0x0f
+}
+
+// opcode(1) + length(8)
+const RECORD_PREFIX = 9
+// Footer 记录 (9 + 20) + 结尾 Magic (8)
+const FOOTER_AND_MAGIC = RECORD_PREFIX + 20 + MCAP_MAGIC.length
+
+// 顺序扫描时每次从文件读取的窗口大小
+const SCAN_WINDOW = 4 * 1024 * 1024
+
+export const SUPPORTED_COMPRESSIONS = ['', 'lz4', 'zstd']
+
+export interface McapSchema {
+  id: number
+  name: string
+  encoding: string
+  data: Uint8Array
+}
+
+export interface McapChannel {
+  id: number
+  schemaId: number
+  topic: string
+  messageEncoding: string
+  metadata: Record<string, string>
+}
+
+export interface McapChunkInfo {
+  offset: number        // Chunk 记录在文件中的起始位置
+  length: number        // Chunk 记录总长度 (含 opcode/length)
+  compression: string
+  uncompressedSize: number
+}
+
+/**
+ * 单个通道的消息索引，按 logTime 升序
+ * chunk 为 -1 表示消息不在数据块内，offset 是消息记录在文件中的位置；
+ * 否则 offset 是消息记录在解压后块数据中的位置
+ */
+export interface McapChannelIndex {
+  times: Float64Array   // logTime (秒)
+  chunks: Int32Array
+  offsets: Float64Array
+}
+
+export interface McapMessageLocation {
+  chunk: number
+  offset: number
+}
+
+export interface McapMessage {
+  channelId: number
+  logTime: number       // 秒
+  data: Uint8Array
+}
+
+// ========== 字节读取 ==========
+
+class RecordView {
+  private view: DataView
+  offset: number
+
+  constructor(private data: Uint8Array, offset: number = 0) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    this.offset = offset
+  }
+
+  get remaining(): number {
+    return this.data.byteLength - this.offset
+  }
+
+  private need(n: number) {
+    if (this.offset + n > this.data.byteLength) throw new Error('MCAP record truncated')
+  }
+
+  u8(): number { this.need(1); return this.view.getUint8(this.offset++) }
+  u16(): number { this.need(2); const v = this.view.getUint16(this.offset, true); this.offset += 2; return v }
+  u32(): number { this.need(4); const v = this.view.getUint32(this.offset, true); this.offset += 4; return v }
+
+  // 文件偏移与长度不会超过 2^53，按 double 读取避免 BigInt 开销
+  u64(): number {
+    this.need(8)
+    const lo = this.view.getUint32(this.offset, true)
+    const hi = this.view.getUint32(this.offset + 4, true)
+    this.offset += 8
+    return hi * 0x100000000 + lo
+  }
+
+  // 纳秒时间戳转为秒
+  time(): number {
+    return this.u64() / 1e9
+  }
+
+  string(): string {
+    const length = this.u32()
+    return new TextDecoder().decode(this.bytes(length))
+  }
+
+  bytes(length: number): Uint8Array {
+    this.need(length)
+    const out = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return out
+  }
+
+  prefixedBytes(): Uint8Array {
+    return this.bytes(this.u32())
+  }
+
+  stringMap(): Record<string, string> {
+    const end = this.u32() + this.offset
+    const map: Record<string, string> = {}
+    while (this.offset < end) {
+      const key = this.string()
+      map[key] = this.string()
+    }
+    return map
+  }
+}
+
+/**
+ * 遍历一段连续的记录 (数据区、Summary 或解压后的块)
+ */
+function forEachRecord(bytes: Uint8Array, visit: (opcode: number, content: Uint8Array, offset: number) => void) {
+  const reader = new RecordView(bytes)
+  while (reader.remaining >= RECORD_PREFIX) {
+    const offset = reader.offset
+    const opcode = reader.u8()
+    const length = reader.u64()
+    if (length > reader.remaining) throw new Error(`MCAP record 0x${opcode.toString(16)} truncated at ${offset}`)
+    visit(opcode, reader.bytes(length), offset)
+  }
+}
+
+function parseSchema(content: Uint8Array): McapSchema {
+  const r = new RecordView(content)
+  return { id: r.u16(), name: r.string(), encoding: r.string(), data: r.prefixedBytes().slice() }
+}
+
+function parseChannel(content: Uint8Array): McapChannel {
+  const r = new RecordView(content)
+  return { id: r.u16(), schemaId: r.u16(), topic: r.string(), messageEncoding: r.string(), metadata: r.stringMap() }
+}
+
+function parseMessage(content: Uint8Array): McapMessage {
+  const r = new RecordView(content)
+  const channelId = r.u16()
+  r.u32()              // sequence
+  const logTime = r.time()
+  r.u64()              // publish_time
+  return { channelId, logTime, data: r.bytes(r.remaining) }
+}
+
+function parseChunk(content: Uint8Array): { compression: string; uncompressedSize: number; records: Uint8Array } {
+  const r = new RecordView(content)
+  r.u64(); r.u64()     // message_start_time / message_end_time
+  const uncompressedSize = r.u64()
+  r.u32()              // uncompressed_crc
+  const compression = r.string()
+  const records = r.bytes(r.u64())
+  return { compression, uncompressedSize, records }
+}
+
+function decompressChunk(compression: string, records: Uint8Array, uncompressedSize: number): Uint8Array {
+  switch (compression) {
+    case '': return records
+    case 'lz4': return decompressLz4Frame(records, uncompressedSize)
+    // 输出缓冲区按 uncompressed_size 预分配
+    case 'zstd': return decompressZstd(records, new Uint8Array(uncompressedSize))
+    default: throw new Error(`Unsupported chunk compression: ${compression}`)
+  }
+}
+
+// ========== 索引构建 ==========
+
+/**
+ * 按通道累积 (时间, 位置)，最后统一排序 (不同块的时间范围可能交叠)
+ */
+class ChannelIndexBuilder {
+  private entries = new Map<number, { times: number[]; chunks: number[]; offsets: number[] }>()
+
+  add(channelId: number, time: number, chunk: number, offset: number) {
+    let entry = this.entries.get(channelId)
+    if (!entry) {
+      entry = { times: [], chunks: [], offsets: [] }
+      this.entries.set(channelId, entry)
+    }
+    entry.times.push(time)
+    entry.chunks.push(chunk)
+    entry.offsets.push(offset)
+  }
+
+  build(): Map<number, McapChannelIndex> {
+    const result = new Map<number, McapChannelIndex>()
+    for (const [channelId, { times, chunks, offsets }] of this.entries) {
+      const order = times.map((_, i) => i)
+      order.sort((a, b) => times[a] - times[b] || a - b)
+      result.set(channelId, {
+        times: Float64Array.from(order, i => times[i]),
+        chunks: Int32Array.from(order, i => chunks[i]),
+        offsets: Float64Array.from(order, i => offsets[i])
+      })
+    }
+    return result
+  }
+}
+
+/**
+ * MCAP 读取器，运行在 Worker 中；通过 Blob.slice 按需读取，不把整个文件载入内存
+ */
+export class McapReader {
+  readonly schemas = new Map<number, McapSchema>()
+  readonly channels = new Map<number, McapChannel>()
+  private chunks: McapChunkInfo[] = []
+  private index = new Map<number, McapChannelIndex>()
+
+  // 最近解压的块 (顺序播放时同一块会被反复访问)
+  private chunkCache = new Map<number, Uint8Array>()
+  private readonly chunkCacheSize = 4
+
+  constructor(private file: Blob) {}
+
+  getIndex(): Map<number, McapChannelIndex> {
+    return this.index
+  }
+
+  async open(): Promise<void> {
+    if (this.file.size < MCAP_MAGIC.length * 2 + RECORD_PREFIX + 20) throw new Error('File too small to be MCAP')
+
+    const head = await this.read(0, MCAP_MAGIC.length)
+    if (!MCAP_MAGIC.every((b, i) => head[i] === b)) throw new Error('Not an MCAP file (bad magic)')
+
+    const builder = new ChannelIndexBuilder()
+    const indexed = await this.readSummary(builder)
+    if (!indexed) await this.scanDataSection(builder)
+    this.index = builder.build()
+  }
+
+  /**
+   * 使用 Summary 中的 ChunkIndex 建索引
+   * @returns 文件是否带有可用的块索引
+   */
+  private async readSummary(builder: ChannelIndexBuilder): Promise<boolean> {
+    const footerStart = this.file.size - FOOTER_AND_MAGIC
+    const footer = new RecordView(await this.read(footerStart, FOOTER_AND_MAGIC))
+    if (footer.u8() !== McapOpcode.FOOTER) return false
+    footer.u64()
+    const summaryStart = footer.u64()
+    if (summaryStart === 0) return false
+
+    const chunkIndexes: { info: McapChunkInfo; indexOffsets: number[]; indexLength: number }[] = []
+    forEachRecord(await this.read(summaryStart, footerStart - summaryStart), (opcode, content) => {
+      if (opcode === McapOpcode.SCHEMA) {
+        const schema = parseSchema(content)
+        this.schemas.set(schema.id, schema)
+      } else if (opcode === McapOpcode.CHANNEL) {
+        const channel = parseChannel(content)
+        this.channels.set(channel.id, channel)
+      } else if (opcode === McapOpcode.CHUNK_INDEX) {
+        const r = new RecordView(content)
+        r.u64(); r.u64()
+        const offset = r.u64()
+        const length = r.u64()
+        const mapEnd = r.u32() + r.offset
+        const indexOffsets: number[] = []
+        while (r.offset < mapEnd) { r.u16(); indexOffsets.push(r.u64()) }
+        const indexLength = r.u64()
+        const compression = r.string()
+        r.u64()
+        const uncompressedSize = r.u64()
+        chunkIndexes.push({ info: { offset, length, compression, uncompressedSize }, indexOffsets, indexLength })
+      }
+    })
+    if (chunkIndexes.length === 0) return false
+
+    chunkIndexes.sort((a, b) => a.info.offset - b.info.offset)
+    this.assertCompressions(chunkIndexes.map(c => c.info.compression))
+
+    for (const { info, indexOffsets, indexLength } of chunkIndexes) {
+      const chunk = this.chunks.push(info) - 1
+      if (indexOffsets.length > 0 && indexLength > 0) {
+        // MessageIndex 记录紧跟在块后面，一次读出
+        const start = Math.min(...indexOffsets)
+        forEachRecord(await this.read(start, indexLength), (opcode, content) => {
+          if (opcode !== McapOpcode.MESSAGE_INDEX) return
+          const r = new RecordView(content)
+          const channelId = r.u16()
+          const end = r.u32() + r.offset
+          while (r.offset < end) {
+            const time = r.time()
+            builder.add(channelId, time, chunk, r.u64())
+          }
+        })
+      } else {
+        // 写入时关闭了消息索引，只能解压块
+        this.indexChunkRecords(chunk, await this.loadChunk(chunk), builder)
+      }
+    }
+    return true
+  }
+
+  /**
+   * 没有 Summary 的文件：顺序扫描数据区
+   */
+  private async scanDataSection(builder: ChannelIndexBuilder): Promise<void> {
+    let offset = MCAP_MAGIC.length
+    const end = this.file.size - MCAP_MAGIC.length
+    let window = new Uint8Array(0)
+    let windowStart = offset
+
+    const ensure = async (from: number, length: number) => {
+      if (from >= windowStart && from + length <= windowStart + window.byteLength) return
+      windowStart = from
+      window = await this.read(from, Math.min(Math.max(length, SCAN_WINDOW), end - from))
+    }
+
+    while (offset + RECORD_PREFIX <= end) {
+      await ensure(offset, RECORD_PREFIX)
+      const prefix = new RecordView(window, offset - windowStart)
+      const opcode = prefix.u8()
+      const length = prefix.u64()
+      if (opcode === McapOpcode.FOOTER || opcode === McapOpcode.DATA_END) break
+      if (offset + RECORD_PREFIX + length > end) throw new Error(`MCAP record 0x${opcode.toString(16)} truncated at ${offset}`)
+
+      await ensure(offset, RECORD_PREFIX + length)
+      const contentStart = offset - windowStart + RECORD_PREFIX
+      const content = window.subarray(contentStart, contentStart + length)
+
+      if (opcode === McapOpcode.SCHEMA) {
+        const schema = parseSchema(content)
+        this.schemas.set(schema.id, schema)
+      } else if (opcode === McapOpcode.CHANNEL) {
+        const channel = parseChannel(content)
+        this.channels.set(channel.id, channel)
+      } else if (opcode === McapOpcode.MESSAGE) {
+        const message = parseMessage(content)
+        builder.add(message.channelId, message.logTime, -1, offset)
+      } else if (opcode === McapOpcode.CHUNK) {
+        const { compression, uncompressedSize, records } = parseChunk(content)
+        this.assertCompressions([compression])
+        const chunk = this.chunks.push({ offset, length: RECORD_PREFIX + length, compression, uncompressedSize }) - 1
+        this.indexChunkRecords(chunk, decompressChunk(compression, records, uncompressedSize), builder)
+      }
+      offset += RECORD_PREFIX + length
+    }
+  }
+
+  /**
+   * 解压后的块内同样可能包含 Schema / Channel 记录
+   */
+  private indexChunkRecords(chunk: number, records: Uint8Array, builder: ChannelIndexBuilder) {
+    forEachRecord(records, (opcode, content, offset) => {
+      if (opcode === McapOpcode.MESSAGE) {
+        const message = parseMessage(content)
+        builder.add(message.channelId, message.logTime, chunk, offset)
+      } else if (opcode === McapOpcode.SCHEMA) {
+        const schema = parseSchema(content)
+        if (!this.schemas.has(schema.id)) this.schemas.set(schema.id, schema)
+      } else if (opcode === McapOpcode.CHANNEL) {
+        const channel = parseChannel(content)
+        if (!this.channels.has(channel.id)) this.channels.set(channel.id, channel)
+      }
+    })
+  }
+
+  private assertCompressions(compressions: string[]) {
+    const unsupported = compressions.find(c => !SUPPORTED_COMPRESSIONS.includes(c))
+    if (unsupported !== undefined) throw new Error(`Unsupported chunk compression: ${unsupported}`)
+  }
+
+  // ========== 消息读取 ==========
+
+  async readMessage(location: McapMessageLocation): Promise<McapMessage> {
+    let bytes: Uint8Array
+    let offset: number
+    if (location.chunk < 0) {
+      bytes = await this.read(location.offset, RECORD_PREFIX)
+      const length = new RecordView(bytes, 1).u64()
+      bytes = await this.read(location.offset, RECORD_PREFIX + length)
+      offset = 0
+    } else {
+      bytes = await this.loadChunk(location.chunk)
+      offset = location.offset
+    }
+
+    const r = new RecordView(bytes, offset)
+    const opcode = r.u8()
+    const length = r.u64()
+    if (opcode !== McapOpcode.MESSAGE) throw new Error(`Expected message record at ${location.offset}, got 0x${opcode.toString(16)}`)
+    // 复制一份：块缓存淘汰后底层缓冲区仍会被引用
+    const message = parseMessage(r.bytes(length))
+    return { ...message, data: message.data.slice() }
+  }
+
+  private async loadChunk(chunk: number): Promise<Uint8Array> {
+    const cached = this.chunkCache.get(chunk)
+    if (cached) {
+      // LRU：移到末尾
+      this.chunkCache.delete(chunk)
+      this.chunkCache.set(chunk, cached)
+      return cached
+    }
+
+    const info = this.chunks[chunk]
+    const record = new RecordView(await this.read(info.offset, info.length))
+    if (record.u8() !== McapOpcode.CHUNK) throw new Error(`Expected chunk record at ${info.offset}`)
+    const { compression, uncompressedSize, records } = parseChunk(record.bytes(record.u64()))
+    const data = decompressChunk(compression, records, uncompressedSize)
+
+    this.chunkCache.set(chunk, data)
+    if (this.chunkCache.size > this.chunkCacheSize) {
+      this.chunkCache.delete(this.chunkCache.keys().next().value!)
+    }
+    return data
+  }
+
+  private async read(offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await this.file.slice(offset, offset + length).arrayBuffer())
+  }
+}
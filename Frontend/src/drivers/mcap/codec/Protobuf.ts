@@ -0,0 +1,458 @@
+// src/drivers/mcap/codec/Protobuf.ts
+
+/**
+ * 基于 FileDescriptorSet 的 Protobuf 动态解码
+ * MCAP 的 protobuf Schema 记录携带序列化的 google.protobuf.FileDescriptorSet，
+ * 这里只解析解码需要的描述字段，把消息解码为以字段名为键的普通对象
+ */
+
+enum WireType {
+  VARINT = 0,
+  I64 = 1,
+  LEN = 2,
+  SGROUP = 3,
+  EGROUP = 4,
+  I32 = 5
+}
+
+// FieldDescriptorProto.Type
+export enum FieldType {
+  DOUBLE = 1,
+  FLOAT = 2,
+  INT64 = 3,
+  UINT64 = 4,
+  INT32 = 5,
+  FIXED64 = 6,
+  FIXED32 = 7,
+  BOOL = 8,
+  STRING = 9,
+  GROUP = 10,
+  MESSAGE = 11,
+  BYTES = 12,
+  UINT32 = 13,
+  ENUM = 14,
+  SFIXED32 = 15,
+  SFIXED64 = 16,
+  SINT32 = 17,
+  SINT64 = 18
+}
+
+const LABEL_REPEATED = 3
+
+// 与 TopicField.type 对应的类型名
+export const FIELD_TYPE_NAMES: Record<FieldType, string> = {
+  [FieldType.DOUBLE]: 'double',
+  [FieldType.FLOAT]: 'float',
+  [FieldType.INT64]: 'int64',
+  [FieldType.UINT64]: 'uint64',
+  [FieldType.INT32]: 'int32',
+  [FieldType.FIXED64]: 'fixed64',
+  [FieldType.FIXED32]: 'fixed32',
+  [FieldType.BOOL]: 'bool',
+  [FieldType.STRING]: 'string',
+  [FieldType.GROUP]: 'message',
+  [FieldType.MESSAGE]: 'message',
+  [FieldType.BYTES]: 'bytes',
+  [FieldType.UINT32]: 'uint32',
+  [FieldType.ENUM]: 'enum',
+  [FieldType.SFIXED32]: 'sfixed32',
+  [FieldType.SFIXED64]: 'sfixed64',
+  [FieldType.SINT32]: 'sint32',
+  [FieldType.SINT64]: 'sint64'
+}
+
+// 超过该长度的 bytes 字段只保留长度描述，避免图像等大块数据进入数据树
+const MAX_INLINE_BYTES = 256
+
+export interface FieldDescriptor {
+  name: string
+  number: number
+  type: FieldType
+  repeated: boolean
+  typeName?: string     // 消息 / 枚举的全名 (不带前导 '.')
+  inOneof: boolean      // oneof 成员 (含 proto3 optional) 没有隐式默认值
+  oneofIndex?: number   // 🌟 [新增] 所属 oneof 在 MessageDescriptor.oneofs 中的下标
+  proto3Optional?: boolean // 🌟 [新增] proto3 optional 生成的合成 oneof，不算真正的 oneof
+}
+
+export interface MessageDescriptor {
+  fullName: string
+  fields: FieldDescriptor[]
+  byNumber: Map<number, FieldDescriptor>
+  oneofs: string[]      // 🌟 [新增] oneof 名称 (按声明顺序)
+  mapEntry: boolean     // 🌟 [新增] map<K, V> 生成的 Entry 消息
+}
+
+// ========== Wire 读取 ==========
+
+class ProtoReader {
+  pos: number
+  private view: DataView
+
+  constructor(private buf: Uint8Array, start: number = 0, readonly end: number = buf.byteLength) {
+    this.pos = start
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+  }
+
+  private need(n: number) {
+    if (this.pos + n > this.end) throw new Error('Protobuf message truncated')
+  }
+
+  /**
+   * 读取 varint，返回低 32 位与高 32 位 (均为无符号)
+   */
+  varint64(): [number, number] {
+    let lo = 0
+    let hi = 0
+    let shift = 0
+    for (let i = 0; i < 10; i++) {
+      this.need(1)
+      const b = this.buf[this.pos++]
+      if (shift < 28) {
+        lo |= (b & 0x7f) << shift
+      } else if (shift === 28) {
+        lo |= (b & 0x0f) << 28
+        hi |= (b & 0x7f) >> 4
+      } else {
+        hi |= (b & 0x7f) << (shift - 32)
+      }
+      shift += 7
+      if ((b & 0x80) === 0) return [lo >>> 0, hi >>> 0]
+    }
+    throw new Error('Protobuf varint too long')
+  }
+
+  uint32(): number {
+    return this.varint64()[0]
+  }
+
+  fixed32(): number {
+    this.need(4)
+    const v = this.view.getUint32(this.pos, true)
+    this.pos += 4
+    return v
+  }
+
+  fixed64(): [number, number] {
+    const lo = this.fixed32()
+    return [lo, this.fixed32()]
+  }
+
+  float(): number {
+    this.need(4)
+    const v = this.view.getFloat32(this.pos, true)
+    this.pos += 4
+    return v
+  }
+
+  double(): number {
+    this.need(8)
+    const v = this.view.getFloat64(this.pos, true)
+    this.pos += 8
+    return v
+  }
+
+  bytes(): Uint8Array {
+    const length = this.uint32()
+    this.need(length)
+    const out = this.buf.subarray(this.pos, this.pos + length)
+    this.pos += length
+    return out
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes())
+  }
+
+  sub(): ProtoReader {
+    const length = this.uint32()
+    this.need(length)
+    const reader = new ProtoReader(this.buf, this.pos, this.pos + length)
+    this.pos += length
+    return reader
+  }
+
+  skip(wireType: WireType) {
+    switch (wireType) {
+      case WireType.VARINT: this.varint64(); break
+      case WireType.I64: this.need(8); this.pos += 8; break
+      case WireType.LEN: { const n = this.uint32(); this.need(n); this.pos += n; break }
+      case WireType.I32: this.need(4); this.pos += 4; break
+      case WireType.SGROUP: {
+        while (this.pos < this.end) {
+          const tag = this.uint32()
+          if ((tag & 7) === WireType.EGROUP) return
+          this.skip(tag & 7)
+        }
+        break
+      }
+      default: throw new Error(`Unknown protobuf wire type ${wireType}`)
+    }
+  }
+}
+
+// 64 位整数转为 number (超过 2^53 时丢失精度，数据面板展示足够)
+function toUnsigned64([lo, hi]: [number, number]): number {
+  return hi * 0x100000000 + lo
+}
+
+function toSigned64([lo, hi]: [number, number]): number {
+  if (hi & 0x80000000) {
+    return -((~hi >>> 0) * 0x100000000 + (~lo >>> 0) + 1)
+  }
+  return hi * 0x100000000 + lo
+}
+
+function zigZag64([lo, hi]: [number, number]): number {
+  const negative = lo & 1
+  const nlo = ((lo >>> 1) | (hi << 31)) >>> 0
+  const nhi = hi >>> 1
+  const magnitude = nhi * 0x100000000 + nlo
+  return negative ? -magnitude - 1 : magnitude
+}
+
+// ========== 描述符解析 ==========
+
+/**
+ * 已加载的消息类型集合 (一个 MCAP Schema 对应一个 FileDescriptorSet)
+ */
+export class DescriptorPool {
+  private messages = new Map<string, MessageDescriptor>()
+  // 🌟 [新增] 枚举全名 -> 值表 (数值 -> 名称)
+  private enums = new Map<string, Record<string, string>>()
+
+  static fromFileDescriptorSet(bytes: Uint8Array): DescriptorPool {
+    const pool = new DescriptorPool()
+    const reader = new ProtoReader(bytes)
+    while (reader.pos < reader.end) {
+      const tag = reader.uint32()
+      if (tag >>> 3 === 1 && (tag & 7) === WireType.LEN) pool.readFile(reader.sub())
+      else reader.skip(tag & 7)
+    }
+    return pool
+  }
+
+  get(fullName: string): MessageDescriptor | undefined {
+    return this.messages.get(fullName.replace(/^\./, ''))
+  }
+
+  /**
+   * 🌟 [新增] 枚举值表
+   */
+  getEnum(fullName: string): Record<string, string> | undefined {
+    return this.enums.get(fullName.replace(/^\./, ''))
+  }
+
+  // FileDescriptorProto: package = 2, message_type = 4, enum_type = 5
+  private readFile(reader: ProtoReader) {
+    let pkg = ''
+    const messages: ProtoReader[] = []
+    const enums: ProtoReader[] = []
+    while (reader.pos < reader.end) {
+      const tag = reader.uint32()
+      const field = tag >>> 3
+      if (field === 2 && (tag & 7) === WireType.LEN) pkg = reader.string()
+      else if (field === 4 && (tag & 7) === WireType.LEN) messages.push(reader.sub())
+      else if (field === 5 && (tag & 7) === WireType.LEN) enums.push(reader.sub())
+      else reader.skip(tag & 7)
+    }
+    messages.forEach(m => this.readMessage(m, pkg))
+    enums.forEach(e => this.readEnum(e, pkg))
+  }
+
+  // DescriptorProto: name = 1, field = 2, nested_type = 3, enum_type = 4, options = 7, oneof_decl = 8
+  private readMessage(reader: ProtoReader, scope: string) {
+    let name = ''
+    let mapEntry = false
+    const fields: FieldDescriptor[] = []
+    const nested: ProtoReader[] = []
+    const enums: ProtoReader[] = []
+    const oneofs: string[] = []
+    while (reader.pos < reader.end) {
+      const tag = reader.uint32()
+      const field = tag >>> 3
+      if (field === 1 && (tag & 7) === WireType.LEN) name = reader.string()
+      else if (field === 2 && (tag & 7) === WireType.LEN) fields.push(this.readField(reader.sub()))
+      else if (field === 3 && (tag & 7) === WireType.LEN) nested.push(reader.sub())
+      else if (field === 4 && (tag & 7) === WireType.LEN) enums.push(reader.sub())
+      else if (field === 7 && (tag & 7) === WireType.LEN) mapEntry = readMapEntryOption(reader.sub())
+      else if (field === 8 && (tag & 7) === WireType.LEN) oneofs.push(readName(reader.sub()))
+      else reader.skip(tag & 7)
+    }
+    const fullName = scope ? `${scope}.${name}` : name
+    this.messages.set(fullName, {
+      fullName,
+      fields,
+      byNumber: new Map(fields.map(f => [f.number, f])),
+      oneofs,
+      mapEntry
+    })
+    nested.forEach(m => this.readMessage(m, fullName))
+    enums.forEach(e => this.readEnum(e, fullName))
+  }
+
+  // EnumDescriptorProto: name = 1, value = 2 (EnumValueDescriptorProto: name = 1, number = 2)
+  private readEnum(reader: ProtoReader, scope: string) {
+    let name = ''
+    const values: Record<string, string> = {}
+    while (reader.pos < reader.end) {
+      const tag = reader.uint32()
+      const field = tag >>> 3
+      if (field === 1 && (tag & 7) === WireType.LEN) name = reader.string()
+      else if (field === 2 && (tag & 7) === WireType.LEN) {
+        const value = reader.sub()
+        let valueName = ''
+        let number = 0
+        while (value.pos < value.end) {
+          const t = value.uint32()
+          if (t >>> 3 === 1 && (t & 7) === WireType.LEN) valueName = value.string()
+          else if (t >>> 3 === 2 && (t & 7) === WireType.VARINT) number = value.varint64()[0] | 0
+          else value.skip(t & 7)
+        }
+        // 别名 (allow_alias) 保留第一个名称
+        values[number] ??= valueName
+      } else reader.skip(tag & 7)
+    }
+    this.enums.set(scope ? `${scope}.${name}` : name, values)
+  }
+
+  // FieldDescriptorProto: name = 1, number = 3, label = 4, type = 5, type_name = 6, oneof_index = 9, proto3_optional = 17
+  private readField(reader: ProtoReader): FieldDescriptor {
+    const field: FieldDescriptor = { name: '', number: 0, type: FieldType.INT32, repeated: false, inOneof: false }
+    while (reader.pos < reader.end) {
+      const tag = reader.uint32()
+      switch (tag >>> 3) {
+        case 1: field.name = reader.string(); break
+        case 3: field.number = reader.uint32(); break
+        case 4: field.repeated = reader.uint32() === LABEL_REPEATED; break
+        case 5: field.type = reader.uint32() as FieldType; break
+        case 6: field.typeName = reader.string().replace(/^\./, ''); break
+        case 9: field.oneofIndex = reader.uint32(); field.inOneof = true; break
+        case 17: field.proto3Optional = reader.uint32() !== 0; break
+        default: reader.skip(tag & 7)
+      }
+    }
+    return field
+  }
+}
+
+// OneofDescriptorProto / EnumDescriptorProto 等：name = 1
+function readName(reader: ProtoReader): string {
+  let name = ''
+  while (reader.pos < reader.end) {
+    const tag = reader.uint32()
+    if (tag >>> 3 === 1 && (tag & 7) === WireType.LEN) name = reader.string()
+    else reader.skip(tag & 7)
+  }
+  return name
+}
+
+// MessageOptions: map_entry = 7
+function readMapEntryOption(reader: ProtoReader): boolean {
+  let mapEntry = false
+  while (reader.pos < reader.end) {
+    const tag = reader.uint32()
+    if (tag >>> 3 === 7 && (tag & 7) === WireType.VARINT) mapEntry = reader.uint32() !== 0
+    else reader.skip(tag & 7)
+  }
+  return mapEntry
+}
+
+// ========== 消息解码 ==========
+
+/**
+ * 按描述符把一条消息解码为普通对象 (字段名为键，嵌套消息为子对象，repeated 为数组)
+ * 未出现的非 oneof 字段补上默认值，与 proto3 语义一致
+ */
+export function decodeMessage(pool: DescriptorPool, type: MessageDescriptor, bytes: Uint8Array): Record<string, any> {
+  return readMessage(pool, type, new ProtoReader(bytes))
+}
+
+function readMessage(pool: DescriptorPool, type: MessageDescriptor, reader: ProtoReader): Record<string, any> {
+  const result: Record<string, any> = {}
+
+  while (reader.pos < reader.end) {
+    const tag = reader.uint32()
+    const wireType = tag & 7
+    const field = type.byNumber.get(tag >>> 3)
+    if (!field) {
+      reader.skip(wireType)
+      continue
+    }
+
+    if (field.repeated) {
+      const list: any[] = result[field.name] ?? (result[field.name] = [])
+      // 数值类型的 repeated 字段可能是 packed 编码
+      if (wireType === WireType.LEN && isPackable(field.type)) {
+        const packed = reader.sub()
+        while (packed.pos < packed.end) list.push(readScalar(field.type, packed))
+      } else {
+        list.push(readValue(pool, field, wireType, reader))
+      }
+    } else {
+      result[field.name] = readValue(pool, field, wireType, reader)
+    }
+  }
+
+  for (const field of type.fields) {
+    if (field.name in result) continue
+    if (field.repeated) result[field.name] = []
+    else if (!field.inOneof && field.type !== FieldType.MESSAGE && field.type !== FieldType.GROUP) {
+      result[field.name] = defaultValue(field.type)
+    }
+  }
+  return result
+}
+
+function readValue(pool: DescriptorPool, field: FieldDescriptor, wireType: WireType, reader: ProtoReader): any {
+  if (field.type === FieldType.MESSAGE) {
+    const sub = field.typeName ? pool.get(field.typeName) : undefined
+    if (!sub) { reader.skip(wireType); return null }
+    return readMessage(pool, sub, reader.sub())
+  }
+  if (field.type === FieldType.GROUP) {
+    reader.skip(WireType.SGROUP)
+    return null
+  }
+  return readScalar(field.type, reader)
+}
+
+function readScalar(type: FieldType, reader: ProtoReader): any {
+  switch (type) {
+    case FieldType.DOUBLE: return reader.double()
+    case FieldType.FLOAT: return reader.float()
+    case FieldType.INT64: return toSigned64(reader.varint64())
+    case FieldType.UINT64: return toUnsigned64(reader.varint64())
+    case FieldType.INT32: return reader.varint64()[0] | 0
+    case FieldType.FIXED64: return toUnsigned64(reader.fixed64())
+    case FieldType.FIXED32: return reader.fixed32()
+    case FieldType.BOOL: return reader.varint64()[0] !== 0
+    case FieldType.STRING: return reader.string()
+    case FieldType.BYTES: return summarizeBytes(reader.bytes())
+    case FieldType.UINT32: return reader.uint32()
+    case FieldType.ENUM: return reader.varint64()[0] | 0
+    case FieldType.SFIXED32: return reader.fixed32() | 0
+    case FieldType.SFIXED64: return toSigned64(reader.fixed64())
+    case FieldType.SINT32: { const v = reader.uint32(); return (v >>> 1) ^ -(v & 1) }
+    case FieldType.SINT64: return zigZag64(reader.varint64())
+    default: throw new Error(`Unsupported protobuf field type ${type}`)
+  }
+}
+
+function isPackable(type: FieldType): boolean {
+  return type !== FieldType.STRING && type !== FieldType.BYTES
+    && type !== FieldType.MESSAGE && type !== FieldType.GROUP
+}
+
+function defaultValue(type: FieldType): any {
+  switch (type) {
+    case FieldType.BOOL: return false
+    case FieldType.STRING: return ''
+    case FieldType.BYTES: return []
+    default: return 0
+  }
+}
+
+function summarizeBytes(bytes: Uint8Array): number[] | string {
+  return bytes.byteLength <= MAX_INLINE_BYTES ? Array.from(bytes) : `<${bytes.byteLength} bytes>`
+}
@@ -0,0 +1,35 @@
+// src/drivers/mcap/index.ts
+import type { IDataDriver, IDataAdapter } from '@/core/types/driver'
+import { SchemaAdapter } from '@/drivers/schema/adapters/SchemaAdapter'
+
+// MCAP 消息在索引 Worker 中已转换为以字段 ID 为键的数据，Topic 解析沿用 Schema 驱动的 Worker
+import ParserWorker from '@/drivers/schema/worker/parser.worker?worker'
+
+import { McapReplaySource } from './McapReplaySource'
+
+export { McapReplaySource, type McapReplayOptions } from './McapReplaySource'
+
+export const MCAP_FILE_EXTENSION = '.mcap'
+
+export const mcapDriver: IDataDriver = {
+  name: 'mcap-driver',
+  label: 'MCAP',
+
+  capabilities: {
+    fileExtensions: [MCAP_FILE_EXTENSION]
+  },
+
+  createWorker(): Worker {
+    return new ParserWorker()
+  },
+
+  getAdapters(): IDataAdapter[] {
+    return [
+      new SchemaAdapter()
+    ]
+  },
+
+  openFile(file: File) {
+    return McapReplaySource.open(file)
+  }
+}
@@ -0,0 +1,39 @@
+// src/drivers/mcap/types.ts
+// MCAP 驱动：主线程 <-> 索引 Worker 协议
+
+import type { TopicSchema } from '@/core/types/common'
+
+export interface McapChannelInfo {
+  id: number
+  topicKey: string        // 通道 topic；同名通道追加 "#<id>" 区分
+  messageEncoding: string
+  schema: TopicSchema
+  times: Float64Array     // 该通道全部消息的 logTime (秒)，升序
+}
+
+export interface McapSkippedChannel {
+  topic: string
+  reason: string
+}
+
+export interface McapLoadItem {
+  channelId: number
+  index: number           // 消息在该通道 times 中的下标
+}
+
+export interface McapLoadedMessage {
+  channelId: number
+  index: number
+  logTime: number
+  data: Record<string, any> | null   // 以字段 ID 为键，解码失败时为 null
+  error?: string
+}
+
+export type McapWorkerRequest =
+  | { type: 'OPEN'; requestId: number; file: Blob }
+  | { type: 'LOAD'; requestId: number; items: McapLoadItem[] }
+
+export type McapWorkerResponse =
+  | { type: 'OPENED'; requestId: number; channels: McapChannelInfo[]; skipped: McapSkippedChannel[] }
+  | { type: 'LOADED'; requestId: number; messages: McapLoadedMessage[] }
+  | { type: 'ERROR'; requestId: number; error: string }
@@ -0,0 +1,142 @@
+// src/drivers/mcap/worker/mcap.worker.ts
+
+import type { TopicSchema } from '@/core/types/common'
+import { McapReader, type McapChannel, type McapSchema } from '../codec/McapReader'
+import { DescriptorPool, decodeMessage } from '../codec/Protobuf'
+import {
+  FieldIdMapper,
+  inferSchema,
+  schemaFromDescriptor,
+  schemaFromJsonSchema
+} from '../codec/FieldMapping'
+import type {
+  McapChannelInfo,
+  McapLoadedMessage,
+  McapSkippedChannel,
+  McapWorkerRequest,
+  McapWorkerResponse
+} from '../types'
+
+// 无 Schema 的 JSON 通道用前几条消息推断字段
+const JSON_INFER_SAMPLES = 3
+
+type ChannelDecoder = (bytes: Uint8Array) => Record<string, any>
+
+let reader: McapReader | null = null
+const decoders = new Map<number, ChannelDecoder>()
+const descriptorPools = new Map<number, DescriptorPool>()
+const textDecoder = new TextDecoder()
+
+function post(response: McapWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer })
+}
+
+self.onmessage = async (e: MessageEvent<McapWorkerRequest>) => {
+  const request = e.data
+  try {
+    if (request.type === 'OPEN') {
+      await open(request.requestId, request.file)
+    } else if (request.type === 'LOAD') {
+      post({ type: 'LOADED', requestId: request.requestId, messages: await load(request.items) })
+    }
+  } catch (error: any) {
+    post({ type: 'ERROR', requestId: request.requestId, error: error?.message ?? String(error) })
+  }
+}
+
+async function open(requestId: number, file: Blob) {
+  reader = new McapReader(file)
+  decoders.clear()
+  descriptorPools.clear()
+  await reader.open()
+
+  const index = reader.getIndex()
+  const channels: McapChannelInfo[] = []
+  const skipped: McapSkippedChannel[] = []
+  const topicCounts = new Map<string, number>()
+  reader.channels.forEach(c => topicCounts.set(c.topic, (topicCounts.get(c.topic) ?? 0) + 1))
+
+  for (const channel of [...reader.channels.values()].sort((a, b) => a.id - b.id)) {
+    try {
+      const schema = await createDecoder(channel, reader.schemas.get(channel.schemaId))
+      channels.push({
+        id: channel.id,
+        topicKey: topicCounts.get(channel.topic)! > 1 ? `${channel.topic}#${channel.id}` : channel.topic,
+        messageEncoding: channel.messageEncoding,
+        schema,
+        times: index.get(channel.id)?.times ?? new Float64Array(0)
+      })
+    } catch (error: any) {
+      skipped.push({ topic: channel.topic, reason: error?.message ?? String(error) })
+    }
+  }
+
+  // Worker 侧只用 chunks/offsets 定位消息，时间数组直接转移给主线程
+  post({ type: 'OPENED', requestId, channels, skipped }, channels.map(c => c.times.buffer))
+}
+
+async function createDecoder(channel: McapChannel, schema: McapSchema | undefined): Promise<TopicSchema> {
+  if (channel.messageEncoding === 'protobuf') {
+    if (schema?.encoding !== 'protobuf') throw new Error(`protobuf channel without protobuf schema`)
+    let pool = descriptorPools.get(schema.id)
+    if (!pool) {
+      pool = DescriptorPool.fromFileDescriptorSet(schema.data)
+      descriptorPools.set(schema.id, pool)
+    }
+    const type = pool.get(schema.name)
+    if (!type) throw new Error(`Message type ${schema.name} not found in schema`)
+
+    const topicSchema = schemaFromDescriptor(pool, type)
+    const mapper = new FieldIdMapper(topicSchema)
+    decoders.set(channel.id, bytes => mapper.map(decodeMessage(pool!, type, bytes)))
+    return topicSchema
+  }
+
+  if (channel.messageEncoding === 'json') {
+    let topicSchema: TopicSchema | null = null
+    if (schema?.encoding === 'jsonschema' && schema.data.byteLength > 0) {
+      topicSchema = schemaFromJsonSchema(schema.name, JSON.parse(textDecoder.decode(schema.data)))
+    }
+    if (!topicSchema) {
+      topicSchema = inferSchema(schema?.name ?? channel.topic, await readSamples(channel.id))
+    }
+    const mapper = new FieldIdMapper(topicSchema)
+    decoders.set(channel.id, bytes => mapper.map(JSON.parse(textDecoder.decode(bytes))))
+    return topicSchema
+  }
+
+  const encoding = schema ? `${channel.messageEncoding} (${schema.encoding})` : channel.messageEncoding
+  throw new Error(`Unsupported message encoding: ${encoding}`)
+}
+
+async function readSamples(channelId: number): Promise<any[]> {
+  const entry = reader!.getIndex().get(channelId)
+  const samples: any[] = []
+  for (let i = 0; entry && i < Math.min(JSON_INFER_SAMPLES, entry.chunks.length); i++) {
+    const message = await reader!.readMessage({ chunk: entry.chunks[i], offset: entry.offsets[i] })
+    samples.push(JSON.parse(textDecoder.decode(message.data)))
+  }
+  return samples
+}
+
+async function load(items: { channelId: number; index: number }[]): Promise<McapLoadedMessage[]> {
+  if (!reader) throw new Error('No MCAP file opened')
+  const index = reader.getIndex()
+  const messages: McapLoadedMessage[] = []
+
+  for (const { channelId, index: i } of items) {
+    const entry = index.get(channelId)
+    const decode = decoders.get(channelId)
+    if (!entry || !decode || i < 0 || i >= entry.chunks.length) {
+      messages.push({ channelId, index: i, logTime: 0, data: null, error: 'Message not found' })
+      continue
+    }
+    const message = await reader.readMessage({ chunk: entry.chunks[i], offset: entry.offsets[i] })
+    try {
+      messages.push({ channelId, index: i, logTime: message.logTime, data: decode(message.data) })
+    } catch (error: any) {
+      messages.push({ channelId, index: i, logTime: message.logTime, data: null, error: error?.message ?? String(error) })
+    }
+  }
+  return messages
+}
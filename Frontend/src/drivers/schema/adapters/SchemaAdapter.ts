@@ -1,17 +1,166 @@
 // src/drivers/schema/adapters/SchemaAdapter.ts
 import type { IDataAdapter } from '@/core/types/driver'
-import type { RenderableObject } from '@/core/types/viz-standard'
+import type { Point3D, RenderableObject } from '@/core/types/viz-standard'
+import { rulesForTopic, type SchemaVizRule } from '@/core/vis/SchemaVizRules'
+
+export interface SchemaAdapterContext {
+  topicKey: string
+  timestamp?: number
+}
+
+// 各类型的默认颜色
+const DEFAULT_COLORS: Record<SchemaVizRule['kind'], string> = {
+  point: '#ffd04b',
+  polyline: '#4fc3f7',
+  box: '#ff7043',
+  text: '#ffffff'
+}
+
+/**
+ * 🌟 [修改] 规则驱动的通用适配器
+ * 按用户为 Topic 配置的 SchemaVizRule，把解析后的业务数据映射为点 / 多段线 / 包围盒 / 文本
+ */
+export class SchemaAdapter implements IDataAdapter<Record<string, any>> {
+
+  constructor(private getRules: (topicKey: string) => SchemaVizRule[] = rulesForTopic) {}
 
-// ✅ 改名为 SchemaAdapter
-export class SchemaAdapter implements IDataAdapter {
-  
   canHandle(topic: string, schemaType?: string): boolean {
-    return true
+    return this.getRules(topic).length > 0
   }
 
-  transform(data: any, context?: any): RenderableObject[] {
+  transform(data: Record<string, any>, context?: SchemaAdapterContext): RenderableObject[] {
     const results: RenderableObject[] = []
-    // TODO: 实现通用转换逻辑
+    if (!context) return results
+
+    for (const rule of this.getRules(context.topicKey)) {
+      try {
+        transformRule(rule, data, context, results)
+      } catch (e) {
+        console.warn(`[SchemaAdapter] Rule ${rule.id} failed on ${context.topicKey}:`, e)
+      }
+    }
     return results
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 按路径取值，"[]" 段展开数组，返回展开后的值列表
+ * 未展开的缺失字段保留 undefined 占位，保证与同规则其他字段的下标对齐
+ */
+export function resolveFieldPath(data: any, path: string): any[] {
+  let values: any[] = [data]
+  for (const segment of path.trim().split('.')) {
+    const fanOut = segment.endsWith('[]')
+    const key = fanOut ? segment.slice(0, -2) : segment
+    const next: any[] = []
+    for (const value of values) {
+      const child = key ? value?.[key] : value
+      if (!fanOut) next.push(child)
+      else if (Array.isArray(child)) next.push(...child)
+    }
+    values = next
+  }
+  return values
+}
+
+function transformRule(rule: SchemaVizRule, data: any, context: SchemaAdapterContext, out: RenderableObject[]) {
+  const field = (path?: string) => (path ? resolveFieldPath(data, path) : [])
+  // 只有一个值的字段对所有元素共用
+  const pick = (values: any[], i: number) => (values.length === 1 ? values[0] : values[i])
+
+  const color = rule.color || DEFAULT_COLORS[rule.kind]
+  const base = (i: number) => ({
+    id: `${context.topicKey}/${rule.id}/${i}`,
+    category: rule.kind,
+    style: { color },
+    meta: { topicKey: context.topicKey, ruleId: rule.id, index: i },
+    timestamp: context.timestamp
+  })
+
+  if (rule.kind === 'polyline') {
+    field(rule.points).forEach((value, i) => {
+      const points = toPointList(value)
+      if (points.length >= 2) out.push({ ...base(i), type: 'polyline', points })
+    })
+    return
+  }
+
+  const positions = field(rule.position)
+  const labels = field(rule.label)
+  const sizes = field(rule.size)
+  const headings = field(rule.heading)
+
+  positions.forEach((value, i) => {
+    const position = toPoint3D(value)
+    if (!position) return
+    const label = pick(labels, i)
+    const text = label === undefined || label === null ? null : String(label)
+
+    switch (rule.kind) {
+      case 'point':
+        out.push({ ...base(i), type: 'point', position })
+        if (text !== null) out.push({ ...base(i), id: `${base(i).id}/label`, type: 'text', position, text })
+        break
+
+      case 'box': {
+        const size = toSize(pick(sizes, i))
+        const heading = Number(pick(headings, i))
+        out.push({
+          ...base(i),
+          type: 'box',
+          position,
+          size,
+          rotation: { x: 0, y: 0, z: Number.isFinite(heading) ? heading : 0 }
+        })
+        if (text !== null) {
+          const top = { ...position, z: position.z + size.z / 2 }
+          out.push({ ...base(i), id: `${base(i).id}/label`, type: 'text', position: top, text })
+        }
+        break
+      }
+
+      case 'text':
+        if (text !== null) out.push({ ...base(i), type: 'text', position, text })
+        break
+    }
+  })
+}
+
+// ========== 取值转换 ==========
+
+function num(value: any): number | null {
+  const n = typeof value === 'string' ? Number(value) : value
+  return typeof n === 'number' && Number.isFinite(n) ? n : null
+}
+
+/**
+ * {x, y, z?} 或 [x, y, z?] -> Point3D
+ */
+function toPoint3D(value: any): Point3D | null {
+  if (!value || typeof value !== 'object') return null
+  const [x, y, z] = Array.isArray(value) ? value : [value.x, value.y, value.z]
+  const px = num(x)
+  const py = num(y)
+  if (px === null || py === null) return null
+  return { x: px, y: py, z: num(z) ?? 0 }
+}
+
+/**
+ * 点列：元素为点的数组，或 {points: [...]} 形式的消息
+ */
+function toPointList(value: any): Point3D[] {
+  const list = Array.isArray(value) ? value : value?.points
+  if (!Array.isArray(list)) return []
+  return list.map(toPoint3D).filter((p): p is Point3D => p !== null)
+}
+
+/**
+ * {x,y,z}、{length,width,height} 或 [l,w,h] -> 尺寸，缺失的分量取 1 米
+ */
+function toSize(value: any): Point3D {
+  if (!value || typeof value !== 'object') return { x: 1, y: 1, z: 1 }
+  const [x, y, z] = Array.isArray(value)
+    ? value
+    : [value.x ?? value.length, value.y ?? value.width, value.z ?? value.height]
+  return { x: num(x) ?? 1, y: num(y) ?? 1, z: num(z) ?? 1 }
+}
@@ -1,12 +1,24 @@
 // src/drivers/schema/index.ts
 import type { IDataDriver, IDataAdapter } from '@/core/types/driver'
+import type { DataTransport } from '@/core/types/transport'
 import { SchemaAdapter } from './adapters/SchemaAdapter'
+import { SESSION_FILE_EXTENSION } from '@/core/recording/SessionFile'
+import { SessionFileReplaySource } from '@/core/replay/SessionFileReplaySource'
+import { DirectoryReplaySource } from '@/core/replay/DirectoryReplaySource'
 
 // ✅ 指向新的 worker
 import ParserWorker from './worker/parser.worker?worker'
 
 export const schemaDriver: IDataDriver = {
   name: 'schema-driver', // ✅ 更新名称
+  label: '内置协议',
+
+  // 内置协议的服务端、会话录制文件与录制目录都由本驱动解析
+  capabilities: {
+    live: true,
+    fileExtensions: [SESSION_FILE_EXTENSION],
+    directory: true
+  },
 
   createWorker(): Worker {
     return new ParserWorker()
@@ -18,7 +30,15 @@ export const schemaDriver: IDataDriver = {
     ]
   },
 
-  onConnect(ws: WebSocket) {
-    console.log('[SchemaDriver] Connected to WebSocket')
+  openFile(file: File) {
+    return SessionFileReplaySource.open(file)
+  },
+
+  openDirectory(files: File[]) {
+    return DirectoryReplaySource.open(files)
+  },
+
+  onConnect(transport: DataTransport) {
+    console.log(`[SchemaDriver] Connected to ${transport.getUrl()}`)
   }
 }
\ No newline at end of file
@@ -5,9 +5,27 @@ import type { TopicSchema } from '@/core/types/common'
 
 // ✅ 引入核心解析器
 import { SchemaParser } from '@/core/codec/SchemaParser'
+import { flattenNumericFields, type ColumnarRow } from '@/core/data/ColumnarStore'
 
 const schemaCache = new Map<string, TopicSchema>()
 
+// 🌟 [新增] 每个 Topic 上一次发给主线程的列布局 (路径拼接串)
+const layoutCache = new Map<string, string>()
+
+/**
+ * 将解析结果展开为列存行，布局不变时不重复发送路径
+ */
+function buildColumnarRow(topicKey: string, parsedData: any, frameId: number, timestamp: number): ColumnarRow {
+  const { paths, values } = flattenNumericFields(parsedData)
+  const layoutKey = paths.join('\n')
+  const row: ColumnarRow = { frameId, timestamp, values: Float64Array.from(values) }
+  if (layoutCache.get(topicKey) !== layoutKey) {
+    layoutCache.set(topicKey, layoutKey)
+    row.paths = paths
+  }
+  return row
+}
+
 self.onmessage = (e: MessageEvent) => {
   const { type, payload } = e.data
 
@@ -15,12 +33,13 @@ self.onmessage = (e: MessageEvent) => {
     const { topicKey, schema } = payload
     if (topicKey && schema) {
       schemaCache.set(topicKey, schema)
+      layoutCache.delete(topicKey)
     }
     return
   }
 
   if (type === 'PARSE') {
-    const { topicKey, data } = payload
+    const { topicKey, data, frameId, timestamp } = payload
     
     try {
       const schema = schemaCache.get(topicKey)
@@ -36,7 +55,18 @@ self.onmessage = (e: MessageEvent) => {
         topicKey,
         parsedData
       }
-      self.postMessage(response)
+
+      // 🌟 [新增] 枚举数值 -> 名称 (数据保留数值，名称单独带回)
+      const enumLabels = SchemaParser.resolveEnums(parsedData, schema)
+      if (Object.keys(enumLabels).length > 0) response.enumLabels = enumLabels
+
+      // 🌟 [新增] 同时产出数值列，供主线程历史存储
+      if (typeof frameId === 'number' && typeof timestamp === 'number') {
+        response.columns = buildColumnarRow(topicKey, parsedData, frameId, timestamp)
+        self.postMessage(response, { transfer: [response.columns.values.buffer] })
+      } else {
+        self.postMessage(response)
+      }
 
     } catch (error: any) {
       self.postMessage({
@@ -1,6 +1,11 @@
 // src/drivers/schema/worker/viz-parser.worker.ts
 
 import { VizDecoder, type DecodeResult } from '@/core/protocol/VizDecoder'
+import { ProtocolError, type NegotiatedProtocol } from '@/core/protocol/ProtocolCapabilities'
+import { toDiagnostic } from '@/core/protocol/DecodeDiagnostics'
+
+// 握手协商结果 (主线程在收到 INIT_INFO 后下发，未下发时按 v0 解析)
+let protocol: NegotiatedProtocol | undefined
 
 // 辅助函数：收集所有可转移对象（ArrayBuffer）
 // 以实现零拷贝传输
@@ -34,13 +39,21 @@ function collectTransferables(obj: any, transferables: Set<ArrayBuffer>) {
 
 // Worker 内部的消息处理逻辑
 self.onmessage = (e: MessageEvent) => {
-  const { type, payload } = e.data
+  // seq: 解码池分配的包序号，原样带回供主线程重排
+  const { type, payload, seq, origin } = e.data
+  const startedAt = performance.now()
 
   try {
+    if (type === 'SET_PROTOCOL') {
+      protocol = payload ?? undefined
+      return
+    }
+
     if (type === 'PARSE_SCENE') {
       // 1. 执行耗时的解码操作 (CPU 密集型)
       // payload 是 ArrayBuffer，VizDecoder 会同步解析它
-      const result = VizDecoder.decode(payload) 
+      VizDecoder.seedOrigin(origin ?? null)
+      const result: DecodeResult = VizDecoder.decode(payload, protocol)
       
       // 🌟 [核心优化] 收集 Transferable Objects
       // 防止主线程接收结果时发生深拷贝 (Deep Clone) 导致的卡顿
@@ -52,17 +65,35 @@ self.onmessage = (e: MessageEvent) => {
         {
           type: 'SCENE_PARSED',
           success: true,
-          data: result
+          data: result,
+          seq,
+          decodeMs: performance.now() - startedAt
         },
         Array.from(transferables) // 转移所有权
       )
     }
   } catch (error) {
-    console.error('[VizParserWorker] Parse error:', error)
+    // 协议不兼容单独上报，由主线程提示用户
+    if (error instanceof ProtocolError) {
+      self.postMessage({
+        type: 'PROTOCOL_ERROR',
+        success: false,
+        error: error.message,
+        seq,
+        decodeMs: performance.now() - startedAt
+      })
+      return
+    }
+    // 🌟 整包无法解析 (Header 损坏等)：以诊断形式上报，主线程计入统计
+    const size = payload instanceof ArrayBuffer ? payload.byteLength : 0
+    const diagnostic = toDiagnostic(error, 0, { path: '', bytesSkipped: size })
     self.postMessage({
       type: 'ERROR',
       success: false,
-      error: error
+      error: diagnostic.message,
+      diagnostics: [diagnostic],
+      seq,
+      decodeMs: performance.now() - startedAt
     })
   }
 }
\ No newline at end of file
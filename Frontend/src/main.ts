@@ -5,6 +5,7 @@ import 'element-plus/dist/index.css'
 import 'splitpanes/dist/splitpanes.css'
 
 import App from './App.vue'
+import '@/drivers' // 注册数据驱动
 import '@/assets/styles/main.css'
 
 
@@ -33,8 +33,9 @@ export const ValueFormatters = {
   object: () => '{...}',
   
   // ⬇️ 新增 enum 格式化器
-  enum: (value: any) => {
-    return String(value)
+  // 🌟 [修改] 有枚举名时显示 "名称 (数值)"
+  enum: (value: any, name?: string) => {
+    return name !== undefined ? `${name} (${value})` : String(value)
   },
 
   null: () => 'null'
@@ -42,8 +43,9 @@ export const ValueFormatters = {
 
 /**
  * 格式化字段值用于显示
+ * @param enumName 枚举字段当前值对应的名称 (由解析 Worker 按 Schema 枚举值表得出)
  */
-export function formatFieldValue(value: any, field?: TopicField): string {
+export function formatFieldValue(value: any, field?: Pick<TopicField, 'type'>, enumName?: string): string {
   if (value === null || value === undefined) {
     return ValueFormatters.null()
   }
@@ -53,8 +55,8 @@ export function formatFieldValue(value: any, field?: TopicField): string {
   }
   
   // ⬇️ 新增：优先处理 enum 类型
-  if (field?.type === 'enum') {
-    return ValueFormatters.enum(value)
+  if (field?.type === 'enum' || enumName !== undefined) {
+    return ValueFormatters.enum(value, enumName)
   }
 
   if (Array.isArray(value)) {
@@ -0,0 +1,203 @@
+// src/packages/timeline/composables/useTimelineSeries.ts
+
+import { reactive } from 'vue'
+import { dataManager, type DataUpdateEvent } from '@/core/data/DataManager'
+import type { FieldDragPayload } from '@/types/topic'
+import type { FieldExpression } from '@/core/codec/expression'
+import { TimeSeriesBuffer } from '../core/TimeSeriesBuffer'
+
+export interface TimelineSeries {
+  id: string        // `${topicKey}::${path}`
+  topicKey: string
+  path: string      // RenderedTreeNode.path，表达式曲线为表达式源码
+  isExpression: boolean
+  label: string
+  color: string
+  visible: boolean
+}
+
+const PALETTE = ['#409eff', '#67c23a', '#e6a23c', '#f56c6c', '#8e44ad', '#16a085', '#d35400', '#2c3e50']
+
+// 每条序列保留的历史样本数
+const HISTORY_CAPACITY = 5000
+
+// ========== 全局单例状态 ==========
+// 面板在标签页/浮动窗口之间切换时会重新挂载，曲线配置和历史需要保留
+
+const series = reactive<TimelineSeries[]>([])
+const buffers = new Map<string, TimeSeriesBuffer>()
+// 表达式曲线的编译结果 (不放进 reactive 数组，避免被深度代理)
+const expressions = new Map<string, FieldExpression>()
+
+// 数据版本号：渲染循环据此判断是否需要重绘
+let revision = 0
+let listenerCount = 0
+
+/**
+ * 按 RenderedTreeNode.path 读取值，如 "objects[0].velocity.x"
+ */
+function readFieldPath(data: any, path: string): any {
+  const tokens = path.match(/[^.[\]]+/g)
+  if (!tokens) return undefined
+  let current = data
+  for (const token of tokens) {
+    if (current === null || current === undefined) return undefined
+    current = current[token]
+  }
+  return current
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  // int64 等可能以字符串形式下发
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value)
+  return null
+}
+
+function handleDataUpdate(event: DataUpdateEvent) {
+  let parsed: any = undefined
+  for (const s of series) {
+    if (s.topicKey !== event.topicKey) continue
+    if (parsed === undefined) {
+      parsed = dataManager.getParsedData(event.topicKey) ?? null
+      if (!parsed) return
+    }
+    const expression = expressions.get(s.id)
+    const value = expression ? expression.evaluateNumber(parsed) : toNumber(readFieldPath(parsed, s.path))
+    if (value === null) continue
+    buffers.get(s.id)?.push(event.timestamp, value)
+    revision++
+  }
+}
+
+/**
+ * 时间曲线序列管理
+ * 负责序列的增删，以及从 DataManager 的 data-updated 事件采集历史
+ */
+export function useTimelineSeries() {
+  function pickColor(): string {
+    const usedColors = new Set(series.map(s => s.color))
+    return PALETTE.find(c => !usedColors.has(c)) || PALETTE[series.length % PALETTE.length]
+  }
+
+  function addSeries(payload: FieldDragPayload): boolean {
+    const id = `${payload.topicKey}::${payload.path}`
+    if (series.some(s => s.id === id)) return false
+
+    series.push({
+      id,
+      topicKey: payload.topicKey,
+      path: payload.path,
+      label: payload.path,
+      isExpression: false,
+      color: pickColor(),
+      visible: true
+    })
+    const buffer = new TimeSeriesBuffer(HISTORY_CAPACITY)
+    buffers.set(id, buffer)
+
+    // 从 DataManager 的列式历史回填，拖入后立即能看到已播放部分
+    const history = dataManager.getSeries(payload.topicKey, payload.path)
+    if (history) {
+      const from = Math.max(0, history.values.length - HISTORY_CAPACITY)
+      for (let i = from; i < history.values.length; i++) {
+        buffer.push(history.times[i], history.values[i])
+      }
+    }
+
+    // 立即采集一次当前值，避免等待下一次推送
+    const raw = dataManager.getRawData(payload.topicKey)
+    if (raw) {
+      handleDataUpdate({ topicKey: payload.topicKey, frameId: raw.frame_id, timestamp: raw.timestamp })
+    }
+    revision++
+    return true
+  }
+
+  /**
+   * 添加表达式曲线 (表达式需已编译且为单值)
+   */
+  function addExpressionSeries(topicKey: string, expression: FieldExpression): boolean {
+    const id = `${topicKey}::=${expression.source}`
+    if (series.some(s => s.id === id)) return false
+
+    series.push({
+      id,
+      topicKey,
+      path: expression.source,
+      label: expression.source,
+      isExpression: true,
+      color: pickColor(),
+      visible: true
+    })
+    buffers.set(id, new TimeSeriesBuffer(HISTORY_CAPACITY))
+    expressions.set(id, expression)
+
+    const raw = dataManager.getRawData(topicKey)
+    if (raw) {
+      handleDataUpdate({ topicKey, frameId: raw.frame_id, timestamp: raw.timestamp })
+    }
+    revision++
+    return true
+  }
+
+  function removeSeries(id: string) {
+    const idx = series.findIndex(s => s.id === id)
+    if (idx >= 0) series.splice(idx, 1)
+    buffers.delete(id)
+    expressions.delete(id)
+    revision++
+  }
+
+  function toggleSeries(id: string) {
+    const s = series.find(item => item.id === id)
+    if (s) s.visible = !s.visible
+    revision++
+  }
+
+  function clearHistory() {
+    buffers.forEach(b => b.clear())
+    revision++
+  }
+
+  function clearAll() {
+    series.splice(0, series.length)
+    buffers.clear()
+    expressions.clear()
+    revision++
+  }
+
+  function getBuffer(id: string): TimeSeriesBuffer | undefined {
+    return buffers.get(id)
+  }
+
+  function getRevision(): number {
+    return revision
+  }
+
+  /**
+   * 开始/停止采集 (按挂载的面板数计数)
+   */
+  function attach() {
+    if (listenerCount++ === 0) dataManager.on('data-updated', handleDataUpdate)
+  }
+
+  function detach() {
+    if (listenerCount > 0 && --listenerCount === 0) dataManager.off('data-updated', handleDataUpdate)
+  }
+
+  return {
+    series,
+    addSeries,
+    addExpressionSeries,
+    removeSeries,
+    toggleSeries,
+    clearHistory,
+    clearAll,
+    getBuffer,
+    getRevision,
+    attach,
+    detach
+  }
+}
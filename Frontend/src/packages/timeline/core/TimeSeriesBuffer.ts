@@ -0,0 +1,117 @@
+// src/packages/timeline/core/TimeSeriesBuffer.ts
+
+/**
+ * 有界时间序列缓冲区
+ *
+ * 职责：
+ * 1. 按时间戳有序存储 (t, v) 样本，使用 Float64Array 避免 GC
+ * 2. 超出容量时批量淘汰最旧的样本
+ * 3. 支持乱序写入 (回放跳转后会收到更早的数据)，同一时间戳直接覆盖
+ */
+export class TimeSeriesBuffer {
+  private times: Float64Array
+  private values: Float64Array
+  private length = 0
+
+  // 满载时一次淘汰的比例，摊薄 copyWithin 的开销
+  private readonly EVICT_RATIO = 0.1
+
+  constructor(public readonly capacity: number = 5000) {
+    this.times = new Float64Array(capacity)
+    this.values = new Float64Array(capacity)
+  }
+
+  get size(): number {
+    return this.length
+  }
+
+  push(t: number, v: number): void {
+    if (!Number.isFinite(t) || !Number.isFinite(v)) return
+
+    // 1. 快速路径：顺序追加 (播放时的常态)
+    if (this.length === 0 || t > this.times[this.length - 1]) {
+      if (this.length === this.capacity) this.evict()
+      this.times[this.length] = t
+      this.values[this.length] = v
+      this.length++
+      return
+    }
+
+    // 2. 乱序写入：二分查找插入位置
+    const idx = this.lowerBound(t)
+    if (idx < this.length && this.times[idx] === t) {
+      this.values[idx] = v
+      return
+    }
+
+    if (this.length === this.capacity) {
+      // 比现存最旧的还旧，且已满：直接丢弃
+      if (idx === 0) return
+      this.evict()
+      return this.push(t, v)
+    }
+
+    this.times.copyWithin(idx + 1, idx, this.length)
+    this.values.copyWithin(idx + 1, idx, this.length)
+    this.times[idx] = t
+    this.values[idx] = v
+    this.length++
+  }
+
+  /**
+   * 第一个 time >= t 的下标
+   */
+  lowerBound(t: number): number {
+    let lo = 0
+    let hi = this.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      if (this.times[mid] < t) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  /**
+   * 获取 t 时刻的值 (取 t 之前最近的样本)
+   */
+  valueAt(t: number): number | null {
+    if (this.length === 0) return null
+    let idx = this.lowerBound(t)
+    if (idx >= this.length || this.times[idx] > t) idx--
+    return idx >= 0 ? this.values[idx] : null
+  }
+
+  /**
+   * 计算 [t0, t1] 内的值域
+   */
+  rangeIn(t0: number, t1: number): { min: number, max: number } | null {
+    const start = this.lowerBound(t0)
+    let min = Infinity
+    let max = -Infinity
+    for (let i = start; i < this.length && this.times[i] <= t1; i++) {
+      const v = this.values[i]
+      if (v < min) min = v
+      if (v > max) max = v
+    }
+    return min <= max ? { min, max } : null
+  }
+
+  /** 只读视图 (不拷贝) */
+  getTimes(): Float64Array { return this.times.subarray(0, this.length) }
+  getValues(): Float64Array { return this.values.subarray(0, this.length) }
+
+  firstTime(): number | null { return this.length > 0 ? this.times[0] : null }
+  lastTime(): number | null { return this.length > 0 ? this.times[this.length - 1] : null }
+
+  clear(): void {
+    this.length = 0
+  }
+
+  private evict() {
+    const drop = Math.max(1, Math.floor(this.capacity * this.EVICT_RATIO))
+    this.times.copyWithin(0, drop, this.length)
+    this.values.copyWithin(0, drop, this.length)
+    this.length -= drop
+  }
+}
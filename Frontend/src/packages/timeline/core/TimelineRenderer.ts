@@ -0,0 +1,296 @@
+// src/packages/timeline/core/TimelineRenderer.ts
+
+import type { TimeSeriesBuffer } from './TimeSeriesBuffer'
+import { formatTimestamp } from '@/utils/time'
+
+export interface PlotSeries {
+  label: string
+  color: string
+  buffer: TimeSeriesBuffer
+}
+
+export interface TimeWindow {
+  t0: number // 秒
+  t1: number // 秒
+}
+
+interface PlotRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+const AXIS_WIDTH = 56
+const PADDING = { top: 12, right: 16, bottom: 26 }
+const TIME_STEPS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800, 3600]
+
+/**
+ * 多序列时间曲线渲染器 (Canvas 2D)
+ * 每条序列拥有独立的 Y 轴，按添加顺序从绘图区向左依次排列
+ */
+export class TimelineRenderer {
+  private ctx: CanvasRenderingContext2D
+  private width: number = 0
+  private height: number = 0
+  private dpr: number = 1
+
+  constructor(canvas: HTMLCanvasElement) {
+    const context = canvas.getContext('2d', { alpha: false })
+    if (!context) throw new Error('Failed to get 2d context')
+    this.ctx = context
+  }
+
+  resize(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this.dpr = window.devicePixelRatio || 1
+    this.ctx.canvas.width = width * this.dpr
+    this.ctx.canvas.height = height * this.dpr
+  }
+
+  /**
+   * 屏幕 X 坐标转时间 (点击跳转用)，落在绘图区外返回 null
+   */
+  screenToTime(sx: number, window: TimeWindow, axisCount: number): number | null {
+    const rect = this.getPlotRect(axisCount)
+    if (sx < rect.left || sx > rect.right || rect.right <= rect.left) return null
+    const ratio = (sx - rect.left) / (rect.right - rect.left)
+    return window.t0 + ratio * (window.t1 - window.t0)
+  }
+
+  render(series: PlotSeries[], window: TimeWindow, cursorTime: number | null, hoverX: number | null) {
+    const { ctx, width, height, dpr } = this
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+
+    const rect = this.getPlotRect(series.length)
+    if (rect.right <= rect.left || rect.bottom <= rect.top) return
+    if (!(window.t1 > window.t0)) return
+
+    const timeToX = (t: number) => rect.left + (t - window.t0) / (window.t1 - window.t0) * (rect.right - rect.left)
+
+    this.drawTimeAxis(rect, window, timeToX)
+
+    series.forEach((s, index) => {
+      const range = this.computeRange(s.buffer, window)
+      const valueToY = (v: number) => rect.bottom - (v - range.min) / (range.max - range.min) * (rect.bottom - rect.top)
+      this.drawValueAxis(rect, index, s.color, range, valueToY)
+      this.drawSeries(rect, s, window, timeToX, valueToY)
+    })
+
+    // 播放游标
+    if (cursorTime !== null && cursorTime >= window.t0 && cursorTime <= window.t1) {
+      const x = Math.round(timeToX(cursorTime)) + 0.5
+      ctx.strokeStyle = '#f56c6c'
+      ctx.lineWidth = 1.5
+      ctx.setLineDash([])
+      ctx.beginPath()
+      ctx.moveTo(x, rect.top)
+      ctx.lineTo(x, rect.bottom)
+      ctx.stroke()
+    }
+
+    // 鼠标悬停线
+    if (hoverX !== null && hoverX >= rect.left && hoverX <= rect.right) {
+      const x = Math.round(hoverX) + 0.5
+      ctx.strokeStyle = '#909399'
+      ctx.lineWidth = 1
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.moveTo(x, rect.top)
+      ctx.lineTo(x, rect.bottom)
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    // 绘图区边框
+    ctx.strokeStyle = '#dcdfe6'
+    ctx.lineWidth = 1
+    ctx.strokeRect(rect.left + 0.5, rect.top + 0.5, rect.right - rect.left, rect.bottom - rect.top)
+  }
+
+  // ========== 内部绘制 ==========
+
+  private getPlotRect(axisCount: number): PlotRect {
+    return {
+      left: AXIS_WIDTH * Math.max(1, axisCount),
+      top: PADDING.top,
+      right: this.width - PADDING.right,
+      bottom: this.height - PADDING.bottom
+    }
+  }
+
+  private computeRange(buffer: TimeSeriesBuffer, window: TimeWindow) {
+    const range = buffer.rangeIn(window.t0, window.t1) || { min: 0, max: 1 }
+    let { min, max } = range
+    if (max - min < 1e-9) {
+      const pad = Math.abs(min) * 0.1 || 1
+      min -= pad
+      max += pad
+    } else {
+      const pad = (max - min) * 0.05
+      min -= pad
+      max += pad
+    }
+    return { min, max }
+  }
+
+  private drawTimeAxis(rect: PlotRect, window: TimeWindow, timeToX: (t: number) => number) {
+    const { ctx } = this
+    const span = window.t1 - window.t0
+    const maxTicks = Math.max(2, Math.floor((rect.right - rect.left) / 90))
+    const step = TIME_STEPS.find(s => span / s <= maxTicks) || TIME_STEPS[TIME_STEPS.length - 1]
+
+    ctx.strokeStyle = '#f0f2f5'
+    ctx.lineWidth = 1
+    ctx.fillStyle = '#909399'
+    ctx.font = '11px monospace'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+
+    const first = Math.ceil(window.t0 / step) * step
+    for (let t = first; t <= window.t1; t += step) {
+      const x = Math.round(timeToX(t)) + 0.5
+      ctx.beginPath()
+      ctx.moveTo(x, rect.top)
+      ctx.lineTo(x, rect.bottom)
+      ctx.stroke()
+
+      // 秒级以上只显示 HH:MM:SS，亚秒级显示 MM:SS.mmm
+      const label = step >= 1 ? formatTimestamp(t).slice(0, 8) : formatTimestamp(t).slice(3)
+      ctx.fillText(label, x, rect.bottom + 6)
+    }
+  }
+
+  private drawValueAxis(
+    rect: PlotRect,
+    index: number,
+    color: string,
+    range: { min: number, max: number },
+    valueToY: (v: number) => number
+  ) {
+    const { ctx } = this
+    const axisX = rect.left - index * AXIS_WIDTH + 0.5
+
+    ctx.strokeStyle = color
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(axisX, rect.top)
+    ctx.lineTo(axisX, rect.bottom)
+    ctx.stroke()
+
+    const step = niceStep((range.max - range.min) / 5)
+    ctx.fillStyle = color
+    ctx.font = '10px monospace'
+    ctx.textAlign = 'right'
+    ctx.textBaseline = 'middle'
+
+    const first = Math.ceil(range.min / step) * step
+    for (let v = first; v <= range.max; v += step) {
+      const y = Math.round(valueToY(v)) + 0.5
+      ctx.beginPath()
+      ctx.moveTo(axisX - 4, y)
+      ctx.lineTo(axisX, y)
+      ctx.stroke()
+      ctx.fillText(formatAxisValue(v, step), axisX - 6, y)
+    }
+  }
+
+  private drawSeries(
+    rect: PlotRect,
+    s: PlotSeries,
+    window: TimeWindow,
+    timeToX: (t: number) => number,
+    valueToY: (v: number) => number
+  ) {
+    const { ctx } = this
+    const times = s.buffer.getTimes()
+    const values = s.buffer.getValues()
+    if (times.length === 0) return
+
+    // 向两侧各多取一个点，保证曲线延伸到边界
+    const start = Math.max(0, s.buffer.lowerBound(window.t0) - 1)
+    let end = s.buffer.lowerBound(window.t1)
+    if (end < times.length) end++
+    const count = end - start
+    if (count <= 0) return
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(rect.left, rect.top, rect.right - rect.left, rect.bottom - rect.top)
+    ctx.clip()
+
+    ctx.strokeStyle = s.color
+    ctx.lineWidth = 1.5
+    ctx.lineJoin = 'round'
+    ctx.beginPath()
+
+    const plotWidth = rect.right - rect.left
+    if (count > plotWidth * 2) {
+      // 🌟 点数远超像素列数时，按像素列做 min/max 抽稀
+      let col = -1
+      let colMin = 0
+      let colMax = 0
+      let started = false
+      const flush = () => {
+        if (col < 0) return
+        const x = rect.left + col + 0.5
+        if (!started) { ctx.moveTo(x, valueToY(colMax)); started = true }
+        else ctx.lineTo(x, valueToY(colMax))
+        ctx.lineTo(x, valueToY(colMin))
+      }
+      for (let i = start; i < end; i++) {
+        const c = Math.floor(timeToX(times[i]) - rect.left)
+        const v = values[i]
+        if (c !== col) {
+          flush()
+          col = c
+          colMin = v
+          colMax = v
+        } else {
+          if (v < colMin) colMin = v
+          if (v > colMax) colMax = v
+        }
+      }
+      flush()
+    } else {
+      ctx.moveTo(timeToX(times[start]), valueToY(values[start]))
+      for (let i = start + 1; i < end; i++) {
+        ctx.lineTo(timeToX(times[i]), valueToY(values[i]))
+      }
+    }
+    ctx.stroke()
+
+    // 样本较稀疏时画出采样点
+    if (count < plotWidth / 8) {
+      ctx.fillStyle = s.color
+      for (let i = start; i < end; i++) {
+        ctx.beginPath()
+        ctx.arc(timeToX(times[i]), valueToY(values[i]), 2, 0, Math.PI * 2)
+        ctx.fill()
+      }
+    }
+
+    ctx.restore()
+  }
+}
+
+// ========== 工具函数 ==========
+
+function niceStep(raw: number): number {
+  if (!(raw > 0)) return 1
+  const exp = Math.pow(10, Math.floor(Math.log10(raw)))
+  const f = raw / exp
+  const nice = f <= 1 ? 1 : f <= 2 ? 2 : f <= 5 ? 5 : 10
+  return nice * exp
+}
+
+function formatAxisValue(v: number, step: number): string {
+  const abs = Math.abs(v)
+  if (abs !== 0 && (abs >= 1e5 || abs < 1e-3)) return v.toExponential(1)
+  const decimals = Math.max(0, Math.min(6, -Math.floor(Math.log10(step))))
+  return v.toFixed(decimals)
+}
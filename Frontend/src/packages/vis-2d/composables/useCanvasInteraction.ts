@@ -1,6 +1,7 @@
 // src/packages/vis-2d/composables/useCanvasInteraction.ts
 import { reactive, ref } from 'vue'
 import type { Canvas2DRenderer, Viewport, Point2D } from '../core/Canvas2DRenderer'
+import type { ObjectBounds } from '@/core/vis/Highlight'
 
 export function useCanvasInteraction(
   rendererRef: { value: Canvas2DRenderer | null }, 
@@ -107,6 +108,17 @@ export function useCanvasInteraction(
     viewport.x = 0; viewport.y = 0; viewport.scale = 20;
   }
 
+  // 🌟 [新增] 视角对准包围范围：居中并缩放到占画布约 60% (过小的对象按 2 米计)
+  const focusBounds = (bounds: ObjectBounds) => {
+    viewport.x = (bounds.minX + bounds.maxX) / 2
+    viewport.y = (bounds.minY + bounds.maxY) / 2
+    const canvas = canvasRef.value
+    if (!canvas) return
+    const extent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 2)
+    const newScale = Math.min(canvas.clientWidth, canvas.clientHeight) * 0.6 / extent
+    viewport.scale = Math.max(0.1, Math.min(newScale, 500))
+  }
+
   return {
     viewport,
     currentTool,
@@ -116,6 +128,7 @@ export function useCanvasInteraction(
     handleMouseMove,
     handleMouseUp,
     handleWheel,
-    resetView
+    resetView,
+    focusBounds
   }
 }
\ No newline at end of file
@@ -1,6 +1,15 @@
 // src/packages/vis-2d/core/Canvas2DRenderer.ts
 
 import { ObjectType, SubType, type DecodedObject } from '@/core/protocol/VizDecoder'
+import type { DecodedPointList } from '@/core/protocol/PointListDecoder'
+import {
+  resolvePointColoring,
+  rampColor,
+  categoryColor,
+  PointColorMode,
+  type ResolvedPointColoring
+} from '@/core/vis/PointColoring'
+import { HIGHLIGHT_COLORS, HALO_WIDTH_PX, objectBounds, type HighlightKind } from '@/core/vis/Highlight'
 
 export interface Viewport {
   x: number      
@@ -15,6 +24,15 @@ export interface Point2D {
   y: number
 }
 
+// 🌟 [新增] 需要高亮的对象
+export interface HighlightTarget {
+  obj: DecodedObject
+  kind: HighlightKind
+}
+
+// 点云着色的颜色量化级数 (每通道)，决定 2D 下 fill 调用次数的上限
+const COLOR_LEVELS = 16
+
 // 内部样式接口
 interface LineStyle {
   isDouble: boolean
@@ -151,7 +169,7 @@ export class Canvas2DRenderer {
     }
   }
 
-  render(objects: DecodedObject[], viewport: Viewport) {
+  render(objects: DecodedObject[], viewport: Viewport, highlights: HighlightTarget[] = []) {
     const { ctx, width, height, dpr } = this
     
     // 1. 清空画布
@@ -183,6 +201,90 @@ export class Canvas2DRenderer {
       if (!obj.visible) continue
       this.drawObject(obj, minPhysicalWidth)
     }
+
+    // 5. 🌟 [新增] 高亮对象：先画光晕，再把对象本身重画在光晕之上，避免被其他对象遮挡
+    for (const { obj, kind } of highlights) {
+      this.drawHalo(obj, kind, minPhysicalWidth)
+      this.drawObject(obj, minPhysicalWidth)
+    }
+  }
+
+  /**
+   * 🌟 [新增] 选中 / 悬停光晕：沿对象轮廓描一圈更粗的半透明高亮色
+   */
+  private drawHalo(obj: DecodedObject, kind: HighlightKind, minWidth: number) {
+    const ctx = this.ctx
+    const halo = HALO_WIDTH_PX[kind] * this.dpr * minWidth
+
+    ctx.save()
+    ctx.strokeStyle = HIGHLIGHT_COLORS[kind]
+    ctx.globalAlpha = 0.75
+    ctx.lineJoin = 'round'
+    ctx.lineCap = 'round'
+    ctx.setLineDash([])
+
+    switch (obj.type) {
+      case ObjectType.POLYLINE:
+      case ObjectType.LINE_LIST:
+      case ObjectType.POLYGON: {
+        if (!obj.points || obj.points.count < 2) break
+        const { data, stride, count } = obj.points
+        const style = LineStyler.getStyle(obj.subType)
+        // 双线的两条线分列中心线两侧，光晕需要覆盖整体宽度
+        const lineWidth = obj.type === ObjectType.POLYGON
+          ? 0
+          : Math.max(obj.size?.x || 0.15, minWidth) * style.lineWidthScale * (style.isDouble ? 3 : 1)
+        ctx.lineWidth = lineWidth + halo
+        ctx.beginPath()
+        ctx.moveTo(data[0], data[1])
+        for (let i = 1; i < count; i++) ctx.lineTo(data[i * stride], data[i * stride + 1])
+        if (obj.type === ObjectType.POLYGON) ctx.closePath()
+        ctx.stroke()
+        break
+      }
+
+      case ObjectType.SPHERE: {
+        const radius = Math.max((obj.size?.x || 0.5) / 2, minWidth * 2)
+        ctx.lineWidth = halo
+        ctx.beginPath()
+        ctx.arc(obj.position.x, obj.position.y, radius + halo / 2, 0, Math.PI * 2)
+        ctx.stroke()
+        break
+      }
+
+      case ObjectType.CUBE:
+        ctx.translate(obj.position.x, obj.position.y)
+        ctx.rotate(obj.rotation.z)
+        ctx.lineWidth = halo
+        ctx.strokeRect(-obj.size.x / 2 - halo / 2, -obj.size.y / 2 - halo / 2, obj.size.x + halo, obj.size.y + halo)
+        break
+
+      case ObjectType.TEXT: {
+        const text = obj.properties?.text ?? obj.name
+        if (!text || !obj.position) break
+        const p = ctx.getTransform().transformPoint(new DOMPoint(obj.position.x, obj.position.y))
+        ctx.setTransform(1, 0, 0, 1, 0, 0)
+        ctx.font = `${12 * this.dpr}px sans-serif`
+        const w = ctx.measureText(text).width + 8 * this.dpr
+        const h = 18 * this.dpr
+        ctx.lineWidth = 2 * this.dpr
+        ctx.strokeRect(p.x - w / 2, p.y - h / 2, w, h)
+        break
+      }
+
+      default: {
+        // 点云等：描出包围矩形
+        const bounds = objectBounds(obj)
+        if (!bounds) break
+        ctx.lineWidth = halo / 2
+        ctx.setLineDash([halo * 2, halo])
+        ctx.strokeRect(
+          bounds.minX - halo, bounds.minY - halo,
+          bounds.maxX - bounds.minX + halo * 2, bounds.maxY - bounds.minY + halo * 2
+        )
+      }
+    }
+    ctx.restore()
   }
 
   private drawObject(obj: DecodedObject, minWidth: number) {
@@ -242,13 +344,18 @@ export class Canvas2DRenderer {
         if (obj.points) {
           // 点云画成小矩形，固定屏幕大小或者物理大小
           const size = Math.max(0.1, minWidth * 2) 
-          ctx.beginPath()
-          const { data, stride, count } = obj.points
-          for (let i = 0; i < count; i++) {
-            const idx = i * stride
-            ctx.rect(data[idx] - size/2, data[idx+1] - size/2, size, size)
+          const coloring = resolvePointColoring(obj.points)
+          if (coloring.mode === PointColorMode.SOLID) {
+            ctx.beginPath()
+            const { data, stride, count } = obj.points
+            for (let i = 0; i < count; i++) {
+              const idx = i * stride
+              ctx.rect(data[idx] - size/2, data[idx+1] - size/2, size, size)
+            }
+            ctx.fill()
+          } else {
+            this.drawColoredPoints(obj.points, coloring, size)
           }
-          ctx.fill()
         }
         break
 
@@ -279,6 +386,74 @@ export class Canvas2DRenderer {
         ctx.beginPath(); ctx.moveTo(0, 0); ctx.lineTo(obj.size.x/2, 0); ctx.stroke()
         ctx.restore()
         break
+
+      // 🌟 [新增] 文本标签：位置随世界坐标，字号固定为屏幕像素 (不随缩放、不受翻转影响)
+      case ObjectType.TEXT: {
+        const text = obj.properties?.text ?? obj.name
+        if (!text || !obj.position) break
+        const p = ctx.getTransform().transformPoint(new DOMPoint(obj.position.x, obj.position.y))
+        ctx.save()
+        ctx.setTransform(1, 0, 0, 1, 0, 0)
+        ctx.font = `${12 * this.dpr}px sans-serif`
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        ctx.fillText(text, p.x, p.y)
+        ctx.restore()
+        break
+      }
+    }
+  }
+
+  /**
+   * 🌟 按通道着色的点云
+   * 颜色量化到 COLOR_LEVELS 级后分桶，每个桶只 fill 一次，避免逐点切换 fillStyle
+   */
+  private drawColoredPoints(points: DecodedPointList, coloring: ResolvedPointColoring, size: number) {
+    const ctx = this.ctx
+    const { data, stride, count } = points
+    const offset = coloring.channel!.offset
+    const levels = COLOR_LEVELS - 1
+    const range = coloring.max - coloring.min
+    const rgb: [number, number, number] = [0, 0, 0]
+    const q = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * levels)
+
+    const buckets = new Map<number, number[]>()
+    for (let i = 0; i < count; i++) {
+      const idx = i * stride
+      let color: [number, number, number]
+      switch (coloring.mode) {
+        case PointColorMode.RGB:
+          rgb[0] = data[idx + offset] / coloring.max
+          rgb[1] = data[idx + offset + 1] / coloring.max
+          rgb[2] = data[idx + offset + 2] / coloring.max
+          color = rgb
+          break
+        case PointColorMode.CATEGORY:
+          color = categoryColor(data[idx + offset])
+          break
+        default:
+          color = rampColor((data[idx + offset] - coloring.min) / range, rgb)
+      }
+      const key = (q(color[0]) * COLOR_LEVELS + q(color[1])) * COLOR_LEVELS + q(color[2])
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        bucket = []
+        buckets.set(key, bucket)
+      }
+      bucket.push(idx)
+    }
+
+    const toByte = (level: number) => Math.round(level / levels * 255)
+    for (const [key, indices] of buckets) {
+      const r = Math.floor(key / (COLOR_LEVELS * COLOR_LEVELS))
+      const g = Math.floor(key / COLOR_LEVELS) % COLOR_LEVELS
+      const b = key % COLOR_LEVELS
+      ctx.fillStyle = `rgb(${toByte(r)},${toByte(g)},${toByte(b)})`
+      ctx.beginPath()
+      for (const idx of indices) {
+        ctx.rect(data[idx] - size/2, data[idx+1] - size/2, size, size)
+      }
+      ctx.fill()
     }
   }
 
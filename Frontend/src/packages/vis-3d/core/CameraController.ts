@@ -0,0 +1,263 @@
+// src/packages/vis-3d/core/CameraController.ts
+
+import * as THREE from 'three'
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import type { CameraMode, SavedViewpoint } from '@/types/layout-config'
+
+// 跟随目标在世界坐标系下的位置与朝向 (单位向量)
+export interface CameraSubject {
+  position: THREE.Vector3
+  heading: THREE.Vector3
+}
+
+interface CameraPose {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  zoom: number
+}
+
+// 俯视正交相机的半高 (米，zoom = 1 时)
+const TOPDOWN_HALF_HEIGHT = 30
+const TOPDOWN_HEIGHT = 200
+// 离开俯视回到自由环绕时的相机距离与高度 (米)
+const ORBIT_DISTANCE = 40
+const ORBIT_HEIGHT = 30
+// 追尾相机：目标后方距离、高度、视线前伸距离 (米) 与平滑系数 (越大越跟手)
+const CHASE_DISTANCE = 18
+const CHASE_HEIGHT = 7
+const CHASE_LOOK_AHEAD = 10
+const CHASE_SMOOTHING = 4
+// 模式切换 / 应用视角的过渡时长 (秒)
+const TRANSITION_DURATION = 0.6
+
+/**
+ * 🌟 [新增] 3D 相机控制器
+ *
+ *   orbit   - 自由环绕 (OrbitControls)
+ *   follow  - 跟随目标平移，保留用户调整的环绕角度与距离
+ *   chase   - 追尾视角，位于目标后上方并随朝向平滑转动
+ *   topdown - 正交俯视，前进方向朝上；有跟随目标时居中显示目标
+ *
+ * 模式切换与应用视角时在当前位姿与目标位姿之间插值过渡
+ */
+export class CameraController {
+  mode: CameraMode = 'orbit'
+
+  private transition: { from: CameraPose; to: CameraPose | null; elapsed: number } | null = null
+  // chase 模式平滑后的位姿
+  private chasePose: CameraPose | null = null
+
+  constructor(
+    readonly perspective: THREE.PerspectiveCamera,
+    readonly orthographic: THREE.OrthographicCamera,
+    private controls: OrbitControls
+  ) {}
+
+  get camera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    return this.mode === 'topdown' ? this.orthographic : this.perspective
+  }
+
+  resize(width: number, height: number) {
+    const aspect = width / height
+    this.perspective.aspect = aspect
+    this.perspective.updateProjectionMatrix()
+    this.orthographic.left = -TOPDOWN_HALF_HEIGHT * aspect
+    this.orthographic.right = TOPDOWN_HALF_HEIGHT * aspect
+    this.orthographic.top = TOPDOWN_HALF_HEIGHT
+    this.orthographic.bottom = -TOPDOWN_HALF_HEIGHT
+    this.orthographic.updateProjectionMatrix()
+  }
+
+  /**
+   * 切换模式，从当前位姿平滑过渡
+   */
+  setMode(mode: CameraMode) {
+    if (mode === this.mode) return
+    const from = this.currentPose()
+    const leavingTopdown = this.mode === 'topdown'
+    this.mode = mode
+    this.chasePose = null
+    this.bindControls()
+
+    // 透视与正交相机的位姿不可直接插值：俯视从目标正上方出发，离开俯视时回到斜上方
+    const dir = from.target.clone().sub(from.position).setZ(0)
+    if (dir.lengthSq() < 1e-12) dir.set(0, 1, 0)
+    dir.normalize()
+    let to: CameraPose | null = null
+    if (mode === 'topdown') {
+      from.position.copy(from.target).addScaledVector(dir, -0.01).setZ(from.target.z + TOPDOWN_HEIGHT)
+      from.zoom = this.camera.zoom
+    } else if (leavingTopdown) {
+      from.zoom = this.camera.zoom
+      if (mode === 'orbit') {
+        to = {
+          position: from.target.clone().addScaledVector(dir, -ORBIT_DISTANCE).setZ(from.target.z + ORBIT_HEIGHT),
+          target: from.target.clone(),
+          zoom: this.camera.zoom
+        }
+      }
+    }
+    this.transition = { from, to, elapsed: 0 }
+  }
+
+  /**
+   * 直接过渡到指定位姿 (聚焦对象等)；跟随类模式下会先切换到自由环绕
+   */
+  transitionTo(position: THREE.Vector3, target: THREE.Vector3, zoom = this.camera.zoom) {
+    if (this.mode === 'follow' || this.mode === 'chase') this.setMode('orbit')
+    this.transition = {
+      from: this.currentPose(),
+      to: { position: position.clone(), target: target.clone(), zoom },
+      elapsed: 0
+    }
+  }
+
+  /**
+   * 应用保存的视角 (相对视角以目标当前位置为基准，找不到目标时以当前环绕中心为基准)
+   */
+  applyViewpoint(viewpoint: SavedViewpoint, subject: CameraSubject | null) {
+    const relative = viewpoint.relative ?? isRelative(viewpoint.mode)
+    const base = relative ? (subject?.position ?? this.controls.target.clone()) : new THREE.Vector3()
+    this.setMode(viewpoint.mode)
+    this.transition = {
+      from: this.transition?.from ?? this.currentPose(),
+      to: {
+        position: new THREE.Vector3(...viewpoint.position).add(base),
+        target: new THREE.Vector3(...viewpoint.target).add(base),
+        zoom: viewpoint.zoom
+      },
+      elapsed: 0
+    }
+  }
+
+  /**
+   * 当前位姿导出为视角 (跟随类模式且找到目标时保存相对目标的位姿，否则保存绝对位姿)
+   */
+  captureViewpoint(name: string, subject: CameraSubject | null): SavedViewpoint {
+    const pose = this.currentPose()
+    const relative = isRelative(this.mode) && subject !== null
+    if (relative) {
+      pose.position.sub(subject.position)
+      pose.target.sub(subject.position)
+    }
+    return {
+      name,
+      mode: this.mode,
+      position: pose.position.toArray(),
+      target: pose.target.toArray(),
+      zoom: pose.zoom,
+      relative
+    }
+  }
+
+  /**
+   * 每帧调用
+   * @param dt 距上一帧的秒数
+   * @param subject 跟随目标 (找不到时为 null，跟随类模式退化为自由环绕)
+   */
+  update(dt: number, subject: CameraSubject | null) {
+    const desired = this.desiredPose(dt, subject)
+
+    if (this.transition) {
+      const t = this.transition
+      t.elapsed += dt
+      const k = easeInOut(Math.min(1, t.elapsed / TRANSITION_DURATION))
+      const to = t.to ?? desired ?? this.currentPose()
+      this.applyPose({
+        position: t.from.position.clone().lerp(to.position, k),
+        target: t.from.target.clone().lerp(to.target, k),
+        zoom: THREE.MathUtils.lerp(t.from.zoom, to.zoom, k)
+      })
+      if (k >= 1) {
+        this.transition = null
+        this.chasePose = null
+      }
+      return
+    }
+
+    if (desired) this.applyPose(desired)
+    if (this.mode !== 'chase') this.controls.update()
+  }
+
+  // ========== 内部 ==========
+
+  private bindControls() {
+    const controls = this.controls as OrbitControls & { object: THREE.Camera }
+    controls.object = this.camera
+    controls.enabled = this.mode !== 'chase'
+    controls.enableRotate = this.mode !== 'topdown'
+  }
+
+  private currentPose(): CameraPose {
+    return {
+      position: this.camera.position.clone(),
+      target: this.controls.target.clone(),
+      zoom: this.camera.zoom
+    }
+  }
+
+  private applyPose(pose: CameraPose) {
+    const camera = this.camera
+    camera.position.copy(pose.position)
+    this.controls.target.copy(pose.target)
+    if (camera.zoom !== pose.zoom) {
+      camera.zoom = pose.zoom
+      camera.updateProjectionMatrix()
+    }
+    camera.lookAt(pose.target)
+  }
+
+  /**
+   * 当前模式下期望的位姿；自由操作 (orbit / 无目标) 时返回 null
+   */
+  private desiredPose(dt: number, subject: CameraSubject | null): CameraPose | null {
+    if (!subject) return null
+
+    switch (this.mode) {
+      case 'follow': {
+        // 环绕中心置于目标，保留用户调整的环绕角度与距离
+        const offset = this.camera.position.clone().sub(this.controls.target)
+        return {
+          position: subject.position.clone().add(offset),
+          target: subject.position.clone(),
+          zoom: this.camera.zoom
+        }
+      }
+
+      case 'topdown': {
+        const target = subject.position.clone()
+        // 沿前进方向略微错开，使前进方向在屏幕上朝上 (正上方俯视时 lookAt 无法确定朝向)
+        const position = target.clone().addScaledVector(subject.heading, -0.01).setZ(target.z + TOPDOWN_HEIGHT)
+        return { position, target, zoom: this.camera.zoom }
+      }
+
+      case 'chase': {
+        const heading = subject.heading.clone().setZ(0).normalize()
+        const goal: CameraPose = {
+          position: subject.position.clone().addScaledVector(heading, -CHASE_DISTANCE).setZ(subject.position.z + CHASE_HEIGHT),
+          target: subject.position.clone().addScaledVector(heading, CHASE_LOOK_AHEAD),
+          zoom: 1
+        }
+        // 指数平滑，帧率不同时手感一致
+        const k = 1 - Math.exp(-CHASE_SMOOTHING * dt)
+        if (!this.chasePose) this.chasePose = goal
+        else {
+          this.chasePose.position.lerp(goal.position, k)
+          this.chasePose.target.lerp(goal.target, k)
+        }
+        return { position: this.chasePose.position.clone(), target: this.chasePose.target.clone(), zoom: 1 }
+      }
+
+      default:
+        return null
+    }
+  }
+}
+
+function isRelative(mode: CameraMode): boolean {
+  return mode === 'follow' || mode === 'chase'
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+}
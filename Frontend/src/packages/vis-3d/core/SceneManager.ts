@@ -2,7 +2,7 @@
 
 import * as THREE from 'three'
 import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js'
-import { CoordinateSystem } from '@/core/protocol/VizDecoder'
+import { CoordinateSystem, FrameKind } from '@/core/protocol/VizDecoder'
 import type { DecodeResult } from '@/core/protocol/VizDecoder'
 // 🌟 修正引入路径
 import { layerManager } from '@/core/vis/LayerManager'
@@ -120,6 +120,10 @@ export class SceneManager {
     if (!this.isPaused) {
       // ✅ 场景 A：播放中 (极速模式)
       // 直接覆盖 latestFrame，保证主线程绝对流畅
+      // 🌟 增量帧依赖前一帧，不能跳过：先把还没消费的那帧应用掉
+      if (frame.kind === FrameKind.DELTA && this.latestFrame) {
+        this.consumeFrameData(this.latestFrame)
+      }
       this.latestFrame = frame
       
       // 顺便清空惯性队列，因为播放了一切历史都失效了
@@ -0,0 +1,98 @@
+// src/packages/vis-3d/core/SelectionHighlighter.ts
+
+import * as THREE from 'three'
+import { HIGHLIGHT_COLORS, type HighlightKind } from '@/core/vis/Highlight'
+
+interface HighlightSlot {
+  target: THREE.Object3D | null
+  // 目标中每个 Mesh 对应一个着色覆盖层 (共享几何体)
+  overlays: { source: THREE.Mesh; overlay: THREE.Mesh }[]
+  material: THREE.MeshBasicMaterial
+  // 没有 Mesh 的目标 (点云、文字) 退化为包围框
+  box: THREE.Box3Helper
+}
+
+/**
+ * 🌟 [新增] 3D 选中 / 悬停高亮
+ * Mesh 类对象叠加一层半透明高亮色 (相当于自发光着色，不改动共享材质)，
+ * 点云、文字等没有 Mesh 的对象显示包围框。覆盖层每帧跟随目标的世界矩阵
+ */
+export class SelectionHighlighter {
+  private group = new THREE.Group()
+  private slots: Record<HighlightKind, HighlightSlot>
+
+  constructor(scene: THREE.Scene) {
+    this.group.name = 'Highlights'
+    scene.add(this.group)
+    this.slots = {
+      hovered: this.createSlot('hovered', 0.3),
+      selected: this.createSlot('selected', 0.45)
+    }
+  }
+
+  private createSlot(kind: HighlightKind, opacity: number): HighlightSlot {
+    const color = new THREE.Color(HIGHLIGHT_COLORS[kind])
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity,
+      depthWrite: false,
+      // 与原对象同一位置，需偏移深度避免 Z-fighting
+      polygonOffset: true,
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -4
+    })
+    const box = new THREE.Box3Helper(new THREE.Box3(), color)
+    box.visible = false
+    this.group.add(box)
+    return { target: null, overlays: [], material, box }
+  }
+
+  /**
+   * 每帧调用：设置高亮目标并同步位置 (目标为 undefined 表示不高亮)
+   */
+  update(kind: HighlightKind, target: THREE.Object3D | undefined) {
+    const slot = this.slots[kind]
+    if ((target ?? null) !== slot.target) this.rebuild(slot, target ?? null)
+    if (!slot.target) return
+
+    slot.target.updateWorldMatrix(true, true)
+    for (const { source, overlay } of slot.overlays) {
+      // 渲染器可能原地替换几何体
+      if (overlay.geometry !== source.geometry) overlay.geometry = source.geometry
+      overlay.matrix.copy(source.matrixWorld)
+      overlay.visible = source.visible
+    }
+
+    if (slot.overlays.length === 0) {
+      slot.box.box.setFromObject(slot.target)
+      slot.box.visible = !slot.box.box.isEmpty()
+    }
+  }
+
+  private rebuild(slot: HighlightSlot, target: THREE.Object3D | null) {
+    for (const { overlay } of slot.overlays) this.group.remove(overlay)
+    slot.overlays = []
+    slot.box.visible = false
+    slot.target = target
+    if (!target) return
+
+    target.traverse(node => {
+      if (!(node instanceof THREE.Mesh)) return
+      const overlay = new THREE.Mesh(node.geometry, slot.material)
+      overlay.matrixAutoUpdate = false
+      overlay.renderOrder = 5
+      this.group.add(overlay)
+      slot.overlays.push({ source: node, overlay })
+    })
+  }
+
+  dispose() {
+    for (const slot of Object.values(this.slots)) {
+      this.rebuild(slot, null)
+      slot.material.dispose()
+      slot.box.dispose()
+    }
+    this.group.removeFromParent()
+  }
+}
@@ -3,19 +3,24 @@
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import { SceneManager } from './SceneManager'
+import { SelectionHighlighter } from './SelectionHighlighter'
+import { CameraController, type CameraSubject } from './CameraController'
 import { MaterialManager } from './materials/MaterialManager'
-import { BaseRenderer } from './renderers/BaseRenderer'
+import { BaseRenderer, type PickHit } from './renderers/BaseRenderer'
 import { LaneLineRenderer } from './renderers/LaneLineRenderer'
 import { PolygonRenderer } from './renderers/PolygonRenderer'
 import { PrimitiveRenderer } from './renderers/PrimitiveRenderer'
 import { PointCloudRenderer } from './renderers/PointCloudRenderer'
 import { ModelRenderer } from './renderers/ModelRenderer'
+import { TextRenderer } from './renderers/TextRenderer'
 import { ObjectType, type DecodedObject } from '@/core/protocol/VizDecoder'
 import { layerManager } from '@/core/vis/LayerManager'
+import type { CameraMode, CameraFollowTarget, SavedViewpoint } from '@/types/layout-config'
 
 export class World {
   private scene: THREE.Scene
-  private camera: THREE.PerspectiveCamera
+  // 🌟 [修改] 相机由 CameraController 按模式在透视 / 正交之间切换
+  private cameraController: CameraController
   private renderer: THREE.WebGLRenderer
   private controls: OrbitControls
   private container: HTMLElement
@@ -29,6 +34,20 @@ export class World {
   
   // 🌟 [优化2] 复用对象池，避免每帧创建新 Map 和 Array 造成 GC 抖动
   private reusableObjectMap: Map<ObjectType, DecodedObject[]> = new Map()
+  private reusableRendererInputs: Map<BaseRenderer, DecodedObject[]> = new Map()
+
+  // 鼠标坐标读数：与地面 (Z=0) 求交
+  private raycaster = new THREE.Raycaster()
+  private groundPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0)
+  private pointer = new THREE.Vector2()
+  private hitPoint = new THREE.Vector3()
+
+  // 🌟 [新增] 悬停 / 选中高亮
+  private highlighter: SelectionHighlighter
+
+  // 🌟 [新增] 相机跟随目标
+  private followTarget: CameraFollowTarget | null = null
+  private lastFrameTime = performance.now()
 
   constructor(container: HTMLElement) {
     this.container = container
@@ -39,9 +58,11 @@ export class World {
     this.scene = new THREE.Scene()
     
     // 2. 初始化相机
-    this.camera = new THREE.PerspectiveCamera(45, width / height, 1, 5000)
-    this.camera.position.set(50, 50, 50)
-    this.camera.up.set(0, 0, 1)
+    const perspective = new THREE.PerspectiveCamera(45, width / height, 1, 5000)
+    perspective.position.set(50, 50, 50)
+    perspective.up.set(0, 0, 1)
+    const orthographic = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 5000)
+    orthographic.up.set(0, 0, 1)
 
     // 3. 初始化渲染器 (优化配置)
     this.renderer = new THREE.WebGLRenderer({
@@ -62,17 +83,21 @@ export class World {
     container.appendChild(this.renderer.domElement)
 
     // 4. 初始化控制器
-    this.controls = new OrbitControls(this.camera, this.renderer.domElement)
+    this.controls = new OrbitControls(perspective, this.renderer.domElement)
     this.controls.enableDamping = true
     this.controls.dampingFactor = 0.2 // 稍微调高阻尼，手感更稳
     this.controls.maxPolarAngle = Math.PI / 2 - 0.02
     this.controls.target.set(0, 0, 0)
+    this.cameraController = new CameraController(perspective, orthographic, this.controls)
+    this.cameraController.resize(width, height)
 
     // 5. 初始化管理器
     this.sceneManager = new SceneManager(this.scene)
     this.materialManager = new MaterialManager(this.sceneManager.getGlobalUniforms())
 
     this.setupRenderers()
+
+    this.highlighter = new SelectionHighlighter(this.scene)
     
     // 预先初始化 Map 的 key，避免运行时扩容
     Object.values(ObjectType).forEach(val => {
@@ -102,14 +127,161 @@ export class World {
 
     const modelRenderer = new ModelRenderer(coordRoot as any)
     this.renderers.set(ObjectType.MESH, modelRenderer)
+
+    const textRenderer = new TextRenderer(coordRoot as any)
+    this.renderers.set(ObjectType.TEXT, textRenderer)
   }
 
   resize(width: number, height: number) {
-    this.camera.aspect = width / height
-    this.camera.updateProjectionMatrix()
+    this.cameraController.resize(width, height)
     this.renderer.setSize(width, height)
   }
 
+  /**
+   * 屏幕坐标 -> 地面上的数据坐标 (CoordinateRoot 局部坐标系)
+   * 视线与地面平行时返回 null
+   */
+  pickGroundPoint(clientX: number, clientY: number): THREE.Vector3 | null {
+    if (!this.setPointer(clientX, clientY)) return null
+    if (!this.raycaster.ray.intersectPlane(this.groundPlane, this.hitPoint)) return null
+    return this.sceneManager.getCoordinateRoot().worldToLocal(this.hitPoint.clone())
+  }
+
+  /**
+   * 🌟 [新增] 拾取鼠标下的场景对象，返回 LayerManager 中的 UI Path ID
+   * 各渲染器分别求交 (点云按像素半径)，取离相机最近的命中
+   */
+  pickObject(clientX: number, clientY: number, pixelRadius = 6): string | null {
+    if (!this.setPointer(clientX, clientY)) return null
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    const ctx = {
+      raycaster: this.raycaster,
+      camera: this.camera,
+      pointer: this.pointer,
+      width: rect.width,
+      height: rect.height,
+      pixelRadius
+    }
+
+    let best: { hit: PickHit; renderer: BaseRenderer } | null = null
+    for (const renderer of new Set(this.renderers.values())) {
+      const hit = renderer.pick(ctx)
+      if (hit && (!best || hit.distance < best.hit.distance)) best = { hit, renderer }
+    }
+    if (!best) return null
+
+    // 渲染器内按 DecodedObject.id 存储，从本帧分发的对象中找回原对象
+    for (const [type, renderer] of this.renderers) {
+      if (renderer !== best.renderer) continue
+      const obj = this.reusableObjectMap.get(type)?.find(o => o.id === best.hit.id)
+      if (obj) return layerManager.getObjectPath(obj)
+    }
+    return null
+  }
+
+  private setPointer(clientX: number, clientY: number): boolean {
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    if (rect.width === 0 || rect.height === 0) return false
+    this.pointer.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    )
+    this.raycaster.setFromCamera(this.pointer, this.camera)
+    return true
+  }
+
+  /**
+   * 🌟 [新增] UI Path ID -> 渲染节点
+   */
+  private findRendered(uiId: string | null): THREE.Object3D | undefined {
+    const obj = uiId ? layerManager.getObjectById(uiId) : undefined
+    return obj ? this.renderers.get(obj.type)?.getObject(obj.id) : undefined
+  }
+
+  /**
+   * 🌟 [新增] 悬停 / 选中高亮跟随对象 (对象每帧都可能移动)
+   */
+  private updateHighlights() {
+    const { hoveredId, selectedId } = layerManager.state
+    this.highlighter.update('selected', this.findRendered(selectedId))
+    this.highlighter.update('hovered', hoveredId !== selectedId ? this.findRendered(hoveredId) : undefined)
+  }
+
+  /**
+   * 🌟 [新增] 视角对准对象：保持当前观察方向，拉近到能完整看到对象的距离
+   */
+  focusObject(uiId: string): boolean {
+    const target = this.findRendered(uiId)
+    if (!target) return false
+    const sphere = new THREE.Box3().setFromObject(target).getBoundingSphere(new THREE.Sphere())
+    if (!Number.isFinite(sphere.radius)) return false
+
+    const radius = Math.max(sphere.radius, 2)
+    const camera = this.camera
+    const direction = camera.position.clone().sub(this.controls.target).normalize()
+    if (camera instanceof THREE.OrthographicCamera) {
+      // 俯视：高度不变，缩放到对象占满视野约 80%
+      const zoom = (camera.top - camera.bottom) / (radius * 2) * 0.8
+      const position = sphere.center.clone().add(camera.position.clone().sub(this.controls.target))
+      this.cameraController.transitionTo(position, sphere.center, zoom)
+    } else {
+      const distance = radius / Math.sin(THREE.MathUtils.degToRad(camera.fov) / 2) * 1.2
+      this.cameraController.transitionTo(sphere.center.clone().addScaledVector(direction, distance), sphere.center)
+    }
+    return true
+  }
+
+  // ========== 🌟 [新增] 相机模式与视角 ==========
+
+  private get camera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    return this.cameraController.camera
+  }
+
+  get cameraMode(): CameraMode {
+    return this.cameraController.mode
+  }
+
+  setCameraMode(mode: CameraMode) {
+    this.cameraController.setMode(mode)
+  }
+
+  setFollowTarget(target: CameraFollowTarget | null) {
+    this.followTarget = target
+  }
+
+  captureViewpoint(name: string): SavedViewpoint {
+    return this.cameraController.captureViewpoint(name, this.findSubject())
+  }
+
+  applyViewpoint(viewpoint: SavedViewpoint) {
+    this.cameraController.applyViewpoint(viewpoint, this.findSubject())
+  }
+
+  /**
+   * 在本帧分发的对象中查找跟随目标，换算到世界坐标系
+   */
+  private findSubject(): CameraSubject | null {
+    const spec = this.followTarget
+    if (!spec || !spec.value) return null
+
+    let found: DecodedObject | undefined
+    for (const arr of this.reusableObjectMap.values()) {
+      found = arr.find(obj => spec.by === 'id'
+        ? obj.id === spec.value
+        : obj.properties?.[spec.key ?? ''] === spec.value)
+      if (found) break
+    }
+    if (!found?.position) return null
+
+    const root = this.sceneManager.getCoordinateRoot()
+    root.updateWorldMatrix(true, false)
+    const yaw = found.rotation?.z ?? 0
+    return {
+      position: root.localToWorld(new THREE.Vector3(found.position.x, found.position.y, found.position.z)),
+      heading: new THREE.Vector3(Math.cos(yaw), Math.sin(yaw), 0).transformDirection(root.matrixWorld)
+    }
+  }
+
   /**
    * 🌟 [核心优化] 极速更新入口
    * 这里不再直接操作渲染器，而是只存数据。
@@ -149,9 +321,18 @@ export class World {
 
     // 4. 批量分发给渲染器 (这是最耗时的一步)
     // 现在的机制保证了这一步绝对不会在一帧内重复执行
+    // 🌟 [修改] 同一渲染器服务多种类型时 (Primitive: SPHERE + CUBE) 合并后只更新一次，
+    // 否则后一次 update 会清掉前一种类型的对象
+    for (const arr of this.reusableRendererInputs.values()) {
+      arr.length = 0
+    }
     for (const [type, renderer] of this.renderers) {
-      const arr = this.reusableObjectMap.get(type)
-      renderer.update(arr || [])
+      let input = this.reusableRendererInputs.get(renderer)
+      if (!input) this.reusableRendererInputs.set(renderer, input = [])
+      for (const obj of this.reusableObjectMap.get(type) ?? []) input.push(obj)
+    }
+    for (const [renderer, input] of this.reusableRendererInputs) {
+      renderer.update(input)
     }
   }
 
@@ -162,8 +343,13 @@ export class World {
     // 将 heavy 的几何体更新操作移到这里，与渲染同步
     this._processPendingUpdates()
 
-    // 2. 更新控制器
-    this.controls.update()
+    // 2. 更新相机 (含控制器)
+    const now = performance.now()
+    const dt = Math.min(0.1, (now - this.lastFrameTime) / 1000)
+    this.lastFrameTime = now
+    const needsSubject = this.followTarget && this.cameraController.mode !== 'orbit'
+    this.cameraController.update(dt, needsSubject ? this.findSubject() : null)
+    this.updateHighlights()
 
     // 3. 更新全局 uniforms
     this.sceneManager.updateTime(0.016) // 固定步长比 Date.now 更平滑
@@ -174,15 +360,17 @@ export class World {
   }
 
   dispose() {
+    this.highlighter.dispose()
     this.renderer.dispose()
     this.controls.dispose()
     this.sceneManager.dispose()
     this.materialManager.dispose()
-    for (const renderer of this.renderers.values()) {
+    for (const renderer of new Set(this.renderers.values())) {
       renderer.dispose()
     }
     this.renderers.clear()
     this.reusableObjectMap.clear()
+    this.reusableRendererInputs.clear()
     this.pendingRenderables = null
   }
 }
\ No newline at end of file
@@ -10,6 +10,8 @@ import { LaneShaders } from './LaneShaders'
 export class MaterialManager {
   private laneMaterials: Map<string, THREE.ShaderMaterial> = new Map()
   private basicMaterials: Map<string, THREE.MeshLambertMaterial> = new Map()
+  // 🌟 [新增] 实例化图元材质 (白色底色，颜色由实例颜色提供)，按透明度缓存
+  private instancedMaterials: Map<number, THREE.MeshLambertMaterial> = new Map()
   private globalUniforms: Record<string, THREE.IUniform>
 
   constructor(globalUniforms: Record<string, THREE.IUniform>) {
@@ -73,6 +75,27 @@ export class MaterialManager {
     return material
   }
 
+  /**
+   * 🌟 [新增] 获取实例化图元材质
+   * 颜色逐实例设置 (InstancedMesh.setColorAt)，透明度无法逐实例设置，因此按透明度区分材质
+   * @param alpha 0 - 255
+   */
+  getInstancedMaterial(alpha: number): THREE.MeshLambertMaterial {
+    let material = this.instancedMaterials.get(alpha)
+    if (!material) {
+      const opacity = alpha / 255
+      material = new THREE.MeshLambertMaterial({
+        color: 0xffffff,
+        transparent: opacity < 0.95,
+        opacity,
+        side: THREE.DoubleSide,
+        depthWrite: true
+      })
+      this.instancedMaterials.set(alpha, material)
+    }
+    return material
+  }
+
   /**
    * 清理所有材质
    */
@@ -82,5 +105,8 @@ export class MaterialManager {
     
     this.basicMaterials.forEach(mat => mat.dispose())
     this.basicMaterials.clear()
+
+    this.instancedMaterials.forEach(mat => mat.dispose())
+    this.instancedMaterials.clear()
   }
 }
\ No newline at end of file
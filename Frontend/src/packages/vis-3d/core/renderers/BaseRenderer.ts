@@ -3,6 +3,23 @@
 import * as THREE from 'three'
 import type { DecodedObject } from '@/core/protocol/VizDecoder'
 
+/**
+ * 🌟 [新增] 拾取参数：射线已由 World 按鼠标位置设置好
+ */
+export interface PickContext {
+  raycaster: THREE.Raycaster
+  camera: THREE.Camera
+  pointer: THREE.Vector2     // 鼠标的 NDC 坐标 (-1 ~ 1)
+  width: number              // 视口像素尺寸
+  height: number
+  pixelRadius: number        // 点云拾取的像素半径
+}
+
+export interface PickHit {
+  id: string                 // 渲染器中的对象 ID (DecodedObject.id)
+  distance: number           // 与相机的距离，多个渲染器命中时取最近的
+}
+
 /**
  * 渲染器基类
  * 所有专用渲染器都继承自这个基类
@@ -39,6 +56,35 @@ export abstract class BaseRenderer {
     }
   }
 
+  /**
+   * 🌟 [新增] 拾取鼠标下最近的对象
+   * 默认用射线与各对象求交，命中的子节点向上找到所属的顶层对象
+   */
+  pick(ctx: PickContext): PickHit | null {
+    const hits = ctx.raycaster.intersectObject(this.group, true)
+    for (const hit of hits) {
+      let node: THREE.Object3D | null = hit.object
+      while (node && node.parent !== this.group) node = node.parent
+      const id = node ? this.findId(node) : undefined
+      if (id !== undefined) return { id, distance: hit.distance }
+    }
+    return null
+  }
+
+  /**
+   * 🌟 [新增] 按对象 ID 取渲染节点 (高亮、相机跟随等使用)
+   */
+  getObject(id: string): THREE.Object3D | undefined {
+    return this.objects.get(id)
+  }
+
+  protected findId(node: THREE.Object3D): string | undefined {
+    for (const [id, obj] of this.objects) {
+      if (obj === node) return id
+    }
+    return undefined
+  }
+
   /**
    * 销毁对象资源
    */
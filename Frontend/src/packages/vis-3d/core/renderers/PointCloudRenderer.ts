@@ -1,53 +1,77 @@
 // src/packages/vis-3d/core/renderers/PointCloudRenderer.ts
 
 import * as THREE from 'three'
-import { BaseRenderer } from './BaseRenderer'
+import { BaseRenderer, type PickContext, type PickHit } from './BaseRenderer'
 import type { DecodedObject } from '@/core/protocol/VizDecoder'
+import { getPointChannel, CHANNEL_POSITION } from '@/core/protocol/PointListDecoder'
+import {
+  resolvePointColoring,
+  PointColorMode,
+  RAMP_LOW,
+  RAMP_HIGH,
+  CATEGORY_PALETTE
+} from '@/core/vis/PointColoring'
 
 // 定义 Shader 材质
+// 🌟 [改造] 颜色在顶点着色器中按 uMode 计算：纯色 / 标量色带 / RGB 通道 / 分类调色板
 const pointCloudShaderMaterial = new THREE.ShaderMaterial({
   uniforms: {
     size: { value: 3.0 },
-    minIntensity: { value: 0.0 },
-    maxIntensity: { value: 255.0 }, // 根据你的数据调整强度范围
-    colorLow: { value: new THREE.Color(0x00ffff) },
-    colorHigh: { value: new THREE.Color(0xff0000) }
+    uMode: { value: PointColorMode.SOLID },
+    uMin: { value: 0.0 },
+    uMax: { value: 255.0 },
+    uSolid: { value: new THREE.Color(0xffffff) },
+    colorLow: { value: new THREE.Color().fromArray(RAMP_LOW) },
+    colorHigh: { value: new THREE.Color().fromArray(RAMP_HIGH) },
+    uPalette: { value: CATEGORY_PALETTE.map(c => new THREE.Color().fromArray(c)) }
   },
   vertexShader: `
-    attribute float intensity;
-    varying float vIntensity;
+    #define PALETTE_SIZE ${CATEGORY_PALETTE.length}
+    attribute float aScalar;
+    attribute vec3 aColor;
     uniform float size;
+    uniform int uMode;
+    uniform float uMin;
+    uniform float uMax;
+    uniform vec3 uSolid;
+    uniform vec3 colorLow;
+    uniform vec3 colorHigh;
+    uniform vec3 uPalette[PALETTE_SIZE];
+    varying vec3 vColor;
     void main() {
-      vIntensity = intensity;
+      if (uMode == 1) {
+        float t = clamp((aScalar - uMin) / (uMax - uMin), 0.0, 1.0);
+        vColor = mix(colorLow, colorHigh, t);
+      } else if (uMode == 2) {
+        vColor = clamp(aColor / uMax, 0.0, 1.0);
+      } else if (uMode == 3) {
+        int idx = int(mod(floor(aScalar + 0.5), float(PALETTE_SIZE)));
+        vColor = uPalette[idx];
+      } else {
+        vColor = uSolid;
+      }
       vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
       gl_PointSize = size * (300.0 / -mvPosition.z);
       gl_Position = projectionMatrix * mvPosition;
     }
   `,
   fragmentShader: `
-    uniform vec3 colorLow;
-    uniform vec3 colorHigh;
-    uniform float minIntensity;
-    uniform float maxIntensity;
-    varying float vIntensity;
+    varying vec3 vColor;
     void main() {
-      float t = (vIntensity - minIntensity) / (maxIntensity - minIntensity);
-      t = clamp(t, 0.0, 1.0);
-      vec3 color = mix(colorLow, colorHigh, t);
       if (length(gl_PointCoord - vec2(0.5)) > 0.5) discard;
-      gl_FragColor = vec4(color, 1.0);
+      gl_FragColor = vec4(vColor, 1.0);
     }
   `,
   transparent: false,
   depthWrite: true
 })
 
-export class PointCloudRenderer extends BaseRenderer {
-  private material: THREE.ShaderMaterial
+const pickMatrix = new THREE.Matrix4()
+const pickViewMatrix = new THREE.Matrix4()
 
+export class PointCloudRenderer extends BaseRenderer {
   constructor(scene: THREE.Scene) {
     super(scene, 'PointClouds')
-    this.material = pointCloudShaderMaterial.clone()
   }
 
   update(objects: DecodedObject[]): void {
@@ -76,7 +100,8 @@ export class PointCloudRenderer extends BaseRenderer {
 
   private createPointCloud(): THREE.Points {
     const geometry = new THREE.BufferGeometry()
-    const points = new THREE.Points(geometry, this.material)
+    // 每个点云独立材质：着色通道和取值范围各不相同
+    const points = new THREE.Points(geometry, pointCloudShaderMaterial.clone())
     points.frustumCulled = false 
     return points
   }
@@ -93,25 +118,91 @@ export class PointCloudRenderer extends BaseRenderer {
     const interleavedBuffer = new THREE.InterleavedBuffer(decodedData, stride)
     interleavedBuffer.setUsage(THREE.DynamicDrawUsage)
 
-    // 绑定 Position (Offset 0)
+    // 绑定 Position (Offset 0，XY 格式 z 由 GPU 补 0)
+    const position = getPointChannel(obj.points, CHANNEL_POSITION)
     geometry.setAttribute('position', 
-      new THREE.InterleavedBufferAttribute(interleavedBuffer, 3, 0)
+      new THREE.InterleavedBufferAttribute(interleavedBuffer, position?.components ?? Math.min(3, stride), 0)
     )
 
-    // 绑定 Intensity (Offset 3, 仅当 stride >= 4 时)
-    if (stride >= 4) {
-      geometry.setAttribute('intensity', 
-        new THREE.InterleavedBufferAttribute(interleavedBuffer, 1, 3)
-      )
-    } else {
-      geometry.deleteAttribute('intensity')
+    // 🌟 按当前设置绑定着色通道
+    const coloring = resolvePointColoring(obj.points)
+    geometry.deleteAttribute('aScalar')
+    geometry.deleteAttribute('aColor')
+    if (coloring.channel) {
+      if (coloring.mode === PointColorMode.RGB) {
+        geometry.setAttribute('aColor',
+          new THREE.InterleavedBufferAttribute(interleavedBuffer, 3, coloring.channel.offset)
+        )
+      } else {
+        geometry.setAttribute('aScalar',
+          new THREE.InterleavedBufferAttribute(interleavedBuffer, 1, coloring.channel.offset)
+        )
+      }
     }
 
+    const material = points.material as THREE.ShaderMaterial
+    material.uniforms.uMode.value = coloring.mode
+    material.uniforms.uMin.value = coloring.min
+    material.uniforms.uMax.value = coloring.max
+    material.uniforms.uSolid.value.setRGB(obj.color.r / 255, obj.color.g / 255, obj.color.b / 255)
+
     geometry.setDrawRange(0, count)
+    // 数据整体替换，包围体需重新计算 (高亮框依赖它)
+    geometry.boundingBox = null
+    geometry.boundingSphere = null
   }
 
-  dispose() {
-    this.material.dispose()
-    super.dispose()
+  /**
+   * 🌟 [新增] 点云按屏幕像素半径拾取：把点投影到屏幕，取半径内离相机最近的点
+   * 距离取相机到点的欧氏距离，与 Mesh 射线求交的距离可直接比较
+   */
+  pick(ctx: PickContext): PickHit | null {
+    let best: PickHit | null = null
+    const r2 = ctx.pixelRadius * ctx.pixelRadius
+    const halfW = ctx.width / 2
+    const halfH = ctx.height / 2
+
+    for (const [id, obj] of this.objects) {
+      const points = obj as THREE.Points
+      const position = points.geometry.getAttribute('position') as THREE.InterleavedBufferAttribute | undefined
+      if (!position) continue
+
+      pickViewMatrix.multiplyMatrices(ctx.camera.matrixWorldInverse, points.matrixWorld)
+      pickMatrix.multiplyMatrices(ctx.camera.projectionMatrix, pickViewMatrix)
+      const m = pickMatrix.elements
+      const v = pickViewMatrix.elements
+      const data = position.data.array as Float32Array
+      const stride = position.data.stride
+      const hasZ = position.itemSize >= 3
+      const count = Math.min(points.geometry.drawRange.count, position.count)
+
+      for (let i = 0, o = position.offset; i < count; i++, o += stride) {
+        const x = data[o]
+        const y = data[o + 1]
+        const z = hasZ ? data[o + 2] : 0
+        const w = m[3] * x + m[7] * y + m[11] * z + m[15]
+        if (w <= 0) continue
+        const dx = ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w - ctx.pointer.x) * halfW
+        const dy = ((m[1] * x + m[5] * y + m[9] * z + m[13]) / w - ctx.pointer.y) * halfH
+        if (dx * dx + dy * dy > r2) continue
+        // 相机坐标系下的位置即相机到点的向量
+        const distance = Math.hypot(
+          v[0] * x + v[4] * y + v[8] * z + v[12],
+          v[1] * x + v[5] * y + v[9] * z + v[13],
+          v[2] * x + v[6] * y + v[10] * z + v[14]
+        )
+        if (!best || distance < best.distance) best = { id, distance }
+      }
+    }
+    return best
+  }
+
+  protected disposeObject(obj: THREE.Object3D) {
+    if (obj instanceof THREE.Points) {
+      obj.geometry.dispose()
+      ;(obj.material as THREE.Material).dispose()
+      return
+    }
+    super.disposeObject(obj)
   }
-}
\ No newline at end of file
+}
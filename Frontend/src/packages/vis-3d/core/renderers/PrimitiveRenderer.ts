@@ -1,106 +1,303 @@
 // src/packages/vis-3d/core/renderers/PrimitiveRenderer.ts
 
 import * as THREE from 'three'
-import { BaseRenderer } from './BaseRenderer'
+import { BaseRenderer, type PickContext, type PickHit } from './BaseRenderer'
+import { TextRenderer } from './TextRenderer'
 import { MaterialManager } from '../materials/MaterialManager'
-import type { DecodedObject } from '@/core/protocol/VizDecoder'
+import { ObjectType, type DecodedObject } from '@/core/protocol/VizDecoder'
+import { layerManager } from '@/core/vis/LayerManager'
+import { boxStyleSettings, resolveBoxMode, boxLabel } from '@/core/vis/BoxStyle'
+
+// 单位几何体：按实例矩阵缩放到对象尺寸 (size 为完整的长宽高 / 直径)
+const UNIT_BOX = new THREE.BoxGeometry(1, 1, 1)
+const UNIT_SPHERE = new THREE.SphereGeometry(0.5, 12, 12)
+
+// 未给尺寸时的默认值 (米)
+const DEFAULT_CUBE_SIZE = 1
+const DEFAULT_SPHERE_SIZE = 0.4
+
+// 批次初始容量，不够时按 2 倍扩容
+const INITIAL_CAPACITY = 64
+
+// 线框模式：半透明填充的透明度 (0~255)、朝向箭头长度范围 (米)、标签离盒顶的高度 (米)
+const WIRE_FILL_ALPHA = 50
+const ARROW_MIN_LENGTH = 0.5
+const ARROW_MAX_LENGTH = 3
+const LABEL_OFFSET = 0.6
+
+// 单位立方体的 12 条棱 (角点下标，角点按 x/y/z 位取 ±0.5)
+const BOX_EDGES = [
+  0, 1, 2, 3, 4, 5, 6, 7,   // 沿 x
+  0, 2, 1, 3, 4, 6, 5, 7,   // 沿 y
+  0, 4, 1, 5, 2, 6, 3, 7    // 沿 z
+]
+// 每个线框盒的顶点数：12 条棱 + 箭头 3 段
+const WIRE_VERTICES_PER_BOX = BOX_EDGES.length + 6
 
 /**
- * 基础图元渲染器
- * 负责渲染 Sphere、Cube 等简单几何体
+ * 一个 InstancedMesh 批次：同一几何体 + 同一材质 (透明度)
+ */
+interface InstanceBatch {
+  mesh: THREE.InstancedMesh
+  ids: string[]       // 实例下标 -> 对象 ID
+}
+
+// 临时变量，避免每帧分配
+const _position = new THREE.Vector3()
+const _quaternion = new THREE.Quaternion()
+const _euler = new THREE.Euler()
+const _scale = new THREE.Vector3()
+const _matrix = new THREE.Matrix4()
+const _color = new THREE.Color()
+const _vertex = new THREE.Vector3()
+
+/**
+ * 🌟 [修改] 基础图元渲染器 (实例化)
+ * Sphere / Cube 按 几何体 + 材质 合批为 InstancedMesh，位置、旋转、尺寸写入实例矩阵，
+ * 颜色写入实例颜色，数百个障碍物只需少量 Draw Call。
+ * 拾取命中的 instanceId 经 ids 表映射回对象 ID
+ *
+ * 🌟 [新增] Cube 支持线框模式 (按图层 / SubType 选择，见 BoxStyle)：
+ * 所有线框盒的棱与朝向箭头合并为一个 LineSegments，填充仍走实例批次
+ * (关闭填充时批次隐藏但保留，用于拾取与高亮)，标签交给内部的 TextRenderer
  */
 export class PrimitiveRenderer extends BaseRenderer {
   private materialManager: MaterialManager
+  // 批次键 (几何体 + 透明度) -> 批次
+  private batches: Map<string, InstanceBatch> = new Map()
+  // 对象 ID -> 所在批次与下标
+  private instanceIndex: Map<string, { batch: InstanceBatch; index: number }> = new Map()
+  // 对象 ID -> 代理节点 (高亮、聚焦等需要单个对象的 Object3D)
+  private proxies: Map<string, THREE.Mesh> = new Map()
+  // 线框模式的棱与箭头 (按需扩容)
+  private wireLines: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>
+  private wireCapacity = 0
+  // 线框模式的标签
+  private labelRenderer: TextRenderer
 
   constructor(scene: THREE.Scene, materialManager: MaterialManager) {
     super(scene, 'Primitives')
     this.materialManager = materialManager
+    this.wireLines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ vertexColors: true })
+    )
+    this.wireLines.frustumCulled = false
+    this.group.add(this.wireLines)
+    this.labelRenderer = new TextRenderer(scene)
   }
 
   update(objects: DecodedObject[]): void {
-    const activeIds = new Set<string>()
-
+    // 1. 按批次分组 (线框盒的填充单独一个批次)
+    const grouped = new Map<string, DecodedObject[]>()
+    const wireframes: DecodedObject[] = []
+    const hasLayerModes = Object.keys(boxStyleSettings.layerModes).length > 0
     for (const obj of objects) {
-      activeIds.add(obj.id)
-      
-      let mesh = this.objects.get(obj.id) as THREE.Mesh | undefined
-      
-      if (!mesh) {
-        mesh = this.createPrimitive(obj)
-        if (mesh) {
-          mesh.userData = { id: obj.id, ...obj.properties }
-          mesh.matrixAutoUpdate = false
-          mesh.updateMatrix()
-          this.group.add(mesh)
-          this.objects.set(obj.id, mesh)
+      if (obj.type !== ObjectType.CUBE && obj.type !== ObjectType.SPHERE) continue
+      let key = `${obj.type}_${obj.color.a}`
+      if (obj.type === ObjectType.CUBE) {
+        const layerId = hasLayerModes ? layerManager.getObjectLayer(obj) : null
+        if (resolveBoxMode(obj, layerId) === 'wireframe') {
+          key = 'wire_fill'
+          wireframes.push(obj)
         }
-      } else {
-        this.updateTransform(mesh, obj)
       }
+      let list = grouped.get(key)
+      if (!list) grouped.set(key, list = [])
+      list.push(obj)
     }
 
-    this.cleanup(activeIds)
-  }
+    // 2. 写入实例数据
+    this.instanceIndex.clear()
+    for (const [key, list] of grouped) {
+      const alpha = key === 'wire_fill' ? WIRE_FILL_ALPHA : list[0].color.a
+      const batch = this.ensureBatch(key, list[0].type, alpha, list.length)
+      batch.mesh.visible = key !== 'wire_fill' || boxStyleSettings.fill
+      const mesh = batch.mesh
+      batch.ids.length = list.length
 
-  private createPrimitive(obj: DecodedObject): THREE.Mesh | null {
-    const material = this.materialManager.getBasicMaterial(obj.color)
-    let geometry: THREE.BufferGeometry | null = null
-  
-    if (obj.type === 6) { // SPHERE
-      const r = obj.size?.x || 0.2
-      geometry = new THREE.SphereGeometry(r, 12, 12)
-    } else if (obj.type === 5) { // CUBE
-      geometry = new THREE.BoxGeometry(
-        obj.size?.x || 1,
-        obj.size?.y || 1,
-        obj.size?.z || 1
-      )
+      list.forEach((obj, i) => {
+        mesh.setMatrixAt(i, composeMatrix(obj, _matrix))
+        _color.setRGB(obj.color.r / 255, obj.color.g / 255, obj.color.b / 255, THREE.SRGBColorSpace)
+        mesh.setColorAt(i, _color)
+        batch.ids[i] = obj.id
+        this.instanceIndex.set(obj.id, { batch, index: i })
+      })
+
+      mesh.count = list.length
+      mesh.instanceMatrix.needsUpdate = true
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true
+      // 包围球随实例变化，置空后由拾取 / 视锥剔除按需重算
+      mesh.boundingSphere = null
+      mesh.boundingBox = null
     }
-  
-    if (!geometry) return null
-  
-    const mesh = new THREE.Mesh(geometry, material)
-    
-    // 🌟 [确保设置 position] Sphere 和 Cube 需要设置位置
-    if (obj.position) {
-      mesh.position.set(obj.position.x, obj.position.y, obj.position.z)
+
+    // 3. 本帧没有对象的批次清空
+    for (const [key, batch] of this.batches) {
+      if (grouped.has(key)) continue
+      batch.mesh.count = 0
+      batch.ids.length = 0
     }
-    if (obj.rotation) {
-      mesh.rotation.set(obj.rotation.x, obj.rotation.y, obj.rotation.z)
+
+    for (const id of this.proxies.keys()) {
+      if (!this.instanceIndex.has(id)) this.proxies.delete(id)
     }
-  
-    return mesh
+
+    this.updateWireframes(wireframes)
   }
 
-  private updateTransform(mesh: THREE.Object3D, obj: DecodedObject) {
-    let needsUpdate = false
-
-    if (obj.position) {
-      const pos = mesh.position
-      if (
-        pos.x !== obj.position.x ||
-        pos.y !== obj.position.y ||
-        pos.z !== obj.position.z
-      ) {
-        mesh.position.set(obj.position.x, obj.position.y, obj.position.z)
-        needsUpdate = true
-      }
+  private ensureBatch(key: string, type: ObjectType, alpha: number, count: number): InstanceBatch {
+    let batch = this.batches.get(key)
+    if (batch && batch.mesh.instanceMatrix.count >= count) return batch
+
+    let capacity = batch ? batch.mesh.instanceMatrix.count : INITIAL_CAPACITY
+    while (capacity < count) capacity *= 2
+
+    // 容量不足：换一个更大的 InstancedMesh (几何体与材质共享，只释放实例缓冲)
+    if (batch) {
+      this.group.remove(batch.mesh)
+      batch.mesh.dispose()
+    }
+    const geometry = type === ObjectType.SPHERE ? UNIT_SPHERE : UNIT_BOX
+    const mesh = new THREE.InstancedMesh(geometry, this.materialManager.getInstancedMaterial(alpha), capacity)
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+    this.group.add(mesh)
+
+    batch = { mesh, ids: batch?.ids ?? [] }
+    this.batches.set(key, batch)
+    return batch
+  }
+
+  /**
+   * 线框盒：棱 + 朝向箭头写入合并的线段缓冲，标签生成 TEXT 对象交给 labelRenderer
+   */
+  private updateWireframes(boxes: DecodedObject[]) {
+    const vertexCount = boxes.length * WIRE_VERTICES_PER_BOX
+    const geometry = this.wireLines.geometry
+    if (vertexCount > this.wireCapacity) {
+      let capacity = Math.max(this.wireCapacity, INITIAL_CAPACITY * WIRE_VERTICES_PER_BOX)
+      while (capacity < vertexCount) capacity *= 2
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage))
+      geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage))
+      this.wireCapacity = capacity
     }
 
-    if (obj.rotation) {
-      const rot = mesh.rotation
-      if (
-        rot.x !== obj.rotation.x ||
-        rot.y !== obj.rotation.y ||
-        rot.z !== obj.rotation.z
-      ) {
-        mesh.rotation.set(obj.rotation.x, obj.rotation.y, obj.rotation.z)
-        needsUpdate = true
+    const labels: DecodedObject[] = []
+    if (this.wireCapacity > 0) {
+      const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+      const colors = geometry.getAttribute('color') as THREE.BufferAttribute
+      let v = 0
+      const push = (x: number, y: number, z: number) => {
+        _vertex.set(x, y, z).applyMatrix4(_matrix)
+        positions.setXYZ(v, _vertex.x, _vertex.y, _vertex.z)
+        colors.setXYZ(v, _color.r, _color.g, _color.b)
+        v++
       }
+
+      for (const obj of boxes) {
+        composeMatrix(obj, _matrix)
+        _color.setRGB(obj.color.r / 255, obj.color.g / 255, obj.color.b / 255, THREE.SRGBColorSpace)
+
+        for (const corner of BOX_EDGES) {
+          push(corner & 1 ? 0.5 : -0.5, corner & 2 ? 0.5 : -0.5, corner & 4 ? 0.5 : -0.5)
+        }
+
+        // 朝向箭头：从前脸 (+x) 中心向前伸出，长度以米计，换算到单位立方体坐标
+        _scale.setFromMatrixScale(_matrix)
+        const length = THREE.MathUtils.clamp(_scale.x * 0.4, ARROW_MIN_LENGTH, ARROW_MAX_LENGTH)
+        const head = length * 0.35
+        const tip = 0.5 + length / _scale.x
+        const back = tip - head / _scale.x
+        const side = head / _scale.y
+        push(0.5, 0, 0)
+        push(tip, 0, 0)
+        push(tip, 0, 0)
+        push(back, side, 0)
+        push(tip, 0, 0)
+        push(back, -side, 0)
+
+        const text = boxLabel(obj)
+        if (text) {
+          labels.push({
+            ...obj,
+            id: `${obj.id}/label`,
+            type: ObjectType.TEXT,
+            properties: { text },
+            position: { x: obj.position.x, y: obj.position.y, z: obj.position.z + _scale.z / 2 + LABEL_OFFSET }
+          })
+        }
+      }
+
+      positions.needsUpdate = true
+      colors.needsUpdate = true
+    }
+    geometry.setDrawRange(0, vertexCount)
+    this.wireLines.visible = vertexCount > 0
+
+    this.labelRenderer.update(labels)
+  }
+
+  /**
+   * 拾取：命中的实例映射回对象 ID
+   */
+  pick(ctx: PickContext): PickHit | null {
+    const meshes = Array.from(this.batches.values(), b => b.mesh).filter(m => m.count > 0)
+    for (const hit of ctx.raycaster.intersectObjects(meshes, false)) {
+      const batch = Array.from(this.batches.values()).find(b => b.mesh === hit.object)
+      const id = hit.instanceId !== undefined ? batch?.ids[hit.instanceId] : undefined
+      if (id !== undefined) return { id, distance: hit.distance }
+    }
+    return null
+  }
+
+  /**
+   * 单个实例的代理节点：共享批次几何体，矩阵为实例的世界矩阵 (不加入场景)
+   */
+  getObject(id: string): THREE.Object3D | undefined {
+    const entry = this.instanceIndex.get(id)
+    if (!entry) return undefined
+
+    let proxy = this.proxies.get(id)
+    if (!proxy || proxy.geometry !== entry.batch.mesh.geometry) {
+      proxy = new THREE.Mesh(entry.batch.mesh.geometry, entry.batch.mesh.material)
+      proxy.matrixAutoUpdate = false
+      this.proxies.set(id, proxy)
     }
+    entry.batch.mesh.updateWorldMatrix(true, false)
+    entry.batch.mesh.getMatrixAt(entry.index, _matrix)
+    proxy.matrix.multiplyMatrices(entry.batch.mesh.matrixWorld, _matrix)
+    return proxy
+  }
 
-    if (needsUpdate) {
-      mesh.updateMatrix()
+  dispose() {
+    for (const batch of this.batches.values()) {
+      this.group.remove(batch.mesh)
+      batch.mesh.dispose()
     }
+    this.batches.clear()
+    this.instanceIndex.clear()
+    this.proxies.clear()
+    this.wireLines.geometry.dispose()
+    this.wireLines.material.dispose()
+    this.labelRenderer.dispose()
+    super.dispose()
+  }
+}
+
+/**
+ * 位置 / 旋转 / 尺寸 -> 实例矩阵
+ */
+function composeMatrix(obj: DecodedObject, out: THREE.Matrix4): THREE.Matrix4 {
+  const p = obj.position
+  const r = obj.rotation
+  _position.set(p?.x ?? 0, p?.y ?? 0, p?.z ?? 0)
+  _quaternion.setFromEuler(_euler.set(r?.x ?? 0, r?.y ?? 0, r?.z ?? 0))
+
+  if (obj.type === ObjectType.SPHERE) {
+    const d = obj.size?.x || DEFAULT_SPHERE_SIZE
+    _scale.set(d, obj.size?.y || d, obj.size?.z || d)
+  } else {
+    _scale.set(obj.size?.x || DEFAULT_CUBE_SIZE, obj.size?.y || DEFAULT_CUBE_SIZE, obj.size?.z || DEFAULT_CUBE_SIZE)
   }
-}
\ No newline at end of file
+  return out.compose(_position, _quaternion, _scale)
+}
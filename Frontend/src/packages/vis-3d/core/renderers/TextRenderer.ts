@@ -0,0 +1,89 @@
+// src/packages/vis-3d/core/renderers/TextRenderer.ts
+
+import * as THREE from 'three'
+import { BaseRenderer } from './BaseRenderer'
+import type { DecodedObject } from '@/core/protocol/VizDecoder'
+
+// 文字在世界中的高度 (米) 与贴图字号 (像素)
+const TEXT_HEIGHT = 0.8
+const FONT_PX = 48
+
+/**
+ * 🌟 [新增] 文本渲染器
+ * 负责渲染 TEXT 类型的标签：每个标签一个始终朝向相机的 Sprite，文字画在 Canvas 贴图上
+ */
+export class TextRenderer extends BaseRenderer {
+  // 贴图对应的文字与颜色，变化时才重画
+  private labels: Map<string, string> = new Map()
+
+  constructor(scene: THREE.Scene) {
+    super(scene, 'Texts')
+  }
+
+  update(objects: DecodedObject[]): void {
+    const activeIds = new Set<string>()
+
+    for (const obj of objects) {
+      const text = obj.properties?.text ?? obj.name
+      if (!text) continue
+      activeIds.add(obj.id)
+
+      const { r, g, b } = obj.color
+      const key = `${text}|${r},${g},${b}`
+      let sprite = this.objects.get(obj.id) as THREE.Sprite | undefined
+
+      if (!sprite) {
+        sprite = new THREE.Sprite(new THREE.SpriteMaterial({ depthTest: false, transparent: true }))
+        sprite.renderOrder = 10
+        sprite.userData = { id: obj.id, ...obj.properties }
+        this.group.add(sprite)
+        this.objects.set(obj.id, sprite)
+      }
+
+      if (this.labels.get(obj.id) !== key) {
+        this.drawLabel(sprite, text, `rgb(${r},${g},${b})`)
+        this.labels.set(obj.id, key)
+      }
+      sprite.position.set(obj.position.x, obj.position.y, obj.position.z)
+    }
+
+    this.cleanup(activeIds)
+    for (const id of this.labels.keys()) {
+      if (!activeIds.has(id)) this.labels.delete(id)
+    }
+  }
+
+  private drawLabel(sprite: THREE.Sprite, text: string, color: string) {
+    const canvas = document.createElement('canvas')
+    const ctx = canvas.getContext('2d')!
+    ctx.font = `${FONT_PX}px sans-serif`
+    const width = Math.ceil(ctx.measureText(text).width) + 16
+    canvas.width = width
+    canvas.height = FONT_PX + 16
+
+    // 改尺寸后上下文状态被重置，需重新设置字体
+    ctx.font = `${FONT_PX}px sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillStyle = 'rgba(0,0,0,0.45)'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.fillStyle = color
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2)
+
+    const material = sprite.material
+    material.map?.dispose()
+    material.map = new THREE.CanvasTexture(canvas)
+    material.map.colorSpace = THREE.SRGBColorSpace
+    material.needsUpdate = true
+    sprite.scale.set((TEXT_HEIGHT * canvas.width) / canvas.height, TEXT_HEIGHT, 1)
+  }
+
+  protected disposeObject(obj: THREE.Object3D) {
+    if (obj instanceof THREE.Sprite) {
+      obj.material.map?.dispose()
+      obj.material.dispose()
+      return
+    }
+    super.disposeObject(obj)
+  }
+}
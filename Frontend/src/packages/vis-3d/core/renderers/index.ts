@@ -5,4 +5,5 @@ export { LaneLineRenderer } from './LaneLineRenderer'
 export { PolygonRenderer } from './PolygonRenderer'
 export { PrimitiveRenderer } from './PrimitiveRenderer'
 export { PointCloudRenderer } from './PointCloudRenderer'
-export { ModelRenderer } from './ModelRenderer'
\ No newline at end of file
+export { ModelRenderer } from './ModelRenderer'
+export { TextRenderer } from './TextRenderer'
@@ -2,7 +2,9 @@
 
 import { defineStore } from 'pinia'
 import { reactive, watch } from 'vue'
-import type { IDELayoutConfig } from '@/types/layout-config'
+import type {
+  IDELayoutConfig, CameraMode, CameraFollowTarget, SavedViewpoint
+} from '@/types/layout-config'
 import { ElMessage } from 'element-plus'
 
 const STORAGE_KEY = 'ide_layout_config_v1'
@@ -46,6 +48,12 @@ const DEFAULT_LAYOUT: IDELayoutConfig = {
     coordinateMode: 'standard', // 默认标准系
     showGrid: true,
     showAxis: true
+  },
+  // 🌟 [新增] 3D 相机
+  vis3d: {
+    cameraMode: 'orbit',
+    followTarget: null,
+    viewpoints: []
   }
 }
 
@@ -64,6 +72,8 @@ export const useLayoutStore = defineStore('layout', () => {
         const parsed = JSON.parse(json)
         // 简单版本检查，如果版本不对则丢弃旧配置
         if (parsed.version === CURRENT_VERSION) {
+          // 新增的配置段在旧存档中不存在，用默认值补齐
+          parsed.vis3d ??= JSON.parse(JSON.stringify(DEFAULT_LAYOUT.vis3d))
           return parsed
         }
         console.warn('[Layout] Version mismatch, resetting to default.')
@@ -242,6 +252,31 @@ export const useLayoutStore = defineStore('layout', () => {
     }
   }
 
+  // ========== 5. 🌟 [新增] 3D 相机 ==========
+
+  function setCameraMode(mode: CameraMode) {
+    state.vis3d.cameraMode = mode
+  }
+
+  function setFollowTarget(target: CameraFollowTarget | null) {
+    state.vis3d.followTarget = target
+  }
+
+  /**
+   * 保存视角 (同名覆盖)
+   */
+  function saveViewpoint(viewpoint: SavedViewpoint) {
+    const list = state.vis3d.viewpoints
+    const idx = list.findIndex(v => v.name === viewpoint.name)
+    if (idx >= 0) list.splice(idx, 1, viewpoint)
+    else list.push(viewpoint)
+  }
+
+  function removeViewpoint(name: string) {
+    const idx = state.vis3d.viewpoints.findIndex(v => v.name === name)
+    if (idx >= 0) state.vis3d.viewpoints.splice(idx, 1)
+  }
+
   return {
     state,
     resetLayout,
@@ -254,6 +289,10 @@ export const useLayoutStore = defineStore('layout', () => {
     togglePanelMaximize,
     exportConfigToFile,
     importConfigFromFile,
-    updateSidebarWidth
+    updateSidebarWidth,
+    setCameraMode,
+    setFollowTarget,
+    saveViewpoint,
+    removeViewpoint
   }
 })
\ No newline at end of file
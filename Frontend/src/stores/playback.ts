@@ -5,14 +5,36 @@ import { ref, computed } from 'vue'
 import type { 
   PlaybackStatus, 
   PlayMode,
-  TimestampType 
+  TimestampType,
+  CommandParamsMap,
+  CommandType,
+  InitInfoMessage,
+  PlaybackStatusMessage,
+  CommandAckMessage,
+  SubscriptionAckMessage,
+  ErrorResponseMessage,
+  TopicSchemaMessage,
+  TopicDataMessage,
+  TopicDataResponseMessage,
+  AvailableTopicsMessage
 } from '@/types/playback'
 import { useDataBus } from '@/composables/useDataBus'
 import { useTopicsStore } from './topics'
-import { ElMessage } from 'element-plus'
+import { ElMessage, ElNotification } from 'element-plus'
+import type { NegotiatedProtocol } from '@/core/protocol/ProtocolCapabilities'
+import { RpcError } from '@/core/RpcClient'
+import { RpcErrorCode } from '@/core/types/rpc'
+import type { IDataDriver } from '@/core/types/driver'
+import type { ReplaySource } from '@/core/replay/ReplaySource'
+import { driverRegistry } from '@/core/driver/DriverRegistry'
+import { OfflineReplayTransport } from '@/core/replay/OfflineReplayTransport'
 
 // 引入 SceneManager
 import { sceneManager } from '@/packages/vis-3d/core/SceneManager'
+import { layerManager } from '@/core/vis/LayerManager'
+
+// 场景重同步请求的最小间隔 (毫秒)，关键帧到达前的后续增量帧也会触发
+const RESYNC_INTERVAL_MS = 1000
 
 export const usePlaybackStore = defineStore('playback', () => {
   // ========== 状态 ==========
@@ -20,6 +42,10 @@ export const usePlaybackStore = defineStore('playback', () => {
   const connected = ref(false)
   const serverVersion = ref('')
   
+  // 🌟 [新增] 协议握手结果
+  const protocolVersion = ref<number | null>(null)
+  const protocolError = ref('')
+  
   const isPlaying = ref(false)
   const playMode = ref<PlayMode>('FRAME_BASED')
   const timestampType = ref<TimestampType>('RAW_TIMESTAMP')
@@ -35,14 +61,24 @@ export const usePlaybackStore = defineStore('playback', () => {
   const speedMultiplier = ref(1.0)
   const availableKeys = ref<string[]>([])
   
+  // 🌟 [新增] 当前数据驱动 (名称)
+  const driverName = ref('')
+  
   // 核心依赖
-  const { dataBus, subscribe, sendCommand: sendDataBusCommand, request } = useDataBus()
+  const { dataBus, subscribe, sendCommand: sendDataBusCommand, request, connect, openLocal } = useDataBus()
+  
+  driverRegistry.on('driver-changed', (driver: IDataDriver) => {
+    driverName.value = driver.name
+  })
   
   // 初始化锁
   let isInitialized = false
   
   // 乐观更新计时器
   let optimisticTimer: number | null = null
+
+  // 上次请求重同步的时间
+  let lastResyncAt = 0
   
   // ========== 计算属性 ==========
   
@@ -74,11 +110,17 @@ export const usePlaybackStore = defineStore('playback', () => {
     subscribe('COMMAND_ACK', handleCommandAck)
     subscribe('ERROR', handleError)
     subscribe('SUBSCRIPTION_ACK', handleSubscriptionAck)
+    subscribe('AVAILABLE_TOPICS', handleAvailableTopics)
     
-    subscribe('TOPIC_SCHEMA', (msg: any) => topics.handleTopicSchema(msg))
-    subscribe('TOPIC_DATA', (msg: any) => topics.handleTopicData(msg))
-    subscribe('TOPIC_SCHEMA_RESPONSE', (msg: any) => topics.handleTopicSchemaResponse(msg))
-    subscribe('TOPIC_DATA_RESPONSE', (msg: any) => topics.handleTopicDataResponse(msg))
+    dataBus.on('protocol-negotiated', handleProtocolNegotiated)
+    dataBus.on('protocol-rejected', handleProtocolRejected)
+    dataBus.on('protocol-error', handleProtocolError)
+    layerManager.on('resync-required', handleResyncRequired)
+    
+    subscribe('TOPIC_SCHEMA', (msg: TopicSchemaMessage) => topics.handleTopicSchema(msg))
+    subscribe('TOPIC_DATA', (msg: TopicDataMessage) => topics.handleTopicData(msg))
+    subscribe('TOPIC_SCHEMA_RESPONSE', (msg: TopicSchemaMessage) => topics.handleTopicSchemaResponse(msg))
+    subscribe('TOPIC_DATA_RESPONSE', (msg: TopicDataResponseMessage) => topics.handleTopicDataResponse(msg))
     
     isInitialized = true
     console.log('✅ Playback store initialized (Listeners Attached)')
@@ -86,8 +128,8 @@ export const usePlaybackStore = defineStore('playback', () => {
   
   // ========== 消息处理 ==========
   
-  function handleInitInfo(msg: any) {
-    const data = msg.data || msg
+  function handleInitInfo(msg: InitInfoMessage) {
+    const data = msg.data
     console.log('📥 Received INIT_INFO')
     serverVersion.value = data.server_version || ''
     availableKeys.value = data.available_keys || []
@@ -106,10 +148,52 @@ export const usePlaybackStore = defineStore('playback', () => {
     connected.value = true
   }
   
-  function handlePlaybackStatus(msg: any) {
+  /**
+   * 🌟 [新增] 可用 Topic 变化 (如 Foxglove 服务端 advertise / unadvertise)
+   */
+  function handleAvailableTopics(msg: AvailableTopicsMessage) {
+    const keys = msg.available_keys
+    const topics = useTopicsStore()
+    topics.removeTopics(availableKeys.value.filter(key => !keys.includes(key)))
+    topics.initializeTopics(keys)
+    availableKeys.value = keys
+  }
+  
+  function handleProtocolNegotiated(protocol: NegotiatedProtocol) {
+    protocolVersion.value = protocol.version
+    protocolError.value = ''
+    if (protocol.version === 0) {
+      console.warn('⚠️ Server did not declare protocol capabilities, falling back to legacy v0 decoding')
+    }
+  }
+  
+  // 服务端能力不兼容：断开连接，避免继续收到无法解析的数据
+  function handleProtocolRejected({ reason }: { reason: string }) {
+    protocolVersion.value = null
+    protocolError.value = reason
+    ElNotification({ type: 'error', title: '服务端协议不兼容', message: reason, duration: 0 })
+    dataBus.disconnect()
+    connected.value = false
+  }
+  
+  function handleProtocolError({ message }: { message: string }) {
+    ElNotification({ type: 'warning', title: '场景数据与协商的协议不符', message })
+  }
+  
+  /**
+   * 🌟 [新增] 增量帧无法应用 (丢帧 / 补丁找不到父节点)：跳转到当前帧，让服务端重发完整场景
+   */
+  function handleResyncRequired() {
+    const now = Date.now()
+    if (!dataBus.isConnected() || now - lastResyncAt < RESYNC_INTERVAL_MS) return
+    lastResyncAt = now
+    console.warn(`[Playback] Scene out of sync, requesting keyframe at frame ${currentFrameId.value}`)
+    seekToFrame(currentFrameId.value)
+  }
+  
+  function handlePlaybackStatus(msg: PlaybackStatusMessage) {
     if (optimisticTimer) return
-    const status = msg.data || msg
-    updateStatus(status)
+    updateStatus(msg.data)
   }
   
   function updateStatus(data: PlaybackStatus, force = false) {
@@ -143,7 +227,7 @@ export const usePlaybackStore = defineStore('playback', () => {
     speedMultiplier.value = data.speed_multiplier || 1.0
   }
   
-  function handleCommandAck(msg: any) {
+  function handleCommandAck(msg: CommandAckMessage) {
     if (!msg.success) {
       console.error(`Command ${msg.command} failed: ${msg.message}`)
       ElMessage.error(`${msg.command} 失败: ${msg.message}`)
@@ -154,7 +238,7 @@ export const usePlaybackStore = defineStore('playback', () => {
     }
   }
   
-  function handleSubscriptionAck(msg: any) {
+  function handleSubscriptionAck(msg: SubscriptionAckMessage) {
     if (msg.success) {
       ElMessage.success(`订阅成功: ${msg.topic_key}`)
     } else {
@@ -163,13 +247,13 @@ export const usePlaybackStore = defineStore('playback', () => {
     }
   }
   
-  function handleError(msg: any) {
+  function handleError(msg: ErrorResponseMessage) {
     if (msg.message && msg.message.includes('HEARTBEAT')) return;
     console.error('📥 Received ERROR:', msg)
     ElMessage.error(`服务器错误: ${msg.message}`)
   }
   
-  function sendCommand(type: string, params?: any): boolean {
+  function sendCommand<K extends CommandType>(type: K, params?: CommandParamsMap[K]): boolean {
     if (!dataBus.isConnected()) {
       if (!wsConnected.value) ElMessage.error('DataBus 未连接')
       return false
@@ -184,10 +268,57 @@ export const usePlaybackStore = defineStore('playback', () => {
   }
   
   // 🌟 [修正] 添加 function 关键字
-  async function requestTopicData(topicKey: string): Promise<any> {
+  async function requestTopicData(topicKey: string): Promise<TopicDataResponseMessage> {
     return await request('GET_TOPIC_DATA', { topic_key: topicKey })
   }
   
+  // ========== 🌟 [新增] 驱动选择与连接 ==========
+  
+  /**
+   * 选择驱动并连接服务端；未指定驱动时按地址自动识别
+   */
+  async function connectServer(url: string, name?: string): Promise<IDataDriver> {
+    const driver = name ? driverRegistry.get(name) : driverRegistry.detectForUrl(url)
+    if (!driver?.capabilities?.live) {
+      throw new Error(name ? `驱动 ${name} 不支持连接服务端` : '没有可用的在线驱动')
+    }
+    driverRegistry.select(driver.name)
+    await connect(url)
+    return driver
+  }
+  
+  /**
+   * 用驱动打开本地文件或录制目录，经 OfflineReplayTransport 接入 DataBus；
+   * 未指定驱动时按文件扩展名 (或目录能力) 自动识别
+   */
+  async function openFiles(
+    files: File[],
+    options: { directory?: boolean; driver?: string } = {}
+  ): Promise<{ source: ReplaySource; url: string }> {
+    const driver = options.driver
+      ? driverRegistry.get(options.driver)
+      : options.directory
+        ? driverRegistry.detectForDirectory()
+        : driverRegistry.detectForFile(files[0]?.name ?? '')
+    const open = options.directory ? driver?.openDirectory : driver?.openFile
+    if (!driver || !open) {
+      throw new Error(options.directory ? '没有可打开录制目录的驱动' : `不支持的文件类型: ${files[0]?.name ?? ''}`)
+    }
+
+    // 数据源打开成功后才切换驱动；接入 DataBus 失败时恢复原驱动
+    const source = await (options.directory ? driver.openDirectory!(files) : driver.openFile!(files[0]))
+    const previous = driverRegistry.getActive()
+    driverRegistry.select(driver.name)
+    const transport = new OfflineReplayTransport(source)
+    try {
+      await openLocal(transport)
+    } catch (error) {
+      driverRegistry.select(previous.name)
+      throw error
+    }
+    return { source, url: transport.getUrl() }
+  }
+  
   // ========== 🌟 [核心修改] 业务控制方法 (乐观更新 + 物理阻断) ==========
   
   function setOptimisticState(playing: boolean) {
@@ -312,6 +443,10 @@ export const usePlaybackStore = defineStore('playback', () => {
           })
         }
       } catch (error) {
+        // 断线/取消属于正常流程；服务端 ERROR 已由 handleError 提示
+        if (error instanceof RpcError && error.code === RpcErrorCode.TIMEOUT) {
+          ElMessage.warning(`获取 ${topicKey} 初始数据超时`)
+        }
         console.warn('⚠️ [AutoFetch] Failed to fetch initial data:', error)
       }
     }
@@ -325,6 +460,8 @@ export const usePlaybackStore = defineStore('playback', () => {
   return {
     connected,
     serverVersion,
+    protocolVersion,
+    protocolError,
     isPlaying,
     playMode,
     timestampType,
@@ -335,12 +472,15 @@ export const usePlaybackStore = defineStore('playback', () => {
     progress,
     speedMultiplier,
     availableKeys,
+    driverName,
     wsConnected,
     totalFrames,
     duration,
     currentTimeFormatted,
     progressPercent,
     initialize,
+    connectServer,
+    openFiles,
     sendCommand,
     requestTopicSchema,
     requestTopicData,
@@ -2,6 +2,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { TopicSubscription } from '@/types/topic'
+import type { TopicSchemaMessage, TopicDataMessage, TopicDataResponseMessage } from '@/types/playback'
 import { schemaManager } from '@/core/data/SchemaManager'
 import { dataManager } from '@/core/data/DataManager'
 
@@ -44,7 +45,7 @@ export const useTopicsStore = defineStore('topics', () => {
   /**
    * 处理 TOPIC_SCHEMA 推送消息(播放时的实时schema)
    */
-  function handleTopicSchema(msg: any) {
+  function handleTopicSchema(msg: Pick<TopicSchemaMessage, 'topic_key' | 'schema'>) {
     console.log('📊 TopicsStore: Received TOPIC_SCHEMA push:', msg.topic_key)
     schemaManager.setSchema(msg.topic_key, msg.schema)
   }
@@ -52,7 +53,7 @@ export const useTopicsStore = defineStore('topics', () => {
   /**
    * 处理 TOPIC_DATA 推送消息(播放时的实时数据)
    */
-  function handleTopicData(msg: any) {
+  function handleTopicData(msg: Pick<TopicDataMessage, 'topic_key' | 'frame_id' | 'timestamp' | 'data'>) {
     const topicKey = msg.topic_key
     
     // 更新数据(转发给 DataManager)
@@ -74,7 +75,7 @@ export const useTopicsStore = defineStore('topics', () => {
   /**
    * 🆕 处理 TOPIC_SCHEMA_RESPONSE(主动请求的schema响应)
    */
-  function handleTopicSchemaResponse(msg: any) {
+  function handleTopicSchemaResponse(msg: Pick<TopicSchemaMessage, 'topic_key' | 'schema'>) {
     console.log('📊 TopicsStore: Received TOPIC_SCHEMA_RESPONSE:', msg.topic_key)
     
     // 直接设置schema到 SchemaManager
@@ -86,14 +87,14 @@ export const useTopicsStore = defineStore('topics', () => {
   /**
    * 🆕 处理 TOPIC_DATA_RESPONSE(主动请求的数据响应)
    */
-  function handleTopicDataResponse(msg: any) {
+  function handleTopicDataResponse(msg: Pick<TopicDataResponseMessage, 'topic_key' | 'frame_id' | 'timestamp' | 'data'>) {
     const topicKey = msg.topic_key
     
     console.log('📊 TopicsStore: Received TOPIC_DATA_RESPONSE:', topicKey,
                msg.frame_id !== null ? `frame: ${msg.frame_id}` : '(no data)')
     
     // 如果有数据,更新到 DataManager
-    if (msg.data !== null) {
+    if (msg.data !== null && msg.frame_id !== null && msg.timestamp !== null) {
       dataManager.updateData(topicKey, {
         frame_id: msg.frame_id,
         timestamp: msg.timestamp,
@@ -129,6 +130,16 @@ export const useTopicsStore = defineStore('topics', () => {
     })
   }
   
+  /**
+   * 🌟 [新增] 移除不再可用的topics (订阅状态与已缓存的数据)
+   */
+  function removeTopics(keys: string[]) {
+    keys.forEach(key => {
+      subscriptions.value.delete(key)
+      dataManager.clearTopic(key)
+    })
+  }
+  
   /**
    * 订阅topic
    */
@@ -201,6 +212,7 @@ export const useTopicsStore = defineStore('topics', () => {
     // 订阅管理
     initialize,
     initializeTopics,
+    removeTopics,
     subscribeTopic,
     unsubscribeTopic,
     getSchema,
@@ -27,6 +27,34 @@ export interface PanelState {
     showAxis: boolean
   }
   
+  // 🌟 [新增] 3D 相机模式：自由环绕 / 跟随 / 追尾 / 俯视正交
+  export type CameraMode = 'orbit' | 'follow' | 'chase' | 'topdown'
+
+  // 🌟 [新增] 跟随目标：按对象 ID 或按属性值 (如 role = ego) 匹配
+  export interface CameraFollowTarget {
+    by: 'id' | 'property'
+    value: string
+    key?: string   // by = 'property' 时的属性名
+  }
+
+  // 🌟 [新增] 保存的视角
+  // 跟随 / 追尾模式下 position、target 是相对跟随目标的偏移，其余模式为场景坐标
+  export interface SavedViewpoint {
+    name: string
+    mode: CameraMode
+    position: [number, number, number]
+    target: [number, number, number]
+    zoom: number
+    relative?: boolean  // 位姿相对跟随目标保存 (缺省按模式判断，兼容旧配置)
+  }
+
+  // 🌟 [新增] 3D 可视化配置
+  export interface Vis3DSettings {
+    cameraMode: CameraMode
+    followTarget: CameraFollowTarget | null
+    viewpoints: SavedViewpoint[]
+  }
+
   // 🌟 完整的布局配置对象
   export interface IDELayoutConfig {
     version: number
@@ -46,4 +74,7 @@ export interface PanelState {
     
     // 🆕 新增：2D 专属配置
     vis2d: Vis2DSettings
+
+    // 🌟 [新增] 3D 相机与视角
+    vis3d: Vis3DSettings
   }
\ No newline at end of file
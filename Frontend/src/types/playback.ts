@@ -1,5 +1,8 @@
 // playback.ts - 播放相关类型定义
 
+import type { ProtocolCapabilities } from '@/core/protocol/ProtocolCapabilities'
+import type { TopicSchema } from './topic'
+
 export type PlayMode = 'FRAME_BASED' | 'TIME_BASED'
 export type TimestampType = 'RAW_TIMESTAMP' | 'LOCAL_TIMESTAMP'
 export type PlaybackState = 'playing' | 'paused' | 'stopped'
@@ -33,6 +36,7 @@ export interface InitInfo {
   server_version: string
   available_keys: string[]
   initial_status: PlaybackStatus
+  protocol?: ProtocolCapabilities // 旧服务端不带，按 v0 处理
 }
 
 export interface CommandAck {
@@ -46,6 +50,112 @@ export interface ErrorMessage {
   message: string
 }
 
+// ========== 🌟 [新增] 控制消息 (JSON) ==========
+// 入站消息由 DataBus 校验后按 type 分发，订阅回调拿到的都是下列结构；
+// INIT_INFO / PLAYBACK_STATUS 的业务字段统一放在 data 中 (旧服务端平铺的字段在校验时收拢)
+
+export interface InitInfoMessage {
+  type: 'INIT_INFO'
+  data: InitInfo
+}
+
+export interface PlaybackStatusMessage {
+  type: 'PLAYBACK_STATUS'
+  data: PlaybackStatus
+}
+
+export interface CommandAckMessage extends CommandAck {
+  type: 'COMMAND_ACK'
+}
+
+export interface ErrorResponseMessage {
+  type: 'ERROR'
+  message: string
+  error_code?: string
+  _requestId?: string   // 请求-响应失败时带回
+  error?: string
+}
+
+export interface SubscriptionAckMessage {
+  type: 'SUBSCRIPTION_ACK'
+  success: boolean
+  topic_key: string
+  message?: string
+}
+
+export interface AvailableTopicsMessage {
+  type: 'AVAILABLE_TOPICS'
+  available_keys: string[]
+  _requestId?: string
+}
+
+export interface TopicSchemaMessage {
+  type: 'TOPIC_SCHEMA' | 'TOPIC_SCHEMA_RESPONSE'
+  topic_key: string
+  schema: TopicSchema
+  _requestId?: string
+}
+
+export interface TopicDataMessage {
+  type: 'TOPIC_DATA'
+  topic_key: string
+  frame_id: number
+  timestamp: number
+  data: Record<string, any>
+}
+
+export interface TopicDataResponseMessage {
+  type: 'TOPIC_DATA_RESPONSE'
+  topic_key: string
+  frame_id: number | null    // 当前帧没有该 Topic 数据时为 null
+  timestamp: number | null
+  data: Record<string, any> | null
+  _requestId?: string
+}
+
+export type InboundMessage =
+  | InitInfoMessage
+  | PlaybackStatusMessage
+  | CommandAckMessage
+  | ErrorResponseMessage
+  | SubscriptionAckMessage
+  | AvailableTopicsMessage
+  | TopicSchemaMessage
+  | TopicDataMessage
+  | TopicDataResponseMessage
+
+export type InboundMessageType = InboundMessage['type']
+export type InboundMessageOf<T extends InboundMessageType> = Extract<InboundMessage, { type: T }>
+
+/**
+ * 出站命令：type 与 params 一一对应
+ */
+export interface CommandParamsMap {
+  HELLO: ProtocolCapabilities
+  HEARTBEAT: undefined
+  PLAY: undefined
+  PAUSE: undefined
+  STOP: undefined
+  RESET: undefined
+  NEXT_FRAME: undefined
+  PREV_FRAME: undefined
+  SEEK_FRAME: { frame_id: number }
+  SEEK_TIME: { timestamp: number }
+  SEEK_PROGRESS: { progress: number }
+  SET_SPEED: { multiplier: number }
+  GET_STATUS: undefined
+  SUBSCRIBE_TOPIC: { topic_key: string }
+  GET_AVAILABLE_TOPICS: { _requestId?: string } | undefined
+  GET_TOPIC_SCHEMA: { topic_key: string; _requestId?: string }
+  GET_TOPIC_DATA: { topic_key: string; _requestId?: string }
+}
+
+export type CommandType = keyof CommandParamsMap
+
+export type OutboundCommand = {
+  [K in CommandType]: { type: K; timestamp: number; params?: CommandParamsMap[K] }
+}[CommandType]
+
 // WebSocket消息类型
 export type WSMessageType = 
   | 'INIT_INFO' 
@@ -1,5 +1,9 @@
 // topic.ts - Topic相关类型定义
 
+// 🌟 [新增] 枚举值表 / map / oneof 描述与 core/types/common 共用
+import type { TopicEnum, TopicMapEntry, TopicOneof } from '@/core/types/common'
+export type { TopicEnum, TopicMapEntry, TopicOneof }
+
 export interface TopicField {
     id: number
     name: string
@@ -8,11 +12,14 @@ export interface TopicField {
     repeated: boolean
     message_type?: string
     enum_type?: string
+    map?: TopicMapEntry
   }
   
   export interface TopicSchema {
     proto_type: string
     fields: TopicField[]
+    enums?: Record<string, TopicEnum>
+    oneofs?: TopicOneof[]
   }
   
   export interface TopicData {
@@ -29,4 +36,16 @@ export interface TopicField {
     key: string
     subscribed: boolean
     lastUpdate?: number
-  }
\ No newline at end of file
+  }
+  /**
+   * 字段拖拽载荷 (数据结构面板 -> 时间曲线等面板)
+   * path 即 RenderedTreeNode.path，如 "objects[0].velocity.x"
+   */
+  export const FIELD_DRAG_MIME = 'application/x-topic-field'
+
+  export interface FieldDragPayload {
+    topicKey: string
+    path: string
+    name: string
+    type: string
+  }
@@ -22,9 +22,6 @@ export default defineConfig({
   ],
   resolve: {
     alias: {
-      // ✅ 直接指向 src/drivers/schema/index.ts
-      '@/driver': fileURLToPath(new URL('./src/drivers/schema/index.ts', import.meta.url)),
-      
       // 标准 @ 别名
       '@': fileURLToPath(new URL('./src', import.meta.url))
     }